@@ -11,24 +11,29 @@ import {
   ImageList,
   TextWatermarkPanel,
   ImageWatermarkPanel,
+  QrWatermarkPanel,
+  LayerPanel,
   PositionPanel,
+  PageOverridePanel,
   PreviewCanvas,
   PresetPanel,
   ExportPanel,
   CropPanel,
+  SpreadPanel,
+  AdjustmentsPanel,
   CompressionPresetPanel,
   BatchRenamePanel,
+  InvisibleWatermarkPanel,
+  VerifyPanel,
+  DistributionPanel,
   AIToolsTab,
+  type UploadReport,
 } from '@/components';
-import {
-  type PresetName,
-  type CompressionPreset,
-  type RenamePattern,
-  createDefaultRenamePattern,
-} from '@/types';
-import { useImages, useWatermarkSettings, usePresets } from '@/hooks';
-
-type WatermarkTab = 'text' | 'image';
+import { useImages, useWatermarkSettings, usePresets, useExport, useFonts } from '@/hooks';
+import { SkippedEntryError } from '@/services/ImageProcessor';
+import type { WatermarkConfig } from '@/types';
+
+type WatermarkTab = WatermarkConfig['type'];
 type SidebarTab = 'watermark' | 'presets' | 'export' | 'tools' | 'ai';
 
 function AppContent() {
@@ -41,52 +46,67 @@ function AppContent() {
     clearImages,
     updateImage,
     reorderImages,
+    setWatermarkOverride,
   } = useImages();
   
   // Get selected image
   const selectedImage = images.find(img => img.id === selectedImageId) ?? null;
-  const { isTextWatermark, switchToText, switchToImage } = useWatermarkSettings();
+  const { config, switchToText, switchToImage, switchToQr } = useWatermarkSettings();
   // usePresets hook handles loading presets from localStorage on mount
   usePresets();
+  // useFonts hook loads the custom font library on mount, so presets
+  // and exports can use its fonts before the text panel is opened
+  useFonts();
+  const {
+    compressionPreset,
+    setCompressionPreset,
+    applyCompressionPreset,
+    renameSettings,
+    setRenameEnabled,
+    setRenamePattern,
+  } = useExport();
 
   // Local UI state
   const [uploadProgress, setUploadProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const [uploadReport, setUploadReport] = useState<UploadReport | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [watermarkTab, setWatermarkTab] = useState<WatermarkTab>(isTextWatermark ? 'text' : 'image');
+  const [watermarkTab, setWatermarkTab] = useState<WatermarkTab>(config.type);
   const [sidebarTab, setSidebarTab] = useState<SidebarTab>('watermark');
-  
-  // New features state
-  const [selectedPreset, setSelectedPreset] = useState<PresetName>('custom');
-  const [renameEnabled, setRenameEnabled] = useState(false);
-  const [renamePattern, setRenamePattern] = useState<RenamePattern>(createDefaultRenamePattern());
-  
+
   // Sidebar visibility state
   const [leftSidebarVisible, setLeftSidebarVisible] = useState(true);
 
   // Sync watermark tab with actual config type
   useEffect(() => {
-    setWatermarkTab(isTextWatermark ? 'text' : 'image');
-  }, [isTextWatermark]);
+    setWatermarkTab(config.type);
+  }, [config.type]);
 
   // Handle watermark type switch
   const handleWatermarkTabChange = useCallback((tab: WatermarkTab) => {
     setWatermarkTab(tab);
     if (tab === 'text') {
       switchToText();
+    } else if (tab === 'qr') {
+      switchToQr();
     } else {
       switchToImage();
     }
-  }, [switchToText, switchToImage]);
+  }, [switchToText, switchToImage, switchToQr]);
 
   // Handle file upload
   const handleFilesSelected = useCallback(async (files: File[]) => {
     setIsLoading(true);
     setUploadProgress({ loaded: 0, total: files.length });
+    setUploadReport(null);
 
     try {
-      await loadFromFiles(files, (loaded, total) => {
+      const { failed } = await loadFromFiles(files, (loaded, total) => {
         setUploadProgress({ loaded, total });
       });
+      setUploadReport({
+        skipped: failed.filter(({ error }) => error instanceof SkippedEntryError).map(({ error }) => error.message),
+        failed: failed.filter(({ error }) => !(error instanceof SkippedEntryError)).map(({ error }) => error.message),
+      });
     } finally {
       setIsLoading(false);
       setUploadProgress(null);
@@ -96,32 +116,18 @@ function AppContent() {
   // Preset persistence is handled by usePresets hook - Requirement 5.5
   // The hook loads presets from localStorage on mount and saves on changes
 
-  // Handle compression preset change
-  const handlePresetChange = useCallback((preset: PresetName) => {
-    setSelectedPreset(preset);
-  }, []);
-
-  // Handle compression preset apply
-  const handlePresetApply = useCallback((_preset: CompressionPreset) => {
-    // Settings will be applied during export
-  }, []);
-
-  // Handle crop applied
-  const handleCropApplied = useCallback((croppedDataUrl: string, newWidth: number, newHeight: number) => {
-    // TODO: Update the selected image with cropped data
-    console.log('Crop applied:', { newWidth, newHeight, dataUrlLength: croppedDataUrl.length });
-  }, []);
-
   // Handle AI image edited
   const handleAIImageEdited = useCallback((newImageDataUrl: string) => {
     if (selectedImageId && updateImage) {
       // Create a new image from the data URL to get dimensions
       const img = new Image();
       img.onload = () => {
+        // The edited image has new dimensions, so a stored crop no longer applies
         updateImage(selectedImageId, {
           dataUrl: newImageDataUrl,
           width: img.width,
           height: img.height,
+          crop: null,
         });
       };
       img.src = newImageDataUrl;
@@ -194,6 +200,7 @@ function AppContent() {
               onFilesSelected={handleFilesSelected}
               isLoading={isLoading}
               progress={uploadProgress}
+              report={uploadReport}
             />
           </div>
 
@@ -205,6 +212,7 @@ function AppContent() {
                 onSelectImage={selectImage}
                 onRemoveImage={removeImage}
                 onReorderImages={reorderImages}
+                onResetOverride={(imageId) => setWatermarkOverride(imageId, null)}
               />
             </div>
           )}
@@ -286,6 +294,11 @@ function AppContent() {
             {/* Watermark Configuration Tab */}
             {sidebarTab === 'watermark' && (
               <div className="p-4">
+                {/* Layer Stack */}
+                <div className="mb-4 pb-4 border-b border-gray-200">
+                  <LayerPanel />
+                </div>
+
                 {/* Watermark Type Tabs */}
                 <div className="flex mb-4 bg-gray-100 rounded-lg p-1">
                   <button
@@ -308,20 +321,34 @@ function AppContent() {
                   >
                     Image
                   </button>
+                  <button
+                    onClick={() => handleWatermarkTabChange('qr')}
+                    className={`flex-1 px-3 py-2 text-sm font-medium rounded-md transition-colors ${
+                      watermarkTab === 'qr'
+                        ? 'bg-white text-gray-900 shadow-sm'
+                        : 'text-gray-600 hover:text-gray-800'
+                    }`}
+                  >
+                    QR Code
+                  </button>
                 </div>
 
                 {/* Watermark Config Panel */}
-                {watermarkTab === 'text' ? (
-                  <TextWatermarkPanel />
-                ) : (
-                  <ImageWatermarkPanel />
-                )}
+                {watermarkTab === 'text' && <TextWatermarkPanel />}
+                {watermarkTab === 'image' && <ImageWatermarkPanel />}
+                {watermarkTab === 'qr' && <QrWatermarkPanel />}
 
                 {/* Position Panel */}
                 <div className="mt-6 pt-4 border-t border-gray-200">
                   <h3 className="text-sm font-semibold text-gray-700 mb-3">Position</h3>
                   <PositionPanel />
                 </div>
+
+                {/* Per-page overrides */}
+                <div className="mt-6 pt-4 border-t border-gray-200">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-3">This Page</h3>
+                  <PageOverridePanel />
+                </div>
               </div>
             )}
 
@@ -338,29 +365,53 @@ function AppContent() {
                 {/* Image Cropping */}
                 <div className="pb-4 border-b border-gray-200">
                   <h3 className="text-sm font-semibold text-gray-700 mb-3">Image Cropping</h3>
-                  <CropPanel onCropApplied={handleCropApplied} />
+                  <CropPanel />
+                </div>
+
+                {/* Raw cleaning */}
+                <div className="pb-4 border-b border-gray-200">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-3">Image Adjustments</h3>
+                  <AdjustmentsPanel />
+                </div>
+
+                {/* Double-page spreads */}
+                <div className="pb-4 border-b border-gray-200">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-3">Spreads</h3>
+                  <SpreadPanel />
                 </div>
 
                 {/* Compression Presets */}
                 <div className="pb-4 border-b border-gray-200">
                   <h3 className="text-sm font-semibold text-gray-700 mb-3">Compression Presets</h3>
                   <CompressionPresetPanel
-                    selectedPreset={selectedPreset}
-                    onPresetChange={handlePresetChange}
-                    onSettingsApply={handlePresetApply}
+                    selectedPreset={compressionPreset}
+                    onPresetChange={setCompressionPreset}
+                    onSettingsApply={applyCompressionPreset}
                   />
                 </div>
 
                 {/* Batch Rename */}
-                <div>
+                <div className="pb-4 border-b border-gray-200">
                   <h3 className="text-sm font-semibold text-gray-700 mb-3">Batch Rename</h3>
                   <BatchRenamePanel
-                    enabled={renameEnabled}
+                    enabled={renameSettings.enabled}
                     onEnabledChange={setRenameEnabled}
-                    pattern={renamePattern}
+                    pattern={renameSettings.pattern}
                     onPatternChange={setRenamePattern}
                   />
                 </div>
+
+                {/* Invisible Watermark */}
+                <div className="pb-4 border-b border-gray-200">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-3">Invisible Watermark</h3>
+                  <InvisibleWatermarkPanel />
+                </div>
+
+                {/* Leak verification */}
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-3">Verify</h3>
+                  <VerifyPanel />
+                </div>
               </div>
             )}
 
@@ -378,8 +429,14 @@ function AppContent() {
 
             {/* Export Tab */}
             {sidebarTab === 'export' && (
-              <div className="p-4">
-                <ExportPanel />
+              <div className="p-4 space-y-6">
+                <div className="pb-4 border-b border-gray-200">
+                  <ExportPanel />
+                </div>
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-3">Distribution</h3>
+                  <DistributionPanel />
+                </div>
               </div>
             )}
           </div>
@@ -0,0 +1,198 @@
+/**
+ * AdjustmentsPanel Component
+ * Raw cleaning controls: grayscale, levels, gamma and tone curve, applied to
+ * every page before the watermark
+ */
+
+import { useCallback } from 'react';
+import { useImages } from '@/hooks';
+import {
+  CURVE_HANDLES,
+  createDefaultImageAdjustments,
+  type ImageAdjustments,
+} from '@/types';
+
+export interface AdjustmentsPanelProps {
+  className?: string;
+}
+
+export function AdjustmentsPanel({ className = '' }: AdjustmentsPanelProps) {
+  const { adjustments, setAdjustments } = useImages();
+
+  const update = useCallback((updates: Partial<ImageAdjustments>) => {
+    setAdjustments({ ...adjustments, ...updates });
+  }, [adjustments, setAdjustments]);
+
+  // Keep the black point below the white point
+  const handleBlackPointChange = useCallback((value: number) => {
+    update({ blackPoint: Math.min(value, adjustments.whitePoint - 1) });
+  }, [adjustments.whitePoint, update]);
+
+  const handleWhitePointChange = useCallback((value: number) => {
+    update({ whitePoint: Math.max(value, adjustments.blackPoint + 1) });
+  }, [adjustments.blackPoint, update]);
+
+  // Move one curve handle; a handle back on the diagonal is removed
+  const handleCurveChange = useCallback((input: number, output: number) => {
+    const others = adjustments.curve.filter(point => point.input !== input);
+    update({
+      curve: output === input
+        ? others
+        : [...others, { input, output }].sort((a, b) => a.input - b.input),
+    });
+  }, [adjustments.curve, update]);
+
+  const handleReset = useCallback(() => {
+    setAdjustments({ ...createDefaultImageAdjustments(), enabled: adjustments.enabled });
+  }, [adjustments.enabled, setAdjustments]);
+
+  const getCurveOutput = (input: number) =>
+    adjustments.curve.find(point => point.input === input)?.output ?? input;
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {/* Enable/Disable Toggle */}
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">Clean Raws</span>
+        <button
+          type="button"
+          onClick={() => update({ enabled: !adjustments.enabled })}
+          className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+            adjustments.enabled ? 'bg-blue-600' : 'bg-gray-200'
+          }`}
+          aria-label="Toggle image adjustments"
+        >
+          <span
+            className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+              adjustments.enabled ? 'translate-x-6' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+
+      {adjustments.enabled && (
+        <>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={adjustments.grayscale}
+              onChange={(e) => update({ grayscale: e.target.checked })}
+              className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+            />
+            Convert to grayscale
+          </label>
+
+          {/* Levels */}
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={adjustments.autoLevels}
+                onChange={(e) => update({ autoLevels: e.target.checked })}
+                className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+              />
+              Auto levels per page
+            </label>
+
+            {adjustments.autoLevels ? (
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">
+                  Clip: {adjustments.autoLevelsClip.toFixed(1)}% at each end
+                </label>
+                <input
+                  type="range"
+                  min={0}
+                  max={5}
+                  step={0.1}
+                  value={adjustments.autoLevelsClip}
+                  onChange={(e) => update({ autoLevelsClip: parseFloat(e.target.value) })}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                />
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">
+                    Black point: {adjustments.blackPoint}
+                  </label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={254}
+                    value={adjustments.blackPoint}
+                    onChange={(e) => handleBlackPointChange(parseInt(e.target.value, 10))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">
+                    White point: {adjustments.whitePoint}
+                  </label>
+                  <input
+                    type="range"
+                    min={1}
+                    max={255}
+                    value={adjustments.whitePoint}
+                    onChange={(e) => handleWhitePointChange(parseInt(e.target.value, 10))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Gamma */}
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">
+              Gamma: {adjustments.gamma.toFixed(2)}
+            </label>
+            <input
+              type="range"
+              min={0.1}
+              max={5}
+              step={0.05}
+              value={adjustments.gamma}
+              onChange={(e) => update({ gamma: parseFloat(e.target.value) })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            />
+          </div>
+
+          {/* Tone curve */}
+          <div className="space-y-2">
+            <span className="block text-sm font-medium text-gray-700">Curve</span>
+            {CURVE_HANDLES.map(({ input, label }) => (
+              <div key={input}>
+                <label className="block text-xs text-gray-500 mb-1">
+                  {label}: {getCurveOutput(input)}
+                </label>
+                <input
+                  type="range"
+                  min={0}
+                  max={255}
+                  value={getCurveOutput(input)}
+                  onChange={(e) => handleCurveChange(input, parseInt(e.target.value, 10))}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                />
+              </div>
+            ))}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Applied to every page before the watermark. Hold "Before" above the
+            preview to compare with the original.
+          </p>
+
+          <button
+            type="button"
+            onClick={handleReset}
+            className="w-full px-3 py-2 text-sm text-gray-600 bg-gray-100 rounded hover:bg-gray-200"
+          >
+            Reset Adjustments
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default AdjustmentsPanel;
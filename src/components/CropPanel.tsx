@@ -1,44 +1,64 @@
 /**
  * CropPanel Component
- * UI for image cropping controls
+ * UI for image cropping controls, including auto trim of scanner borders
+ * Crops are non-destructive: the region is stored on the image (or as a
+ * batch crop for every page) and applied by the export pipeline.
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { useImages } from '@/hooks';
 import { ASPECT_RATIOS, type AspectRatio, type CropRegion } from '@/types';
 import {
   calculateRegionFromAspectRatio,
-  applyCrop,
   validateCropRegion,
+  resolveCropRegion,
+  detectImageBorders,
+  unifyTrimRegions,
+  DEFAULT_TRIM_TOLERANCE,
 } from '@/services/ImageCropper';
 
 export interface CropPanelProps {
   className?: string;
-  onCropApplied?: (croppedDataUrl: string, newWidth: number, newHeight: number) => void;
 }
 
-export function CropPanel({ className = '', onCropApplied }: CropPanelProps) {
-  const { selectedImage } = useImages();
+export function CropPanel({ className = '' }: CropPanelProps) {
+  const { images, selectedImage, cropSettings, setImageCrop, setCropSettings } = useImages();
   
   const [cropEnabled, setCropEnabled] = useState(false);
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>('free');
   const [cropRegion, setCropRegion] = useState<CropRegion | null>(null);
-  const [isApplying, setIsApplying] = useState(false);
+  const [regionEdited, setRegionEdited] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Initialize crop region when enabled
+  // Auto trim of scanner borders
+  const [trimTolerance, setTrimTolerance] = useState(DEFAULT_TRIM_TOLERANCE);
+  const [unifyChapter, setUnifyChapter] = useState(true);
+  const [trimPreview, setTrimPreview] = useState<CropRegion | null>(null);
+  const [trimProgress, setTrimProgress] = useState<string | null>(null);
+
+  // Close the editor when switching images
+  useEffect(() => {
+    setCropEnabled(false);
+    setCropRegion(null);
+    setError(null);
+    setTrimPreview(null);
+  }, [selectedImage?.id]);
+
+  // Initialize crop region when enabled, starting from the current crop if any
   const handleEnableCrop = useCallback(() => {
     if (!selectedImage) return;
     
     setCropEnabled(true);
-    const region = calculateRegionFromAspectRatio(
+    const existing = resolveCropRegion(selectedImage, cropSettings);
+    const region = existing ?? calculateRegionFromAspectRatio(
       selectedImage.width,
       selectedImage.height,
       aspectRatio
     );
     setCropRegion(region);
+    setRegionEdited(existing !== null);
     setError(null);
-  }, [selectedImage, aspectRatio]);
+  }, [selectedImage, cropSettings, aspectRatio]);
 
   // Disable crop
   const handleDisableCrop = useCallback(() => {
@@ -58,6 +78,7 @@ export function CropPanel({ className = '', onCropApplied }: CropPanelProps) {
         newRatio
       );
       setCropRegion(region);
+      setRegionEdited(false);
     }
   }, [cropEnabled, selectedImage]);
 
@@ -69,32 +90,108 @@ export function CropPanel({ className = '', onCropApplied }: CropPanelProps) {
       ...cropRegion,
       [field]: Math.max(0, value),
     });
+    setRegionEdited(true);
   }, [cropRegion]);
 
-  // Apply crop
-  const handleApplyCrop = useCallback(async () => {
-    if (!selectedImage || !cropRegion) return;
-    
-    // Validate
+  // Validate the region against the selected image
+  const validateRegion = useCallback((): CropRegion | null => {
+    if (!selectedImage || !cropRegion) return null;
+
     const validation = validateCropRegion(cropRegion, selectedImage.width, selectedImage.height);
     if (!validation.valid) {
       setError(validation.errors.join(', '));
-      return;
+      return null;
     }
-    
-    setIsApplying(true);
+    return cropRegion;
+  }, [selectedImage, cropRegion]);
+
+  // Apply crop to the selected page only
+  const handleApplyCrop = useCallback(() => {
+    if (!selectedImage) return;
+    const region = validateRegion();
+    if (!region) return;
+
+    setImageCrop(selectedImage.id, region);
+    handleDisableCrop();
+  }, [selectedImage, validateRegion, setImageCrop, handleDisableCrop]);
+
+  // Apply crop to every page through the batch pipeline
+  const handleApplyToAll = useCallback(() => {
+    if (!selectedImage) return;
+    const region = validateRegion();
+    if (!region) return;
+
+    // An untouched aspect-ratio region is re-centered per page;
+    // a hand-edited region is scaled relative to this page's size
+    const useAspectOnly = !regionEdited && aspectRatio !== 'free';
+    setCropSettings({
+      enabled: true,
+      region: useAspectOnly ? null : region,
+      aspectRatio,
+      originalDimensions: { width: selectedImage.width, height: selectedImage.height },
+    });
+    setImageCrop(selectedImage.id, null);
+    handleDisableCrop();
+  }, [selectedImage, validateRegion, regionEdited, aspectRatio, setCropSettings, setImageCrop, handleDisableCrop]);
+
+  // Restore the original page (removes the per-page crop)
+  const handleResetPageCrop = useCallback(() => {
+    if (!selectedImage) return;
+    setImageCrop(selectedImage.id, null);
+  }, [selectedImage, setImageCrop]);
+
+  // Remove the batch crop
+  const handleClearBatchCrop = useCallback(() => {
+    setCropSettings({ ...cropSettings, enabled: false });
+  }, [cropSettings, setCropSettings]);
+
+  // Detect the borders of the selected page
+  const handlePreviewTrim = useCallback(async () => {
+    if (!selectedImage) return;
     setError(null);
-    
     try {
-      const croppedDataUrl = await applyCrop(selectedImage.dataUrl, cropRegion);
-      onCropApplied?.(croppedDataUrl, cropRegion.width, cropRegion.height);
-      handleDisableCrop();
+      setTrimPreview(await detectImageBorders(selectedImage, trimTolerance));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to apply crop');
+      setError(err instanceof Error ? err.message : 'Failed to detect borders');
+    }
+  }, [selectedImage, trimTolerance]);
+
+  const handleApplyTrim = useCallback(() => {
+    if (!selectedImage || !trimPreview) return;
+    setImageCrop(selectedImage.id, trimPreview);
+    setTrimPreview(null);
+  }, [selectedImage, trimPreview, setImageCrop]);
+
+  // Trim every page, optionally giving each chapter one shared page size
+  const handleTrimAll = useCallback(async () => {
+    setError(null);
+    try {
+      const regions: CropRegion[] = [];
+      for (const [index, image] of images.entries()) {
+        setTrimProgress(`Detecting borders ${index + 1}/${images.length}`);
+        regions.push(await detectImageBorders(image, trimTolerance));
+      }
+
+      const chapters = new Map<string, number[]>();
+      images.forEach((image, index) => {
+        const chapter = image.chapter ?? '';
+        chapters.set(chapter, [...(chapters.get(chapter) ?? []), index]);
+      });
+
+      for (const indices of chapters.values()) {
+        const chapterRegions = indices.map(index => regions[index]!);
+        const finalRegions = unifyChapter
+          ? unifyTrimRegions(chapterRegions, indices.map(index => images[index]!))
+          : chapterRegions;
+        indices.forEach((index, i) => setImageCrop(images[index]!.id, finalRegions[i]!));
+      }
+      setTrimPreview(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to detect borders');
     } finally {
-      setIsApplying(false);
+      setTrimProgress(null);
     }
-  }, [selectedImage, cropRegion, onCropApplied, handleDisableCrop]);
+  }, [images, trimTolerance, unifyChapter, setImageCrop]);
 
   if (!selectedImage) {
     return (
@@ -124,6 +221,126 @@ export function CropPanel({ className = '', onCropApplied }: CropPanelProps) {
         </button>
       </div>
 
+      {/* Active crop status */}
+      {!cropEnabled && (selectedImage.crop || cropSettings.enabled) && (
+        <div className="space-y-2">
+          {selectedImage.crop && (
+            <div className="flex items-center justify-between p-2 bg-blue-50 border border-blue-200 rounded text-xs">
+              <span className="text-blue-700">
+                Page cropped to {selectedImage.crop.width} × {selectedImage.crop.height}
+              </span>
+              <button
+                type="button"
+                onClick={handleResetPageCrop}
+                className="text-blue-600 hover:text-blue-800"
+              >
+                Restore original
+              </button>
+            </div>
+          )}
+          {cropSettings.enabled && (
+            <div className="flex items-center justify-between p-2 bg-blue-50 border border-blue-200 rounded text-xs">
+              <span className="text-blue-700">
+                {cropSettings.region
+                  ? 'Crop applied to all pages'
+                  : `${cropSettings.aspectRatio} crop applied to all pages`}
+              </span>
+              <button
+                type="button"
+                onClick={handleClearBatchCrop}
+                className="text-blue-600 hover:text-blue-800"
+              >
+                Clear
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Auto Trim */}
+      {!cropEnabled && (
+        <div className="space-y-3 pt-3 border-t border-gray-100">
+          <span className="text-sm font-medium text-gray-700">Auto Trim Borders</span>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">
+              Tolerance: {trimTolerance}
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={128}
+              value={trimTolerance}
+              onChange={(e) => {
+                setTrimTolerance(parseInt(e.target.value, 10));
+                setTrimPreview(null);
+              }}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={unifyChapter}
+              onChange={(e) => setUnifyChapter(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+            />
+            Same size for every page of a chapter
+          </label>
+
+          {/* Detected region on the selected page */}
+          {trimPreview && (
+            <div className="space-y-2">
+              <div className="relative w-24 mx-auto">
+                <img src={selectedImage.dataUrl} alt="" className="w-full block" />
+                <div
+                  className="absolute border-2 border-blue-500 bg-blue-500/10"
+                  style={{
+                    left: `${trimPreview.x / selectedImage.width * 100}%`,
+                    top: `${trimPreview.y / selectedImage.height * 100}%`,
+                    width: `${trimPreview.width / selectedImage.width * 100}%`,
+                    height: `${trimPreview.height / selectedImage.height * 100}%`,
+                  }}
+                />
+              </div>
+              <p className="text-xs text-gray-500 text-center">
+                {trimPreview.width === selectedImage.width && trimPreview.height === selectedImage.height
+                  ? 'No borders found'
+                  : `${selectedImage.width} × ${selectedImage.height} → ${trimPreview.width} × ${trimPreview.height}`}
+              </p>
+            </div>
+          )}
+
+          {trimProgress && (
+            <p className="text-xs text-gray-500">{trimProgress}</p>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={trimPreview ? handleApplyTrim : handlePreviewTrim}
+              disabled={trimProgress !== null}
+              className="flex-1 px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {trimPreview ? 'Trim Page' : 'Preview'}
+            </button>
+            <button
+              type="button"
+              onClick={handleTrimAll}
+              disabled={trimProgress !== null}
+              className="flex-1 px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Trim All Pages
+            </button>
+          </div>
+
+          {error && (
+            <div className="p-2 bg-red-50 border border-red-200 rounded text-xs text-red-600">
+              {error}
+            </div>
+          )}
+        </div>
+      )}
+
       {cropEnabled && (
         <>
           {/* Aspect Ratio Selector */}
@@ -214,10 +431,18 @@ export function CropPanel({ className = '', onCropApplied }: CropPanelProps) {
             <button
               type="button"
               onClick={handleApplyCrop}
-              disabled={isApplying || !cropRegion}
+              disabled={!cropRegion}
               className="flex-1 px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isApplying ? 'Applying...' : 'Apply Crop'}
+              Apply to Page
+            </button>
+            <button
+              type="button"
+              onClick={handleApplyToAll}
+              disabled={!cropRegion}
+              className="flex-1 px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Apply to All
             </button>
             <button
               type="button"
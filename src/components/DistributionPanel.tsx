@@ -0,0 +1,145 @@
+/**
+ * DistributionPanel Component
+ * Exports a separately watermarked archive per recipient of a pre-release,
+ * plus a manifest mapping each copy to its recipient, in one ZIP
+ */
+
+import { useState, useCallback } from 'react';
+import { useExport, useImages, useWatermarkSettings } from '@/hooks';
+import { parseRecipients } from '@/services/Distribution';
+import { MemoryOverflowError } from '@/services/ZipWriter';
+import { RECIPIENT_TOKEN, type DistributionSettings } from '@/types';
+
+export interface DistributionPanelProps {
+  className?: string;
+}
+
+export function DistributionPanel({ className = '' }: DistributionPanelProps) {
+  const {
+    distributionSettings,
+    setDistributionSettings,
+    exportForRecipients,
+    isProcessing,
+  } = useExport();
+  const { hasImages } = useImages();
+  const { settings } = useWatermarkSettings();
+
+  const [recipientText, setRecipientText] = useState(() => distributionSettings.recipients.join('\n'));
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<{ message: string; suggestion?: string } | null>(null);
+
+  const { recipients } = distributionSettings;
+  const usesToken = settings.layers.some(
+    layer => layer.config.type === 'text' && layer.config.text.includes(RECIPIENT_TOKEN)
+  );
+
+  const update = useCallback((updates: Partial<DistributionSettings>) => {
+    setDistributionSettings({ ...distributionSettings, ...updates });
+  }, [distributionSettings, setDistributionSettings]);
+
+  const handleRecipientsChange = useCallback((text: string) => {
+    setRecipientText(text);
+    update({ recipients: parseRecipients(text) });
+  }, [update]);
+
+  const handleExport = useCallback(async () => {
+    setError(null);
+    try {
+      const manifest = await exportForRecipients(undefined, (recipient, index, total) => {
+        setStatus(`Exporting copy ${index + 1}/${total}: ${recipient}`);
+      });
+      setStatus(manifest
+        ? `Exported ${manifest.entries.length} cop${manifest.entries.length === 1 ? 'y' : 'ies'} and the manifest.`
+        : 'Export cancelled.');
+    } catch (err) {
+      setStatus(null);
+      if (err instanceof MemoryOverflowError) {
+        setError({ message: `${err.code}: ${err.message}`, suggestion: err.suggestedAction });
+      } else {
+        setError({ message: err instanceof Error ? err.message : 'Export failed' });
+      }
+    }
+  }, [exportForRecipients]);
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div>
+        <label htmlFor="distribution-recipients" className="block text-sm font-medium text-gray-700 mb-2">
+          Recipients
+        </label>
+        <textarea
+          id="distribution-recipients"
+          value={recipientText}
+          onChange={(e) => handleRecipientsChange(e.target.value)}
+          rows={4}
+          placeholder={'One name or ID per line\ne.g. proofreader-anna'}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          {recipients.length} recipient{recipients.length === 1 ? '' : 's'}. Each gets its own archive in the export format, saved together in one ZIP.
+        </p>
+      </div>
+
+      <p className={`text-xs ${usesToken ? 'text-gray-500' : 'text-amber-600'}`}>
+        {usesToken
+          ? `${RECIPIENT_TOKEN} in the text watermark is replaced with each recipient's name.`
+          : `Add ${RECIPIENT_TOKEN} to a text watermark to print each recipient's name.`}
+        {' '}It also works in the invisible mark's group ID.
+      </p>
+
+      {/* Per-recipient shifts */}
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={distributionSettings.jitterEnabled}
+            onChange={(e) => update({ jitterEnabled: e.target.checked })}
+            className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+          />
+          Shift position and tile phase per recipient
+        </label>
+        {distributionSettings.jitterEnabled && (
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">
+              Largest shift: {distributionSettings.maxShift}px
+            </label>
+            <input
+              type="range"
+              min={1}
+              max={50}
+              value={distributionSettings.maxShift}
+              onChange={(e) => update({ maxShift: parseInt(e.target.value, 10) })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            />
+          </div>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={handleExport}
+        disabled={isProcessing || !hasImages || recipients.length === 0}
+        className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Export {recipients.length > 0 ? recipients.length : ''} Cop{recipients.length === 1 ? 'y' : 'ies'}
+      </button>
+
+      {status && (
+        <p className="text-xs text-gray-600">{status}</p>
+      )}
+      {error && (
+        <div className="text-xs text-red-600">
+          <p>{error.message}</p>
+          {error.suggestion && <p className="mt-1">{error.suggestion}</p>}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        The manifest lists every recipient with a hash of the watermark they got.
+        Keep it to yourself; it is saved next to the copies, never inside one.
+      </p>
+    </div>
+  );
+}
+
+export default DistributionPanel;
@@ -6,7 +6,10 @@
 
 import { useState, useCallback } from 'react';
 import { useExport, useImages } from '@/hooks';
-import type { ExportFormat, ProcessingResult } from '@/types';
+import type { ExportFormat, ProcessingResult, ArchiveFormat } from '@/types';
+import { MAX_RENDER_CONCURRENCY, ARCHIVE_FORMATS } from '@/types';
+import { getZipFileCount } from '@/services/ImageProcessor';
+import { MemoryOverflowError } from '@/services/ZipWriter';
 
 export interface ExportPanelProps {
   className?: string;
@@ -27,8 +30,13 @@ export function ExportPanel({ className = '' }: ExportPanelProps) {
     setQuality,
     setFilenamePrefix,
     setFilenameSuffix,
+    setConcurrency,
     processAllImages,
     processSelectedImage,
+    exportAllAsArchive,
+    archiveSettings,
+    setArchiveSettings,
+    updateArchiveMetadata,
     cancelProcessing,
     downloadAsZip,
     downloadSingleImage,
@@ -41,11 +49,13 @@ export function ExportPanel({ className = '' }: ExportPanelProps) {
   // Local state for results
   const [lastResults, setLastResults] = useState<ProcessingResult[] | null>(null);
   const [showResults, setShowResults] = useState(false);
+  const [exportError, setExportError] = useState<{ message: string; suggestion?: string } | null>(null);
 
   // Handle process all images - Requirement 6.1
   const handleProcessAll = useCallback(async () => {
     setLastResults(null);
     setShowResults(false);
+    setExportError(null);
     
     const results = await processAllImages();
     setLastResults(results);
@@ -56,6 +66,7 @@ export function ExportPanel({ className = '' }: ExportPanelProps) {
   const handleProcessSelected = useCallback(async () => {
     setLastResults(null);
     setShowResults(false);
+    setExportError(null);
     
     const result = await processSelectedImage();
     if (result) {
@@ -65,11 +76,51 @@ export function ExportPanel({ className = '' }: ExportPanelProps) {
   }, [processSelectedImage]);
 
 
+  // Show an export failure, with the suggested action for E007
+  const showExportError = useCallback((error: unknown) => {
+    if (error instanceof MemoryOverflowError) {
+      setExportError({
+        message: `${error.code}: ${error.message}`,
+        suggestion: error.suggestedAction,
+      });
+    } else {
+      setExportError({ message: error instanceof Error ? error.message : 'Export failed' });
+    }
+  }, []);
+
+  // Handle streaming export of all images into an archive
+  const handleExportAllArchive = useCallback(async () => {
+    setLastResults(null);
+    setShowResults(false);
+    setExportError(null);
+
+    try {
+      const results = await exportAllAsArchive();
+      if (results.length > 0) {
+        setLastResults(results);
+        setShowResults(true);
+      }
+    } catch (error) {
+      showExportError(error);
+    }
+  }, [exportAllAsArchive, showExportError]);
+
+  // Handle archive format change
+  const handleArchiveFormatChange = useCallback((format: ArchiveFormat) => {
+    setArchiveSettings({ ...archiveSettings, format });
+  }, [archiveSettings, setArchiveSettings]);
+
   // Handle download as ZIP - Requirement 7.6
   const handleDownloadZip = useCallback(async () => {
     if (!lastResults) return;
-    await downloadAsZip(lastResults, 'watermarked_images');
-  }, [lastResults, downloadAsZip]);
+    setExportError(null);
+
+    try {
+      await downloadAsZip(lastResults, 'watermarked_images');
+    } catch (error) {
+      showExportError(error);
+    }
+  }, [lastResults, downloadAsZip, showExportError]);
 
   // Handle download single result
   const handleDownloadSingle = useCallback((result: ProcessingResult) => {
@@ -79,6 +130,8 @@ export function ExportPanel({ className = '' }: ExportPanelProps) {
   // Calculate success/failure counts
   const successCount = lastResults?.filter(r => r.success).length ?? 0;
   const failureCount = lastResults?.filter(r => !r.success).length ?? 0;
+  // Streamed exports have already been saved and hold no blobs
+  const downloadableCount = lastResults ? getZipFileCount(lastResults) : 0;
 
   return (
     <div className={`space-y-4 ${className}`}>
@@ -128,6 +181,25 @@ export function ExportPanel({ className = '' }: ExportPanelProps) {
         </div>
       </div>
 
+      {/* Parallel rendering */}
+      <div>
+        <label htmlFor="export-concurrency" className="block text-sm font-medium text-gray-700 mb-1">
+          Parallel Pages: {exportSettings.concurrency}
+        </label>
+        <input
+          id="export-concurrency"
+          type="range"
+          min="1"
+          max={MAX_RENDER_CONCURRENCY}
+          value={exportSettings.concurrency}
+          onChange={(e) => setConcurrency(Number(e.target.value))}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Higher values export faster but use more memory
+        </p>
+      </div>
+
       {/* Filename prefix/suffix - Requirement 7.4 */}
       <div className="border-t border-gray-200 pt-4">
         <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -167,6 +239,97 @@ export function ExportPanel({ className = '' }: ExportPanelProps) {
       </div>
 
 
+      {/* Archive format and comic metadata */}
+      <div className="border-t border-gray-200 pt-4">
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Archive
+        </label>
+        <div className="grid grid-cols-3 gap-2">
+          {Object.values(ARCHIVE_FORMATS).map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => handleArchiveFormatChange(option.value)}
+              className={`p-2 text-center rounded-lg border transition-colors ${
+                archiveSettings.format === option.value
+                  ? 'bg-blue-50 border-blue-300 text-blue-700'
+                  : 'bg-white border-gray-200 text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <div className="text-sm font-medium">{option.label}</div>
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          {ARCHIVE_FORMATS[archiveSettings.format].description}
+        </p>
+
+        {archiveSettings.format !== 'zip' && (
+          <div className="space-y-2 mt-3">
+            <div>
+              <label htmlFor="archive-series" className="block text-xs text-gray-500 mb-1">
+                Series
+              </label>
+              <input
+                id="archive-series"
+                type="text"
+                value={archiveSettings.metadata.series}
+                onChange={(e) => updateArchiveMetadata({ series: e.target.value })}
+                placeholder="e.g., One Piece"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="archive-title" className="block text-xs text-gray-500 mb-1">
+                Chapter Title
+              </label>
+              <input
+                id="archive-title"
+                type="text"
+                value={archiveSettings.metadata.title}
+                onChange={(e) => updateArchiveMetadata({ title: e.target.value })}
+                placeholder="Optional"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label htmlFor="archive-language" className="block text-xs text-gray-500 mb-1">
+                  Language
+                </label>
+                <input
+                  id="archive-language"
+                  type="text"
+                  value={archiveSettings.metadata.language}
+                  onChange={(e) => updateArchiveMetadata({ language: e.target.value })}
+                  placeholder="e.g., ja"
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="archive-direction" className="block text-xs text-gray-500 mb-1">
+                  Reading Direction
+                </label>
+                <select
+                  id="archive-direction"
+                  value={archiveSettings.metadata.readingDirection}
+                  onChange={(e) => updateArchiveMetadata({
+                    readingDirection: e.target.value === 'ltr' ? 'ltr' : 'rtl',
+                  })}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="rtl">Right to left</option>
+                  <option value="ltr">Left to right</option>
+                </select>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Chapter number comes from Batch Rename
+            </p>
+          </div>
+        )}
+      </div>
+
       {/* Processing progress - Requirement 6.2 */}
       {isProcessing && processingProgress && (
         <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
@@ -190,6 +353,16 @@ export function ExportPanel({ className = '' }: ExportPanelProps) {
         </div>
       )}
 
+      {/* Export error */}
+      {exportError && !isProcessing && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm font-medium text-red-700">{exportError.message}</p>
+          {exportError.suggestion && (
+            <p className="text-xs text-red-600 mt-1">{exportError.suggestion}</p>
+          )}
+        </div>
+      )}
+
       {/* Results summary */}
       {showResults && lastResults && !isProcessing && (
         <div className={`p-3 rounded-lg border ${
@@ -217,7 +390,7 @@ export function ExportPanel({ className = '' }: ExportPanelProps) {
           
           {/* Download buttons */}
           <div className="flex gap-2">
-            {successCount > 1 && (
+            {downloadableCount > 1 && (
               <button
                 type="button"
                 onClick={handleDownloadZip}
@@ -229,7 +402,7 @@ export function ExportPanel({ className = '' }: ExportPanelProps) {
                 Download ZIP
               </button>
             )}
-            {successCount === 1 && lastResults[0]?.success && lastResults[0] && (
+            {downloadableCount === 1 && lastResults[0]?.success && lastResults[0] && (
               <button
                 type="button"
                 onClick={() => handleDownloadSingle(lastResults[0] as ProcessingResult)}
@@ -288,8 +461,21 @@ export function ExportPanel({ className = '' }: ExportPanelProps) {
           Apply to All ({imageCount} images)
         </button>
 
+        {/* Export all straight into a ZIP without keeping pages in memory */}
+        <button
+          type="button"
+          onClick={handleExportAllArchive}
+          disabled={!hasImages || isProcessing}
+          className="w-full px-4 py-2.5 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <svg className="w-4 h-4 inline-block mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+          </svg>
+          Export All as {ARCHIVE_FORMATS[archiveSettings.format].label}
+        </button>
+
         {/* Download as ZIP - Requirement 7.6 */}
-        {lastResults && successCount > 1 && !isProcessing && (
+        {lastResults && downloadableCount > 1 && !isProcessing && (
           <button
             type="button"
             onClick={handleDownloadZip}
@@ -298,7 +484,7 @@ export function ExportPanel({ className = '' }: ExportPanelProps) {
             <svg className="w-4 h-4 inline-block mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
             </svg>
-            Download as ZIP ({successCount} files)
+            Download as ZIP ({downloadableCount} files)
           </button>
         )}
       </div>
@@ -7,6 +7,7 @@
 import React, { useCallback, useState } from 'react';
 import type { UploadedImage } from '@/types';
 import { formatFileSize } from '@/utils/validation';
+import { hasWatermarkOverride } from '@/services/PageOverrides';
 
 export interface ImageListProps {
   images: UploadedImage[];
@@ -14,6 +15,7 @@ export interface ImageListProps {
   onSelectImage: (imageId: string) => void;
   onRemoveImage?: (imageId: string) => void;
   onReorderImages?: (fromIndex: number, toIndex: number) => void;
+  onResetOverride?: (imageId: string) => void;
   className?: string;
 }
 
@@ -23,6 +25,7 @@ export function ImageList({
   onSelectImage,
   onRemoveImage,
   onReorderImages,
+  onResetOverride,
   className = '',
 }: ImageListProps) {
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
@@ -87,6 +90,7 @@ export function ImageList({
             isDragOver={dragOverIndex === index}
             onSelect={() => onSelectImage(image.id)}
             onRemove={onRemoveImage ? () => onRemoveImage(image.id) : undefined}
+            onResetOverride={onResetOverride ? () => onResetOverride(image.id) : undefined}
             onDragStart={() => handleDragStart(index)}
             onDragOver={(e) => handleDragOver(e, index)}
             onDragLeave={handleDragLeave}
@@ -108,6 +112,7 @@ interface ImageListItemProps {
   isDragOver: boolean;
   onSelect: () => void;
   onRemove?: (() => void) | undefined;
+  onResetOverride?: (() => void) | undefined;
   onDragStart: () => void;
   onDragOver: (e: React.DragEvent) => void;
   onDragLeave: () => void;
@@ -124,6 +129,7 @@ function ImageListItem({
   isDragOver,
   onSelect,
   onRemove,
+  onResetOverride,
   onDragStart,
   onDragOver,
   onDragLeave,
@@ -131,6 +137,8 @@ function ImageListItem({
   onDragEnd,
   draggable,
 }: ImageListItemProps) {
+  const hasOverride = hasWatermarkOverride(image.watermarkOverride);
+
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter' || e.key === ' ') {
       e.preventDefault();
@@ -151,6 +159,11 @@ function ImageListItem({
     }
   }, [onRemove]);
 
+  const handleResetClick = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    onResetOverride?.();
+  }, [onResetOverride]);
+
   return (
     <div
       role="button"
@@ -207,9 +220,34 @@ function ImageListItem({
         <p className="text-sm font-medium text-gray-900 truncate" title={image.name}>
           {image.name}
         </p>
+        {image.chapter && (
+          <p className="text-xs text-blue-600 truncate" title={image.chapter}>
+            {image.chapter}
+          </p>
+        )}
         <p className="text-xs text-gray-500">
           {image.width} × {image.height} • {formatFileSize(image.size)}
         </p>
+        {hasOverride && (
+          <p className="flex items-center gap-1 text-xs">
+            <span
+              className="px-1.5 rounded bg-amber-100 text-amber-700 font-medium"
+              title="This page has its own watermark settings"
+            >
+              Override
+            </span>
+            {onResetOverride && (
+              <button
+                type="button"
+                onClick={handleResetClick}
+                className="text-gray-500 hover:text-blue-600 underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+                aria-label={`Reset ${image.name} to global watermark`}
+              >
+                Reset to global
+              </button>
+            )}
+          </p>
+        )}
       </div>
 
       {/* Remove button */}
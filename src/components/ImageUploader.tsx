@@ -1,12 +1,22 @@
 /**
  * ImageUploader Component
- * Handles drag & drop and file browser upload for images
+ * Handles drag & drop and file browser upload for images and ZIP/CBZ chapters
  * Requirements: 1.1, 1.2
  */
 
 import React, { useState, useCallback, useRef } from 'react';
-import { isValidImageFormat } from '@/utils/validation';
-import { SUPPORTED_IMAGE_FORMATS } from '@/types';
+import { isValidImageFormat, isArchiveFile } from '@/utils/validation';
+import { SUPPORTED_IMAGE_FORMATS, SUPPORTED_ARCHIVE_FORMATS } from '@/types';
+
+/**
+ * Outcome of the last upload that needs the user's attention
+ */
+export interface UploadReport {
+  /** Non-image entries left out of archives */
+  skipped: string[];
+  /** Files and archive pages that could not be loaded */
+  failed: string[];
+}
 
 export interface ImageUploaderProps {
   onFilesSelected: (files: File[]) => void;
@@ -14,6 +24,8 @@ export interface ImageUploaderProps {
   progress?: { loaded: number; total: number } | null;
   disabled?: boolean;
   maxFiles?: number;
+  /** Files skipped or rejected while loading the last upload */
+  report?: UploadReport | null;
   className?: string;
 }
 
@@ -23,6 +35,7 @@ export function ImageUploader({
   progress = null,
   disabled = false,
   maxFiles,
+  report = null,
   className = '',
 }: ImageUploaderProps) {
   const [isDragOver, setIsDragOver] = useState(false);
@@ -36,7 +49,7 @@ export function ImageUploader({
     const invalidFiles: string[] = [];
 
     for (const file of files) {
-      if (isValidImageFormat(file)) {
+      if (isValidImageFormat(file) || isArchiveFile(file)) {
         validFiles.push(file);
       } else {
         invalidFiles.push(file.name);
@@ -50,7 +63,7 @@ export function ImageUploader({
       setError(
         `Unsupported format: ${invalidFiles.slice(0, 3).join(', ')}${
           invalidFiles.length > 3 ? ` and ${invalidFiles.length - 3} more` : ''
-        }. Supported: ${SUPPORTED_IMAGE_FORMATS.join(', ')}`
+        }. Supported: ${[...SUPPORTED_IMAGE_FORMATS, ...SUPPORTED_ARCHIVE_FORMATS].join(', ')}`
       );
     } else {
       setError(null);
@@ -124,7 +137,9 @@ export function ImageUploader({
     ? Math.round((progress.loaded / progress.total) * 100) 
     : 0;
 
-  const acceptFormats = SUPPORTED_IMAGE_FORMATS.map(f => `.${f}`).join(',');
+  const acceptFormats = [...SUPPORTED_IMAGE_FORMATS, ...SUPPORTED_ARCHIVE_FORMATS]
+    .map(f => `.${f}`)
+    .join(',');
 
   return (
     <div className={`relative ${className}`}>
@@ -214,6 +229,9 @@ export function ImageUploader({
             <p className="text-xs text-gray-400 mt-3">
               Supported: {SUPPORTED_IMAGE_FORMATS.join(', ').toUpperCase()}
             </p>
+            <p className="text-xs text-gray-400">
+              Chapters: {SUPPORTED_ARCHIVE_FORMATS.join(', ').toUpperCase()}
+            </p>
           </>
         )}
       </div>
@@ -224,6 +242,32 @@ export function ImageUploader({
           <p className="text-sm text-red-600">{error}</p>
         </div>
       )}
+
+      {/* Load report: pages that failed, then non-image files skipped inside archives */}
+      {report && report.failed.length > 0 && (
+        <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm font-medium text-red-700">
+            {report.failed.length} file{report.failed.length === 1 ? '' : 's'} not loaded
+          </p>
+          <ul className="mt-1 max-h-24 overflow-y-auto text-xs text-red-700">
+            {report.failed.map((message, index) => (
+              <li key={index} className="truncate" title={message}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {report && report.skipped.length > 0 && (
+        <div className="mt-2 p-2 bg-amber-50 border border-amber-200 rounded-md">
+          <p className="text-sm font-medium text-amber-700">
+            {report.skipped.length} file{report.skipped.length === 1 ? '' : 's'} skipped
+          </p>
+          <ul className="mt-1 max-h-24 overflow-y-auto text-xs text-amber-700">
+            {report.skipped.map((message, index) => (
+              <li key={index} className="truncate" title={message}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
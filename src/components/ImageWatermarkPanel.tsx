@@ -6,7 +6,15 @@
 
 import React, { useCallback, useRef, useState } from 'react';
 import { useWatermarkSettings } from '@/hooks';
-import type { ImageWatermarkConfig } from '@/types';
+import {
+  BLEND_MODES,
+  BLEND_MODE_LABELS,
+  SIZE_REFERENCE_LABELS,
+  isSvgImageData,
+  type BlendMode,
+  type ImageWatermarkConfig,
+} from '@/types';
+import { getImageDataUrl } from '@/services/WatermarkRenderer';
 
 export interface ImageWatermarkPanelProps {
   className?: string;
@@ -15,10 +23,14 @@ export interface ImageWatermarkPanelProps {
 export function ImageWatermarkPanel({ className = '' }: ImageWatermarkPanelProps) {
   const {
     config,
+    position,
     isImageWatermark,
     setImageData,
     setImageScale,
     setImageOpacity,
+    setImageRecolor,
+    setImageColor,
+    setBlendMode,
     setTileEnabled,
     setTileSpacing,
   } = useWatermarkSettings();
@@ -32,12 +44,30 @@ export function ImageWatermarkPanel({ className = '' }: ImageWatermarkPanelProps
   }
 
   const imageConfig = config as ImageWatermarkConfig;
+  const isPercentSize = position.unit === 'percent';
+  const isSvg = isSvgImageData(imageConfig.imageData);
 
   // Handle image upload - Requirement 3.1
   const handleImageUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
+    // SVG logos are kept as markup and drawn sharp at any size
+    if (file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg')) {
+      file.text()
+        .then((svg) => {
+          if (isSvgImageData(svg)) {
+            setError(null);
+            setImageData(svg);
+          } else {
+            setError('The file is not a valid SVG image');
+          }
+        })
+        .catch(() => setError('Failed to read image file'));
+      e.target.value = '';
+      return;
+    }
+
     // Validate PNG format
     if (!file.type.includes('png') && !file.type.includes('image')) {
       setError('Please upload a PNG image for best transparency support');
@@ -81,7 +111,7 @@ export function ImageWatermarkPanel({ className = '' }: ImageWatermarkPanelProps
         <input
           ref={fileInputRef}
           type="file"
-          accept="image/png,image/*"
+          accept="image/png,image/svg+xml,image/*"
           onChange={handleImageUpload}
           className="hidden"
           aria-label="Upload watermark image"
@@ -93,7 +123,7 @@ export function ImageWatermarkPanel({ className = '' }: ImageWatermarkPanelProps
             <div className="relative inline-block">
               <div className="w-24 h-24 border border-gray-300 rounded-lg overflow-hidden bg-gray-100 bg-[url('data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjAiIGhlaWdodD0iMjAiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+PGRlZnM+PHBhdHRlcm4gaWQ9ImdyaWQiIHdpZHRoPSIyMCIgaGVpZ2h0PSIyMCIgcGF0dGVyblVuaXRzPSJ1c2VyU3BhY2VPblVzZSI+PHJlY3Qgd2lkdGg9IjEwIiBoZWlnaHQ9IjEwIiBmaWxsPSIjZTVlN2ViIi8+PHJlY3QgeD0iMTAiIHk9IjEwIiB3aWR0aD0iMTAiIGhlaWdodD0iMTAiIGZpbGw9IiNlNWU3ZWIiLz48L3BhdHRlcm4+PC9kZWZzPjxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9InVybCgjZ3JpZCkiLz48L3N2Zz4=')]">
                 <img
-                  src={imageConfig.imageData}
+                  src={getImageDataUrl(imageConfig.imageData)}
                   alt="Watermark preview"
                   className="w-full h-full object-contain"
                 />
@@ -129,7 +159,7 @@ export function ImageWatermarkPanel({ className = '' }: ImageWatermarkPanelProps
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
               </svg>
               <span className="text-sm font-medium">Upload Image</span>
-              <span className="text-xs mt-1">PNG recommended for transparency</span>
+              <span className="text-xs mt-1">PNG or SVG recommended for transparency</span>
             </div>
           </button>
         )}
@@ -139,25 +169,47 @@ export function ImageWatermarkPanel({ className = '' }: ImageWatermarkPanelProps
         )}
       </div>
 
-      {/* Scale Slider - Requirement 3.3 */}
-      <div>
-        <label htmlFor="image-scale" className="block text-sm font-medium text-gray-700 mb-1">
-          Scale: {Math.round(imageConfig.scale * 100)}%
-        </label>
-        <input
-          id="image-scale"
-          type="range"
-          min="10"
-          max="200"
-          value={imageConfig.scale * 100}
-          onChange={(e) => setImageScale(Number(e.target.value) / 100)}
-          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
-        />
-        <div className="flex justify-between text-xs text-gray-500 mt-1">
-          <span>10%</span>
-          <span>200%</span>
+      {/* Scale Slider - Requirement 3.3 (width as % of the page in percent units) */}
+      {isPercentSize ? (
+        <div>
+          <label htmlFor="image-scale" className="block text-sm font-medium text-gray-700 mb-1">
+            Width: {Math.round(imageConfig.scale * 10) / 10}% of {SIZE_REFERENCE_LABELS[position.sizeReference].toLowerCase()}
+          </label>
+          <input
+            id="image-scale"
+            type="range"
+            min="1"
+            max="100"
+            step="0.5"
+            value={imageConfig.scale}
+            onChange={(e) => setImageScale(Number(e.target.value))}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+          />
+          <div className="flex justify-between text-xs text-gray-500 mt-1">
+            <span>1%</span>
+            <span>100%</span>
+          </div>
         </div>
-      </div>
+      ) : (
+        <div>
+          <label htmlFor="image-scale" className="block text-sm font-medium text-gray-700 mb-1">
+            Scale: {Math.round(imageConfig.scale * 100)}%
+          </label>
+          <input
+            id="image-scale"
+            type="range"
+            min="10"
+            max="200"
+            value={imageConfig.scale * 100}
+            onChange={(e) => setImageScale(Number(e.target.value) / 100)}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+          />
+          <div className="flex justify-between text-xs text-gray-500 mt-1">
+            <span>10%</span>
+            <span>200%</span>
+          </div>
+        </div>
+      )}
 
       {/* Opacity Slider - Requirement 3.4 */}
       <div>
@@ -179,6 +231,55 @@ export function ImageWatermarkPanel({ className = '' }: ImageWatermarkPanelProps
         </div>
       </div>
 
+      {/* Recolor (SVG only) */}
+      {isSvg && (
+        <div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={imageConfig.recolor}
+              onChange={(e) => setImageRecolor(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+            />
+            Recolor SVG
+          </label>
+          {imageConfig.recolor && (
+            <div className="mt-2 flex items-center gap-3">
+              <input
+                id="image-color"
+                type="color"
+                value={imageConfig.color}
+                onChange={(e) => setImageColor(e.target.value)}
+                className="w-10 h-9 border border-gray-300 rounded-md cursor-pointer"
+                aria-label="SVG color"
+              />
+              <span className="text-xs text-gray-500">
+                Paints the whole logo in one color; best for monochrome SVGs.
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Blend Mode */}
+      <div>
+        <label htmlFor="image-blend-mode" className="block text-sm font-medium text-gray-700 mb-1">
+          Blend Mode
+        </label>
+        <select
+          id="image-blend-mode"
+          value={imageConfig.blendMode}
+          onChange={(e) => setBlendMode(e.target.value as BlendMode)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+        >
+          {BLEND_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {BLEND_MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </div>
+
       {/* Tile Toggle and Settings - Requirement 3.5 */}
       <div className="border-t border-gray-200 pt-4">
         <div className="flex items-center justify-between mb-3">
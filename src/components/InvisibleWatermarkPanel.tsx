@@ -0,0 +1,110 @@
+/**
+ * InvisibleWatermarkPanel Component
+ * Settings for the invisible mark (group ID, chapter and export time) hidden
+ * in every exported page
+ */
+
+import { useCallback } from 'react';
+import { useExport } from '@/hooks';
+import {
+  INVISIBLE_STRENGTHS,
+  INVISIBLE_TEXT_BYTES,
+  type InvisibleStrength,
+  type InvisibleWatermarkSettings,
+} from '@/types';
+
+export interface InvisibleWatermarkPanelProps {
+  className?: string;
+}
+
+export function InvisibleWatermarkPanel({ className = '' }: InvisibleWatermarkPanelProps) {
+  const { invisibleWatermark, setInvisibleWatermark, exportSettings } = useExport();
+
+  const update = useCallback((updates: Partial<InvisibleWatermarkSettings>) => {
+    setInvisibleWatermark({ ...invisibleWatermark, ...updates });
+  }, [invisibleWatermark, setInvisibleWatermark]);
+
+  const { minQuality } = INVISIBLE_STRENGTHS[invisibleWatermark.strength];
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {/* Enable/Disable Toggle */}
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">Embed Invisible Mark</span>
+        <button
+          type="button"
+          onClick={() => update({ enabled: !invisibleWatermark.enabled })}
+          className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+            invisibleWatermark.enabled ? 'bg-blue-600' : 'bg-gray-200'
+          }`}
+          aria-label="Toggle invisible watermark"
+        >
+          <span
+            className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+              invisibleWatermark.enabled ? 'translate-x-6' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+
+      {invisibleWatermark.enabled && (
+        <>
+          <div>
+            <label htmlFor="invisible-group-id" className="block text-xs text-gray-500 mb-1">
+              Group ID
+            </label>
+            <input
+              id="invisible-group-id"
+              type="text"
+              value={invisibleWatermark.groupId}
+              onChange={(e) => update({ groupId: e.target.value })}
+              placeholder="e.g. MyScans"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              The group ID and chapter share {INVISIBLE_TEXT_BYTES} bytes; longer text is cut.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="invisible-strength" className="block text-xs text-gray-500 mb-1">
+              Strength
+            </label>
+            <select
+              id="invisible-strength"
+              value={invisibleWatermark.strength}
+              onChange={(e) => update({ strength: e.target.value as InvisibleStrength })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(INVISIBLE_STRENGTHS) as InvisibleStrength[]).map(strength => (
+                <option key={strength} value={strength}>
+                  {INVISIBLE_STRENGTHS[strength].label} (survives JPEG {INVISIBLE_STRENGTHS[strength].minQuality}%+)
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {exportSettings.format === 'jpg' && exportSettings.quality < minQuality && (
+            <p className="text-xs text-amber-600">
+              Export quality {exportSettings.quality}% is below {minQuality}%; the mark may not survive.
+              Raise the quality or the strength.
+            </p>
+          )}
+          {exportSettings.format === 'webp' && (
+            <p className="text-xs text-amber-600">
+              Lossy WebP can weaken the mark. Check an exported page with Verify.
+            </p>
+          )}
+
+          <p className="text-xs text-gray-500">
+            Each page records the group ID, its chapter and the export time. The mark
+            survives PNG and moderate JPEG re-encoding, but not resizing or cropping
+            of a leaked page. Pages smaller than about 130 × 130 pixels can't hold it.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default InvisibleWatermarkPanel;
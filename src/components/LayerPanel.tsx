@@ -0,0 +1,166 @@
+/**
+ * LayerPanel Component
+ * Manages the watermark layer stack - add, select, reorder, toggle, remove
+ */
+
+import { useCallback } from 'react';
+import { useWatermarkSettings } from '@/hooks';
+import type { WatermarkLayer } from '@/types';
+
+export interface LayerPanelProps {
+  className?: string;
+}
+
+export function LayerPanel({ className = '' }: LayerPanelProps) {
+  const {
+    layers,
+    selectedLayer,
+    addTextLayer,
+    addImageLayer,
+    addQrLayer,
+    duplicateLayer,
+    removeLayer,
+    selectLayer,
+    moveLayer,
+    setLayerEnabled,
+    setLayerOpacity,
+  } = useWatermarkSettings();
+
+  // Layers are drawn bottom-up, so list the topmost first
+  const topFirst = layers.map((layer, index) => ({ layer, index })).reverse();
+
+  const handleToggle = useCallback((layer: WatermarkLayer) => {
+    setLayerEnabled(layer.id, !layer.enabled);
+  }, [setLayerEnabled]);
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      {/* Header with add actions */}
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-700">Layers</h3>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={addTextLayer}
+            className="px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 rounded transition-colors"
+            title="Add text layer"
+          >
+            + Text
+          </button>
+          <button
+            type="button"
+            onClick={addImageLayer}
+            className="px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 rounded transition-colors"
+            title="Add image layer"
+          >
+            + Image
+          </button>
+          <button
+            type="button"
+            onClick={addQrLayer}
+            className="px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 rounded transition-colors"
+            title="Add QR code layer"
+          >
+            + QR
+          </button>
+        </div>
+      </div>
+
+      {/* Layer list, topmost first */}
+      <ul className="space-y-1">
+        {topFirst.map(({ layer, index }) => {
+          const isSelected = layer.id === selectedLayer.id;
+          return (
+            <li
+              key={layer.id}
+              onClick={() => selectLayer(layer.id)}
+              className={`flex items-center gap-2 px-2 py-1.5 rounded-md border cursor-pointer transition-colors ${
+                isSelected
+                  ? 'border-blue-500 bg-blue-50'
+                  : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              {/* Visibility toggle */}
+              <input
+                type="checkbox"
+                checked={layer.enabled}
+                onClick={(e) => e.stopPropagation()}
+                onChange={() => handleToggle(layer)}
+                className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                title={layer.enabled ? 'Hide layer' : 'Show layer'}
+              />
+
+              <span className={`flex-1 text-sm truncate ${layer.enabled ? 'text-gray-800' : 'text-gray-400'}`}>
+                {layer.name}
+              </span>
+
+              <div className="flex items-center" onClick={(e) => e.stopPropagation()}>
+                <button
+                  type="button"
+                  onClick={() => moveLayer(index, index + 1)}
+                  disabled={index === layers.length - 1}
+                  className="p-1 text-gray-500 hover:bg-gray-200 rounded disabled:opacity-30 disabled:hover:bg-transparent"
+                  title="Move up"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                  </svg>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveLayer(index, index - 1)}
+                  disabled={index === 0}
+                  className="p-1 text-gray-500 hover:bg-gray-200 rounded disabled:opacity-30 disabled:hover:bg-transparent"
+                  title="Move down"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                  </svg>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => duplicateLayer(layer.id)}
+                  className="p-1 text-gray-500 hover:bg-gray-200 rounded"
+                  title="Duplicate layer"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                  </svg>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeLayer(layer.id)}
+                  disabled={layers.length === 1}
+                  className="p-1 text-red-500 hover:bg-red-50 rounded disabled:opacity-30 disabled:hover:bg-transparent"
+                  title="Delete layer"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* Selected layer opacity */}
+      <div>
+        <label htmlFor="layer-opacity" className="block text-sm font-medium text-gray-700 mb-1">
+          Layer Opacity: {selectedLayer.opacity}%
+        </label>
+        <input
+          id="layer-opacity"
+          type="range"
+          min="0"
+          max="100"
+          value={selectedLayer.opacity}
+          onChange={(e) => setLayerOpacity(selectedLayer.id, Number(e.target.value))}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+        />
+      </div>
+    </div>
+  );
+}
+
+export default LayerPanel;
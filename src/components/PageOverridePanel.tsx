@@ -0,0 +1,234 @@
+/**
+ * PageOverridePanel Component
+ * Per-page changes to the global watermark for the selected image
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useWatermarkSettings, useImages } from '@/hooks';
+import {
+  hasWatermarkOverride,
+  resolvePageSettings,
+  setLayerOverride,
+  setPageEnabledOverride,
+} from '@/services/PageOverrides';
+import { getCroppedDimensions } from '@/services/ImageCropper';
+import {
+  POSITION_LABELS,
+  PRESET_POSITIONS,
+  type LayerOverride,
+  type WatermarkConfig,
+  type WatermarkPosition,
+} from '@/types';
+
+/**
+ * Config field that sets the size of each layer type, in the layer's own units
+ */
+const SIZE_FIELDS: Record<WatermarkConfig['type'], { key: string; label: string }> = {
+  text: { key: 'fontSize', label: 'Font size' },
+  image: { key: 'scale', label: 'Scale' },
+  qr: { key: 'size', label: 'Width' },
+};
+
+/**
+ * Parse a number field; an empty or invalid field follows the global value
+ */
+function parseOverrideNumber(value: string): number | undefined {
+  const number = parseFloat(value);
+  return value.trim() === '' || !Number.isFinite(number) ? undefined : number;
+}
+
+export interface PageOverridePanelProps {
+  className?: string;
+}
+
+export function PageOverridePanel({ className = '' }: PageOverridePanelProps) {
+  const { settings, selectedLayer } = useWatermarkSettings();
+  const { selectedImage, cropSettings, setWatermarkOverride } = useImages();
+
+  const override = selectedImage?.watermarkOverride ?? null;
+  const layerOverride: LayerOverride = override?.layers[selectedLayer.id] ?? {};
+  const pageSettings = useMemo(
+    () => override && selectedImage
+      ? resolvePageSettings(settings, override, getCroppedDimensions(selectedImage, cropSettings))
+      : settings,
+    [settings, override, selectedImage, cropSettings]
+  );
+  const pageLayer = pageSettings.layers.find(layer => layer.id === selectedLayer.id) ?? selectedLayer;
+
+  // Replace the selected layer's override on this page
+  const updateLayerOverride = useCallback((updated: LayerOverride) => {
+    if (!selectedImage) return;
+    setWatermarkOverride(selectedImage.id, setLayerOverride(override, selectedLayer.id, updated));
+  }, [selectedImage, override, selectedLayer.id, setWatermarkOverride]);
+
+  // Show or hide the whole watermark; matching the global setting clears the override
+  const handlePageEnabledChange = useCallback((enabled: boolean) => {
+    if (!selectedImage) return;
+    const value = enabled === settings.enabled ? null : enabled;
+    setWatermarkOverride(selectedImage.id, setPageEnabledOverride(override, value));
+  }, [selectedImage, override, settings.enabled, setWatermarkOverride]);
+
+  const handleLayerEnabledChange = useCallback((enabled: boolean) => {
+    const { enabled: _enabled, ...rest } = layerOverride;
+    updateLayerOverride(enabled === selectedLayer.enabled ? rest : { ...rest, enabled });
+  }, [layerOverride, selectedLayer.enabled, updateLayerOverride]);
+
+  const handlePositionChange = useCallback((value: string) => {
+    const { position: _position, ...rest } = layerOverride;
+    if (value === 'global') {
+      updateLayerOverride(rest);
+    } else {
+      const presetPosition = value as WatermarkPosition['presetPosition'];
+      updateLayerOverride({ ...rest, position: { presetPosition } });
+    }
+  }, [layerOverride, updateLayerOverride]);
+
+  // Replace one config field on this page; undefined follows the global value
+  const handleConfigChange = useCallback((key: string, value: string | number | undefined) => {
+    const { [key]: _value, ...config } = (layerOverride.config ?? {}) as Record<string, unknown>;
+    const { config: _config, ...rest } = layerOverride;
+    const updatedConfig = value === undefined ? config : { ...config, [key]: value };
+    updateLayerOverride(Object.keys(updatedConfig).length > 0
+      ? { ...rest, config: updatedConfig as NonNullable<LayerOverride['config']> }
+      : rest);
+  }, [layerOverride, updateLayerOverride]);
+
+  const handleReset = useCallback(() => {
+    if (!selectedImage) return;
+    setWatermarkOverride(selectedImage.id, null);
+  }, [selectedImage, setWatermarkOverride]);
+
+  if (!selectedImage) {
+    return (
+      <p className={`text-xs text-gray-500 ${className}`}>
+        Select an image to change the watermark for that page only.
+      </p>
+    );
+  }
+
+  const positionOverride = layerOverride.position?.presetPosition;
+  const configOverride = (layerOverride.config ?? {}) as Record<string, unknown>;
+  const globalConfig = selectedLayer.config as unknown as Record<string, unknown>;
+  const textOverride = typeof configOverride['text'] === 'string' ? configOverride['text'] : '';
+  const sizeField = SIZE_FIELDS[selectedLayer.config.type];
+  const sizeOverride = configOverride[sizeField.key];
+  const opacityOverride = configOverride['opacity'];
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <p className="text-xs text-gray-500 truncate" title={selectedImage.name}>
+        Changes here apply to {selectedImage.name} only.
+      </p>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={pageSettings.enabled}
+          onChange={(e) => handlePageEnabledChange(e.target.checked)}
+          className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+        />
+        Show watermark on this page
+      </label>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={pageLayer.enabled}
+          onChange={(e) => handleLayerEnabledChange(e.target.checked)}
+          className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+        />
+        Show "{selectedLayer.name}" on this page
+      </label>
+
+      <div>
+        <label htmlFor="page-position" className="block text-sm font-medium text-gray-700 mb-1">
+          Position on this page
+        </label>
+        <select
+          id="page-position"
+          value={positionOverride ?? 'global'}
+          onChange={(e) => handlePositionChange(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+        >
+          <option value="global">Same as global</option>
+          {PRESET_POSITIONS.map((pos) => (
+            <option key={pos} value={pos}>
+              {POSITION_LABELS[pos]}
+            </option>
+          ))}
+          <option value="auto">Auto</option>
+          {positionOverride === 'custom' && <option value="custom">Custom (dragged)</option>}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">
+          Tick "This page only" above the preview to drag the watermark on this page.
+        </p>
+      </div>
+
+      {selectedLayer.config.type === 'text' && (
+        <div>
+          <label htmlFor="page-text" className="block text-sm font-medium text-gray-700 mb-1">
+            Text on this page
+          </label>
+          <input
+            id="page-text"
+            type="text"
+            value={textOverride}
+            onChange={(e) => handleConfigChange('text', e.target.value || undefined)}
+            placeholder={selectedLayer.config.text}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label htmlFor="page-size" className="block text-sm font-medium text-gray-700 mb-1">
+            {sizeField.label} on this page
+          </label>
+          <input
+            id="page-size"
+            type="number"
+            min={0}
+            step="any"
+            value={typeof sizeOverride === 'number' ? sizeOverride : ''}
+            onChange={(e) => handleConfigChange(sizeField.key, parseOverrideNumber(e.target.value))}
+            placeholder={String(globalConfig[sizeField.key])}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="page-opacity" className="block text-sm font-medium text-gray-700 mb-1">
+            Opacity on this page
+          </label>
+          <input
+            id="page-opacity"
+            type="number"
+            min={0}
+            max={100}
+            value={typeof opacityOverride === 'number' ? opacityOverride : ''}
+            onChange={(e) => {
+              const opacity = parseOverrideNumber(e.target.value);
+              handleConfigChange('opacity', opacity === undefined ? undefined : Math.max(0, Math.min(100, opacity)));
+            }}
+            placeholder={String(globalConfig['opacity'])}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Leave a field empty to use the global value.
+      </p>
+
+      <button
+        type="button"
+        onClick={handleReset}
+        disabled={!hasWatermarkOverride(override)}
+        className="w-full px-3 py-2 text-sm font-medium rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Reset to global
+      </button>
+    </div>
+  );
+}
+
+export default PageOverridePanel;
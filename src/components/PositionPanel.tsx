@@ -5,13 +5,23 @@
  */
 
 import React, { useCallback } from 'react';
-import { useWatermarkSettings } from '@/hooks';
-import type { PresetPosition } from '@/types';
+import { useWatermarkSettings, useImages } from '@/hooks';
+import {
+  POSITION_LABELS,
+  PRESET_POSITIONS,
+  SIZE_REFERENCES,
+  SIZE_REFERENCE_LABELS,
+  type PresetPosition,
+  type SizeReference,
+} from '@/types';
 
 export interface PositionPanelProps {
   className?: string;
 }
 
+// Page size used to convert units when no image is selected
+const FALLBACK_PAGE_SIZE = { width: 1000, height: 1500 };
+
 // Position grid layout mapping
 const POSITION_GRID: PresetPosition[][] = [
   ['top-left', 'top-center', 'top-right'],
@@ -19,19 +29,6 @@ const POSITION_GRID: PresetPosition[][] = [
   ['bottom-left', 'bottom-center', 'bottom-right'],
 ];
 
-// Position labels for accessibility
-const POSITION_LABELS: Record<PresetPosition, string> = {
-  'top-left': 'Top Left',
-  'top-center': 'Top Center',
-  'top-right': 'Top Right',
-  'middle-left': 'Middle Left',
-  'center': 'Center',
-  'middle-right': 'Middle Right',
-  'bottom-left': 'Bottom Left',
-  'bottom-center': 'Bottom Center',
-  'bottom-right': 'Bottom Right',
-};
-
 export function PositionPanel({ className = '' }: PositionPanelProps) {
   const {
     position,
@@ -39,24 +36,55 @@ export function PositionPanel({ className = '' }: PositionPanelProps) {
     setOffset,
     setRotation,
     setMargins,
+    setAutoCandidates,
+    setAutoGutters,
+    setUnit,
+    setSizeReference,
   } = useWatermarkSettings();
+  const { selectedImage } = useImages();
+
+  const isAuto = position.presetPosition === 'auto';
+  const isPercent = position.unit === 'percent';
+  const unitLabel = isPercent ? '%' : 'px';
+
+  // Parse a typed offset or margin; percentages may have decimals
+  const parseValue = useCallback((value: string) => {
+    return (isPercent ? parseFloat(value) : parseInt(value, 10)) || 0;
+  }, [isPercent]);
 
   // Handle offset changes
   const handleOffsetXChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = parseInt(e.target.value, 10) || 0;
-    setOffset(value, position.offsetY);
-  }, [position.offsetY, setOffset]);
+    setOffset(parseValue(e.target.value), position.offsetY);
+  }, [position.offsetY, setOffset, parseValue]);
 
   const handleOffsetYChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = parseInt(e.target.value, 10) || 0;
-    setOffset(position.offsetX, value);
-  }, [position.offsetX, setOffset]);
+    setOffset(position.offsetX, parseValue(e.target.value));
+  }, [position.offsetX, setOffset, parseValue]);
+
+  // Switch units, keeping the watermark where it is on the selected page
+  const handleUnitChange = useCallback((percent: boolean) => {
+    const pageSize = selectedImage
+      ? { width: selectedImage.width, height: selectedImage.height }
+      : FALLBACK_PAGE_SIZE;
+    setUnit(percent ? 'percent' : 'px', pageSize);
+  }, [selectedImage, setUnit]);
 
   // Handle margin changes
   const handleMarginChange = useCallback((side: 'top' | 'right' | 'bottom' | 'left', value: number) => {
     setMargins({ [side]: value });
   }, [setMargins]);
 
+  // Allow or exclude a spot for auto placement (at least one must stay allowed)
+  const handleAutoCandidateToggle = useCallback((pos: PresetPosition) => {
+    if (position.autoCandidates.includes(pos)) {
+      if (position.autoCandidates.length > 1) {
+        setAutoCandidates(position.autoCandidates.filter(candidate => candidate !== pos));
+      }
+    } else {
+      setAutoCandidates([...position.autoCandidates, pos]);
+    }
+  }, [position.autoCandidates, setAutoCandidates]);
+
   return (
     <div className={`space-y-4 ${className}`}>
       {/* 9-Position Grid Selector - Requirement 4.1 */}
@@ -92,10 +120,107 @@ export function PositionPanel({ className = '' }: PositionPanelProps) {
             })
           ))}
         </div>
+        <button
+          type="button"
+          onClick={() => setPresetPosition('auto')}
+          className={`block mt-2 px-3 py-1.5 text-xs font-medium rounded-md border transition-colors ${
+            isAuto
+              ? 'bg-blue-600 text-white border-blue-600'
+              : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+          }`}
+          aria-pressed={isAuto}
+          title="Pick the least busy spot on each page"
+        >
+          Auto
+        </button>
+        <p className="text-xs text-gray-500 mt-1">
+          {position.presetPosition === 'custom'
+            ? 'Custom position'
+            : position.presetPosition === 'auto'
+              ? 'Auto: least busy spot per page'
+              : POSITION_LABELS[position.presetPosition]}
+        </p>
+      </div>
+
+      {/* Smart placement candidates */}
+      {isAuto && (
+        <div className="space-y-2 pl-2 border-l-2 border-blue-200">
+          <span className="block text-sm font-medium text-gray-600">
+            Allowed Spots
+          </span>
+          <div className="grid grid-cols-2 gap-1">
+            {PRESET_POSITIONS.map((pos) => (
+              <label key={pos} className="flex items-center gap-2 text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={position.autoCandidates.includes(pos)}
+                  onChange={() => handleAutoCandidateToggle(pos)}
+                  className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                />
+                {POSITION_LABELS[pos]}
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={position.autoGutters}
+              onChange={(e) => setAutoGutters(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+            />
+            Also try panel gutters
+          </label>
+          <p className="text-xs text-gray-500">
+            Ties go to the spot checked first. Margins and offsets still apply.
+          </p>
+        </div>
+      )}
+
+      {/* Units: pixels, or percentages of the page for mixed-resolution chapters */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Units
+        </label>
+        <div className="flex gap-2">
+          {[false, true].map((percent) => (
+            <button
+              key={String(percent)}
+              type="button"
+              onClick={() => handleUnitChange(percent)}
+              className={`flex-1 px-3 py-2 text-sm rounded-md border transition-colors ${
+                isPercent === percent
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+              aria-pressed={isPercent === percent}
+            >
+              {percent ? 'Percent' : 'Pixels'}
+            </button>
+          ))}
+        </div>
+        {isPercent && (
+          <div className="mt-2">
+            <label htmlFor="size-reference" className="block text-xs text-gray-500 mb-1">
+              Size relative to
+            </label>
+            <select
+              id="size-reference"
+              value={position.sizeReference}
+              onChange={(e) => setSizeReference(e.target.value as SizeReference)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+            >
+              {SIZE_REFERENCES.map((reference) => (
+                <option key={reference} value={reference}>
+                  {SIZE_REFERENCE_LABELS[reference]}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
         <p className="text-xs text-gray-500 mt-1">
-          {position.presetPosition === 'custom' 
-            ? 'Custom position' 
-            : POSITION_LABELS[position.presetPosition as PresetPosition]}
+          {isPercent
+            ? 'Size, offsets and margins scale with each page'
+            : 'Same pixel size on every page'}
         </p>
       </div>
 
@@ -107,11 +232,12 @@ export function PositionPanel({ className = '' }: PositionPanelProps) {
         <div className="grid grid-cols-2 gap-3">
           <div>
             <label htmlFor="offset-x" className="block text-xs text-gray-500 mb-1">
-              X Offset (px)
+              X Offset ({unitLabel})
             </label>
             <input
               id="offset-x"
               type="number"
+              step={isPercent ? 0.1 : 1}
               value={position.offsetX}
               onChange={handleOffsetXChange}
               className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
@@ -119,11 +245,12 @@ export function PositionPanel({ className = '' }: PositionPanelProps) {
           </div>
           <div>
             <label htmlFor="offset-y" className="block text-xs text-gray-500 mb-1">
-              Y Offset (px)
+              Y Offset ({unitLabel})
             </label>
             <input
               id="offset-y"
               type="number"
+              step={isPercent ? 0.1 : 1}
               value={position.offsetY}
               onChange={handleOffsetYChange}
               className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
@@ -166,8 +293,9 @@ export function PositionPanel({ className = '' }: PositionPanelProps) {
             <input
               type="number"
               min="0"
+              step={isPercent ? 0.1 : 1}
               value={position.marginTop}
-              onChange={(e) => handleMarginChange('top', Math.max(0, parseInt(e.target.value, 10) || 0))}
+              onChange={(e) => handleMarginChange('top', Math.max(0, parseValue(e.target.value)))}
               className="w-16 px-2 py-1 text-center text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
               aria-label="Top margin"
             />
@@ -178,23 +306,25 @@ export function PositionPanel({ className = '' }: PositionPanelProps) {
             <input
               type="number"
               min="0"
+              step={isPercent ? 0.1 : 1}
               value={position.marginLeft}
-              onChange={(e) => handleMarginChange('left', Math.max(0, parseInt(e.target.value, 10) || 0))}
+              onChange={(e) => handleMarginChange('left', Math.max(0, parseValue(e.target.value)))}
               className="w-16 px-2 py-1 text-center text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
               aria-label="Left margin"
             />
             
             {/* Center box representing content */}
             <div className="w-16 h-12 bg-gray-200 rounded flex items-center justify-center">
-              <span className="text-xs text-gray-500">px</span>
+              <span className="text-xs text-gray-500">{unitLabel}</span>
             </div>
             
             {/* Right margin */}
             <input
               type="number"
               min="0"
+              step={isPercent ? 0.1 : 1}
               value={position.marginRight}
-              onChange={(e) => handleMarginChange('right', Math.max(0, parseInt(e.target.value, 10) || 0))}
+              onChange={(e) => handleMarginChange('right', Math.max(0, parseValue(e.target.value)))}
               className="w-16 px-2 py-1 text-center text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
               aria-label="Right margin"
             />
@@ -205,8 +335,9 @@ export function PositionPanel({ className = '' }: PositionPanelProps) {
             <input
               type="number"
               min="0"
+              step={isPercent ? 0.1 : 1}
               value={position.marginBottom}
-              onChange={(e) => handleMarginChange('bottom', Math.max(0, parseInt(e.target.value, 10) || 0))}
+              onChange={(e) => handleMarginChange('bottom', Math.max(0, parseValue(e.target.value)))}
               className="w-16 px-2 py-1 text-center text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
               aria-label="Bottom margin"
             />
@@ -214,7 +345,7 @@ export function PositionPanel({ className = '' }: PositionPanelProps) {
         </div>
         
         <p className="text-xs text-gray-500 text-center mt-2">
-          Distance from image edges
+          {isPercent ? 'Distance from image edges, in % of the page' : 'Distance from image edges'}
         </p>
       </div>
     </div>
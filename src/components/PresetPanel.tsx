@@ -5,8 +5,8 @@
  */
 
 import React, { useState, useCallback, useRef } from 'react';
-import { usePresets, useWatermarkSettings } from '@/hooks';
-import type { Preset } from '@/types';
+import { usePresets, useWatermarkSettings, useImages } from '@/hooks';
+import { getDefaultLayerName, type Preset } from '@/types';
 
 export interface PresetPanelProps {
   className?: string;
@@ -25,10 +25,12 @@ export function PresetPanel({ className = '' }: PresetPanelProps) {
   } = usePresets();
   
   useWatermarkSettings();
+  const { adjustments } = useImages();
   
   // Local state
   const [isCreating, setIsCreating] = useState(false);
   const [newPresetName, setNewPresetName] = useState('');
+  const [includeAdjustments, setIncludeAdjustments] = useState(true);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState('');
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
@@ -40,10 +42,12 @@ export function PresetPanel({ className = '' }: PresetPanelProps) {
   const handleSavePreset = useCallback(() => {
     if (!newPresetName.trim()) return;
     
-    savePreset(newPresetName.trim());
+    // Image adjustments are saved only while they are turned on
+    const adjustmentsToSave = includeAdjustments && adjustments.enabled ? adjustments : undefined;
+    savePreset(newPresetName.trim(), undefined, adjustmentsToSave);
     setNewPresetName('');
     setIsCreating(false);
-  }, [newPresetName, savePreset]);
+  }, [newPresetName, includeAdjustments, adjustments, savePreset]);
 
   // Handle load preset - Requirement 5.2
   const handleLoadPreset = useCallback((presetId: string) => {
@@ -114,6 +118,14 @@ export function PresetPanel({ className = '' }: PresetPanelProps) {
     setEditingName('');
   }, []);
 
+  // Summarize the layer stack of a preset
+  const formatLayerSummary = (layers: Preset['settings']['layers']) => {
+    if (layers.length === 1) {
+      return layers[0] ? getDefaultLayerName(layers[0].config) : '';
+    }
+    return `${layers.length} layers`;
+  };
+
   // Format date for display
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString(undefined, {
@@ -232,6 +244,17 @@ export function PresetPanel({ className = '' }: PresetPanelProps) {
               Cancel
             </button>
           </div>
+          {adjustments.enabled && (
+            <label className="flex items-center gap-2 mt-2 text-xs text-blue-700">
+              <input
+                type="checkbox"
+                checked={includeAdjustments}
+                onChange={(e) => setIncludeAdjustments(e.target.checked)}
+                className="w-3.5 h-3.5 text-blue-600 rounded border-blue-300 focus:ring-blue-500"
+              />
+              Include image adjustments
+            </label>
+          )}
         </div>
       )}
 
@@ -329,7 +352,8 @@ export function PresetPanel({ className = '' }: PresetPanelProps) {
                 >
                   <div className="text-sm font-medium text-gray-800">{preset.name}</div>
                   <div className="text-xs text-gray-500">
-                    {preset.settings.config.type === 'text' ? 'Text' : 'Image'} • {formatDate(preset.updatedAt)}
+                    {formatLayerSummary(preset.settings.layers)}
+                    {preset.adjustments && ' • adjustments'} • {formatDate(preset.updatedAt)}
                   </div>
                 </div>
                 
@@ -1,6 +1,7 @@
 /**
  * PreviewCanvas Component
- * Renders image with watermark overlay, supports zoom, pan, and draggable watermark
+ * Renders image with watermark overlay, supports zoom, pan, and selectable,
+ * draggable watermark layers
  * Requirements: 8.1, 8.2, 8.3, 8.4, 8.5
  */
 
@@ -10,19 +11,42 @@ import { useWatermarkSettings, useImages } from '@/hooks';
 import {
   render as renderWatermark,
   loadImageFromDataUrl,
-  getTextWatermarkDimensions,
-  calculateScaledDimensions,
+  loadWatermarkImages,
+  getLayerDimensions,
   calculateWatermarkBounds,
+  resolveLayerUnits,
   hitTest,
   type WatermarkBounds,
+  type WatermarkImages,
 } from '@/services/WatermarkRenderer';
+import { resolveCropRegion } from '@/services/ImageCropper';
+import { applyAdjustments, isNeutralAdjustments } from '@/services/ImageAdjuster';
+import { resolvePageSettings, setLayerOverride } from '@/services/PageOverrides';
+import { fillWatermarkText } from '@/services/WatermarkText';
+import { getBatchTextValues, generateBatchFilenames } from '@/services/ImageProcessor';
+import type { AutoPlacement, PlacementSpot } from '@/services/SmartPlacement';
+import { POSITION_LABELS } from '@/types';
 import type { Dimensions, Point } from '@/utils/position';
-import type { TextWatermarkConfig, ImageWatermarkConfig } from '@/types';
+
+/**
+ * On-canvas bounds of a drawn layer
+ */
+interface LayerBounds {
+  layerId: string;
+  bounds: WatermarkBounds;
+}
 
 export interface PreviewCanvasProps {
   className?: string;
 }
 
+/**
+ * Display name of a smart placement spot
+ */
+function getSpotLabel(spot: PlacementSpot): string {
+  return spot === 'gutter' ? 'Panel Gutter' : POSITION_LABELS[spot];
+}
+
 // Zoom constraints
 const MIN_ZOOM = 0.1;
 const MAX_ZOOM = 10;
@@ -33,18 +57,24 @@ export function PreviewCanvas({ className = '' }: PreviewCanvasProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   
   const { state, dispatch } = useAppContext();
-  const { selectedImage } = useImages();
-  const { settings, setOffset, setPresetPosition } = useWatermarkSettings();
+  const { images, selectedImage, cropSettings, adjustments, setWatermarkOverride } = useImages();
+  const { settings: globalSettings, selectedLayer, selectLayer, setOffset, setPresetPosition } = useWatermarkSettings();
   
-  const { previewZoom, previewPan, watermarkVisible } = state;
+  const { previewZoom, previewPan, watermarkVisible, exportSettings, renameSettings } = state;
   
   // Local state
   const [loadedImage, setLoadedImage] = useState<HTMLImageElement | null>(null);
-  const [watermarkImage, setWatermarkImage] = useState<HTMLImageElement | null>(null);
+  const [watermarkImages, setWatermarkImages] = useState<WatermarkImages<HTMLImageElement>>(() => new Map());
   const [isDragging, setIsDragging] = useState(false);
   const [isDraggingWatermark, setIsDraggingWatermark] = useState(false);
   const [dragStart, setDragStart] = useState<Point>({ x: 0, y: 0 });
-  const [watermarkBounds, setWatermarkBounds] = useState<WatermarkBounds | null>(null);
+  const [layerBounds, setLayerBounds] = useState<LayerBounds[]>([]);
+  const [autoPlacement, setAutoPlacement] = useState<AutoPlacement | null>(null);
+  const [editPageOnly, setEditPageOnly] = useState(false);
+  const [showOriginal, setShowOriginal] = useState(false);
+
+  // Decoded watermark images by data URL, so layer edits don't re-decode them
+  const decodedImagesRef = useRef(new Map<string, HTMLImageElement>());
 
 
   // Load selected image when it changes
@@ -60,85 +90,176 @@ export function PreviewCanvas({ className = '' }: PreviewCanvasProps) {
     img.src = selectedImage.dataUrl;
   }, [selectedImage]);
 
-  // Load watermark image when config changes
-  useEffect(() => {
-    if (settings.config.type !== 'image') {
-      setWatermarkImage(null);
-      return;
-    }
+  // Region of the source image shown in the preview (crop is non-destructive)
+  const sourceRegion = useMemo(() => {
+    if (!selectedImage) return null;
+    return resolveCropRegion(selectedImage, cropSettings) ?? {
+      x: 0,
+      y: 0,
+      width: selectedImage.width,
+      height: selectedImage.height,
+    };
+  }, [selectedImage, cropSettings]);
+
+  // Watermark of the selected page, with its overrides merged over the global settings
+  const pageOverride = selectedImage?.watermarkOverride ?? null;
+  const settings = useMemo(
+    () => pageOverride && sourceRegion
+      ? resolvePageSettings(globalSettings, pageOverride, sourceRegion)
+      : globalSettings,
+    [globalSettings, pageOverride, sourceRegion]
+  );
+  const pageLayer = settings.layers.find(layer => layer.id === selectedLayer.id) ?? selectedLayer;
 
-    const imageConfig = settings.config as ImageWatermarkConfig;
-    if (!imageConfig.imageData) {
-      setWatermarkImage(null);
-      return;
+  // Text variables filled in as they would be on export of the selected page
+  const renderedSettings = useMemo(() => {
+    if (!selectedImage) {
+      return settings;
     }
+    const index = Math.max(images.findIndex(image => image.id === selectedImage.id), 0);
+    const outputFilename = generateBatchFilenames(
+      images.map(image => image.name),
+      exportSettings,
+      renameSettings
+    )[index] ?? selectedImage.name;
+    return fillWatermarkText(settings, getBatchTextValues(selectedImage, index, outputFilename, { renameSettings }));
+  }, [settings, selectedImage, images, exportSettings, renameSettings]);
+
+  // Page with the image adjustments applied, kept so watermark edits don't redo them
+  const adjustedSource = useMemo(() => {
+    if (!loadedImage || !sourceRegion || isNeutralAdjustments(adjustments)) return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = sourceRegion.width;
+    canvas.height = sourceRegion.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
 
-    loadImageFromDataUrl(imageConfig.imageData)
-      .then(setWatermarkImage)
-      .catch(() => setWatermarkImage(null));
-  }, [settings.config]);
+    ctx.drawImage(
+      loadedImage,
+      sourceRegion.x, sourceRegion.y, sourceRegion.width, sourceRegion.height,
+      0, 0, sourceRegion.width, sourceRegion.height
+    );
+    applyAdjustments(ctx, adjustments, sourceRegion);
+    return canvas;
+  }, [loadedImage, sourceRegion, adjustments]);
 
-  // Calculate watermark dimensions
-  const watermarkDimensions = useMemo((): Dimensions | null => {
-    if (!loadedImage) return null;
-    
-    const canvas = canvasRef.current;
-    if (!canvas) return null;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
+  // Load the images of image layers when the layer stack changes
+  useEffect(() => {
+    let cancelled = false;
+    const cache = decodedImagesRef.current;
+
+    loadWatermarkImages(settings, async (dataUrl) => {
+      const cached = cache.get(dataUrl);
+      if (cached) return cached;
+      const img = await loadImageFromDataUrl(dataUrl);
+      cache.set(dataUrl, img);
+      return img;
+    })
+      .then((images) => {
+        if (cancelled) return;
+        setWatermarkImages(previous => {
+          const unchanged = previous.size === images.size &&
+            [...images].every(([layerId, img]) => previous.get(layerId) === img);
+          return unchanged ? previous : images;
+        });
+      })
+      .catch(() => {
+        if (!cancelled) setWatermarkImages(new Map());
+      });
 
-    if (settings.config.type === 'text') {
-      const textConfig = settings.config as TextWatermarkConfig;
-      if (!textConfig.text) return null;
-      return getTextWatermarkDimensions(ctx, textConfig);
-    } else if (settings.config.type === 'image' && watermarkImage) {
-      const imageConfig = settings.config as ImageWatermarkConfig;
-      return calculateScaledDimensions(
-        watermarkImage.naturalWidth,
-        watermarkImage.naturalHeight,
-        imageConfig.scale
-      );
-    }
-    return null;
-  }, [loadedImage, settings.config, watermarkImage]);
+    return () => {
+      cancelled = true;
+    };
+  }, [settings]);
 
   // Render canvas - Requirement 8.1
   const renderCanvas = useCallback(async () => {
     const canvas = canvasRef.current;
-    if (!canvas || !loadedImage) return;
+    if (!canvas || !loadedImage || !sourceRegion) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Set canvas size to match image
-    canvas.width = loadedImage.naturalWidth;
-    canvas.height = loadedImage.naturalHeight;
+    // Set canvas size to match the (cropped) image
+    canvas.width = sourceRegion.width;
+    canvas.height = sourceRegion.height;
 
     // Clear canvas
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-    // Draw the image
-    ctx.drawImage(loadedImage, 0, 0);
+    // Draw the image, cleaned as the export does unless comparing with the original
+    if (adjustedSource && !showOriginal) {
+      ctx.drawImage(adjustedSource, 0, 0);
+    } else {
+      ctx.drawImage(
+        loadedImage,
+        sourceRegion.x, sourceRegion.y, sourceRegion.width, sourceRegion.height,
+        0, 0, sourceRegion.width, sourceRegion.height
+      );
+    }
 
     // Draw watermark if visible - Requirement 8.4
-    if (watermarkVisible && settings.enabled) {
+    if (watermarkVisible && renderedSettings.enabled) {
       const canvasSize: Dimensions = {
         width: canvas.width,
         height: canvas.height,
       };
 
-      await renderWatermark(ctx, settings, canvasSize, watermarkImage ?? undefined);
+      const placements = await renderWatermark(ctx, renderedSettings, canvasSize, watermarkImages);
+
+      // Update layer bounds for hit testing (auto layers sit where they were placed)
+      const bounds: LayerBounds[] = [];
+      for (const settingsLayer of renderedSettings.layers) {
+        if (!settingsLayer.enabled) continue;
+        const layer = resolveLayerUnits(settingsLayer, canvasSize, watermarkImages.get(settingsLayer.id));
+        const dimensions = getLayerDimensions(ctx, layer, watermarkImages.get(layer.id));
+        if (!dimensions) continue;
+        const placement = placements.get(layer.id);
+        bounds.push({
+          layerId: layer.id,
+          bounds: placement
+            ? { ...placement.chosen.point, ...dimensions }
+            : calculateWatermarkBounds(layer, canvasSize, dimensions),
+        });
+      }
+      setLayerBounds(bounds);
+
+      const selected = bounds.find(b => b.layerId === selectedLayer.id);
+
+      // Show the spots smart placement weighed for the selected layer
+      const placement = placements.get(selectedLayer.id) ?? null;
+      setAutoPlacement(placement);
+      if (placement && selected) {
+        ctx.save();
+        ctx.lineWidth = Math.max(1, 1 / previewZoom);
+        ctx.font = `${Math.max(10, Math.round(11 / previewZoom))}px sans-serif`;
+        ctx.textBaseline = 'top';
+        for (const candidate of placement.candidates) {
+          const isChosen = candidate === placement.chosen;
+          ctx.strokeStyle = isChosen ? '#16a34a' : '#f59e0b';
+          ctx.fillStyle = ctx.strokeStyle;
+          ctx.setLineDash(isChosen ? [] : [4, 4]);
+          ctx.strokeRect(candidate.point.x, candidate.point.y, selected.bounds.width, selected.bounds.height);
+          ctx.fillText(candidate.busyness.toFixed(1), candidate.point.x + 2, candidate.point.y + 2);
+        }
+        ctx.restore();
+      }
 
-      // Update watermark bounds for hit testing
-      if (watermarkDimensions) {
-        const bounds = calculateWatermarkBounds(settings, canvasSize, watermarkDimensions);
-        setWatermarkBounds(bounds);
+      // Outline the selected layer when there is more than one
+      if (selected && renderedSettings.layers.length > 1) {
+        ctx.save();
+        ctx.strokeStyle = '#3b82f6';
+        ctx.lineWidth = Math.max(1, 1 / previewZoom);
+        ctx.setLineDash([6, 4]);
+        ctx.strokeRect(selected.bounds.x, selected.bounds.y, selected.bounds.width, selected.bounds.height);
+        ctx.restore();
       }
     } else {
-      setWatermarkBounds(null);
+      setLayerBounds([]);
+      setAutoPlacement(null);
     }
-  }, [loadedImage, watermarkImage, settings, watermarkVisible, watermarkDimensions]);
+  }, [loadedImage, sourceRegion, adjustedSource, showOriginal, watermarkImages, renderedSettings, selectedLayer.id, watermarkVisible, previewZoom]);
 
   // Re-render when dependencies change - Requirement 8.1 (within 100ms)
   useEffect(() => {
@@ -172,12 +293,16 @@ export function PreviewCanvas({ className = '' }: PreviewCanvasProps) {
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     const canvasPoint = screenToCanvas(e.clientX, e.clientY);
     
-    // Check if clicking on watermark for dragging - Requirement 8.4 (draggable)
-    if (watermarkBounds && hitTest(canvasPoint.x, canvasPoint.y, watermarkBounds)) {
+    // Select and drag the topmost layer under the cursor - Requirement 8.4 (draggable)
+    const hit = [...layerBounds].reverse().find(({ bounds }) =>
+      hitTest(canvasPoint.x, canvasPoint.y, bounds)
+    );
+    if (hit) {
+      selectLayer(hit.layerId);
       setIsDraggingWatermark(true);
       setDragStart({
-        x: canvasPoint.x - watermarkBounds.x,
-        y: canvasPoint.y - watermarkBounds.y,
+        x: canvasPoint.x - hit.bounds.x,
+        y: canvasPoint.y - hit.bounds.y,
       });
       return;
     }
@@ -185,7 +310,7 @@ export function PreviewCanvas({ className = '' }: PreviewCanvasProps) {
     // Otherwise start panning - Requirement 8.3
     setIsDragging(true);
     setDragStart({ x: e.clientX - previewPan.x, y: e.clientY - previewPan.y });
-  }, [screenToCanvas, watermarkBounds, previewPan]);
+  }, [screenToCanvas, layerBounds, selectLayer, previewPan]);
 
   // Handle mouse move for pan/drag
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
@@ -195,9 +320,31 @@ export function PreviewCanvas({ className = '' }: PreviewCanvasProps) {
       const newX = canvasPoint.x - dragStart.x;
       const newY = canvasPoint.y - dragStart.y;
       
-      // Switch to custom position and set offset
-      setPresetPosition('custom');
-      setOffset(Math.round(newX), Math.round(newY));
+      const [offsetX, offsetY] = pageLayer.position.unit === 'percent' && sourceRegion
+        ? [
+            Math.round(newX / sourceRegion.width * 10000) / 100,
+            Math.round(newY / sourceRegion.height * 10000) / 100,
+          ]
+        : [Math.round(newX), Math.round(newY)];
+
+      if (editPageOnly && selectedImage) {
+        // Move the layer on this page only
+        const layerOverride = pageOverride?.layers[selectedLayer.id];
+        setWatermarkOverride(selectedImage.id, setLayerOverride(pageOverride, selectedLayer.id, {
+          ...layerOverride,
+          position: {
+            ...layerOverride?.position,
+            presetPosition: 'custom',
+            offsetX,
+            offsetY,
+            unit: pageLayer.position.unit,
+          },
+        }));
+      } else {
+        // Switch to custom position and set offset
+        setPresetPosition('custom');
+        setOffset(offsetX, offsetY);
+      }
     } else if (isDragging) {
       // Pan canvas - Requirement 8.3
       const newPan = {
@@ -206,7 +353,7 @@ export function PreviewCanvas({ className = '' }: PreviewCanvasProps) {
       };
       dispatch({ type: 'SET_PREVIEW_PAN', payload: newPan });
     }
-  }, [isDragging, isDraggingWatermark, dragStart, screenToCanvas, loadedImage, setPresetPosition, setOffset, dispatch]);
+  }, [isDragging, isDraggingWatermark, dragStart, screenToCanvas, loadedImage, pageLayer.position.unit, sourceRegion, editPageOnly, selectedImage, pageOverride, selectedLayer.id, setWatermarkOverride, setPresetPosition, setOffset, dispatch]);
 
   // Handle mouse up
   const handleMouseUp = useCallback(() => {
@@ -233,28 +380,28 @@ export function PreviewCanvas({ className = '' }: PreviewCanvasProps) {
 
   // Fit to container
   const fitToContainer = useCallback(() => {
-    if (!loadedImage || !containerRef.current) return;
+    if (!sourceRegion || !containerRef.current) return;
     
     const container = containerRef.current;
     const containerWidth = container.clientWidth - 40; // padding
     const containerHeight = container.clientHeight - 40;
     
-    const scaleX = containerWidth / loadedImage.naturalWidth;
-    const scaleY = containerHeight / loadedImage.naturalHeight;
+    const scaleX = containerWidth / sourceRegion.width;
+    const scaleY = containerHeight / sourceRegion.height;
     const scale = Math.min(scaleX, scaleY, 1);
     
     dispatch({ type: 'SET_PREVIEW_ZOOM', payload: scale });
     dispatch({ type: 'SET_PREVIEW_PAN', payload: { x: 20, y: 20 } });
-  }, [loadedImage, dispatch]);
+  }, [sourceRegion, dispatch]);
 
 
   // Cursor style based on state
   const cursorStyle = useMemo(() => {
     if (isDraggingWatermark) return 'grabbing';
     if (isDragging) return 'grabbing';
-    if (watermarkBounds) return 'grab';
+    if (layerBounds.length > 0) return 'grab';
     return 'default';
-  }, [isDragging, isDraggingWatermark, watermarkBounds]);
+  }, [isDragging, isDraggingWatermark, layerBounds]);
 
   // No image selected state
   if (!selectedImage) {
@@ -331,6 +478,38 @@ export function PreviewCanvas({ className = '' }: PreviewCanvasProps) {
         </div>
 
         <div className="flex items-center gap-2">
+          {/* Drag edits apply to this page only */}
+          <label
+            className="flex items-center gap-1 text-xs text-gray-600"
+            title="Dragging moves the watermark on this page only"
+          >
+            <input
+              type="checkbox"
+              checked={editPageOnly}
+              onChange={(e) => setEditPageOnly(e.target.checked)}
+              className="w-3.5 h-3.5 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+            />
+            This page only
+          </label>
+
+          {/* Before/after comparison of the image adjustments */}
+          {!isNeutralAdjustments(adjustments) && (
+            <button
+              type="button"
+              onMouseDown={() => setShowOriginal(true)}
+              onMouseUp={() => setShowOriginal(false)}
+              onMouseLeave={() => setShowOriginal(false)}
+              className={`px-2 py-1 text-xs rounded transition-colors ${
+                showOriginal
+                  ? 'text-white bg-blue-600'
+                  : 'text-gray-600 bg-gray-100 hover:bg-gray-200'
+              }`}
+              title="Hold to show the page before adjustments"
+            >
+              Before
+            </button>
+          )}
+
           {/* Watermark visibility toggle - Requirement 8.4 */}
           <button
             type="button"
@@ -353,7 +532,9 @@ export function PreviewCanvas({ className = '' }: PreviewCanvasProps) {
 
           {/* Image info */}
           <span className="text-xs text-gray-500">
-            {selectedImage.width} × {selectedImage.height}
+            {sourceRegion && (sourceRegion.width !== selectedImage.width || sourceRegion.height !== selectedImage.height)
+              ? `${sourceRegion.width} × ${sourceRegion.height} (cropped)`
+              : `${selectedImage.width} × ${selectedImage.height}`}
           </span>
         </div>
       </div>
@@ -408,10 +589,21 @@ export function PreviewCanvas({ className = '' }: PreviewCanvasProps) {
 
       {/* Status bar */}
       <div className="flex items-center justify-between px-3 py-1.5 bg-gray-50 border-t border-gray-200 text-xs text-gray-500">
-        <span>{selectedImage.name}</span>
+        <span>
+          {selectedImage.name}
+          {pageOverride && <span className="ml-2 text-amber-600">• Page override</span>}
+        </span>
+        {autoPlacement && (
+          <span
+            className="text-green-700"
+            title="Busyness is the edge density under the watermark; lower is emptier"
+          >
+            {`Auto: ${getSpotLabel(autoPlacement.chosen.spot)} — least busy of ${autoPlacement.candidates.length} spots (${autoPlacement.chosen.busyness.toFixed(1)})`}
+          </span>
+        )}
         <span>
           {watermarkVisible && settings.enabled
-            ? `Watermark: ${settings.config.type}`
+            ? `Watermark: ${settings.layers.length === 1 ? selectedLayer.config.type : `${settings.layers.length} layers`}`
             : 'Watermark hidden'}
         </span>
       </div>
@@ -0,0 +1,278 @@
+/**
+ * QrWatermarkPanel Component
+ * Configuration panel for QR code watermark settings, e.g. a small code
+ * linking to the group's reader site
+ */
+
+import { useWatermarkSettings } from '@/hooks';
+import {
+  BLEND_MODES,
+  BLEND_MODE_LABELS,
+  QR_ERROR_CORRECTION_LEVELS,
+  QR_ERROR_CORRECTION_LABELS,
+  SIZE_REFERENCE_LABELS,
+  type BlendMode,
+  type QrErrorCorrection,
+  type QrWatermarkConfig,
+} from '@/types';
+import { getQrCode } from '@/services/WatermarkRenderer';
+
+export interface QrWatermarkPanelProps {
+  className?: string;
+}
+
+export function QrWatermarkPanel({ className = '' }: QrWatermarkPanelProps) {
+  const {
+    config,
+    position,
+    isQrWatermark,
+    setQrContent,
+    setQrErrorCorrection,
+    setQrSize,
+    setQrColor,
+    setQrBackgroundColor,
+    setQrBackgroundTransparent,
+    setQrQuietZone,
+    setQrOpacity,
+    setBlendMode,
+    setTileEnabled,
+    setTileSpacing,
+  } = useWatermarkSettings();
+
+  // Only render if we have a QR code watermark config
+  if (!isQrWatermark) {
+    return null;
+  }
+
+  const qrConfig = config as QrWatermarkConfig;
+  const isPercentSize = position.unit === 'percent';
+  const code = getQrCode(qrConfig);
+  const moduleSize = code ? qrConfig.size / (code.size + qrConfig.quietZone * 2) : 0;
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {/* Content */}
+      <div>
+        <label htmlFor="qr-content" className="block text-sm font-medium text-gray-700 mb-1">
+          Content
+        </label>
+        <input
+          id="qr-content"
+          type="text"
+          value={qrConfig.content}
+          onChange={(e) => setQrContent(e.target.value)}
+          placeholder="https://example.org"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+        />
+        {qrConfig.content && !code ? (
+          <p className="mt-1 text-xs text-red-600">
+            Too long for a QR code at this error correction level.
+          </p>
+        ) : code && (
+          <p className="mt-1 text-xs text-gray-500">
+            Version {code.version}, {code.size}×{code.size} modules.
+          </p>
+        )}
+      </div>
+
+      {/* Error Correction */}
+      <div>
+        <label htmlFor="qr-error-correction" className="block text-sm font-medium text-gray-700 mb-1">
+          Error Correction
+        </label>
+        <select
+          id="qr-error-correction"
+          value={qrConfig.errorCorrection}
+          onChange={(e) => setQrErrorCorrection(e.target.value as QrErrorCorrection)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+        >
+          {QR_ERROR_CORRECTION_LEVELS.map((level) => (
+            <option key={level} value={level}>
+              {QR_ERROR_CORRECTION_LABELS[level]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Size (width as % of the page in percent units) */}
+      <div>
+        <label htmlFor="qr-size" className="block text-sm font-medium text-gray-700 mb-1">
+          {isPercentSize
+            ? `Width: ${Math.round(qrConfig.size * 10) / 10}% of ${SIZE_REFERENCE_LABELS[position.sizeReference].toLowerCase()}`
+            : `Width: ${Math.round(qrConfig.size)}px`}
+        </label>
+        <input
+          id="qr-size"
+          type="range"
+          min={isPercentSize ? 1 : 40}
+          max={isPercentSize ? 50 : 600}
+          step={isPercentSize ? 0.5 : 1}
+          value={qrConfig.size}
+          onChange={(e) => setQrSize(Number(e.target.value))}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+        />
+        {!isPercentSize && code && moduleSize < 2 && (
+          <p className="mt-1 text-xs text-amber-600">
+            Modules are under 2px; phones may not scan the code.
+          </p>
+        )}
+      </div>
+
+      {/* Colors */}
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="qr-color" className="block text-sm font-medium text-gray-700 mb-1">
+            Modules
+          </label>
+          <input
+            id="qr-color"
+            type="color"
+            value={qrConfig.color}
+            onChange={(e) => setQrColor(e.target.value)}
+            className="w-full h-9 border border-gray-300 rounded-md cursor-pointer"
+          />
+        </div>
+        <div>
+          <label htmlFor="qr-background" className="block text-sm font-medium text-gray-700 mb-1">
+            Background
+          </label>
+          <input
+            id="qr-background"
+            type="color"
+            value={qrConfig.backgroundColor}
+            disabled={qrConfig.backgroundTransparent}
+            onChange={(e) => setQrBackgroundColor(e.target.value)}
+            className="w-full h-9 border border-gray-300 rounded-md cursor-pointer disabled:opacity-50"
+          />
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={qrConfig.backgroundTransparent}
+          onChange={(e) => setQrBackgroundTransparent(e.target.checked)}
+          className="w-4 h-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+        />
+        Transparent background
+      </label>
+
+      {/* Quiet Zone */}
+      <div>
+        <label htmlFor="qr-quiet-zone" className="block text-sm font-medium text-gray-700 mb-1">
+          Quiet Zone: {qrConfig.quietZone} modules
+        </label>
+        <input
+          id="qr-quiet-zone"
+          type="range"
+          min="0"
+          max="8"
+          value={qrConfig.quietZone}
+          onChange={(e) => setQrQuietZone(Number(e.target.value))}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Scanners need a blank margin; keep it unless the page around the code is plain.
+        </p>
+      </div>
+
+      {/* Opacity Slider */}
+      <div>
+        <label htmlFor="qr-opacity" className="block text-sm font-medium text-gray-700 mb-1">
+          Opacity: {qrConfig.opacity}%
+        </label>
+        <input
+          id="qr-opacity"
+          type="range"
+          min="0"
+          max="100"
+          value={qrConfig.opacity}
+          onChange={(e) => setQrOpacity(Number(e.target.value))}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+        />
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>0%</span>
+          <span>100%</span>
+        </div>
+      </div>
+
+      {/* Blend Mode */}
+      <div>
+        <label htmlFor="qr-blend-mode" className="block text-sm font-medium text-gray-700 mb-1">
+          Blend Mode
+        </label>
+        <select
+          id="qr-blend-mode"
+          value={qrConfig.blendMode}
+          onChange={(e) => setBlendMode(e.target.value as BlendMode)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+        >
+          {BLEND_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {BLEND_MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Tile Toggle and Settings */}
+      <div className="border-t border-gray-200 pt-4">
+        <div className="flex items-center justify-between mb-3">
+          <label htmlFor="qr-tile-enabled" className="text-sm font-medium text-gray-700">
+            Tile Watermark
+          </label>
+          <button
+            id="qr-tile-enabled"
+            type="button"
+            role="switch"
+            aria-checked={qrConfig.tileEnabled}
+            onClick={() => setTileEnabled(!qrConfig.tileEnabled)}
+            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+              qrConfig.tileEnabled ? 'bg-blue-600' : 'bg-gray-200'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                qrConfig.tileEnabled ? 'translate-x-6' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+
+        {qrConfig.tileEnabled && (
+          <div className="space-y-3 pl-2 border-l-2 border-blue-200">
+            <div>
+              <label htmlFor="qr-tile-spacing-x" className="block text-sm font-medium text-gray-600 mb-1">
+                Horizontal Spacing: {qrConfig.tileSpacingX}px
+              </label>
+              <input
+                id="qr-tile-spacing-x"
+                type="range"
+                min="0"
+                max="200"
+                value={qrConfig.tileSpacingX}
+                onChange={(e) => setTileSpacing(Number(e.target.value), qrConfig.tileSpacingY)}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+              />
+            </div>
+            <div>
+              <label htmlFor="qr-tile-spacing-y" className="block text-sm font-medium text-gray-600 mb-1">
+                Vertical Spacing: {qrConfig.tileSpacingY}px
+              </label>
+              <input
+                id="qr-tile-spacing-y"
+                type="range"
+                min="0"
+                max="200"
+                value={qrConfig.tileSpacingY}
+                onChange={(e) => setTileSpacing(qrConfig.tileSpacingX, Number(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default QrWatermarkPanel;
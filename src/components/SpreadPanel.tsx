@@ -0,0 +1,156 @@
+/**
+ * SpreadPanel Component
+ * Splits double-page spreads into single pages and merges two pages into a spread
+ * Pages follow manga order: the right half of a spread comes first.
+ */
+
+import { useState, useCallback, useMemo, useEffect } from 'react';
+import { useImages } from '@/hooks';
+import { detectSpreads, splitSpread, mergeSpread } from '@/services/SpreadTools';
+
+export interface SpreadPanelProps {
+  className?: string;
+}
+
+export function SpreadPanel({ className = '' }: SpreadPanelProps) {
+  const { images, selectedImage, replaceImages } = useImages();
+
+  const [chosenMergeId, setChosenMergeId] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const spreadIds = useMemo(() => detectSpreads(images), [images]);
+  const selectedIndex = selectedImage ? images.findIndex(img => img.id === selectedImage.id) : -1;
+
+  // Start over from the next page when another page is selected
+  useEffect(() => {
+    setChosenMergeId(null);
+    setError(null);
+  }, [selectedImage?.id]);
+
+  // Page to merge with: the one chosen while it is still in the list, else the next page
+  const mergeWithId = useMemo(() => {
+    if (chosenMergeId === '') return '';
+    if (chosenMergeId && chosenMergeId !== selectedImage?.id && images.some(img => img.id === chosenMergeId)) {
+      return chosenMergeId;
+    }
+    return images[selectedIndex + 1]?.id ?? '';
+  }, [chosenMergeId, selectedImage?.id, images, selectedIndex]);
+
+  const runTask = useCallback(async (task: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update pages');
+    } finally {
+      setIsWorking(false);
+    }
+  }, []);
+
+  // Split every detected spread, each in its own place in the list
+  const handleSplitDetected = useCallback(() => runTask(async () => {
+    for (const spread of images.filter(img => spreadIds.includes(img.id))) {
+      replaceImages([spread.id], await splitSpread(spread));
+    }
+  }), [images, spreadIds, replaceImages, runTask]);
+
+  const handleSplitSelected = useCallback(() => runTask(async () => {
+    if (!selectedImage) return;
+    replaceImages([selectedImage.id], await splitSpread(selectedImage));
+  }), [selectedImage, replaceImages, runTask]);
+
+  // Merge in list order, so the earlier page ends up on the right
+  const handleMerge = useCallback(() => runTask(async () => {
+    const other = images.find(img => img.id === mergeWithId);
+    if (!selectedImage || !other) return;
+    const [first, second] = images.indexOf(other) < selectedIndex
+      ? [other, selectedImage]
+      : [selectedImage, other];
+    replaceImages([first.id, second.id], [await mergeSpread(first, second)]);
+  }), [images, mergeWithId, selectedImage, selectedIndex, replaceImages, runTask]);
+
+  if (images.length === 0) {
+    return (
+      <p className={`text-xs text-gray-500 ${className}`}>
+        Upload images to split or merge spreads.
+      </p>
+    );
+  }
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {/* Detected spreads */}
+      <div className="space-y-2">
+        <p className="text-xs text-gray-600">
+          {spreadIds.length === 0
+            ? 'No spreads detected.'
+            : `${spreadIds.length} spread${spreadIds.length === 1 ? '' : 's'} detected (much wider than the other pages of the chapter).`}
+        </p>
+        <button
+          type="button"
+          onClick={handleSplitDetected}
+          disabled={isWorking || spreadIds.length === 0}
+          className="w-full px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Split Detected Spreads
+        </button>
+      </div>
+
+      {selectedImage && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-gray-700 truncate" title={selectedImage.name}>
+            Selected: {selectedImage.name}
+          </p>
+          <button
+            type="button"
+            onClick={handleSplitSelected}
+            disabled={isWorking}
+            className="w-full px-3 py-2 text-sm font-medium rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Split Selected Page
+          </button>
+
+          <label htmlFor="merge-with" className="block text-xs text-gray-600">
+            Merge with
+          </label>
+          <div className="flex gap-2">
+            <select
+              id="merge-with"
+              value={mergeWithId}
+              onChange={(e) => setChosenMergeId(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Choose a page</option>
+              {images.map((img, index) => img.id !== selectedImage.id && (
+                <option key={img.id} value={img.id}>
+                  {index + 1}. {img.name}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleMerge}
+              disabled={isWorking || !mergeWithId}
+              className="px-3 py-1.5 text-sm font-medium rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Merge
+            </button>
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Right-to-left order: the right half becomes the first page, and the
+        earlier page of a merge goes on the right.
+      </p>
+
+      {error && (
+        <p className="text-xs text-red-600">{error}</p>
+      )}
+    </div>
+  );
+}
+
+export default SpreadPanel;
@@ -4,8 +4,43 @@
  * Requirements: 2.1, 2.2, 2.3, 2.4, 2.5, 2.6
  */
 
-import { useWatermarkSettings } from '@/hooks';
-import { FONT_FAMILIES, type TextWatermarkConfig } from '@/types';
+import React, { useState, useRef, useCallback } from 'react';
+import { useWatermarkSettings, useFonts } from '@/hooks';
+import {
+  BLEND_MODES,
+  BLEND_MODE_LABELS,
+  FONT_FAMILIES,
+  SIZE_REFERENCE_LABELS,
+  SUPPORTED_FONT_FORMATS,
+  getFontFaceFamily,
+  type BlendMode,
+  type TextAlign,
+  type TextColorMode,
+  type TextFillType,
+  type TextWatermarkConfig,
+} from '@/types';
+import { TEXT_VARIABLES, validateWatermarkText } from '@/services/WatermarkText';
+
+// Prefix of custom font values in the font selector
+const CUSTOM_FONT_PREFIX = 'custom:';
+
+const TEXT_ALIGN_OPTIONS: { value: TextAlign; label: string }[] = [
+  { value: 'left', label: 'Left' },
+  { value: 'center', label: 'Center' },
+  { value: 'right', label: 'Right' },
+];
+
+const COLOR_MODE_OPTIONS: { value: TextColorMode; label: string }[] = [
+  { value: 'fixed', label: 'Fixed' },
+  { value: 'auto', label: 'Auto Contrast' },
+  { value: 'invert', label: 'Invert' },
+];
+
+const FILL_TYPE_OPTIONS: { value: TextFillType; label: string }[] = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'linear', label: 'Linear' },
+  { value: 'radial', label: 'Radial' },
+];
 
 export interface TextWatermarkPanelProps {
   className?: string;
@@ -14,17 +49,78 @@ export interface TextWatermarkPanelProps {
 export function TextWatermarkPanel({ className = '' }: TextWatermarkPanelProps) {
   const {
     config,
+    position,
     isTextWatermark,
     setText,
     setFontFamily,
+    setCustomFont,
     setFontSize,
     setFontWeight,
+    setLineHeight,
+    setTextAlign,
+    setLetterSpacing,
+    setMaxWidth,
     setTextColor,
+    setColorMode,
+    setContrastColors,
     setTextOpacity,
+    setBlendMode,
     setOutlineEnabled,
     setOutlineColor,
     setOutlineWidth,
+    setShadowEnabled,
+    setShadowColor,
+    setShadowOffset,
+    setShadowBlur,
+    setFillType,
+    setGradientColor,
+    setGradientAngle,
+    setBackgroundEnabled,
+    setBackgroundColor,
+    setBackgroundOpacity,
+    setBackgroundPadding,
+    setBackgroundRadius,
+    setTileEnabled,
+    setTileSpacing,
+    setTileStagger,
+    setTileRotation,
   } = useWatermarkSettings();
+  const { fonts, addFont, removeFont } = useFonts();
+
+  const [fontError, setFontError] = useState<string | null>(null);
+  const [isAddingFont, setIsAddingFont] = useState(false);
+  const [showVariables, setShowVariables] = useState(false);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+
+  // Select a system font or a custom font from the library
+  const handleFontChange = useCallback((value: string) => {
+    if (value.startsWith(CUSTOM_FONT_PREFIX)) {
+      setCustomFont(value.slice(CUSTOM_FONT_PREFIX.length));
+    } else {
+      setCustomFont(null);
+      setFontFamily(value);
+    }
+  }, [setCustomFont, setFontFamily]);
+
+  // Upload font files and select the last one added
+  const handleFontFiles = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setFontError(null);
+    setIsAddingFont(true);
+    try {
+      for (const file of files) {
+        const font = await addFont(file);
+        setCustomFont(font.id);
+      }
+    } catch (error) {
+      setFontError(error instanceof Error ? error.message : 'Failed to add font');
+    } finally {
+      setIsAddingFont(false);
+    }
+  }, [addFont, setCustomFont]);
 
   // Only render if we have a text watermark config
   if (!isTextWatermark) {
@@ -32,22 +128,64 @@ export function TextWatermarkPanel({ className = '' }: TextWatermarkPanelProps)
   }
 
   const textConfig = config as TextWatermarkConfig;
+  const isPercentSize = position.unit === 'percent';
+  const textValidation = validateWatermarkText(textConfig.text);
 
   return (
     <div className={`space-y-4 ${className}`}>
       {/* Text Input - Requirement 2.1 */}
       <div>
-        <label htmlFor="watermark-text" className="block text-sm font-medium text-gray-700 mb-1">
-          Watermark Text
-        </label>
-        <input
+        <div className="flex items-center justify-between mb-1">
+          <label htmlFor="watermark-text" className="block text-sm font-medium text-gray-700">
+            Watermark Text
+          </label>
+          <button
+            type="button"
+            onClick={() => setShowVariables(!showVariables)}
+            className="text-xs text-blue-600 hover:text-blue-700"
+          >
+            {showVariables ? 'Hide' : 'Show'} Variables
+          </button>
+        </div>
+        <textarea
           id="watermark-text"
-          type="text"
+          rows={Math.min(6, Math.max(2, textConfig.text.split('\n').length))}
           value={textConfig.text}
           onChange={(e) => setText(e.target.value)}
           placeholder="Enter watermark text"
-          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm resize-y"
         />
+        {!textValidation.valid && (
+          <p className="mt-1 text-xs text-red-600">
+            {textValidation.errors.join(', ')}
+          </p>
+        )}
+        <p className="mt-1 text-xs text-gray-500">
+          Press Enter for a new line. Variables are filled in for each page.
+        </p>
+
+        {/* Variables Reference */}
+        {showVariables && (
+          <div className="mt-2 p-3 bg-gray-50 rounded-lg">
+            <h4 className="text-xs font-medium text-gray-600 mb-2">Available Variables</h4>
+            <div className="space-y-1">
+              {TEXT_VARIABLES.map((v) => (
+                <button
+                  key={v.variable}
+                  type="button"
+                  onClick={() => {
+                    setText(textConfig.text + v.variable);
+                    setShowVariables(false);
+                  }}
+                  className="flex items-center justify-between w-full px-2 py-1 text-xs rounded hover:bg-gray-100"
+                >
+                  <code className="text-blue-600">{v.variable}</code>
+                  <span className="text-gray-500">{v.description}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Font Family Selector - Requirement 2.2 */}
@@ -57,35 +195,127 @@ export function TextWatermarkPanel({ className = '' }: TextWatermarkPanelProps)
         </label>
         <select
           id="font-family"
-          value={textConfig.fontFamily}
-          onChange={(e) => setFontFamily(e.target.value)}
+          value={textConfig.fontId ? `${CUSTOM_FONT_PREFIX}${textConfig.fontId}` : textConfig.fontFamily}
+          onChange={(e) => handleFontChange(e.target.value)}
           className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
         >
-          {FONT_FAMILIES.map((font) => (
-            <option key={font} value={font} style={{ fontFamily: font }}>
-              {font}
-            </option>
-          ))}
+          <optgroup label="System Fonts">
+            {FONT_FAMILIES.map((font) => (
+              <option key={font} value={font} style={{ fontFamily: font }}>
+                {font}
+              </option>
+            ))}
+          </optgroup>
+          {fonts.length > 0 && (
+            <optgroup label="Custom Fonts">
+              {fonts.map((font) => (
+                <option
+                  key={font.id}
+                  value={`${CUSTOM_FONT_PREFIX}${font.id}`}
+                  style={{ fontFamily: `"${getFontFaceFamily(font.id)}"` }}
+                >
+                  {font.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
         </select>
+        {textConfig.fontId && (
+          <p className="mt-1 text-xs text-gray-500">
+            Falls back to {textConfig.fontFamily} if the font is missing
+          </p>
+        )}
       </div>
 
-      {/* Font Size Slider - Requirement 2.3 */}
+      {/* Font Library */}
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-sm font-medium text-gray-700">Font Library</span>
+          <button
+            type="button"
+            onClick={() => fontInputRef.current?.click()}
+            disabled={isAddingFont}
+            className="px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 rounded transition-colors disabled:opacity-50"
+          >
+            {isAddingFont ? 'Adding...' : 'Upload Font'}
+          </button>
+          <input
+            ref={fontInputRef}
+            type="file"
+            accept={SUPPORTED_FONT_FORMATS.map(format => `.${format}`).join(',')}
+            multiple
+            onChange={handleFontFiles}
+            className="hidden"
+          />
+        </div>
+
+        {fontError && (
+          <p className="mb-2 text-xs text-red-600">{fontError}</p>
+        )}
+
+        {fonts.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            Upload {SUPPORTED_FONT_FORMATS.join(', ').toUpperCase()} files to use your own fonts.
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            {fonts.map((font) => (
+              <li
+                key={font.id}
+                className={`flex items-center gap-2 px-2 py-1.5 rounded-md border ${
+                  textConfig.fontId === font.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => setCustomFont(font.id)}
+                  className="flex-1 min-w-0 text-left"
+                  title={`Use ${font.name}`}
+                >
+                  <span
+                    className="block text-lg text-gray-900 truncate"
+                    style={{ fontFamily: `"${getFontFaceFamily(font.id)}", sans-serif` }}
+                  >
+                    {textConfig.text || font.name}
+                  </span>
+                  <span className="block text-xs text-gray-500 truncate">{font.name}</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeFont(font.id)}
+                  className="p-1 text-red-500 hover:bg-red-50 rounded"
+                  title="Remove font"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Font Size Slider - Requirement 2.3 (percent of the page in percent units) */}
       <div>
         <label htmlFor="font-size" className="block text-sm font-medium text-gray-700 mb-1">
-          Font Size: {textConfig.fontSize}px
+          {isPercentSize
+            ? `Font Size: ${textConfig.fontSize}% of ${SIZE_REFERENCE_LABELS[position.sizeReference].toLowerCase()}`
+            : `Font Size: ${textConfig.fontSize}px`}
         </label>
         <input
           id="font-size"
           type="range"
-          min="8"
-          max="200"
+          min={isPercentSize ? 0.5 : 8}
+          max={isPercentSize ? 30 : 200}
+          step={isPercentSize ? 0.1 : 1}
           value={textConfig.fontSize}
           onChange={(e) => setFontSize(Number(e.target.value))}
           className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
         />
         <div className="flex justify-between text-xs text-gray-500 mt-1">
-          <span>8px</span>
-          <span>200px</span>
+          <span>{isPercentSize ? '0.5%' : '8px'}</span>
+          <span>{isPercentSize ? '30%' : '200px'}</span>
         </div>
       </div>
 
@@ -120,29 +350,268 @@ export function TextWatermarkPanel({ className = '' }: TextWatermarkPanelProps)
         </div>
       </div>
 
-      {/* Color Picker - Requirement 2.4 */}
+      {/* Text Alignment */}
       <div>
-        <label htmlFor="text-color" className="block text-sm font-medium text-gray-700 mb-1">
-          Text Color
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Alignment
         </label>
-        <div className="flex items-center gap-2">
-          <input
-            id="text-color"
-            type="color"
-            value={textConfig.color}
-            onChange={(e) => setTextColor(e.target.value)}
-            className="w-10 h-10 rounded border border-gray-300 cursor-pointer"
-          />
-          <input
-            type="text"
-            value={textConfig.color}
-            onChange={(e) => setTextColor(e.target.value)}
-            className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm font-mono"
-            placeholder="#000000"
-          />
+        <div className="flex gap-2">
+          {TEXT_ALIGN_OPTIONS.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setTextAlign(value)}
+              className={`flex-1 px-3 py-2 text-sm rounded-md border transition-colors ${
+                textConfig.textAlign === value
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Line Height Slider */}
+      <div>
+        <label htmlFor="line-height" className="block text-sm font-medium text-gray-700 mb-1">
+          Line Height: {textConfig.lineHeight.toFixed(1)}×
+        </label>
+        <input
+          id="line-height"
+          type="range"
+          min="0.8"
+          max="3"
+          step="0.1"
+          value={textConfig.lineHeight}
+          onChange={(e) => setLineHeight(Number(e.target.value))}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+        />
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>0.8×</span>
+          <span>3×</span>
+        </div>
+      </div>
+
+      {/* Letter Spacing Slider */}
+      <div>
+        <label htmlFor="letter-spacing" className="block text-sm font-medium text-gray-700 mb-1">
+          Letter Spacing: {textConfig.letterSpacing}px
+        </label>
+        <input
+          id="letter-spacing"
+          type="range"
+          min="-10"
+          max="50"
+          value={textConfig.letterSpacing}
+          onChange={(e) => setLetterSpacing(Number(e.target.value))}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+        />
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>-10px</span>
+          <span>50px</span>
         </div>
       </div>
 
+      {/* Max Width Slider */}
+      <div>
+        <label htmlFor="max-width" className="block text-sm font-medium text-gray-700 mb-1">
+          Max Width: {textConfig.maxWidth > 0 ? `${textConfig.maxWidth}px` : 'No wrapping'}
+        </label>
+        <input
+          id="max-width"
+          type="range"
+          min="0"
+          max="2000"
+          step="10"
+          value={textConfig.maxWidth}
+          onChange={(e) => setMaxWidth(Number(e.target.value))}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+        />
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>Off</span>
+          <span>2000px</span>
+        </div>
+      </div>
+
+      {/* Color Mode */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Color Mode
+        </label>
+        <div className="flex gap-2">
+          {COLOR_MODE_OPTIONS.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setColorMode(value)}
+              className={`flex-1 px-3 py-2 text-sm rounded-md border transition-colors ${
+                textConfig.colorMode === value
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {textConfig.colorMode === 'auto' && (
+          <div className="mt-3 space-y-3 pl-2 border-l-2 border-blue-200">
+            <p className="text-xs text-gray-500">
+              Each page uses the color that stands out against the area under the watermark.
+            </p>
+            <div>
+              <label htmlFor="contrast-light-color" className="block text-sm font-medium text-gray-600 mb-1">
+                On Dark Areas
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  id="contrast-light-color"
+                  type="color"
+                  value={textConfig.lightColor}
+                  onChange={(e) => setContrastColors(e.target.value, textConfig.darkColor)}
+                  className="w-8 h-8 rounded border border-gray-300 cursor-pointer"
+                />
+                <input
+                  type="text"
+                  value={textConfig.lightColor}
+                  onChange={(e) => setContrastColors(e.target.value, textConfig.darkColor)}
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm font-mono"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="contrast-dark-color" className="block text-sm font-medium text-gray-600 mb-1">
+                On Light Areas
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  id="contrast-dark-color"
+                  type="color"
+                  value={textConfig.darkColor}
+                  onChange={(e) => setContrastColors(textConfig.lightColor, e.target.value)}
+                  className="w-8 h-8 rounded border border-gray-300 cursor-pointer"
+                />
+                <input
+                  type="text"
+                  value={textConfig.darkColor}
+                  onChange={(e) => setContrastColors(textConfig.lightColor, e.target.value)}
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm font-mono"
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {textConfig.colorMode === 'invert' && (
+          <p className="mt-1 text-xs text-gray-500">
+            The text inverts the page under it, so it shows on both black and white areas.
+          </p>
+        )}
+      </div>
+
+      {/* Color Picker - Requirement 2.4 */}
+      {textConfig.colorMode === 'fixed' && (
+        <div>
+          <label htmlFor="text-color" className="block text-sm font-medium text-gray-700 mb-1">
+            Text Color
+          </label>
+          <div className="flex items-center gap-2">
+            <input
+              id="text-color"
+              type="color"
+              value={textConfig.color}
+              onChange={(e) => setTextColor(e.target.value)}
+              className="w-10 h-10 rounded border border-gray-300 cursor-pointer"
+            />
+            <input
+              type="text"
+              value={textConfig.color}
+              onChange={(e) => setTextColor(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm font-mono"
+              placeholder="#000000"
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Fill Type */}
+      {textConfig.colorMode !== 'invert' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Fill
+          </label>
+          <div className="flex gap-2">
+            {FILL_TYPE_OPTIONS.map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setFillType(value)}
+                className={`flex-1 px-3 py-2 text-sm rounded-md border transition-colors ${
+                  textConfig.fillType === value
+                    ? 'bg-blue-600 text-white border-blue-600'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {textConfig.fillType !== 'solid' && (
+            <div className="mt-3 space-y-3 pl-2 border-l-2 border-blue-200">
+              {/* Gradient End Color */}
+              <div>
+                <label htmlFor="gradient-color" className="block text-sm font-medium text-gray-600 mb-1">
+                  Gradient End Color
+                </label>
+                <div className="flex items-center gap-2">
+                  <input
+                    id="gradient-color"
+                    type="color"
+                    value={textConfig.gradientColor}
+                    onChange={(e) => setGradientColor(e.target.value)}
+                    className="w-8 h-8 rounded border border-gray-300 cursor-pointer"
+                  />
+                  <input
+                    type="text"
+                    value={textConfig.gradientColor}
+                    onChange={(e) => setGradientColor(e.target.value)}
+                    className="flex-1 px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm font-mono"
+                    placeholder="#ffffff"
+                  />
+                </div>
+              </div>
+
+              {/* Gradient Angle */}
+              {textConfig.fillType === 'linear' && (
+                <div>
+                  <label htmlFor="gradient-angle" className="block text-sm font-medium text-gray-600 mb-1">
+                    Gradient Angle: {textConfig.gradientAngle}°
+                  </label>
+                  <input
+                    id="gradient-angle"
+                    type="range"
+                    min="0"
+                    max="359"
+                    value={textConfig.gradientAngle}
+                    onChange={(e) => setGradientAngle(Number(e.target.value))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                  />
+                  <div className="flex justify-between text-xs text-gray-500 mt-1">
+                    <span>0°</span>
+                    <span>359°</span>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Opacity Slider - Requirement 2.6 */}
       <div>
         <label htmlFor="text-opacity" className="block text-sm font-medium text-gray-700 mb-1">
@@ -163,6 +632,25 @@ export function TextWatermarkPanel({ className = '' }: TextWatermarkPanelProps)
         </div>
       </div>
 
+      {/* Blend Mode */}
+      <div>
+        <label htmlFor="text-blend-mode" className="block text-sm font-medium text-gray-700 mb-1">
+          Blend Mode
+        </label>
+        <select
+          id="text-blend-mode"
+          value={textConfig.blendMode}
+          onChange={(e) => setBlendMode(e.target.value as BlendMode)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+        >
+          {BLEND_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {BLEND_MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </div>
+
       {/* Outline Toggle and Settings - Requirement 2.5 */}
       <div className="border-t border-gray-200 pt-4">
         <div className="flex items-center justify-between mb-3">
@@ -234,6 +722,337 @@ export function TextWatermarkPanel({ className = '' }: TextWatermarkPanelProps)
           </div>
         )}
       </div>
+
+      {/* Drop Shadow Toggle and Settings */}
+      <div className="border-t border-gray-200 pt-4">
+        <div className="flex items-center justify-between mb-3">
+          <label htmlFor="shadow-enabled" className="text-sm font-medium text-gray-700">
+            Drop Shadow
+          </label>
+          <button
+            id="shadow-enabled"
+            type="button"
+            role="switch"
+            aria-checked={textConfig.shadowEnabled}
+            onClick={() => setShadowEnabled(!textConfig.shadowEnabled)}
+            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+              textConfig.shadowEnabled ? 'bg-blue-600' : 'bg-gray-200'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                textConfig.shadowEnabled ? 'translate-x-6' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+
+        {textConfig.shadowEnabled && (
+          <div className="space-y-3 pl-2 border-l-2 border-blue-200">
+            {/* Shadow Color */}
+            <div>
+              <label htmlFor="shadow-color" className="block text-sm font-medium text-gray-600 mb-1">
+                Shadow Color
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  id="shadow-color"
+                  type="color"
+                  value={textConfig.shadowColor}
+                  onChange={(e) => setShadowColor(e.target.value)}
+                  className="w-8 h-8 rounded border border-gray-300 cursor-pointer"
+                />
+                <input
+                  type="text"
+                  value={textConfig.shadowColor}
+                  onChange={(e) => setShadowColor(e.target.value)}
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm font-mono"
+                  placeholder="#000000"
+                />
+              </div>
+            </div>
+
+            {/* Shadow Offset */}
+            <div>
+              <label htmlFor="shadow-offset-x" className="block text-sm font-medium text-gray-600 mb-1">
+                Offset X: {textConfig.shadowOffsetX}px
+              </label>
+              <input
+                id="shadow-offset-x"
+                type="range"
+                min="-50"
+                max="50"
+                value={textConfig.shadowOffsetX}
+                onChange={(e) => setShadowOffset(Number(e.target.value), textConfig.shadowOffsetY)}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+              />
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>-50px</span>
+                <span>50px</span>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="shadow-offset-y" className="block text-sm font-medium text-gray-600 mb-1">
+                Offset Y: {textConfig.shadowOffsetY}px
+              </label>
+              <input
+                id="shadow-offset-y"
+                type="range"
+                min="-50"
+                max="50"
+                value={textConfig.shadowOffsetY}
+                onChange={(e) => setShadowOffset(textConfig.shadowOffsetX, Number(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+              />
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>-50px</span>
+                <span>50px</span>
+              </div>
+            </div>
+
+            {/* Shadow Blur */}
+            <div>
+              <label htmlFor="shadow-blur" className="block text-sm font-medium text-gray-600 mb-1">
+                Blur: {textConfig.shadowBlur}px
+              </label>
+              <input
+                id="shadow-blur"
+                type="range"
+                min="0"
+                max="50"
+                value={textConfig.shadowBlur}
+                onChange={(e) => setShadowBlur(Number(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+              />
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>0px</span>
+                <span>50px</span>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Background Plate Toggle and Settings */}
+      <div className="border-t border-gray-200 pt-4">
+        <div className="flex items-center justify-between mb-3">
+          <label htmlFor="background-enabled" className="text-sm font-medium text-gray-700">
+            Background Plate
+          </label>
+          <button
+            id="background-enabled"
+            type="button"
+            role="switch"
+            aria-checked={textConfig.backgroundEnabled}
+            onClick={() => setBackgroundEnabled(!textConfig.backgroundEnabled)}
+            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+              textConfig.backgroundEnabled ? 'bg-blue-600' : 'bg-gray-200'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                textConfig.backgroundEnabled ? 'translate-x-6' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+
+        {textConfig.backgroundEnabled && (
+          <div className="space-y-3 pl-2 border-l-2 border-blue-200">
+            {/* Plate Color */}
+            <div>
+              <label htmlFor="background-color" className="block text-sm font-medium text-gray-600 mb-1">
+                Plate Color
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  id="background-color"
+                  type="color"
+                  value={textConfig.backgroundColor}
+                  onChange={(e) => setBackgroundColor(e.target.value)}
+                  className="w-8 h-8 rounded border border-gray-300 cursor-pointer"
+                />
+                <input
+                  type="text"
+                  value={textConfig.backgroundColor}
+                  onChange={(e) => setBackgroundColor(e.target.value)}
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm font-mono"
+                  placeholder="#ffffff"
+                />
+              </div>
+            </div>
+
+            {/* Plate Opacity */}
+            <div>
+              <label htmlFor="background-opacity" className="block text-sm font-medium text-gray-600 mb-1">
+                Plate Opacity: {textConfig.backgroundOpacity}%
+              </label>
+              <input
+                id="background-opacity"
+                type="range"
+                min="0"
+                max="100"
+                value={textConfig.backgroundOpacity}
+                onChange={(e) => setBackgroundOpacity(Number(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+              />
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>0%</span>
+                <span>100%</span>
+              </div>
+            </div>
+
+            {/* Plate Padding */}
+            <div>
+              <label htmlFor="background-padding" className="block text-sm font-medium text-gray-600 mb-1">
+                Padding: {textConfig.backgroundPadding}px
+              </label>
+              <input
+                id="background-padding"
+                type="range"
+                min="0"
+                max="100"
+                value={textConfig.backgroundPadding}
+                onChange={(e) => setBackgroundPadding(Number(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+              />
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>0px</span>
+                <span>100px</span>
+              </div>
+            </div>
+
+            {/* Corner Radius */}
+            <div>
+              <label htmlFor="background-radius" className="block text-sm font-medium text-gray-600 mb-1">
+                Corner Radius: {textConfig.backgroundRadius}px
+              </label>
+              <input
+                id="background-radius"
+                type="range"
+                min="0"
+                max="100"
+                value={textConfig.backgroundRadius}
+                onChange={(e) => setBackgroundRadius(Number(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+              />
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>0px</span>
+                <span>100px</span>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Tile Toggle and Settings */}
+      <div className="border-t border-gray-200 pt-4">
+        <div className="flex items-center justify-between mb-3">
+          <label htmlFor="text-tile-enabled" className="text-sm font-medium text-gray-700">
+            Tile Watermark
+          </label>
+          <button
+            id="text-tile-enabled"
+            type="button"
+            role="switch"
+            aria-checked={textConfig.tileEnabled}
+            onClick={() => setTileEnabled(!textConfig.tileEnabled)}
+            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+              textConfig.tileEnabled ? 'bg-blue-600' : 'bg-gray-200'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                textConfig.tileEnabled ? 'translate-x-6' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+
+        {textConfig.tileEnabled && (
+          <div className="space-y-3 pl-2 border-l-2 border-blue-200">
+            {/* Horizontal Spacing */}
+            <div>
+              <label htmlFor="text-tile-spacing-x" className="block text-sm font-medium text-gray-600 mb-1">
+                Horizontal Spacing: {textConfig.tileSpacingX}px
+              </label>
+              <input
+                id="text-tile-spacing-x"
+                type="range"
+                min="0"
+                max="400"
+                value={textConfig.tileSpacingX}
+                onChange={(e) => setTileSpacing(Number(e.target.value), textConfig.tileSpacingY)}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+              />
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>0px</span>
+                <span>400px</span>
+              </div>
+            </div>
+
+            {/* Vertical Spacing */}
+            <div>
+              <label htmlFor="text-tile-spacing-y" className="block text-sm font-medium text-gray-600 mb-1">
+                Vertical Spacing: {textConfig.tileSpacingY}px
+              </label>
+              <input
+                id="text-tile-spacing-y"
+                type="range"
+                min="0"
+                max="400"
+                value={textConfig.tileSpacingY}
+                onChange={(e) => setTileSpacing(textConfig.tileSpacingX, Number(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+              />
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>0px</span>
+                <span>400px</span>
+              </div>
+            </div>
+
+            {/* Row Stagger */}
+            <div>
+              <label htmlFor="text-tile-stagger" className="block text-sm font-medium text-gray-600 mb-1">
+                Row Stagger: {textConfig.tileStagger}%
+              </label>
+              <input
+                id="text-tile-stagger"
+                type="range"
+                min="0"
+                max="100"
+                value={textConfig.tileStagger}
+                onChange={(e) => setTileStagger(Number(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+              />
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>0%</span>
+                <span>100%</span>
+              </div>
+            </div>
+
+            {/* Grid Rotation */}
+            <div>
+              <label htmlFor="text-tile-rotation" className="block text-sm font-medium text-gray-600 mb-1">
+                Grid Rotation: {textConfig.tileRotation}°
+              </label>
+              <input
+                id="text-tile-rotation"
+                type="range"
+                min="-90"
+                max="90"
+                value={textConfig.tileRotation}
+                onChange={(e) => setTileRotation(Number(e.target.value))}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+              />
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>-90°</span>
+                <span>90°</span>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
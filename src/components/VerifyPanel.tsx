@@ -0,0 +1,101 @@
+/**
+ * VerifyPanel Component
+ * Reads the invisible mark back from a suspected leaked page, locally
+ */
+
+import React, { useCallback, useRef, useState } from 'react';
+import { verifyInvisibleMark } from '@/services/ImageProcessor';
+import { INVISIBLE_STRENGTHS, type InvisibleVerification } from '@/types';
+
+export interface VerifyPanelProps {
+  className?: string;
+}
+
+export function VerifyPanel({ className = '' }: VerifyPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<InvisibleVerification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset input so the same file can be checked again
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setResult(null);
+    setError(null);
+    setIsVerifying(true);
+    try {
+      setResult(await verifyInvisibleMark(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read image');
+    } finally {
+      setIsVerifying(false);
+    }
+  }, []);
+
+  const confidence = result ? Math.round(result.confidence * 100) : 0;
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <p className="text-xs text-gray-500">
+        Check a suspected leaked page for the invisible mark. The image never leaves
+        your computer.
+      </p>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        onChange={handleFileChange}
+        className="hidden"
+        aria-label="Choose image to verify"
+      />
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isVerifying}
+        className="w-full px-3 py-2 text-sm font-medium rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isVerifying ? 'Checking...' : 'Choose Image to Verify'}
+      </button>
+
+      {fileName && !isVerifying && (
+        <p className="text-xs font-medium text-gray-700 truncate" title={fileName}>
+          {fileName}
+        </p>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-600">{error}</p>
+      )}
+
+      {result && (result.found && result.payload ? (
+        <div className="p-3 space-y-1 text-xs bg-green-50 border border-green-200 rounded-md">
+          <p className="font-medium text-green-800">Mark found ({confidence}% confidence)</p>
+          <p className="text-gray-700">Group: {result.payload.groupId || '—'}</p>
+          <p className="text-gray-700">Chapter: {result.payload.chapter || '—'}</p>
+          <p className="text-gray-700">
+            Exported: {new Date(result.payload.timestamp * 1000).toLocaleString()}
+          </p>
+          {result.strength && (
+            <p className="text-gray-500">Strength: {INVISIBLE_STRENGTHS[result.strength].label}</p>
+          )}
+        </div>
+      ) : (
+        <div className="p-3 text-xs bg-gray-50 border border-gray-200 rounded-md">
+          <p className="font-medium text-gray-700">No mark found</p>
+          <p className="text-gray-500">
+            The page has no mark, or it was resized, cropped or compressed too much
+            for the mark to be read.
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default VerifyPanel;
@@ -3,7 +3,7 @@
  */
 
 export { ImageUploader } from './ImageUploader';
-export type { ImageUploaderProps } from './ImageUploader';
+export type { ImageUploaderProps, UploadReport } from './ImageUploader';
 
 export { ImageList } from './ImageList';
 export type { ImageListProps } from './ImageList';
@@ -14,9 +14,18 @@ export type { TextWatermarkPanelProps } from './TextWatermarkPanel';
 export { ImageWatermarkPanel } from './ImageWatermarkPanel';
 export type { ImageWatermarkPanelProps } from './ImageWatermarkPanel';
 
+export { QrWatermarkPanel } from './QrWatermarkPanel';
+export type { QrWatermarkPanelProps } from './QrWatermarkPanel';
+
+export { LayerPanel } from './LayerPanel';
+export type { LayerPanelProps } from './LayerPanel';
+
 export { PositionPanel } from './PositionPanel';
 export type { PositionPanelProps } from './PositionPanel';
 
+export { PageOverridePanel } from './PageOverridePanel';
+export type { PageOverridePanelProps } from './PageOverridePanel';
+
 export { PreviewCanvas } from './PreviewCanvas';
 export type { PreviewCanvasProps } from './PreviewCanvas';
 
@@ -29,12 +38,27 @@ export type { ExportPanelProps } from './ExportPanel';
 export { CropPanel } from './CropPanel';
 export type { CropPanelProps } from './CropPanel';
 
+export { SpreadPanel } from './SpreadPanel';
+export type { SpreadPanelProps } from './SpreadPanel';
+
+export { AdjustmentsPanel } from './AdjustmentsPanel';
+export type { AdjustmentsPanelProps } from './AdjustmentsPanel';
+
 export { CompressionPresetPanel } from './CompressionPresetPanel';
 export type { CompressionPresetPanelProps } from './CompressionPresetPanel';
 
 export { BatchRenamePanel } from './BatchRenamePanel';
 export type { BatchRenamePanelProps } from './BatchRenamePanel';
 
+export { InvisibleWatermarkPanel } from './InvisibleWatermarkPanel';
+export type { InvisibleWatermarkPanelProps } from './InvisibleWatermarkPanel';
+
+export { VerifyPanel } from './VerifyPanel';
+export type { VerifyPanelProps } from './VerifyPanel';
+
+export { DistributionPanel } from './DistributionPanel';
+export type { DistributionPanelProps } from './DistributionPanel';
+
 // AI Components
 export { APIKeyPanel } from './APIKeyPanel';
 export { MaskCanvas } from './MaskCanvas';
@@ -8,13 +8,23 @@ import type {
   AppState,
   UploadedImage,
   WatermarkSettings,
+  WatermarkLayer,
   WatermarkConfig,
   WatermarkPosition,
   Preset,
   ExportSettings,
   BatchProcessingProgress,
+  CropSettings,
+  PresetName,
+  RenameSettings,
+  ArchiveSettings,
+  CustomFont,
+  ImageAdjustments,
+  InvisibleWatermarkSettings,
+  DistributionSettings,
 } from '@/types';
 import { createDefaultAppState } from '@/types';
+import { replaceImagesInPlace } from '@/utils/imageList';
 
 // ============================================
 // Action Types
@@ -29,6 +39,7 @@ export type AppAction =
   | { type: 'MARK_IMAGE_PROCESSED'; payload: string }
   | { type: 'UPDATE_IMAGE'; payload: { imageId: string; updates: Partial<UploadedImage> } }
   | { type: 'REORDER_IMAGES'; payload: { fromIndex: number; toIndex: number } }
+  | { type: 'REPLACE_IMAGES'; payload: { imageIds: string[]; replacements: UploadedImage[] } }
   
   // Watermark settings actions
   | { type: 'SET_WATERMARK_SETTINGS'; payload: WatermarkSettings }
@@ -36,6 +47,13 @@ export type AppAction =
   | { type: 'UPDATE_WATERMARK_POSITION'; payload: Partial<WatermarkPosition> }
   | { type: 'TOGGLE_WATERMARK_ENABLED'; payload?: boolean }
   
+  // Watermark layer actions (config/position updates apply to the selected layer)
+  | { type: 'ADD_WATERMARK_LAYER'; payload: WatermarkLayer }
+  | { type: 'REMOVE_WATERMARK_LAYER'; payload: string }
+  | { type: 'UPDATE_WATERMARK_LAYER'; payload: { layerId: string; updates: Partial<Omit<WatermarkLayer, 'id'>> } }
+  | { type: 'REORDER_WATERMARK_LAYERS'; payload: { fromIndex: number; toIndex: number } }
+  | { type: 'SELECT_WATERMARK_LAYER'; payload: string | null }
+  
   // Preset actions
   | { type: 'SET_PRESETS'; payload: Preset[] }
   | { type: 'ADD_PRESET'; payload: Preset }
@@ -44,10 +62,24 @@ export type AppAction =
   | { type: 'SELECT_PRESET'; payload: string | null }
   | { type: 'APPLY_PRESET'; payload: Preset }
   
+  // Font library actions
+  | { type: 'SET_CUSTOM_FONTS'; payload: CustomFont[] }
+  | { type: 'ADD_CUSTOM_FONT'; payload: CustomFont }
+  | { type: 'REMOVE_CUSTOM_FONT'; payload: string }
+  
   // Export settings actions
   | { type: 'SET_EXPORT_SETTINGS'; payload: ExportSettings }
   | { type: 'UPDATE_EXPORT_SETTINGS'; payload: Partial<ExportSettings> }
   
+  // Tool settings actions
+  | { type: 'SET_CROP_SETTINGS'; payload: CropSettings }
+  | { type: 'SET_COMPRESSION_PRESET'; payload: PresetName }
+  | { type: 'SET_RENAME_SETTINGS'; payload: RenameSettings }
+  | { type: 'SET_ARCHIVE_SETTINGS'; payload: ArchiveSettings }
+  | { type: 'SET_ADJUSTMENTS'; payload: ImageAdjustments }
+  | { type: 'SET_INVISIBLE_WATERMARK'; payload: InvisibleWatermarkSettings }
+  | { type: 'SET_DISTRIBUTION_SETTINGS'; payload: DistributionSettings }
+  
   // Processing state actions
   | { type: 'SET_PROCESSING'; payload: boolean }
   | { type: 'SET_PROCESSING_PROGRESS'; payload: BatchProcessingProgress | null }
@@ -65,6 +97,36 @@ export type AppAction =
 // ============================================
 
 
+/**
+ * Keep the layer selection valid after the layer list changes,
+ * falling back to the top layer
+ */
+function resolveSelectedLayerId(settings: WatermarkSettings, selectedLayerId: string | null): string | null {
+  if (selectedLayerId && settings.layers.some(layer => layer.id === selectedLayerId)) {
+    return selectedLayerId;
+  }
+  return settings.layers[settings.layers.length - 1]?.id ?? null;
+}
+
+/**
+ * Apply an update to a single layer
+ */
+function updateLayer(
+  state: AppState,
+  layerId: string | null,
+  update: (layer: WatermarkLayer) => WatermarkLayer
+): AppState {
+  return {
+    ...state,
+    watermarkSettings: {
+      ...state.watermarkSettings,
+      layers: state.watermarkSettings.layers.map(layer =>
+        layer.id === layerId ? update(layer) : layer
+      ),
+    },
+  };
+}
+
 function appReducer(state: AppState, action: AppAction): AppState {
   switch (action.type) {
     // ============================================
@@ -134,6 +196,18 @@ function appReducer(state: AppState, action: AppAction): AppState {
       };
     }
 
+    case 'REPLACE_IMAGES': {
+      const { imageIds, replacements } = action.payload;
+      return {
+        ...state,
+        images: replaceImagesInPlace(state.images, imageIds, replacements),
+        // Select the first new page if the selected page was replaced
+        selectedImageId: state.selectedImageId !== null && imageIds.includes(state.selectedImageId)
+          ? (replacements[0]?.id ?? null)
+          : state.selectedImageId,
+      };
+    }
+
     // ============================================
     // Watermark Settings Actions
     // ============================================
@@ -141,40 +215,92 @@ function appReducer(state: AppState, action: AppAction): AppState {
       return {
         ...state,
         watermarkSettings: action.payload,
+        selectedLayerId: resolveSelectedLayerId(action.payload, state.selectedLayerId),
       };
 
     case 'UPDATE_WATERMARK_CONFIG':
+      return updateLayer(state, resolveSelectedLayerId(state.watermarkSettings, state.selectedLayerId), layer => ({
+        ...layer,
+        config: {
+          ...layer.config,
+          ...action.payload,
+        } as WatermarkConfig,
+      }));
+
+    case 'UPDATE_WATERMARK_POSITION':
+      return updateLayer(state, resolveSelectedLayerId(state.watermarkSettings, state.selectedLayerId), layer => ({
+        ...layer,
+        position: {
+          ...layer.position,
+          ...action.payload,
+        },
+      }));
+
+    case 'TOGGLE_WATERMARK_ENABLED':
       return {
         ...state,
         watermarkSettings: {
           ...state.watermarkSettings,
-          config: {
-            ...state.watermarkSettings.config,
-            ...action.payload,
-          } as WatermarkConfig,
+          enabled: action.payload ?? !state.watermarkSettings.enabled,
         },
       };
 
-    case 'UPDATE_WATERMARK_POSITION':
+    // ============================================
+    // Watermark Layer Actions
+    // ============================================
+    case 'ADD_WATERMARK_LAYER':
       return {
         ...state,
         watermarkSettings: {
           ...state.watermarkSettings,
-          position: {
-            ...state.watermarkSettings.position,
-            ...action.payload,
-          },
+          layers: [...state.watermarkSettings.layers, action.payload],
         },
+        selectedLayerId: action.payload.id,
       };
 
-    case 'TOGGLE_WATERMARK_ENABLED':
+    case 'REMOVE_WATERMARK_LAYER': {
+      // Keep at least one layer; the stack as a whole can be disabled instead
+      if (state.watermarkSettings.layers.length <= 1) {
+        return state;
+      }
+      const watermarkSettings = {
+        ...state.watermarkSettings,
+        layers: state.watermarkSettings.layers.filter(layer => layer.id !== action.payload),
+      };
+      return {
+        ...state,
+        watermarkSettings,
+        selectedLayerId: resolveSelectedLayerId(watermarkSettings, state.selectedLayerId),
+      };
+    }
+
+    case 'UPDATE_WATERMARK_LAYER':
+      return updateLayer(state, action.payload.layerId, layer => ({
+        ...layer,
+        ...action.payload.updates,
+      }));
+
+    case 'REORDER_WATERMARK_LAYERS': {
+      const { fromIndex, toIndex } = action.payload;
+      const newLayers = [...state.watermarkSettings.layers];
+      const [movedLayer] = newLayers.splice(fromIndex, 1);
+      if (movedLayer) {
+        newLayers.splice(toIndex, 0, movedLayer);
+      }
       return {
         ...state,
         watermarkSettings: {
           ...state.watermarkSettings,
-          enabled: action.payload ?? !state.watermarkSettings.enabled,
+          layers: newLayers,
         },
       };
+    }
+
+    case 'SELECT_WATERMARK_LAYER':
+      return {
+        ...state,
+        selectedLayerId: resolveSelectedLayerId(state.watermarkSettings, action.payload),
+      };
 
     // ============================================
     // Preset Actions
@@ -215,12 +341,51 @@ function appReducer(state: AppState, action: AppAction): AppState {
         selectedPresetId: action.payload,
       };
 
-    case 'APPLY_PRESET':
+    case 'APPLY_PRESET': {
+      const watermarkSettings = structuredClone(action.payload.settings);
       return {
         ...state,
-        watermarkSettings: structuredClone(action.payload.settings),
+        watermarkSettings,
+        selectedLayerId: resolveSelectedLayerId(watermarkSettings, state.selectedLayerId),
         selectedPresetId: action.payload.id,
+        // Presets saved without adjustments keep the current ones
+        adjustments: action.payload.adjustments
+          ? structuredClone(action.payload.adjustments)
+          : state.adjustments,
+      };
+    }
+
+    // ============================================
+    // Font Library Actions
+    // ============================================
+    case 'SET_CUSTOM_FONTS':
+      return {
+        ...state,
+        customFonts: action.payload,
+      };
+
+    case 'ADD_CUSTOM_FONT':
+      return {
+        ...state,
+        customFonts: [...state.customFonts, action.payload],
+      };
+
+    case 'REMOVE_CUSTOM_FONT': {
+      // Layers using the font fall back to their font family
+      const fontId = action.payload;
+      return {
+        ...state,
+        customFonts: state.customFonts.filter(font => font.id !== fontId),
+        watermarkSettings: {
+          ...state.watermarkSettings,
+          layers: state.watermarkSettings.layers.map(layer =>
+            layer.config.type === 'text' && layer.config.fontId === fontId
+              ? { ...layer, config: { ...layer.config, fontId: null } }
+              : layer
+          ),
+        },
       };
+    }
 
     // ============================================
     // Export Settings Actions
@@ -240,6 +405,51 @@ function appReducer(state: AppState, action: AppAction): AppState {
         },
       };
 
+    // ============================================
+    // Tool Settings Actions
+    // ============================================
+    case 'SET_CROP_SETTINGS':
+      return {
+        ...state,
+        cropSettings: action.payload,
+      };
+
+    case 'SET_COMPRESSION_PRESET':
+      return {
+        ...state,
+        compressionPreset: action.payload,
+      };
+
+    case 'SET_RENAME_SETTINGS':
+      return {
+        ...state,
+        renameSettings: action.payload,
+      };
+
+    case 'SET_ARCHIVE_SETTINGS':
+      return {
+        ...state,
+        archiveSettings: action.payload,
+      };
+
+    case 'SET_ADJUSTMENTS':
+      return {
+        ...state,
+        adjustments: action.payload,
+      };
+
+    case 'SET_INVISIBLE_WATERMARK':
+      return {
+        ...state,
+        invisibleWatermark: action.payload,
+      };
+
+    case 'SET_DISTRIBUTION_SETTINGS':
+      return {
+        ...state,
+        distributionSettings: action.payload,
+      };
+
     // ============================================
     // Processing State Actions
     // ============================================
@@ -300,6 +510,7 @@ interface AppContextValue {
   // Convenience getters
   selectedImage: UploadedImage | null;
   selectedPreset: Preset | null;
+  selectedLayer: WatermarkLayer | null;
 }
 
 // ============================================
@@ -328,12 +539,15 @@ export function AppProvider({ children, initialState }: AppProviderProps) {
   // Memoized convenience getters
   const selectedImage = state.images.find(img => img.id === state.selectedImageId) ?? null;
   const selectedPreset = state.presets.find(preset => preset.id === state.selectedPresetId) ?? null;
+  const selectedLayerId = resolveSelectedLayerId(state.watermarkSettings, state.selectedLayerId);
+  const selectedLayer = state.watermarkSettings.layers.find(layer => layer.id === selectedLayerId) ?? null;
 
   const value: AppContextValue = {
     state,
     dispatch,
     selectedImage,
     selectedPreset,
+    selectedLayer,
   };
 
   return (
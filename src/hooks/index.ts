@@ -13,3 +13,6 @@ export type { UsePresetsReturn } from './usePresets';
 
 export { useExport } from './useExport';
 export type { UseExportReturn } from './useExport';
+
+export { useFonts } from './useFonts';
+export type { UseFontsReturn } from './useFonts';
@@ -11,22 +11,58 @@ import type {
   ExportFormat,
   ProcessingResult,
   BatchProcessingProgress,
+  CompressionPreset,
+  PresetName,
+  ResizeOptions,
+  RenameSettings,
+  RenamePattern,
+  ArchiveSettings,
+  ComicMetadata,
+  InvisibleWatermarkSettings,
+  DistributionSettings,
+  DistributionManifest,
+  DistributionManifestEntry,
 } from '@/types';
+import { COMPRESSION_PRESETS, ARCHIVE_FORMATS } from '@/types';
 import {
   batchProcess,
   cancelBatch,
+  getBatchCancelCount,
   exportAsZip,
   downloadBlob,
-  applyWatermark,
-  exportImage,
-  generateOutputFilename,
+  renderImage,
+  getBatchTextValues,
+  generateBatchFilenames,
+  normalizeConcurrency,
+  exportBatchAsArchive,
 } from '@/services/ImageProcessor';
+import {
+  createZipSink,
+  createBlobSink,
+  ZipStreamWriter,
+  MAX_IN_MEMORY_ZIP_BYTES,
+  type ZipSink,
+} from '@/services/ZipWriter';
+import {
+  createRecipientSettings,
+  createRecipientImages,
+  createDistributionManifest,
+  fillRecipient,
+  getRecipientArchiveNames,
+  getRecipientSeed,
+  hashSettings,
+} from '@/services/Distribution';
 
 export interface UseExportReturn {
   // State
   exportSettings: ExportSettings;
   isProcessing: boolean;
   processingProgress: BatchProcessingProgress | null;
+  compressionPreset: PresetName;
+  renameSettings: RenameSettings;
+  archiveSettings: ArchiveSettings;
+  invisibleWatermark: InvisibleWatermarkSettings;
+  distributionSettings: DistributionSettings;
 
   // Export settings actions
   setExportSettings: (settings: ExportSettings) => void;
@@ -36,10 +72,36 @@ export interface UseExportReturn {
   setFilenamePrefix: (prefix: string) => void;
   setFilenameSuffix: (suffix: string) => void;
   setPreserveOriginalName: (preserve: boolean) => void;
+  setConcurrency: (concurrency: number) => void;
+
+  // Compression preset actions
+  setCompressionPreset: (preset: PresetName) => void;
+  applyCompressionPreset: (preset: CompressionPreset) => void;
+
+  // Batch rename actions
+  setRenameSettings: (settings: RenameSettings) => void;
+  setRenameEnabled: (enabled: boolean) => void;
+  setRenamePattern: (pattern: RenamePattern) => void;
+
+  // Archive actions
+  setArchiveSettings: (settings: ArchiveSettings) => void;
+  updateArchiveMetadata: (updates: Partial<ComicMetadata>) => void;
+  getArchiveFilename: () => string;
+
+  // Invisible watermark actions
+  setInvisibleWatermark: (settings: InvisibleWatermarkSettings) => void;
+
+  // Distribution actions
+  setDistributionSettings: (settings: DistributionSettings) => void;
 
   // Processing actions
   processAllImages: () => Promise<ProcessingResult[]>;
   processSelectedImage: () => Promise<ProcessingResult | null>;
+  exportAllAsArchive: (filename?: string) => Promise<ProcessingResult[]>;
+  exportForRecipients: (
+    baseName?: string,
+    onRecipient?: (recipient: string, index: number, total: number) => void
+  ) => Promise<DistributionManifest | null>;
   cancelProcessing: () => void;
 
   // Download actions
@@ -53,7 +115,24 @@ export interface UseExportReturn {
 
 export function useExport(): UseExportReturn {
   const { state, dispatch, selectedImage } = useAppContext();
-  const { exportSettings, isProcessing, processingProgress, images, watermarkSettings } = state;
+  const {
+    exportSettings,
+    isProcessing,
+    processingProgress,
+    images,
+    watermarkSettings,
+    cropSettings,
+    adjustments,
+    compressionPreset,
+    renameSettings,
+    archiveSettings,
+    invisibleWatermark,
+    distributionSettings,
+    customFonts,
+  } = state;
+
+  // Size limits of the selected preset; the custom preset keeps original size
+  const resize: ResizeOptions = COMPRESSION_PRESETS[compressionPreset];
 
   // Export settings actions
   const setExportSettings = useCallback((settings: ExportSettings) => {
@@ -84,6 +163,70 @@ export function useExport(): UseExportReturn {
     updateExportSettings({ preserveOriginalName });
   }, [updateExportSettings]);
 
+  const setConcurrency = useCallback((concurrency: number) => {
+    updateExportSettings({ concurrency: normalizeConcurrency(concurrency) });
+  }, [updateExportSettings]);
+
+  // Compression preset actions
+  const setCompressionPreset = useCallback((preset: PresetName) => {
+    dispatch({ type: 'SET_COMPRESSION_PRESET', payload: preset });
+  }, [dispatch]);
+
+  const applyCompressionPreset = useCallback((preset: CompressionPreset) => {
+    setCompressionPreset(preset.name);
+    // Custom leaves format and quality to the export panel
+    if (preset.name !== 'custom') {
+      updateExportSettings({ format: preset.format, quality: preset.quality });
+    }
+  }, [setCompressionPreset, updateExportSettings]);
+
+  // Batch rename actions
+  const setRenameSettings = useCallback((settings: RenameSettings) => {
+    dispatch({ type: 'SET_RENAME_SETTINGS', payload: settings });
+  }, [dispatch]);
+
+  const setRenameEnabled = useCallback((enabled: boolean) => {
+    setRenameSettings({ ...renameSettings, enabled });
+  }, [renameSettings, setRenameSettings]);
+
+  const setRenamePattern = useCallback((pattern: RenamePattern) => {
+    setRenameSettings({ ...renameSettings, pattern });
+  }, [renameSettings, setRenameSettings]);
+
+  // Archive actions
+  const setArchiveSettings = useCallback((settings: ArchiveSettings) => {
+    dispatch({ type: 'SET_ARCHIVE_SETTINGS', payload: settings });
+  }, [dispatch]);
+
+  const updateArchiveMetadata = useCallback((updates: Partial<ComicMetadata>) => {
+    setArchiveSettings({
+      ...archiveSettings,
+      metadata: { ...archiveSettings.metadata, ...updates },
+    });
+  }, [archiveSettings, setArchiveSettings]);
+
+  // Archive name (without extension) from series and chapter
+  const getArchiveFilename = useCallback((): string => {
+    const { series } = archiveSettings.metadata;
+    if (archiveSettings.format === 'zip' || !series.trim()) {
+      return 'watermarked_images';
+    }
+    const name = renameSettings.pattern.chapter
+      ? `${series.trim()} - Chapter ${renameSettings.pattern.chapter}`
+      : series.trim();
+    return name.replace(/[<>:"/\\|?*]/g, '_');
+  }, [archiveSettings, renameSettings.pattern.chapter]);
+
+  // Invisible watermark actions
+  const setInvisibleWatermark = useCallback((settings: InvisibleWatermarkSettings) => {
+    dispatch({ type: 'SET_INVISIBLE_WATERMARK', payload: settings });
+  }, [dispatch]);
+
+  // Distribution actions
+  const setDistributionSettings = useCallback((settings: DistributionSettings) => {
+    dispatch({ type: 'SET_DISTRIBUTION_SETTINGS', payload: settings });
+  }, [dispatch]);
+
   // Processing actions
   const processAllImages = useCallback(async (): Promise<ProcessingResult[]> => {
     if (images.length === 0) {
@@ -99,7 +242,8 @@ export function useExport(): UseExportReturn {
         exportSettings,
         (progress) => {
           dispatch({ type: 'SET_PROCESSING_PROGRESS', payload: progress });
-        }
+        },
+        { cropSettings, adjustments, resize, renameSettings, invisibleWatermark, fonts: customFonts }
       );
 
       // Mark processed images
@@ -113,7 +257,7 @@ export function useExport(): UseExportReturn {
     } finally {
       dispatch({ type: 'SET_PROCESSING', payload: false });
     }
-  }, [dispatch, images, watermarkSettings, exportSettings]);
+  }, [dispatch, images, watermarkSettings, exportSettings, cropSettings, adjustments, resize, renameSettings, invisibleWatermark, customFonts]);
 
   const processSelectedImage = useCallback(async (): Promise<ProcessingResult | null> => {
     if (!selectedImage) {
@@ -123,18 +267,21 @@ export function useExport(): UseExportReturn {
     dispatch({ type: 'SET_PROCESSING', payload: true });
 
     try {
-      const watermarkedBlob = await applyWatermark(selectedImage, watermarkSettings);
-      const outputBlob = await exportImage(
-        watermarkedBlob,
-        selectedImage.name,
-        exportSettings.format,
-        exportSettings.quality
-      );
-      const outputFilename = generateOutputFilename(
-        selectedImage.name,
-        exportSettings.filenamePrefix,
-        exportSettings.filenameSuffix,
-        exportSettings.format
+      // Name and number the page as it would be in the full batch
+      const index = images.findIndex(img => img.id === selectedImage.id);
+      const outputFilename = generateBatchFilenames(
+        images.map(img => img.name),
+        exportSettings,
+        renameSettings
+      )[index] ?? selectedImage.name;
+      const options = { cropSettings, adjustments, resize, renameSettings, invisibleWatermark };
+
+      const outputBlob = await renderImage(
+        selectedImage,
+        watermarkSettings,
+        exportSettings,
+        options,
+        getBatchTextValues(selectedImage, Math.max(index, 0), outputFilename, options)
       );
 
       dispatch({ type: 'MARK_IMAGE_PROCESSED', payload: selectedImage.id });
@@ -154,7 +301,189 @@ export function useExport(): UseExportReturn {
     } finally {
       dispatch({ type: 'SET_PROCESSING', payload: false });
     }
-  }, [dispatch, selectedImage, watermarkSettings, exportSettings]);
+  }, [dispatch, images, selectedImage, watermarkSettings, exportSettings, cropSettings, adjustments, resize, renameSettings, invisibleWatermark]);
+
+  const exportAllAsArchive = useCallback(async (
+    filename: string = getArchiveFilename()
+  ): Promise<ProcessingResult[]> => {
+    if (images.length === 0) {
+      return [];
+    }
+
+    const { extension, mimeType } = ARCHIVE_FORMATS[archiveSettings.format];
+
+    // Open the destination first, while still inside the user gesture
+    let sink: ZipSink;
+    try {
+      sink = await createZipSink(`${filename}${extension}`, mimeType);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return [];
+      }
+      throw error;
+    }
+
+    dispatch({ type: 'SET_PROCESSING', payload: true });
+
+    try {
+      const { results, archive } = await exportBatchAsArchive(
+        images,
+        watermarkSettings,
+        exportSettings,
+        sink,
+        archiveSettings,
+        (progress) => {
+          dispatch({ type: 'SET_PROCESSING_PROGRESS', payload: progress });
+        },
+        { cropSettings, adjustments, resize, renameSettings, invisibleWatermark, fonts: customFonts }
+      );
+
+      for (const result of results) {
+        if (result.success) {
+          dispatch({ type: 'MARK_IMAGE_PROCESSED', payload: result.imageId });
+        }
+      }
+
+      if (archive) {
+        downloadBlob(archive, `${filename}${extension}`);
+      }
+
+      return results;
+    } finally {
+      dispatch({ type: 'SET_PROCESSING', payload: false });
+    }
+  }, [
+    dispatch,
+    images,
+    watermarkSettings,
+    exportSettings,
+    cropSettings,
+    adjustments,
+    resize,
+    renameSettings,
+    archiveSettings,
+    invisibleWatermark,
+    customFonts,
+    getArchiveFilename,
+  ]);
+
+  // One archive per recipient plus the manifest that maps copies to
+  // recipients, streamed into a single ZIP so it is saved in one download
+  const exportForRecipients = useCallback(async (
+    baseName: string = getArchiveFilename(),
+    onRecipient?: (recipient: string, index: number, total: number) => void
+  ): Promise<DistributionManifest | null> => {
+    const { recipients } = distributionSettings;
+    if (images.length === 0 || recipients.length === 0) {
+      return null;
+    }
+
+    const { extension, mimeType } = ARCHIVE_FORMATS[archiveSettings.format];
+    const bundleName = `${baseName}_distribution.zip`;
+
+    // Open the destination first, while still inside the user gesture
+    let sink: ZipSink;
+    try {
+      sink = await createZipSink(bundleName, ARCHIVE_FORMATS.zip.mimeType);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return null;
+      }
+      throw error;
+    }
+
+    const bundle = new ZipStreamWriter(sink);
+    // Each recipient's batch resets the cancelled flag, so a cancel between
+    // batches only shows in the count
+    const cancelCount = getBatchCancelCount();
+    const isCancelled = () => getBatchCancelCount() !== cancelCount;
+    dispatch({ type: 'SET_PROCESSING', payload: true });
+
+    try {
+      const entries: DistributionManifestEntry[] = [];
+      const archiveNames = getRecipientArchiveNames(baseName, recipients);
+
+      for (const [index, recipient] of recipients.entries()) {
+        if (isCancelled()) {
+          break;
+        }
+        onRecipient?.(recipient, index, recipients.length);
+        const recipientSettings = createRecipientSettings(watermarkSettings, recipient, distributionSettings);
+
+        // Each copy is built in memory, one at a time, then moved into the bundle
+        const { archive } = await exportBatchAsArchive(
+          createRecipientImages(images, recipient),
+          recipientSettings,
+          exportSettings,
+          createBlobSink(MAX_IN_MEMORY_ZIP_BYTES, mimeType),
+          archiveSettings,
+          (progress) => {
+            dispatch({ type: 'SET_PROCESSING_PROGRESS', payload: progress });
+          },
+          {
+            cropSettings,
+            adjustments,
+            resize,
+            renameSettings,
+            // The invisible mark can carry the recipient as its group ID
+            invisibleWatermark: {
+              ...invisibleWatermark,
+              groupId: fillRecipient(invisibleWatermark.groupId, recipient),
+            },
+            fonts: customFonts,
+          }
+        );
+        if (isCancelled() || !archive) {
+          break;
+        }
+
+        const filename = `${archiveNames[index] ?? baseName}${extension}`;
+        await bundle.addFile(filename, archive);
+        entries.push({
+          recipient,
+          archive: filename,
+          seed: getRecipientSeed(recipient),
+          settingsHash: await hashSettings(recipientSettings),
+        });
+      }
+
+      if (entries.length === 0) {
+        await bundle.abort();
+        return null;
+      }
+
+      const manifest = createDistributionManifest(entries, images.length);
+      await bundle.addFile(
+        `${baseName}_manifest.json`,
+        new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' })
+      );
+
+      const blob = await bundle.finish();
+      if (blob) {
+        downloadBlob(blob, bundleName);
+      }
+      return manifest;
+    } catch (error) {
+      await bundle.abort();
+      throw error;
+    } finally {
+      dispatch({ type: 'SET_PROCESSING', payload: false });
+    }
+  }, [
+    dispatch,
+    images,
+    watermarkSettings,
+    exportSettings,
+    cropSettings,
+    adjustments,
+    resize,
+    renameSettings,
+    invisibleWatermark,
+    archiveSettings,
+    distributionSettings,
+    customFonts,
+    getArchiveFilename,
+  ]);
 
   const cancelProcessing = useCallback(() => {
     cancelBatch();
@@ -170,8 +499,20 @@ export function useExport(): UseExportReturn {
       return;
     }
 
-    const zipBlob = await exportAsZip(results, filename);
-    downloadBlob(zipBlob, `${filename}.zip`);
+    let sink: ZipSink;
+    try {
+      sink = await createZipSink(`${filename}.zip`, ARCHIVE_FORMATS.zip.mimeType);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return;
+      }
+      throw error;
+    }
+
+    const zipBlob = await exportAsZip(successfulResults, sink);
+    if (zipBlob) {
+      downloadBlob(zipBlob, `${filename}.zip`);
+    }
   }, []);
 
   const downloadSingleImage = useCallback((result: ProcessingResult) => {
@@ -204,6 +545,11 @@ export function useExport(): UseExportReturn {
     exportSettings,
     isProcessing,
     processingProgress,
+    compressionPreset,
+    renameSettings,
+    archiveSettings,
+    invisibleWatermark,
+    distributionSettings,
 
     // Export settings actions
     setExportSettings,
@@ -213,10 +559,33 @@ export function useExport(): UseExportReturn {
     setFilenamePrefix,
     setFilenameSuffix,
     setPreserveOriginalName,
+    setConcurrency,
+
+    // Compression preset actions
+    setCompressionPreset,
+    applyCompressionPreset,
+
+    // Batch rename actions
+    setRenameSettings,
+    setRenameEnabled,
+    setRenamePattern,
+
+    // Archive actions
+    setArchiveSettings,
+    updateArchiveMetadata,
+    getArchiveFilename,
+
+    // Invisible watermark actions
+    setInvisibleWatermark,
+
+    // Distribution actions
+    setDistributionSettings,
 
     // Processing actions
     processAllImages,
     processSelectedImage,
+    exportAllAsArchive,
+    exportForRecipients,
     cancelProcessing,
 
     // Download actions
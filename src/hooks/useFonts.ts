@@ -0,0 +1,78 @@
+/**
+ * useFonts Hook
+ * Provides the custom font library state and actions
+ */
+
+import { useCallback, useEffect } from 'react';
+import { useAppContext } from '@/context';
+import type { CustomFont } from '@/types';
+import { FontLibrary } from '@/services/FontLibrary';
+
+// Singleton font library instance
+const fontLibrary = new FontLibrary();
+
+// Stored fonts are loaded once per session
+let storedFonts: Promise<CustomFont[]> | null = null;
+
+export interface UseFontsReturn {
+  // State
+  fonts: CustomFont[];
+  hasFonts: boolean;
+
+  // Actions
+  addFont: (file: File) => Promise<CustomFont>;
+  removeFont: (fontId: string) => Promise<void>;
+
+  // Utility
+  getFontById: (fontId: string) => CustomFont | null;
+}
+
+export function useFonts(): UseFontsReturn {
+  const { state, dispatch } = useAppContext();
+  const { customFonts } = state;
+
+  // Load stored fonts on mount
+  useEffect(() => {
+    storedFonts ??= fontLibrary.loadAll().catch(() => []);
+    let cancelled = false;
+    storedFonts.then((fonts) => {
+      if (!cancelled && fonts.length > 0) {
+        dispatch({ type: 'SET_CUSTOM_FONTS', payload: fonts });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [dispatch]);
+
+  // Add a font file to the library
+  const addFont = useCallback(async (file: File): Promise<CustomFont> => {
+    const font = await fontLibrary.add(file);
+    dispatch({ type: 'ADD_CUSTOM_FONT', payload: font });
+    return font;
+  }, [dispatch]);
+
+  // Remove a font from the library
+  const removeFont = useCallback(async (fontId: string): Promise<void> => {
+    await fontLibrary.remove(fontId);
+    dispatch({ type: 'REMOVE_CUSTOM_FONT', payload: fontId });
+  }, [dispatch]);
+
+  // Get font by ID
+  const getFontById = useCallback((fontId: string): CustomFont | null => {
+    return customFonts.find(font => font.id === fontId) ?? null;
+  }, [customFonts]);
+
+  return {
+    // State
+    fonts: customFonts,
+    hasFonts: customFonts.length > 0,
+
+    // Actions
+    addFont,
+    removeFont,
+
+    // Utility
+    getFontById,
+  };
+}
@@ -6,7 +6,7 @@
 
 import { useCallback } from 'react';
 import { useAppContext } from '@/context';
-import type { UploadedImage } from '@/types';
+import type { UploadedImage, CropRegion, CropSettings, ImageAdjustments, WatermarkOverride } from '@/types';
 import { loadImage, loadImages } from '@/services/ImageProcessor';
 
 export interface UseImagesReturn {
@@ -16,6 +16,8 @@ export interface UseImagesReturn {
   selectedImage: UploadedImage | null;
   hasImages: boolean;
   imageCount: number;
+  cropSettings: CropSettings;
+  adjustments: ImageAdjustments;
 
   // Actions
   addImages: (images: UploadedImage[]) => void;
@@ -25,6 +27,17 @@ export interface UseImagesReturn {
   markProcessed: (imageId: string) => void;
   updateImage: (imageId: string, updates: Partial<UploadedImage>) => void;
   reorderImages: (fromIndex: number, toIndex: number) => void;
+  replaceImages: (imageIds: string[], replacements: UploadedImage[]) => void;
+
+  // Crop actions
+  setImageCrop: (imageId: string, region: CropRegion | null) => void;
+  setCropSettings: (settings: CropSettings) => void;
+
+  // Raw cleaning actions
+  setAdjustments: (adjustments: ImageAdjustments) => void;
+
+  // Per-page watermark overrides
+  setWatermarkOverride: (imageId: string, override: WatermarkOverride | null) => void;
 
   // File loading helpers
   loadFromFiles: (files: File[], onProgress?: (loaded: number, total: number) => void) => Promise<{
@@ -42,7 +55,7 @@ export interface UseImagesReturn {
 
 export function useImages(): UseImagesReturn {
   const { state, dispatch, selectedImage } = useAppContext();
-  const { images, selectedImageId } = state;
+  const { images, selectedImageId, cropSettings, adjustments } = state;
 
   // Derived state
   const hasImages = images.length > 0;
@@ -77,6 +90,30 @@ export function useImages(): UseImagesReturn {
     dispatch({ type: 'REORDER_IMAGES', payload: { fromIndex, toIndex } });
   }, [dispatch]);
 
+  // Replace pages in place, e.g. a spread with its split pages
+  const replaceImages = useCallback((imageIds: string[], replacements: UploadedImage[]) => {
+    dispatch({ type: 'REPLACE_IMAGES', payload: { imageIds, replacements } });
+  }, [dispatch]);
+
+  // Crop actions (non-destructive, applied at render time)
+  const setImageCrop = useCallback((imageId: string, region: CropRegion | null) => {
+    dispatch({ type: 'UPDATE_IMAGE', payload: { imageId, updates: { crop: region } } });
+  }, [dispatch]);
+
+  const setCropSettings = useCallback((settings: CropSettings) => {
+    dispatch({ type: 'SET_CROP_SETTINGS', payload: settings });
+  }, [dispatch]);
+
+  // Raw cleaning (applied to every page before the watermark)
+  const setAdjustments = useCallback((newAdjustments: ImageAdjustments) => {
+    dispatch({ type: 'SET_ADJUSTMENTS', payload: newAdjustments });
+  }, [dispatch]);
+
+  // Per-page watermark overrides (merged over the global settings at render time)
+  const setWatermarkOverride = useCallback((imageId: string, override: WatermarkOverride | null) => {
+    dispatch({ type: 'UPDATE_IMAGE', payload: { imageId, updates: { watermarkOverride: override } } });
+  }, [dispatch]);
+
   // File loading helpers
   const loadFromFiles = useCallback(async (
     files: File[],
@@ -152,6 +189,8 @@ export function useImages(): UseImagesReturn {
     selectedImage,
     hasImages,
     imageCount,
+    cropSettings,
+    adjustments,
 
     // Actions
     addImages,
@@ -161,6 +200,17 @@ export function useImages(): UseImagesReturn {
     markProcessed,
     updateImage,
     reorderImages,
+    replaceImages,
+
+    // Crop actions
+    setImageCrop,
+    setCropSettings,
+
+    // Raw cleaning actions
+    setAdjustments,
+
+    // Per-page watermark overrides
+    setWatermarkOverride,
 
     // File loading helpers
     loadFromFiles,
@@ -6,7 +6,7 @@
 
 import { useCallback, useEffect } from 'react';
 import { useAppContext } from '@/context';
-import type { Preset, WatermarkSettings } from '@/types';
+import type { ImageAdjustments, Preset, WatermarkSettings } from '@/types';
 import { PresetManager } from '@/services/PresetManager';
 
 // Singleton preset manager instance
@@ -21,9 +21,12 @@ export interface UsePresetsReturn {
   presetCount: number;
 
   // Actions
-  savePreset: (name: string, settings?: WatermarkSettings) => Preset;
+  savePreset: (name: string, settings?: WatermarkSettings, adjustments?: ImageAdjustments) => Preset;
   loadPreset: (presetId: string) => void;
-  updatePreset: (presetId: string, updates: { name?: string; settings?: WatermarkSettings }) => void;
+  updatePreset: (
+    presetId: string,
+    updates: { name?: string; settings?: WatermarkSettings; adjustments?: ImageAdjustments }
+  ) => void;
   deletePreset: (presetId: string) => boolean;
   selectPreset: (presetId: string | null) => void;
   applyPreset: (preset: Preset) => void;
@@ -60,10 +63,14 @@ export function usePresets(): UsePresetsReturn {
     dispatch({ type: 'SET_PRESETS', payload: storedPresets });
   }, [dispatch]);
 
-  // Save new preset
-  const savePreset = useCallback((name: string, settings?: WatermarkSettings): Preset => {
+  // Save new preset, optionally with the image adjustments
+  const savePreset = useCallback((
+    name: string,
+    settings?: WatermarkSettings,
+    adjustments?: ImageAdjustments
+  ): Preset => {
     const settingsToSave = settings ?? watermarkSettings;
-    const newPreset = presetManager.save(name, settingsToSave);
+    const newPreset = presetManager.save(name, settingsToSave, adjustments);
     dispatch({ type: 'ADD_PRESET', payload: newPreset });
     return newPreset;
   }, [dispatch, watermarkSettings]);
@@ -79,7 +86,7 @@ export function usePresets(): UsePresetsReturn {
   // Update existing preset
   const updatePreset = useCallback((
     presetId: string,
-    updates: { name?: string; settings?: WatermarkSettings }
+    updates: { name?: string; settings?: WatermarkSettings; adjustments?: ImageAdjustments }
   ) => {
     try {
       const updatedPreset = presetManager.update(presetId, updates);
@@ -1,6 +1,7 @@
 /**
  * useWatermarkSettings Hook
- * Provides watermark settings state and actions
+ * Provides watermark settings state and actions. Config and position
+ * actions apply to the selected layer of the watermark stack.
  * Requirements: 2.1-2.6, 3.1-3.5, 4.1-4.5
  */
 
@@ -8,25 +9,48 @@ import { useCallback } from 'react';
 import { useAppContext } from '@/context';
 import type {
   WatermarkSettings,
+  WatermarkLayer,
   WatermarkConfig,
   WatermarkPosition,
   TextWatermarkConfig,
   ImageWatermarkConfig,
+  QrWatermarkConfig,
+  QrErrorCorrection,
   PresetPosition,
+  TextAlign,
+  TextFillType,
+  TextColorMode,
+  BlendMode,
+  PositionUnit,
+  SizeReference,
 } from '@/types';
 import {
   createDefaultTextWatermarkConfig,
   createDefaultImageWatermarkConfig,
+  createDefaultQrWatermarkConfig,
+  createWatermarkLayer,
+  generateLayerId,
+  getDefaultLayerName,
 } from '@/types';
+import { convertLayerUnits } from '@/services/WatermarkRenderer';
+import type { Dimensions } from '@/utils/position';
+
+/**
+ * Stand-in while the stack has no layers, so panels always have a config to show
+ */
+const EMPTY_LAYER = createWatermarkLayer();
 
 export interface UseWatermarkSettingsReturn {
   // State
   settings: WatermarkSettings;
+  layers: WatermarkLayer[];
+  selectedLayer: WatermarkLayer;
   config: WatermarkConfig;
   position: WatermarkPosition;
   enabled: boolean;
   isTextWatermark: boolean;
   isImageWatermark: boolean;
+  isQrWatermark: boolean;
 
   // Actions
   setSettings: (settings: WatermarkSettings) => void;
@@ -34,42 +58,101 @@ export interface UseWatermarkSettingsReturn {
   updatePosition: (updates: Partial<WatermarkPosition>) => void;
   toggleEnabled: (enabled?: boolean) => void;
 
+  // Layer stack
+  addTextLayer: () => void;
+  addImageLayer: () => void;
+  addQrLayer: () => void;
+  duplicateLayer: (layerId: string) => void;
+  removeLayer: (layerId: string) => void;
+  selectLayer: (layerId: string) => void;
+  moveLayer: (fromIndex: number, toIndex: number) => void;
+  updateLayer: (layerId: string, updates: Partial<Omit<WatermarkLayer, 'id'>>) => void;
+  setLayerEnabled: (layerId: string, enabled: boolean) => void;
+  setLayerOpacity: (layerId: string, opacity: number) => void;
+
   // Text watermark specific
   setText: (text: string) => void;
   setFontFamily: (fontFamily: string) => void;
+  setCustomFont: (fontId: string | null) => void;
   setFontSize: (fontSize: number) => void;
   setFontWeight: (fontWeight: 'normal' | 'bold') => void;
+  setLineHeight: (lineHeight: number) => void;
+  setTextAlign: (textAlign: TextAlign) => void;
+  setLetterSpacing: (letterSpacing: number) => void;
+  setMaxWidth: (maxWidth: number) => void;
   setTextColor: (color: string) => void;
+  setColorMode: (colorMode: TextColorMode) => void;
+  setContrastColors: (lightColor: string, darkColor: string) => void;
   setTextOpacity: (opacity: number) => void;
   setOutlineEnabled: (enabled: boolean) => void;
   setOutlineColor: (color: string) => void;
   setOutlineWidth: (width: number) => void;
 
+  // Text effects
+  setShadowEnabled: (enabled: boolean) => void;
+  setShadowColor: (color: string) => void;
+  setShadowOffset: (offsetX: number, offsetY: number) => void;
+  setShadowBlur: (blur: number) => void;
+  setFillType: (fillType: TextFillType) => void;
+  setGradientColor: (color: string) => void;
+  setGradientAngle: (angle: number) => void;
+  setBackgroundEnabled: (enabled: boolean) => void;
+  setBackgroundColor: (color: string) => void;
+  setBackgroundOpacity: (opacity: number) => void;
+  setBackgroundPadding: (padding: number) => void;
+  setBackgroundRadius: (radius: number) => void;
+
   // Image watermark specific
   setImageData: (imageData: string) => void;
   setImageScale: (scale: number) => void;
   setImageOpacity: (opacity: number) => void;
+  setImageRecolor: (recolor: boolean) => void;
+  setImageColor: (color: string) => void;
+
+  // QR code watermark specific
+  setQrContent: (content: string) => void;
+  setQrErrorCorrection: (errorCorrection: QrErrorCorrection) => void;
+  setQrSize: (size: number) => void;
+  setQrColor: (color: string) => void;
+  setQrBackgroundColor: (color: string) => void;
+  setQrBackgroundTransparent: (transparent: boolean) => void;
+  setQrQuietZone: (quietZone: number) => void;
+  setQrOpacity: (opacity: number) => void;
+
+  // Blending (all watermark types)
+  setBlendMode: (blendMode: BlendMode) => void;
+
+  // Tiling (all watermark types)
   setTileEnabled: (enabled: boolean) => void;
   setTileSpacing: (spacingX: number, spacingY: number) => void;
+  setTileStagger: (stagger: number) => void;
+  setTileRotation: (rotation: number) => void;
 
   // Position specific
-  setPresetPosition: (position: PresetPosition | 'custom') => void;
+  setPresetPosition: (position: WatermarkPosition['presetPosition']) => void;
   setOffset: (offsetX: number, offsetY: number) => void;
   setRotation: (rotation: number) => void;
   setMargins: (margins: { top?: number; right?: number; bottom?: number; left?: number }) => void;
+  setAutoCandidates: (candidates: PresetPosition[]) => void;
+  setAutoGutters: (enabled: boolean) => void;
+  setUnit: (unit: PositionUnit, pageSize: Dimensions) => void;
+  setSizeReference: (reference: SizeReference) => void;
 
   // Switch watermark type
   switchToText: () => void;
   switchToImage: () => void;
+  switchToQr: () => void;
 }
 
 export function useWatermarkSettings(): UseWatermarkSettingsReturn {
-  const { state, dispatch } = useAppContext();
+  const { state, dispatch, selectedLayer } = useAppContext();
   const { watermarkSettings } = state;
+  const layer = selectedLayer ?? EMPTY_LAYER;
 
   // Derived state
-  const isTextWatermark = watermarkSettings.config.type === 'text';
-  const isImageWatermark = watermarkSettings.config.type === 'image';
+  const isTextWatermark = layer.config.type === 'text';
+  const isImageWatermark = layer.config.type === 'image';
+  const isQrWatermark = layer.config.type === 'qr';
 
   // Base actions
   const setSettings = useCallback((settings: WatermarkSettings) => {
@@ -92,6 +175,52 @@ export function useWatermarkSettings(): UseWatermarkSettingsReturn {
     }
   }, [dispatch]);
 
+  // Layer stack actions
+  const addTextLayer = useCallback(() => {
+    dispatch({ type: 'ADD_WATERMARK_LAYER', payload: createWatermarkLayer(createDefaultTextWatermarkConfig()) });
+  }, [dispatch]);
+
+  const addImageLayer = useCallback(() => {
+    dispatch({ type: 'ADD_WATERMARK_LAYER', payload: createWatermarkLayer(createDefaultImageWatermarkConfig()) });
+  }, [dispatch]);
+
+  const addQrLayer = useCallback(() => {
+    dispatch({ type: 'ADD_WATERMARK_LAYER', payload: createWatermarkLayer(createDefaultQrWatermarkConfig()) });
+  }, [dispatch]);
+
+  const duplicateLayer = useCallback((layerId: string) => {
+    const source = watermarkSettings.layers.find(l => l.id === layerId);
+    if (!source) return;
+    dispatch({
+      type: 'ADD_WATERMARK_LAYER',
+      payload: { ...structuredClone(source), id: generateLayerId(), name: `${source.name} copy` },
+    });
+  }, [dispatch, watermarkSettings.layers]);
+
+  const removeLayer = useCallback((layerId: string) => {
+    dispatch({ type: 'REMOVE_WATERMARK_LAYER', payload: layerId });
+  }, [dispatch]);
+
+  const selectLayer = useCallback((layerId: string) => {
+    dispatch({ type: 'SELECT_WATERMARK_LAYER', payload: layerId });
+  }, [dispatch]);
+
+  const moveLayer = useCallback((fromIndex: number, toIndex: number) => {
+    dispatch({ type: 'REORDER_WATERMARK_LAYERS', payload: { fromIndex, toIndex } });
+  }, [dispatch]);
+
+  const updateLayer = useCallback((layerId: string, updates: Partial<Omit<WatermarkLayer, 'id'>>) => {
+    dispatch({ type: 'UPDATE_WATERMARK_LAYER', payload: { layerId, updates } });
+  }, [dispatch]);
+
+  const setLayerEnabled = useCallback((layerId: string, enabled: boolean) => {
+    updateLayer(layerId, { enabled });
+  }, [updateLayer]);
+
+  const setLayerOpacity = useCallback((layerId: string, opacity: number) => {
+    updateLayer(layerId, { opacity });
+  }, [updateLayer]);
+
   // Text watermark actions
   const setText = useCallback((text: string) => {
     updateConfig({ text } as Partial<TextWatermarkConfig>);
@@ -101,6 +230,10 @@ export function useWatermarkSettings(): UseWatermarkSettingsReturn {
     updateConfig({ fontFamily } as Partial<TextWatermarkConfig>);
   }, [updateConfig]);
 
+  const setCustomFont = useCallback((fontId: string | null) => {
+    updateConfig({ fontId } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
   const setFontSize = useCallback((fontSize: number) => {
     updateConfig({ fontSize } as Partial<TextWatermarkConfig>);
   }, [updateConfig]);
@@ -109,10 +242,34 @@ export function useWatermarkSettings(): UseWatermarkSettingsReturn {
     updateConfig({ fontWeight } as Partial<TextWatermarkConfig>);
   }, [updateConfig]);
 
+  const setLineHeight = useCallback((lineHeight: number) => {
+    updateConfig({ lineHeight } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setTextAlign = useCallback((textAlign: TextAlign) => {
+    updateConfig({ textAlign } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setLetterSpacing = useCallback((letterSpacing: number) => {
+    updateConfig({ letterSpacing } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setMaxWidth = useCallback((maxWidth: number) => {
+    updateConfig({ maxWidth } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
   const setTextColor = useCallback((color: string) => {
     updateConfig({ color } as Partial<TextWatermarkConfig>);
   }, [updateConfig]);
 
+  const setColorMode = useCallback((colorMode: TextColorMode) => {
+    updateConfig({ colorMode } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setContrastColors = useCallback((lightColor: string, darkColor: string) => {
+    updateConfig({ lightColor, darkColor } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
   const setTextOpacity = useCallback((opacity: number) => {
     updateConfig({ opacity } as Partial<TextWatermarkConfig>);
   }, [updateConfig]);
@@ -129,6 +286,55 @@ export function useWatermarkSettings(): UseWatermarkSettingsReturn {
     updateConfig({ outlineWidth } as Partial<TextWatermarkConfig>);
   }, [updateConfig]);
 
+  // Text effect actions
+  const setShadowEnabled = useCallback((shadowEnabled: boolean) => {
+    updateConfig({ shadowEnabled } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setShadowColor = useCallback((shadowColor: string) => {
+    updateConfig({ shadowColor } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setShadowOffset = useCallback((shadowOffsetX: number, shadowOffsetY: number) => {
+    updateConfig({ shadowOffsetX, shadowOffsetY } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setShadowBlur = useCallback((shadowBlur: number) => {
+    updateConfig({ shadowBlur } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setFillType = useCallback((fillType: TextFillType) => {
+    updateConfig({ fillType } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setGradientColor = useCallback((gradientColor: string) => {
+    updateConfig({ gradientColor } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setGradientAngle = useCallback((gradientAngle: number) => {
+    updateConfig({ gradientAngle } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setBackgroundEnabled = useCallback((backgroundEnabled: boolean) => {
+    updateConfig({ backgroundEnabled } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setBackgroundColor = useCallback((backgroundColor: string) => {
+    updateConfig({ backgroundColor } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setBackgroundOpacity = useCallback((backgroundOpacity: number) => {
+    updateConfig({ backgroundOpacity } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setBackgroundPadding = useCallback((backgroundPadding: number) => {
+    updateConfig({ backgroundPadding } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setBackgroundRadius = useCallback((backgroundRadius: number) => {
+    updateConfig({ backgroundRadius } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
   // Image watermark actions
   const setImageData = useCallback((imageData: string) => {
     updateConfig({ imageData } as Partial<ImageWatermarkConfig>);
@@ -142,16 +348,71 @@ export function useWatermarkSettings(): UseWatermarkSettingsReturn {
     updateConfig({ opacity } as Partial<ImageWatermarkConfig>);
   }, [updateConfig]);
 
+  const setImageRecolor = useCallback((recolor: boolean) => {
+    updateConfig({ recolor } as Partial<ImageWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setImageColor = useCallback((color: string) => {
+    updateConfig({ color } as Partial<ImageWatermarkConfig>);
+  }, [updateConfig]);
+
+  // QR code watermark actions
+  const setQrContent = useCallback((content: string) => {
+    updateConfig({ content } as Partial<QrWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setQrErrorCorrection = useCallback((errorCorrection: QrErrorCorrection) => {
+    updateConfig({ errorCorrection } as Partial<QrWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setQrSize = useCallback((size: number) => {
+    updateConfig({ size } as Partial<QrWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setQrColor = useCallback((color: string) => {
+    updateConfig({ color } as Partial<QrWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setQrBackgroundColor = useCallback((backgroundColor: string) => {
+    updateConfig({ backgroundColor } as Partial<QrWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setQrBackgroundTransparent = useCallback((backgroundTransparent: boolean) => {
+    updateConfig({ backgroundTransparent } as Partial<QrWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setQrQuietZone = useCallback((quietZone: number) => {
+    updateConfig({ quietZone } as Partial<QrWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setQrOpacity = useCallback((opacity: number) => {
+    updateConfig({ opacity } as Partial<QrWatermarkConfig>);
+  }, [updateConfig]);
+
+  // Blending actions
+  const setBlendMode = useCallback((blendMode: BlendMode) => {
+    updateConfig({ blendMode });
+  }, [updateConfig]);
+
+  // Tiling actions
   const setTileEnabled = useCallback((tileEnabled: boolean) => {
-    updateConfig({ tileEnabled } as Partial<ImageWatermarkConfig>);
+    updateConfig({ tileEnabled });
   }, [updateConfig]);
 
   const setTileSpacing = useCallback((tileSpacingX: number, tileSpacingY: number) => {
-    updateConfig({ tileSpacingX, tileSpacingY } as Partial<ImageWatermarkConfig>);
+    updateConfig({ tileSpacingX, tileSpacingY });
+  }, [updateConfig]);
+
+  const setTileStagger = useCallback((tileStagger: number) => {
+    updateConfig({ tileStagger } as Partial<TextWatermarkConfig>);
+  }, [updateConfig]);
+
+  const setTileRotation = useCallback((tileRotation: number) => {
+    updateConfig({ tileRotation } as Partial<TextWatermarkConfig>);
   }, [updateConfig]);
 
   // Position actions
-  const setPresetPosition = useCallback((presetPosition: PresetPosition | 'custom') => {
+  const setPresetPosition = useCallback((presetPosition: WatermarkPosition['presetPosition']) => {
     updatePosition({ presetPosition });
   }, [updatePosition]);
 
@@ -172,35 +433,75 @@ export function useWatermarkSettings(): UseWatermarkSettingsReturn {
     updatePosition(updates);
   }, [updatePosition]);
 
-  // Switch watermark type
-  const switchToText = useCallback(() => {
-    dispatch({
-      type: 'SET_WATERMARK_SETTINGS',
-      payload: {
-        ...watermarkSettings,
-        config: createDefaultTextWatermarkConfig(),
+  const setAutoCandidates = useCallback((autoCandidates: PresetPosition[]) => {
+    updatePosition({ autoCandidates });
+  }, [updatePosition]);
+
+  const setAutoGutters = useCallback((autoGutters: boolean) => {
+    updatePosition({ autoGutters });
+  }, [updatePosition]);
+
+  // Switch units, converting the current values so the watermark keeps its size on pageSize
+  const setUnit = useCallback((unit: PositionUnit, pageSize: Dimensions) => {
+    const converted = convertLayerUnits(layer, unit, pageSize);
+    if (converted === layer) return;
+
+    const round = (value: number) => unit === 'px' ? Math.round(value) : Math.round(value * 100) / 100;
+    const { position } = converted;
+    const config = converted.config.type === 'text'
+      ? { ...converted.config, fontSize: round(converted.config.fontSize) }
+      : converted.config.type === 'qr'
+        ? { ...converted.config, size: round(converted.config.size) }
+        : converted.config;
+    updateLayer(layer.id, {
+      config,
+      position: {
+        ...position,
+        offsetX: round(position.offsetX),
+        offsetY: round(position.offsetY),
+        marginTop: round(position.marginTop),
+        marginRight: round(position.marginRight),
+        marginBottom: round(position.marginBottom),
+        marginLeft: round(position.marginLeft),
       },
     });
-  }, [dispatch, watermarkSettings]);
+  }, [layer, updateLayer]);
+
+  const setSizeReference = useCallback((sizeReference: SizeReference) => {
+    updatePosition({ sizeReference });
+  }, [updatePosition]);
+
+  // Switch watermark type of the selected layer (keeps custom layer names)
+  const switchLayerType = useCallback((config: WatermarkConfig) => {
+    const name = layer.name === getDefaultLayerName(layer.config)
+      ? getDefaultLayerName(config)
+      : layer.name;
+    updateLayer(layer.id, { config, name });
+  }, [layer, updateLayer]);
+
+  const switchToText = useCallback(() => {
+    switchLayerType(createDefaultTextWatermarkConfig());
+  }, [switchLayerType]);
 
   const switchToImage = useCallback(() => {
-    dispatch({
-      type: 'SET_WATERMARK_SETTINGS',
-      payload: {
-        ...watermarkSettings,
-        config: createDefaultImageWatermarkConfig(),
-      },
-    });
-  }, [dispatch, watermarkSettings]);
+    switchLayerType(createDefaultImageWatermarkConfig());
+  }, [switchLayerType]);
+
+  const switchToQr = useCallback(() => {
+    switchLayerType(createDefaultQrWatermarkConfig());
+  }, [switchLayerType]);
 
   return {
     // State
     settings: watermarkSettings,
-    config: watermarkSettings.config,
-    position: watermarkSettings.position,
+    layers: watermarkSettings.layers,
+    selectedLayer: layer,
+    config: layer.config,
+    position: layer.position,
     enabled: watermarkSettings.enabled,
     isTextWatermark,
     isImageWatermark,
+    isQrWatermark,
 
     // Actions
     setSettings,
@@ -208,32 +509,89 @@ export function useWatermarkSettings(): UseWatermarkSettingsReturn {
     updatePosition,
     toggleEnabled,
 
+    // Layer stack
+    addTextLayer,
+    addImageLayer,
+    addQrLayer,
+    duplicateLayer,
+    removeLayer,
+    selectLayer,
+    moveLayer,
+    updateLayer,
+    setLayerEnabled,
+    setLayerOpacity,
+
     // Text watermark specific
     setText,
     setFontFamily,
+    setCustomFont,
     setFontSize,
     setFontWeight,
+    setLineHeight,
+    setTextAlign,
+    setLetterSpacing,
+    setMaxWidth,
     setTextColor,
+    setColorMode,
+    setContrastColors,
     setTextOpacity,
     setOutlineEnabled,
     setOutlineColor,
     setOutlineWidth,
 
+    // Text effects
+    setShadowEnabled,
+    setShadowColor,
+    setShadowOffset,
+    setShadowBlur,
+    setFillType,
+    setGradientColor,
+    setGradientAngle,
+    setBackgroundEnabled,
+    setBackgroundColor,
+    setBackgroundOpacity,
+    setBackgroundPadding,
+    setBackgroundRadius,
+
     // Image watermark specific
     setImageData,
     setImageScale,
     setImageOpacity,
+    setImageRecolor,
+    setImageColor,
+
+    // QR code watermark specific
+    setQrContent,
+    setQrErrorCorrection,
+    setQrSize,
+    setQrColor,
+    setQrBackgroundColor,
+    setQrBackgroundTransparent,
+    setQrQuietZone,
+    setQrOpacity,
+
+    // Blending
+    setBlendMode,
+
+    // Tiling
     setTileEnabled,
     setTileSpacing,
+    setTileStagger,
+    setTileRotation,
 
     // Position specific
     setPresetPosition,
     setOffset,
     setRotation,
     setMargins,
+    setAutoCandidates,
+    setAutoGutters,
+    setUnit,
+    setSizeReference,
 
     // Switch watermark type
     switchToText,
     switchToImage,
+    switchToQr,
   };
 }
@@ -0,0 +1,170 @@
+/**
+ * Property-Based Tests for ArchiveBuilder Service
+ *
+ * **Feature: manga-watermark-tool, Property 26: Comic Archive Packaging**
+ * **Validates: CBZ and EPUB export**
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  getArchiveEntryNames,
+  getArchivePagePath,
+  generateComicInfoXml,
+  generateEpubFiles,
+  type ArchivePage,
+} from './ArchiveBuilder';
+import type { ComicMetadata } from '@/types';
+
+// Arbitrary generator for comic metadata
+const arbMetadata: fc.Arbitrary<ComicMetadata> = fc.record({
+  series: fc.string({ maxLength: 30 }),
+  title: fc.string({ maxLength: 30 }),
+  language: fc.constantFrom('ja', 'en', 'ko', 'zh'),
+  readingDirection: fc.constantFrom('rtl' as const, 'ltr' as const),
+});
+
+// Arbitrary generator for output filenames in list order
+const arbFilenames = fc.uniqueArray(
+  fc.stringMatching(/^[a-zA-Z0-9_-]{1,12}\.(png|jpg)$/),
+  { minLength: 1, maxLength: 20, selector: name => name.toLowerCase() }
+);
+
+// Arbitrary generator for written pages
+const arbPages = fc.array(
+  fc.record({
+    width: fc.integer({ min: 1, max: 5000 }),
+    height: fc.integer({ min: 1, max: 5000 }),
+  }),
+  { minLength: 1, maxLength: 20 }
+).map((sizes): ArchivePage[] =>
+  sizes.map((size, index) => ({
+    path: `OEBPS/images/${String(index + 1).padStart(3, '0')}.png`,
+    mimeType: 'image/png',
+    ...size,
+  }))
+);
+
+function naturalSort(names: string[]): string[] {
+  return [...names].sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }));
+}
+
+describe('Property 26: Comic Archive Packaging', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 26: Comic Archive Packaging**
+   * **Validates: CBZ and EPUB export**
+   *
+   * For any list of filenames, the archive entry names SHALL keep the list
+   * order when sorted naturally, as comic readers do.
+   */
+  it('should name entries so that natural sort keeps list order', () => {
+    fc.assert(
+      fc.property(arbFilenames, (filenames) => {
+        const entries = getArchiveEntryNames(filenames);
+
+        expect(entries).toHaveLength(filenames.length);
+        expect(naturalSort(entries)).toEqual(entries);
+        entries.forEach((entry, index) => {
+          expect(entry.endsWith(filenames[index] ?? '')).toBe(true);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 26: Comic Archive Packaging**
+   * **Validates: CBZ and EPUB export**
+   *
+   * Filenames that already sort in list order SHALL be kept unchanged.
+   */
+  it('should keep filenames that already sort in list order', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 200 }), (count) => {
+        const filenames = Array.from({ length: count }, (_, i) => `page${i + 1}.png`);
+        expect(getArchiveEntryNames(filenames)).toEqual(filenames);
+        expect(getArchivePagePath('cbz', 'page1.png')).toBe('page1.png');
+        expect(getArchivePagePath('epub', 'page1.png')).toBe('OEBPS/images/page1.png');
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 26: Comic Archive Packaging**
+   * **Validates: CBZ and EPUB export**
+   *
+   * ComicInfo.xml SHALL list every page in order with its dimensions and
+   * reflect the reading direction.
+   */
+  it('should describe every page in ComicInfo.xml', () => {
+    fc.assert(
+      fc.property(arbMetadata, arbPages, (metadata, pages) => {
+        const xml = generateComicInfoXml(metadata, '12', pages);
+        const doc = new DOMParser().parseFromString(xml, 'application/xml');
+
+        expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+        expect(doc.getElementsByTagName('PageCount')[0]?.textContent).toBe(String(pages.length));
+        expect(doc.getElementsByTagName('Number')[0]?.textContent).toBe('12');
+        expect(doc.getElementsByTagName('Manga')[0]?.textContent).toBe(
+          metadata.readingDirection === 'rtl' ? 'YesAndRightToLeft' : 'Yes'
+        );
+        if (metadata.series) {
+          expect(doc.getElementsByTagName('Series')[0]?.textContent).toBe(metadata.series);
+        }
+
+        const pageElements = Array.from(doc.getElementsByTagName('Page'));
+        expect(pageElements).toHaveLength(pages.length);
+        pageElements.forEach((element, index) => {
+          expect(element.getAttribute('Image')).toBe(String(index));
+          expect(element.getAttribute('ImageWidth')).toBe(String(pages[index]?.width));
+          expect(element.getAttribute('ImageHeight')).toBe(String(pages[index]?.height));
+        });
+        expect(pageElements[0]?.getAttribute('Type')).toBe('FrontCover');
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 26: Comic Archive Packaging**
+   * **Validates: CBZ and EPUB export**
+   *
+   * The EPUB package SHALL be fixed-layout, with one spine item per page in
+   * list order and the configured page progression direction.
+   */
+  it('should build a fixed-layout EPUB spine in page order', () => {
+    fc.assert(
+      fc.property(arbMetadata, arbPages, (metadata, pages) => {
+        const files = generateEpubFiles(metadata, '3', pages, {
+          identifier: 'urn:uuid:test',
+          modified: new Date('2024-01-01T00:00:00Z'),
+        });
+        const opfFile = files.find(file => file.path === 'OEBPS/content.opf');
+        expect(opfFile).toBeDefined();
+        if (!opfFile) return;
+
+        const opf = new DOMParser().parseFromString(opfFile.content, 'application/xml');
+        expect(opf.getElementsByTagName('parsererror')).toHaveLength(0);
+        expect(opfFile.content).toContain('pre-paginated');
+
+        const spine = opf.getElementsByTagName('spine')[0];
+        expect(spine?.getAttribute('page-progression-direction')).toBe(metadata.readingDirection);
+
+        const itemrefs = Array.from(opf.getElementsByTagName('itemref'));
+        expect(itemrefs).toHaveLength(pages.length);
+
+        const pageFiles = files.filter(file => file.path.startsWith('OEBPS/pages/'));
+        expect(pageFiles).toHaveLength(pages.length);
+        itemrefs.forEach((itemref, index) => {
+          const id = itemref.getAttribute('idref');
+          expect(pageFiles[index]?.path).toBe(`OEBPS/pages/${id}.xhtml`);
+          expect(pageFiles[index]?.content).toContain(
+            `width=${pages[index]?.width}, height=${pages[index]?.height}`
+          );
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
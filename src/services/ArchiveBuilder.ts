@@ -0,0 +1,291 @@
+/**
+ * ArchiveBuilder Service
+ * Builds CBZ (ComicInfo.xml) and fixed-layout EPUB3 archives on top of ZipStreamWriter
+ */
+
+import type { ArchiveFormat, ArchiveSettings, ComicMetadata } from '@/types';
+import type { ZipStreamWriter } from './ZipWriter';
+import { compareNatural } from './ArchiveImporter';
+
+/**
+ * A page written to an archive
+ */
+export interface ArchivePage {
+  /** Path of the image inside the archive */
+  path: string;
+  width: number;
+  height: number;
+  mimeType: string;
+}
+
+/**
+ * A generated text file inside an archive
+ */
+export interface ArchiveTextFile {
+  path: string;
+  content: string;
+}
+
+const EPUB_MIMETYPE = 'application/epub+zip';
+const EPUB_ROOT = 'OEBPS';
+
+// ============================================
+// Entry Naming
+// ============================================
+
+/**
+ * Get archive entry names that sort in list order
+ *
+ * Comic readers order pages by filename. When the given filenames already
+ * sort in list order they are kept; otherwise each is prefixed with its
+ * zero-padded position.
+ *
+ * @param filenames - Output filenames in list order
+ * @returns Entry names in the same order
+ */
+export function getArchiveEntryNames(filenames: string[]): string[] {
+  const sorted = [...filenames].sort(compareNatural);
+  if (sorted.every((name, index) => name === filenames[index])) {
+    return filenames;
+  }
+
+  const padLength = Math.max(3, String(filenames.length).length);
+  return filenames.map((name, index) => `${String(index + 1).padStart(padLength, '0')}_${name}`);
+}
+
+/**
+ * Get the path of a page image inside an archive
+ * @param format - Archive format
+ * @param entryName - Entry name of the page
+ * @returns Path inside the archive
+ */
+export function getArchivePagePath(format: ArchiveFormat, entryName: string): string {
+  return format === 'epub' ? `${EPUB_ROOT}/images/${entryName}` : entryName;
+}
+
+// ============================================
+// ComicInfo.xml
+// ============================================
+
+/**
+ * Escape text for use in XML content and attributes
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Generate ComicInfo.xml (ComicRack schema) for a CBZ chapter
+ * @param metadata - Series metadata
+ * @param chapter - Chapter number from the rename pattern
+ * @param pages - Pages in reading order
+ * @returns ComicInfo.xml content
+ */
+export function generateComicInfoXml(
+  metadata: ComicMetadata,
+  chapter: string,
+  pages: ArchivePage[]
+): string {
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<ComicInfo xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+  ];
+
+  if (metadata.title) lines.push(`  <Title>${escapeXml(metadata.title)}</Title>`);
+  if (metadata.series) lines.push(`  <Series>${escapeXml(metadata.series)}</Series>`);
+  if (chapter) lines.push(`  <Number>${escapeXml(chapter)}</Number>`);
+  lines.push(`  <PageCount>${pages.length}</PageCount>`);
+  if (metadata.language) lines.push(`  <LanguageISO>${escapeXml(metadata.language)}</LanguageISO>`);
+  lines.push(`  <Manga>${metadata.readingDirection === 'rtl' ? 'YesAndRightToLeft' : 'Yes'}</Manga>`);
+
+  lines.push('  <Pages>');
+  pages.forEach((page, index) => {
+    const type = index === 0 ? ' Type="FrontCover"' : '';
+    lines.push(`    <Page Image="${index}"${type} ImageWidth="${page.width}" ImageHeight="${page.height}" />`);
+  });
+  lines.push('  </Pages>');
+  lines.push('</ComicInfo>');
+
+  return lines.join('\n');
+}
+
+// ============================================
+// EPUB3 (fixed layout)
+// ============================================
+
+/**
+ * Build the book title from series, chapter and title
+ */
+function getBookTitle(metadata: ComicMetadata, chapter: string): string {
+  const parts = [metadata.series || 'Untitled'];
+  if (chapter) parts.push(`Chapter ${chapter}`);
+  if (metadata.title) parts.push(metadata.title);
+  return parts.join(' - ');
+}
+
+/**
+ * Encode an archive path for use in an href, relative to the given folder
+ */
+function toHref(path: string, fromFolder: string): string {
+  const relative = path.startsWith(`${fromFolder}/`) ? path.substring(fromFolder.length + 1) : path;
+  return relative.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Generate the text files of a fixed-layout EPUB3 book (everything
+ * except the mimetype entry and the page images)
+ *
+ * @param metadata - Series metadata
+ * @param chapter - Chapter number from the rename pattern
+ * @param pages - Pages in spine (ImageList) order
+ * @param options - Book identifier and modification date
+ * @returns Files to add to the archive
+ */
+export function generateEpubFiles(
+  metadata: ComicMetadata,
+  chapter: string,
+  pages: ArchivePage[],
+  options: { identifier: string; modified: Date }
+): ArchiveTextFile[] {
+  const title = escapeXml(getBookTitle(metadata, chapter));
+  const language = escapeXml(metadata.language || 'und');
+  const modified = options.modified.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const pageId = (index: number) => `page-${String(index + 1).padStart(4, '0')}`;
+  const imageId = (index: number) => `img-${String(index + 1).padStart(4, '0')}`;
+
+  const container = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">',
+    '  <rootfiles>',
+    `    <rootfile full-path="${EPUB_ROOT}/content.opf" media-type="application/oebps-package+xml"/>`,
+    '  </rootfiles>',
+    '</container>',
+  ].join('\n');
+
+  const pageFiles: ArchiveTextFile[] = pages.map((page, index) => ({
+    path: `${EPUB_ROOT}/pages/${pageId(index)}.xhtml`,
+    content: [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<!DOCTYPE html>',
+      `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}">`,
+      '<head>',
+      `  <title>${title} - ${index + 1}</title>`,
+      `  <meta name="viewport" content="width=${page.width}, height=${page.height}"/>`,
+      '  <style>html, body { margin: 0; padding: 0; } img { display: block; width: 100%; height: 100%; }</style>',
+      '</head>',
+      '<body>',
+      `  <img src="../${toHref(page.path, EPUB_ROOT)}" alt="${index + 1}"/>`,
+      '</body>',
+      '</html>',
+    ].join('\n'),
+  }));
+
+  const nav = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE html>',
+    `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}">`,
+    `<head><title>${title}</title></head>`,
+    '<body>',
+    '  <nav epub:type="toc" id="toc">',
+    `    <h1>${title}</h1>`,
+    '    <ol>',
+    `      <li><a href="pages/${pageId(0)}.xhtml">${title}</a></li>`,
+    '    </ol>',
+    '  </nav>',
+    '</body>',
+    '</html>',
+  ].join('\n');
+
+  const manifest = [
+    '    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    ...pages.map((page, index) => {
+      const cover = index === 0 ? ' properties="cover-image"' : '';
+      return `    <item id="${imageId(index)}" href="${toHref(page.path, EPUB_ROOT)}" media-type="${page.mimeType}"${cover}/>`;
+    }),
+    ...pages.map((_, index) =>
+      `    <item id="${pageId(index)}" href="pages/${pageId(index)}.xhtml" media-type="application/xhtml+xml"/>`
+    ),
+  ];
+
+  const spine = pages.map((_, index) => `    <itemref idref="${pageId(index)}"/>`);
+
+  const opf = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="bookid" prefix="rendition: http://www.idpf.org/vocab/rendition/#">',
+    '  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    `    <dc:identifier id="bookid">${escapeXml(options.identifier)}</dc:identifier>`,
+    `    <dc:title>${title}</dc:title>`,
+    `    <dc:language>${language}</dc:language>`,
+    `    <meta property="dcterms:modified">${modified}</meta>`,
+    '    <meta property="rendition:layout">pre-paginated</meta>',
+    '    <meta property="rendition:spread">landscape</meta>',
+    '    <meta property="rendition:orientation">auto</meta>',
+    `    <meta name="cover" content="${imageId(0)}"/>`,
+    '  </metadata>',
+    '  <manifest>',
+    ...manifest,
+    '  </manifest>',
+    `  <spine page-progression-direction="${metadata.readingDirection}">`,
+    ...spine,
+    '  </spine>',
+    '</package>',
+  ].join('\n');
+
+  return [
+    { path: 'META-INF/container.xml', content: container },
+    { path: `${EPUB_ROOT}/content.opf`, content: opf },
+    { path: `${EPUB_ROOT}/nav.xhtml`, content: nav },
+    ...pageFiles,
+  ];
+}
+
+// ============================================
+// Writing
+// ============================================
+
+/**
+ * Write entries that must precede the pages
+ * (the EPUB mimetype must be the first, uncompressed entry)
+ * @param writer - Archive writer
+ * @param format - Archive format
+ */
+export async function writeArchivePrologue(
+  writer: ZipStreamWriter,
+  format: ArchiveFormat
+): Promise<void> {
+  if (format === 'epub') {
+    await writer.addFile('mimetype', new Blob([EPUB_MIMETYPE]));
+  }
+}
+
+/**
+ * Write metadata entries once all pages are in the archive
+ * @param writer - Archive writer
+ * @param settings - Archive format and metadata
+ * @param chapter - Chapter number from the rename pattern
+ * @param pages - Written pages in list order
+ */
+export async function writeArchiveEpilogue(
+  writer: ZipStreamWriter,
+  settings: ArchiveSettings,
+  chapter: string,
+  pages: ArchivePage[]
+): Promise<void> {
+  if (settings.format === 'cbz') {
+    const xml = generateComicInfoXml(settings.metadata, chapter, pages);
+    await writer.addFile('ComicInfo.xml', new Blob([xml], { type: 'application/xml' }));
+  } else if (settings.format === 'epub' && pages.length > 0) {
+    const files = generateEpubFiles(settings.metadata, chapter, pages, {
+      identifier: `urn:uuid:${crypto.randomUUID()}`,
+      modified: new Date(),
+    });
+    for (const file of files) {
+      await writer.addFile(file.path, new Blob([file.content]));
+    }
+  }
+}
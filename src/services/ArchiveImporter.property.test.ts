@@ -0,0 +1,167 @@
+/**
+ * Property-Based Tests for ArchiveImporter Service
+ *
+ * **Feature: manga-watermark-tool, Property 27: Archive Import Ordering**
+ * **Validates: ZIP/CBZ chapter import**
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import JSZip from 'jszip';
+import {
+  extractArchiveImages,
+  sortArchivePaths,
+  getChapterName,
+  ArchiveImportError,
+} from './ArchiveImporter';
+import { loadImages, SkippedEntryError } from './ImageProcessor';
+
+// Arbitrary generator for page numbers in a chapter
+const arbPageNumbers = fc.uniqueArray(fc.integer({ min: 1, max: 500 }), {
+  minLength: 1,
+  maxLength: 15,
+});
+
+// Arbitrary generator for chapter folders ('' for root)
+const arbFolder = fc.constantFrom('', 'Chapter 1', 'Chapter 2', 'Vol 1/Chapter 10');
+
+// Arbitrary generator for non-image entries
+const arbExtraFiles = fc.uniqueArray(
+  fc.stringMatching(/^[a-z]{1,8}\.(txt|xml|pdf|json)$/),
+  { maxLength: 4 }
+);
+
+async function createArchive(files: string[], name: string = 'chapter.cbz'): Promise<File> {
+  const zip = new JSZip();
+  for (const path of files) {
+    zip.file(path, `content of ${path}`);
+  }
+  const data = await zip.generateAsync({ type: 'uint8array' });
+  return new File([data], name);
+}
+
+describe('Property 27: Archive Import Ordering', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 27: Archive Import Ordering**
+   * **Validates: ZIP/CBZ chapter import**
+   *
+   * For any unpadded page numbers, pages SHALL be sorted numerically
+   * (page2 before page10), not lexically.
+   */
+  it('should sort pages in natural order', () => {
+    fc.assert(
+      fc.property(arbPageNumbers, arbFolder, (numbers, folder) => {
+        const prefix = folder ? `${folder}/` : '';
+        const paths = numbers.map(n => `${prefix}page${n}.png`);
+
+        const sorted = sortArchivePaths(paths);
+        const expected = [...numbers].sort((a, b) => a - b).map(n => `${prefix}page${n}.png`);
+
+        expect(sorted).toEqual(expected);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 27: Archive Import Ordering**
+   * **Validates: ZIP/CBZ chapter import**
+   *
+   * Pages SHALL be grouped by chapter folder, with nested folders flattened
+   * into one chapter each and root pages named after the archive.
+   */
+  it('should group pages by chapter folder', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(fc.integer({ min: 1, max: 30 }), { minLength: 1, maxLength: 6 }),
+        arbPageNumbers,
+        (chapters, pages) => {
+          const paths = chapters.flatMap(c => pages.map(p => `Chapter ${c}/${p}.jpg`));
+          const sorted = sortArchivePaths([...paths].reverse());
+          const chapterOrder = sorted.map(path => getChapterName('book.zip', path));
+
+          const expectedChapters = [...chapters].sort((a, b) => a - b);
+          expect(chapterOrder).toEqual(
+            expectedChapters.flatMap(c => pages.map(() => `Chapter ${c}`))
+          );
+        }
+      ),
+      { numRuns: 100 }
+    );
+
+    expect(getChapterName('Series - Chapter 5.cbz', 'page1.png')).toBe('Series - Chapter 5');
+    expect(getChapterName('book.zip', 'Vol 1/Chapter 2/page1.png')).toBe('Vol 1 / Chapter 2');
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 27: Archive Import Ordering**
+   * **Validates: ZIP/CBZ chapter import**
+   *
+   * Unpacking SHALL return every image in reading order and report every
+   * non-image entry, ignoring folders and OS metadata.
+   */
+  it('should unpack images and report skipped entries', async () => {
+    await fc.assert(
+      fc.asyncProperty(arbPageNumbers, arbFolder, arbExtraFiles, async (numbers, folder, extras) => {
+        const prefix = folder ? `${folder}/` : '';
+        const images = numbers.map(n => `${prefix}${n}.jpg`);
+        const archive = await createArchive([
+          ...[...images].reverse(),
+          ...extras,
+          '__MACOSX/._1.jpg',
+          '.DS_Store',
+        ]);
+
+        const { entries, skipped } = await extractArchiveImages(archive);
+
+        expect(entries.map(e => e.file.name)).toEqual(
+          [...numbers].sort((a, b) => a - b).map(n => `${n}.jpg`)
+        );
+        expect(entries.every(e => e.file.type === 'image/jpeg')).toBe(true);
+        expect(new Set(entries.map(e => e.chapter))).toEqual(
+          new Set([folder ? folder.split('/').join(' / ') : 'chapter'])
+        );
+        expect([...skipped].sort()).toEqual([...extras].sort());
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 27: Archive Import Ordering**
+   * **Validates: ZIP/CBZ chapter import**
+   *
+   * A file that is not a valid archive SHALL raise ArchiveImportError.
+   */
+  it('should reject corrupt archives', async () => {
+    const error = await extractArchiveImages(new File(['not a zip'], 'broken.cbz'))
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ArchiveImportError);
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 27: Archive Import Ordering**
+   * **Validates: ZIP/CBZ chapter import**
+   *
+   * Loading SHALL report non-image entries as skipped, apart from archives
+   * that fail to load.
+   */
+  it('should report skipped entries apart from load failures', async () => {
+    await fc.assert(
+      fc.asyncProperty(arbExtraFiles, async (extras) => {
+        const archive = await createArchive(extras);
+        const broken = new File(['not a zip'], 'broken.zip');
+
+        const results = await loadImages([archive, broken]);
+        const skipped = results.filter(({ result }) => result instanceof SkippedEntryError);
+        const failed = results.filter(({ result }) => result instanceof Error && !(result instanceof SkippedEntryError));
+
+        expect(skipped).toHaveLength(extras.length);
+        skipped.forEach(({ file }) => expect(file).toBe(archive));
+        expect(failed.map(({ file }) => file)).toEqual([broken]);
+      }),
+      { numRuns: 20 }
+    );
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * ArchiveImporter Service
+ * Unpacks chapters delivered as ZIP/CBZ archives into image files,
+ * in natural page order
+ */
+
+import { getFileExtension, isValidImageFormat } from '@/utils/validation';
+
+/**
+ * An image unpacked from an archive
+ */
+export interface ArchiveImageEntry {
+  file: File;
+  /** Folder the image came from; the archive name for root-level images */
+  chapter: string;
+}
+
+/**
+ * Result of unpacking an archive
+ */
+export interface ArchiveImportResult {
+  /** Images in chapter, then natural page order */
+  entries: ArchiveImageEntry[];
+  /** Paths of entries that were not images */
+  skipped: string[];
+}
+
+/**
+ * Error thrown when an archive cannot be read
+ */
+export class ArchiveImportError extends Error {
+  constructor(message: string, public readonly cause?: Error) {
+    super(message);
+    this.name = 'ArchiveImportError';
+  }
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+/**
+ * Natural filename comparison ("page2" before "page10")
+ * @param a - First name
+ * @param b - Second name
+ * @returns Negative, zero or positive like Array.prototype.sort expects
+ */
+export function compareNatural(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * Split an archive path into its folder and filename
+ * @param path - Path inside the archive
+ * @returns Folder (empty for root) and filename
+ */
+export function splitArchivePath(path: string): { folder: string; name: string } {
+  const normalized = path.replace(/\\/g, '/').replace(/^\/+/, '');
+  const index = normalized.lastIndexOf('/');
+  return index === -1
+    ? { folder: '', name: normalized }
+    : { folder: normalized.substring(0, index), name: normalized.substring(index + 1) };
+}
+
+/**
+ * Get the chapter an archive entry belongs to
+ * Nested folders are flattened into one chapter per folder path.
+ *
+ * @param archiveName - Filename of the archive
+ * @param path - Path of the entry inside the archive
+ * @returns Chapter name
+ */
+export function getChapterName(archiveName: string, path: string): string {
+  const { folder } = splitArchivePath(path);
+  if (folder) {
+    return folder.split('/').join(' / ');
+  }
+  const dotIndex = archiveName.lastIndexOf('.');
+  return dotIndex > 0 ? archiveName.substring(0, dotIndex) : archiveName;
+}
+
+/**
+ * Sort archive paths by folder, then filename, both in natural order
+ * @param paths - Paths inside the archive
+ * @returns New sorted array
+ */
+export function sortArchivePaths(paths: string[]): string[] {
+  return [...paths].sort((a, b) => {
+    const left = splitArchivePath(a);
+    const right = splitArchivePath(b);
+    return compareNatural(left.folder, right.folder) || compareNatural(left.name, right.name);
+  });
+}
+
+/**
+ * Check whether an entry is operating-system metadata that should be
+ * ignored silently (macOS resource forks, hidden files, Thumbs.db)
+ */
+function isSystemEntry(path: string): boolean {
+  const { folder, name } = splitArchivePath(path);
+  return (
+    folder.split('/').some(part => part === '__MACOSX' || part.startsWith('.')) ||
+    name.startsWith('.') ||
+    name.toLowerCase() === 'thumbs.db'
+  );
+}
+
+/**
+ * Unpack the images of a ZIP/CBZ archive
+ *
+ * @param archive - Archive file
+ * @returns Promise resolving to the images in reading order and the skipped entries
+ * @throws ArchiveImportError if the archive cannot be read
+ */
+export async function extractArchiveImages(archive: File): Promise<ArchiveImportResult> {
+  // Dynamically import JSZip to avoid bundling issues
+  const JSZip = (await import('jszip')).default;
+
+  let zip: InstanceType<typeof JSZip>;
+  try {
+    zip = await JSZip.loadAsync(archive);
+  } catch (error) {
+    throw new ArchiveImportError(
+      `Failed to open archive: ${archive.name}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  const imagePaths: string[] = [];
+  const skipped: string[] = [];
+
+  zip.forEach((path, entry) => {
+    if (entry.dir || isSystemEntry(path)) return;
+    if (isValidImageFormat(path)) {
+      imagePaths.push(path);
+    } else {
+      skipped.push(path);
+    }
+  });
+
+  const entries: ArchiveImageEntry[] = [];
+  for (const path of sortArchivePaths(imagePaths)) {
+    const entry = zip.file(path);
+    if (!entry) continue;
+
+    const { name } = splitArchivePath(path);
+    const data = await entry.async('blob');
+    entries.push({
+      file: new File([data], name, {
+        type: IMAGE_MIME_TYPES[getFileExtension(name)] ?? '',
+        lastModified: entry.date.getTime(),
+      }),
+      chapter: getChapterName(archive.name, path),
+    });
+  }
+
+  return { entries, skipped };
+}
@@ -0,0 +1,220 @@
+/**
+ * Property-Based Tests for Distribution Service
+ *
+ * **Feature: manga-watermark-tool, Property 40: Recipient Distribution**
+ * **Validates: Per-recipient traceable watermarks for leak tracking**
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  parseRecipients,
+  createRecipientSettings,
+  getRecipientArchiveName,
+  getRecipientArchiveNames,
+  hashSettings,
+} from './Distribution';
+import { calculateWatermarkBounds } from './WatermarkRenderer';
+import {
+  RECIPIENT_TOKEN,
+  createDefaultDistributionSettings,
+  createDefaultWatermarkSettings,
+  type DistributionSettings,
+} from '@/types';
+import { arbWatermarkSettings, arbTextWatermarkConfig } from '@/test/helpers';
+
+const arbRecipient = fc.stringMatching(/^[A-Za-z0-9 _.-]{1,20}$/).filter(s => s.trim().length > 0);
+
+const arbDistribution: fc.Arbitrary<DistributionSettings> = fc.record({
+  recipients: fc.constant([]),
+  jitterEnabled: fc.boolean(),
+  maxShift: fc.integer({ min: 1, max: 50 }),
+});
+
+describe('Property 40: Recipient Distribution', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 40: Recipient Distribution**
+   * **Validates: Per-recipient traceable watermarks for leak tracking**
+   *
+   * Parsed recipients SHALL be trimmed and non-empty, without duplicates,
+   * in the order they were typed.
+   */
+  it('should parse a recipient list into unique trimmed names', () => {
+    fc.assert(
+      fc.property(fc.array(arbRecipient, { maxLength: 10 }), fc.boolean(), (names, useCommas) => {
+        const text = names.map(name => `  ${name} `).join(useCommas ? ',' : '\n\n');
+        const parsed = parseRecipients(text);
+
+        const expected = [...new Set(names.map(name => name.trim()))];
+        expect(parsed).toEqual(expected);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 40: Recipient Distribution**
+   * **Validates: Per-recipient traceable watermarks for leak tracking**
+   *
+   * A recipient's settings SHALL carry the recipient in place of the token,
+   * be the same on every export, and shift offsets by at most maxShift.
+   */
+  it('should fill the recipient and shift layers deterministically within bounds', () => {
+    fc.assert(
+      fc.property(arbWatermarkSettings, arbRecipient, arbDistribution, (base, recipient, distribution) => {
+        const settings = {
+          ...base,
+          layers: base.layers.map(layer =>
+            layer.config.type === 'text'
+              ? { ...layer, config: { ...layer.config, text: `${RECIPIENT_TOKEN} ${layer.config.text}` } }
+              : layer
+          ),
+        };
+
+        const first = createRecipientSettings(settings, recipient, distribution);
+        const second = createRecipientSettings(settings, recipient, distribution);
+        expect(second).toEqual(first);
+
+        first.layers.forEach((layer, index) => {
+          const original = settings.layers[index]!;
+          if (layer.config.type === 'text' && original.config.type === 'text') {
+            expect(layer.config.text).not.toContain(RECIPIENT_TOKEN);
+            expect(layer.config.text.startsWith(`${recipient} `)).toBe(true);
+          }
+
+          if (!distribution.jitterEnabled) {
+            expect(layer.position).toEqual(original.position);
+            expect(layer.config.tileSpacingX).toBe(original.config.tileSpacingX);
+            return;
+          }
+
+          const amount = original.position.unit === 'percent' ? distribution.maxShift / 10 : distribution.maxShift;
+          expect(Math.abs(layer.position.offsetX - original.position.offsetX)).toBeLessThanOrEqual(amount + 0.05);
+          expect(Math.abs(layer.position.offsetY - original.position.offsetY)).toBeLessThanOrEqual(amount + 0.05);
+          expect(layer.position.marginLeft - original.position.marginLeft)
+            .toBeCloseTo(Math.abs(layer.position.offsetX - original.position.offsetX));
+          expect(layer.position.marginTop - original.position.marginTop)
+            .toBeCloseTo(Math.abs(layer.position.offsetY - original.position.offsetY));
+          const spacing = layer.config.tileSpacingX - original.config.tileSpacingX;
+          expect(spacing).toBeGreaterThanOrEqual(0);
+          expect(spacing).toBeLessThanOrEqual(distribution.maxShift);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 40: Recipient Distribution**
+   * **Validates: Per-recipient traceable watermarks for leak tracking**
+   *
+   * A corner preset SHALL move inward by the recipient's shift instead of
+   * being clamped back by its margins, so two recipients' copies of the
+   * default bottom-right layer land at different positions.
+   */
+  it('should move corner presets past their margins', () => {
+    const page = { width: 1000, height: 1500 };
+    const size = { width: 200, height: 50 };
+    const settings = createDefaultWatermarkSettings();
+    const distribution = createDefaultDistributionSettings();
+    const base = calculateWatermarkBounds(settings.layers[0]!, page, size);
+
+    fc.assert(
+      fc.property(arbRecipient, (recipient) => {
+        const layer = createRecipientSettings(settings, recipient, distribution).layers[0]!;
+        const bounds = calculateWatermarkBounds(layer, page, size);
+
+        expect(base.x - bounds.x).toBeCloseTo(Math.abs(layer.position.offsetX));
+        expect(base.y - bounds.y).toBeCloseTo(Math.abs(layer.position.offsetY));
+      }),
+      { numRuns: 100 }
+    );
+
+    const [alice, bob] = ['alice', 'bob'].map(recipient =>
+      calculateWatermarkBounds(createRecipientSettings(settings, recipient, distribution).layers[0]!, page, size)
+    );
+    expect(alice).not.toEqual(bob);
+    expect(alice).not.toEqual(base);
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 40: Recipient Distribution**
+   * **Validates: Per-recipient traceable watermarks for leak tracking**
+   *
+   * The manifest hash SHALL be stable for a recipient and tell apart two
+   * recipients whose name is printed in the watermark.
+   */
+  it('should hash recipient settings stably and distinctly', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        arbWatermarkSettings,
+        arbTextWatermarkConfig,
+        arbRecipient,
+        arbRecipient,
+        arbDistribution,
+        async (base, config, a, b, distribution) => {
+          fc.pre(a !== b);
+          const [first, ...rest] = base.layers;
+          const settings = {
+            ...base,
+            layers: [{ ...first!, config: { ...config, text: RECIPIENT_TOKEN } }, ...rest],
+          };
+
+          const hashA = await hashSettings(createRecipientSettings(settings, a, distribution));
+          const hashB = await hashSettings(createRecipientSettings(settings, b, distribution));
+          const again = await hashSettings(createRecipientSettings(settings, a, distribution));
+
+          expect(hashA).toMatch(/^[0-9a-f]{64}$/);
+          expect(again).toBe(hashA);
+          expect(hashB).not.toBe(hashA);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 40: Recipient Distribution**
+   * **Validates: Per-recipient traceable watermarks for leak tracking**
+   *
+   * Archive names SHALL be safe as filenames and keep the chapter name.
+   */
+  it('should build filename-safe archive names', () => {
+    fc.assert(
+      fc.property(fc.string({ minLength: 1, maxLength: 30 }), (recipient) => {
+        const name = getRecipientArchiveName('chapter_01', recipient);
+        expect(name.startsWith('chapter_01_')).toBe(true);
+        expect(name).not.toMatch(/[<>:"/\\|?*\s]/);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 40: Recipient Distribution**
+   * **Validates: Per-recipient traceable watermarks for leak tracking**
+   *
+   * Recipients whose names sanitize to the same archive name SHALL still get
+   * distinct archives, with the first keeping the plain name.
+   */
+  it('should give colliding recipients distinct archive names', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(fc.stringMatching(/^[a-zA-Z _/:]{1,6}$/), { minLength: 1, maxLength: 12 }),
+        (recipients) => {
+          const names = getRecipientArchiveNames('chapter_01', recipients);
+
+          expect(names).toHaveLength(recipients.length);
+          expect(new Set(names.map(name => name.toLowerCase())).size).toBe(names.length);
+          expect(names[0]).toBe(getRecipientArchiveName('chapter_01', recipients[0]!));
+          names.forEach((name, index) => {
+            expect(name.startsWith(getRecipientArchiveName('chapter_01', recipients[index]!))).toBe(true);
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+
+    expect(getRecipientArchiveNames('ch', ['a b', 'a_b', 'a/b', 'A B'])).toEqual(['ch_a_b', 'ch_a_b_2', 'ch_a_b_3', 'ch_A_B_4']);
+  });
+});
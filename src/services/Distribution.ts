@@ -0,0 +1,211 @@
+/**
+ * Distribution Service
+ * Builds a traceable copy of the watermark for each recipient of a
+ * pre-release: the {recipient} token is filled in, and layers can be shifted
+ * by a seed derived from the recipient, so two copies never match pixel for
+ * pixel even when the text is removed.
+ */
+
+import type {
+  WatermarkSettings,
+  WatermarkLayer,
+  UploadedImage,
+  DistributionSettings,
+  DistributionManifest,
+  DistributionManifestEntry,
+} from '@/types';
+import { RECIPIENT_TOKEN } from '@/types';
+import { serializeWatermarkSettings } from '@/utils/serialization';
+import { hashString, createSeededRandom } from '@/utils/random';
+
+/**
+ * Split a list of recipients typed one per line or separated by commas
+ * @param text - Recipient list
+ * @returns Trimmed, non-empty recipients without duplicates, in order
+ */
+export function parseRecipients(text: string): string[] {
+  const recipients = text
+    .split(/[\n,]/)
+    .map(recipient => recipient.trim())
+    .filter(recipient => recipient.length > 0);
+  return [...new Set(recipients)];
+}
+
+/**
+ * Get the seed of a recipient's shifts
+ */
+export function getRecipientSeed(recipient: string): number {
+  return hashString(recipient);
+}
+
+/**
+ * Replace every {recipient} token in a text
+ */
+export function fillRecipient(text: string, recipient: string): string {
+  return text.split(RECIPIENT_TOKEN).join(recipient);
+}
+
+/**
+ * Shift a layer's position and tile phase
+ * Offsets move by up to maxShift (a tenth of it for percent layers, about
+ * the same on a 1000 px page), and the margins on both sides grow by the
+ * same amount: a corner preset is clamped by its margins, so without them
+ * every recipient's copy would snap back to the same pixel. Tiles change
+ * spacing and row stagger, which moves every tile but the first.
+ * Auto-placed layers keep the spot chosen for each page.
+ *
+ * @param layer - Layer to shift
+ * @param random - Recipient's random sequence
+ * @param maxShift - Largest shift in px
+ * @returns The shifted layer
+ */
+function shiftLayer(layer: WatermarkLayer, random: () => number, maxShift: number): WatermarkLayer {
+  const { position, config } = layer;
+  const amount = position.unit === 'percent' ? maxShift / 10 : maxShift;
+  const offset = () => Math.round((random() * 2 - 1) * amount * 10) / 10;
+  const spacing = () => Math.round(random() * maxShift);
+  const offsetX = offset();
+  const offsetY = offset();
+
+  const shifted: WatermarkLayer = {
+    ...layer,
+    position: {
+      ...position,
+      offsetX: position.offsetX + offsetX,
+      offsetY: position.offsetY + offsetY,
+      marginLeft: position.marginLeft + Math.abs(offsetX),
+      marginRight: position.marginRight + Math.abs(offsetX),
+      marginTop: position.marginTop + Math.abs(offsetY),
+      marginBottom: position.marginBottom + Math.abs(offsetY),
+    },
+  };
+
+  if (config.tileEnabled) {
+    shifted.config = {
+      ...config,
+      tileSpacingX: config.tileSpacingX + spacing(),
+      tileSpacingY: config.tileSpacingY + spacing(),
+    };
+    if (shifted.config.type === 'text') {
+      const stagger = shifted.config.tileStagger + (random() * 2 - 1) * maxShift;
+      shifted.config.tileStagger = Math.round(Math.max(0, Math.min(100, stagger)));
+    }
+  }
+
+  return shifted;
+}
+
+/**
+ * Build a recipient's watermark settings
+ * @param settings - Watermark settings of the chapter
+ * @param recipient - Recipient name or ID
+ * @param distribution - Distribution options
+ * @returns Settings with the recipient filled in and, if enabled, shifted
+ */
+export function createRecipientSettings(
+  settings: WatermarkSettings,
+  recipient: string,
+  distribution: DistributionSettings
+): WatermarkSettings {
+  const random = createSeededRandom(getRecipientSeed(recipient));
+
+  return {
+    ...settings,
+    layers: settings.layers.map(layer => {
+      const filled: WatermarkLayer = layer.config.type === 'text'
+        ? { ...layer, config: { ...layer.config, text: fillRecipient(layer.config.text, recipient) } }
+        : layer;
+      return distribution.jitterEnabled ? shiftLayer(filled, random, distribution.maxShift) : filled;
+    }),
+  };
+}
+
+/**
+ * Fill the recipient into text overrides of individual pages
+ * @param images - Pages to export
+ * @param recipient - Recipient name or ID
+ * @returns Pages whose overrides carry the recipient; other pages are unchanged
+ */
+export function createRecipientImages(images: UploadedImage[], recipient: string): UploadedImage[] {
+  return images.map(image => {
+    const override = image.watermarkOverride;
+    if (!override) return image;
+
+    const layers = Object.fromEntries(
+      Object.entries(override.layers).map(([layerId, layerOverride]) => {
+        const config = layerOverride.config;
+        return [
+          layerId,
+          config && 'text' in config && typeof config.text === 'string'
+            ? { ...layerOverride, config: { ...config, text: fillRecipient(config.text, recipient) } }
+            : layerOverride,
+        ];
+      })
+    );
+    return { ...image, watermarkOverride: { ...override, layers } };
+  });
+}
+
+/**
+ * Hash watermark settings, to record exactly what a recipient received
+ * @param settings - Watermark settings
+ * @returns Hex SHA-256 of the serialized settings
+ */
+export async function hashSettings(settings: WatermarkSettings): Promise<string> {
+  const bytes = new TextEncoder().encode(serializeWatermarkSettings(settings));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Get the archive name of a recipient's copy
+ * @param baseName - Archive name of the chapter (without extension)
+ * @param recipient - Recipient name or ID
+ * @returns Filename-safe archive name (without extension)
+ */
+export function getRecipientArchiveName(baseName: string, recipient: string): string {
+  return `${baseName}_${recipient}`.replace(/[<>:"/\\|?*\s]+/g, '_');
+}
+
+/**
+ * Get the archive names of every recipient's copy
+ * Recipients that map to the same name (such as "a b", "a_b" and "a/b"), or
+ * to names that differ only in case, get a numeric suffix in list order.
+ *
+ * @param baseName - Archive name of the chapter (without extension)
+ * @param recipients - Recipient names or IDs
+ * @returns Unique filename-safe archive names (without extension), in order
+ */
+export function getRecipientArchiveNames(baseName: string, recipients: string[]): string[] {
+  const used = new Set<string>();
+
+  return recipients.map(recipient => {
+    const name = getRecipientArchiveName(baseName, recipient);
+    let unique = name;
+    for (let suffix = 2; used.has(unique.toLowerCase()); suffix++) {
+      unique = `${name}_${suffix}`;
+    }
+    used.add(unique.toLowerCase());
+    return unique;
+  });
+}
+
+/**
+ * Build the manifest of a distribution export
+ * It lists every recipient, so it stays with the distributor and is never
+ * put in a recipient's archive.
+ *
+ * @param entries - One entry per exported copy
+ * @param pageCount - Pages in each copy
+ * @returns The manifest
+ */
+export function createDistributionManifest(
+  entries: DistributionManifestEntry[],
+  pageCount: number
+): DistributionManifest {
+  return {
+    createdAt: new Date().toISOString(),
+    pageCount,
+    entries,
+  };
+}
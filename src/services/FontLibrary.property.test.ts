@@ -0,0 +1,219 @@
+/**
+ * Property-Based Tests for FontLibrary Service
+ *
+ * **Feature: manga-watermark-tool, Property 29: Custom Font References**
+ * **Validates: Custom font upload and font library**
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  FontLibrary,
+  FontLibraryError,
+  getFontFormat,
+  getFontName,
+  getUsedFonts,
+  waitForFonts,
+} from './FontLibrary';
+import { getFontString, resolveFontFamily } from './WatermarkRenderer';
+import {
+  serializeWatermarkSettings,
+  deserializeWatermarkSettings,
+} from '@/utils/serialization';
+import {
+  arbWatermarkSettings,
+  arbTextWatermarkConfig,
+  arbCustomFontId,
+} from '@/test/helpers';
+import {
+  ErrorCodes,
+  MAX_FONT_FILE_SIZE,
+  SUPPORTED_FONT_FORMATS,
+  getFontFaceFamily,
+  type CustomFont,
+  type WatermarkSettings,
+} from '@/types';
+
+// Arbitrary generator for font file base names
+const arbFontBaseName = fc.stringMatching(/^[A-Za-z][A-Za-z0-9]{0,10}([-_][A-Za-z0-9]{1,8}){0,2}$/);
+
+// Arbitrary generator for settings whose text layers may use custom fonts
+const arbSettingsWithFonts: fc.Arbitrary<WatermarkSettings> = fc
+  .tuple(arbWatermarkSettings, fc.array(arbCustomFontId, { minLength: 4, maxLength: 4 }))
+  .map(([settings, fontIds]) => ({
+    ...settings,
+    layers: settings.layers.map((layer, i) =>
+      layer.config.type === 'text'
+        ? { ...layer, config: { ...layer.config, fontId: fontIds[i] ?? null } }
+        : layer
+    ),
+  }));
+
+function createFont(id: string): CustomFont {
+  return {
+    id,
+    name: id,
+    fileName: `${id}.ttf`,
+    format: 'ttf',
+    data: new ArrayBuffer(8),
+    createdAt: 0,
+  };
+}
+
+describe('Property 29: Custom Font References', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 29: Custom Font References**
+   * **Validates: Custom font upload and font library**
+   *
+   * Font files SHALL be accepted by extension (TTF, OTF, WOFF2, any case)
+   * and named after the file without its extension.
+   */
+  it('should detect supported font formats', () => {
+    fc.assert(
+      fc.property(
+        arbFontBaseName,
+        fc.constantFrom(...SUPPORTED_FONT_FORMATS),
+        fc.boolean(),
+        (baseName, format, upperCase) => {
+          const extension = upperCase ? format.toUpperCase() : format;
+          const fileName = `${baseName}.${extension}`;
+
+          expect(getFontFormat(fileName)).toBe(format);
+          expect(getFontName(fileName)).toBe(baseName.replace(/[-_]+/g, ' '));
+        }
+      ),
+      { numRuns: 100 }
+    );
+
+    for (const fileName of ['font.woff', 'font.eot', 'image.png', 'ttf']) {
+      expect(getFontFormat(fileName)).toBeNull();
+    }
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 29: Custom Font References**
+   * **Validates: Custom font upload and font library**
+   *
+   * A custom font SHALL be drawn under its ID-based family, with the
+   * configured font family as fallback.
+   */
+  it('should resolve custom font families by ID', () => {
+    fc.assert(
+      fc.property(arbTextWatermarkConfig, arbCustomFontId, (config, fontId) => {
+        const family = resolveFontFamily({ ...config, fontId });
+
+        if (fontId) {
+          expect(family).toBe(`"${getFontFaceFamily(fontId)}", ${config.fontFamily}`);
+        } else {
+          expect(family).toBe(config.fontFamily);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 29: Custom Font References**
+   * **Validates: Custom font upload and font library**
+   *
+   * Font references SHALL survive serialization, so presets point at the
+   * same library font after a round-trip.
+   */
+  it('should keep font IDs through serialization', () => {
+    fc.assert(
+      fc.property(arbSettingsWithFonts, (settings) => {
+        const restored = deserializeWatermarkSettings(serializeWatermarkSettings(settings));
+
+        restored.layers.forEach((layer, i) => {
+          const original = settings.layers[i]?.config;
+          if (layer.config.type === 'text' && original?.type === 'text') {
+            expect(layer.config.fontId).toBe(original.fontId);
+          }
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 29: Custom Font References**
+   * **Validates: Custom font upload and font library**
+   *
+   * Render workers SHALL receive exactly the library fonts used by
+   * enabled text layers.
+   */
+  it('should collect the fonts used by enabled text layers', () => {
+    fc.assert(
+      fc.property(arbSettingsWithFonts, (settings) => {
+        const referenced = settings.layers.flatMap(layer =>
+          layer.config.type === 'text' && layer.config.fontId ? [layer.config.fontId] : []
+        );
+        const library = [...referenced, 'font_unused'].map(createFont);
+
+        const used = getUsedFonts(settings, library).map(font => font.id);
+
+        const expected = new Set(settings.layers.flatMap(layer =>
+          layer.enabled && layer.config.type === 'text' && layer.config.fontId
+            ? [layer.config.fontId]
+            : []
+        ));
+        expect(new Set(used)).toEqual(expected);
+        expect(used).toHaveLength(expected.size);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 29: Custom Font References**
+   * **Validates: Custom font upload and font library**
+   *
+   * Export SHALL wait for the font of every enabled text layer and for
+   * the font set to be ready.
+   */
+  it('should wait for the fonts of every enabled text layer', async () => {
+    await fc.assert(
+      fc.asyncProperty(arbSettingsWithFonts, async (settings) => {
+        let ready = false;
+        const fontSet = {
+          load: vi.fn(async (_font: string, _text?: string): Promise<FontFace[]> => []),
+          get ready() {
+            ready = true;
+            return Promise.resolve(fontSet);
+          },
+        };
+
+        await waitForFonts(settings, fontSet as unknown as FontFaceSet);
+
+        const expected = settings.layers.flatMap(layer =>
+          layer.enabled && layer.config.type === 'text'
+            ? [getFontString(layer.config)]
+            : []
+        );
+        expect(fontSet.load.mock.calls.map(call => call[0])).toEqual(expected);
+        expect(ready).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 29: Custom Font References**
+   * **Validates: Custom font upload and font library**
+   *
+   * Unsupported or oversized files SHALL be rejected with FontLibraryError.
+   */
+  it('should reject unsupported and oversized font files', async () => {
+    const library = new FontLibrary(null, null);
+
+    const unsupported = await library.add(new File(['x'], 'font.woff')).catch((e: unknown) => e);
+    expect(unsupported).toBeInstanceOf(FontLibraryError);
+    expect((unsupported as FontLibraryError).code).toBe(ErrorCodes.INVALID_FILE_FORMAT);
+
+    const large = new File(['x'], 'font.ttf');
+    Object.defineProperty(large, 'size', { value: MAX_FONT_FILE_SIZE + 1 });
+    const tooLarge = await library.add(large).catch((e: unknown) => e);
+    expect(tooLarge).toBeInstanceOf(FontLibraryError);
+    expect((tooLarge as FontLibraryError).code).toBe(ErrorCodes.FILE_TOO_LARGE);
+  });
+});
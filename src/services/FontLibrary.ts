@@ -0,0 +1,298 @@
+/**
+ * FontLibrary Service
+ * Stores uploaded fonts in IndexedDB and registers them with the FontFace
+ * API, so text watermarks can use fonts that are not installed
+ */
+
+import {
+  SUPPORTED_FONT_FORMATS,
+  MAX_FONT_FILE_SIZE,
+  ErrorCodes,
+  getFontFaceFamily,
+  type CustomFont,
+  type ErrorCode,
+  type FontFormat,
+  type FontSource,
+  type WatermarkSettings,
+} from '@/types';
+import { getFontString } from './WatermarkRenderer';
+
+const DB_NAME = 'manga_watermark_fonts';
+const DB_VERSION = 1;
+const STORE_NAME = 'fonts';
+
+/**
+ * Error thrown when a font cannot be added to the library
+ */
+export class FontLibraryError extends Error {
+  constructor(message: string, public readonly code: ErrorCode) {
+    super(message);
+    this.name = 'FontLibraryError';
+  }
+}
+
+/**
+ * Generate unique ID for fonts
+ */
+function generateFontId(): string {
+  return `font_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Get the font format of a file from its extension
+ * @param fileName - Font file name
+ * @returns Font format, or null if the format is not supported
+ */
+export function getFontFormat(fileName: string): FontFormat | null {
+  const dot = fileName.lastIndexOf('.');
+  const extension = dot > 0 ? fileName.slice(dot + 1).toLowerCase() : '';
+  return (SUPPORTED_FONT_FORMATS as readonly string[]).includes(extension)
+    ? extension as FontFormat
+    : null;
+}
+
+/**
+ * Derive a display name from a font file name
+ * @param fileName - Font file name, e.g. "Brand_Sans-Bold.woff2"
+ * @returns Display name, e.g. "Brand Sans Bold"
+ */
+export function getFontName(fileName: string): string {
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  return baseName.replace(/[-_]+/g, ' ').trim() || fileName;
+}
+
+/**
+ * Get the custom fonts referenced by enabled text layers
+ * @param settings - Watermark settings
+ * @param fonts - Fonts in the library
+ * @returns Font data for the referenced fonts that exist in the library
+ */
+export function getUsedFonts(settings: WatermarkSettings, fonts: CustomFont[]): FontSource[] {
+  const ids = new Set<string>();
+  for (const layer of settings.layers) {
+    if (layer.enabled && layer.config.type === 'text' && layer.config.fontId) {
+      ids.add(layer.config.fontId);
+    }
+  }
+  return fonts
+    .filter(font => ids.has(font.id))
+    .map(({ id, data }) => ({ id, data }));
+}
+
+/**
+ * IDs of the fonts already added to each font set
+ */
+const registeredFonts = new WeakMap<FontFaceSet, Set<string>>();
+
+/**
+ * Load fonts with the FontFace API and add them to a font set
+ * Fonts already added to the set are skipped.
+ *
+ * @param fonts - Fonts to register
+ * @param fontSet - document.fonts, or self.fonts in a worker
+ * @throws Error if a font file cannot be parsed
+ */
+export async function registerFonts(fonts: FontSource[], fontSet: FontFaceSet): Promise<void> {
+  let registered = registeredFonts.get(fontSet);
+  if (!registered) {
+    registered = new Set();
+    registeredFonts.set(fontSet, registered);
+  }
+
+  for (const font of fonts) {
+    if (registered.has(font.id)) continue;
+
+    const face = new FontFace(getFontFaceFamily(font.id), font.data);
+    await face.load();
+    fontSet.add(face);
+    registered.add(font.id);
+  }
+}
+
+/**
+ * Wait until every font used by the text layers is loaded, so the first
+ * rendered page never falls back to another font
+ *
+ * @param settings - Watermark settings to render
+ * @param fontSet - Font set to wait on (document.fonts by default)
+ */
+export async function waitForFonts(
+  settings: WatermarkSettings,
+  fontSet: FontFaceSet | null = typeof document !== 'undefined' && document.fonts ? document.fonts : null
+): Promise<void> {
+  if (!fontSet) return;
+
+  const loads: Promise<FontFace[]>[] = [];
+  for (const layer of settings.layers) {
+    if (layer.enabled && layer.config.type === 'text') {
+      loads.push(fontSet.load(getFontString(layer.config), layer.config.text));
+    }
+  }
+  await Promise.all(loads);
+  await fontSet.ready;
+}
+
+/**
+ * Read a file into an ArrayBuffer
+ * @param file - File to read
+ * @returns Promise resolving to the file contents
+ */
+function readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (reader.result instanceof ArrayBuffer) {
+        resolve(reader.result);
+      } else {
+        reject(new FontLibraryError('Failed to read font file', ErrorCodes.INVALID_FILE_FORMAT));
+      }
+    };
+    reader.onerror = () => {
+      reject(new FontLibraryError('Failed to read font file', ErrorCodes.INVALID_FILE_FORMAT));
+    };
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * FontLibrary class for managing uploaded fonts
+ * Without IndexedDB, fonts still work for the current session.
+ */
+export class FontLibrary {
+  private factory: IDBFactory | null;
+  private fontSet: FontFaceSet | null;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    factory: IDBFactory | null = typeof indexedDB !== 'undefined' ? indexedDB : null,
+    fontSet: FontFaceSet | null = typeof document !== 'undefined' && document.fonts ? document.fonts : null
+  ) {
+    this.factory = factory;
+    this.fontSet = fontSet;
+  }
+
+  /**
+   * Open the font database, creating the store on first use
+   */
+  private open(): Promise<IDBDatabase> | null {
+    if (!this.factory) return null;
+
+    if (!this.db) {
+      const request = this.factory.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      this.db = requestToPromise(request);
+    }
+    return this.db;
+  }
+
+  /**
+   * Run a request against the font store
+   */
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T | null> {
+    const db = await this.open();
+    if (!db) return null;
+
+    const store = db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    return requestToPromise(run(store));
+  }
+
+  /**
+   * Load all stored fonts and register them for rendering
+   * Fonts that fail to load are skipped.
+   * @returns Stored fonts, oldest first
+   */
+  async loadAll(): Promise<CustomFont[]> {
+    const stored = await this.withStore('readonly', store => store.getAll() as IDBRequest<CustomFont[]>);
+    const fonts = (stored ?? []).sort((a, b) => a.createdAt - b.createdAt);
+
+    const loaded: CustomFont[] = [];
+    for (const font of fonts) {
+      try {
+        await this.register(font);
+        loaded.push(font);
+      } catch {
+        console.warn(`Failed to load font: ${font.name}`);
+      }
+    }
+    return loaded;
+  }
+
+  /**
+   * Add a font file to the library
+   * @param file - TTF, OTF or WOFF2 file
+   * @returns The stored font
+   * @throws FontLibraryError if the file is not a supported, valid font
+   */
+  async add(file: File): Promise<CustomFont> {
+    const format = getFontFormat(file.name);
+    if (!format) {
+      throw new FontLibraryError(
+        `Unsupported font format: ${file.name}. Use ${SUPPORTED_FONT_FORMATS.join(', ').toUpperCase()}.`,
+        ErrorCodes.INVALID_FILE_FORMAT
+      );
+    }
+    if (file.size > MAX_FONT_FILE_SIZE) {
+      throw new FontLibraryError(
+        `Font file too large: ${file.name}`,
+        ErrorCodes.FILE_TOO_LARGE
+      );
+    }
+
+    const font: CustomFont = {
+      id: generateFontId(),
+      name: getFontName(file.name),
+      fileName: file.name,
+      format,
+      data: await readFileAsArrayBuffer(file),
+      createdAt: Date.now(),
+    };
+
+    try {
+      await this.register(font);
+    } catch {
+      throw new FontLibraryError(`Invalid font file: ${file.name}`, ErrorCodes.INVALID_FILE_FORMAT);
+    }
+
+    try {
+      await this.withStore('readwrite', store => store.put(font));
+    } catch {
+      throw new FontLibraryError('Failed to save font', ErrorCodes.STORAGE_FULL);
+    }
+    return font;
+  }
+
+  /**
+   * Remove a font from the library
+   * Pages already using it fall back to the layer's font family.
+   * @param fontId - ID of the font to remove
+   */
+  async remove(fontId: string): Promise<void> {
+    await this.withStore('readwrite', store => store.delete(fontId));
+  }
+
+  /**
+   * Register a font with the document's font set
+   */
+  private async register(font: CustomFont): Promise<void> {
+    if (this.fontSet) {
+      await registerFonts([font], this.fontSet);
+    }
+  }
+}
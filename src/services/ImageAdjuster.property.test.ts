@@ -0,0 +1,132 @@
+/**
+ * Property-Based Tests for ImageAdjuster Service
+ *
+ * **Feature: manga-watermark-tool, Property 38: Image Adjustments**
+ * **Validates: Grayscale, levels, gamma and curve raw cleaning before the watermark**
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  adjustPixels,
+  createToneTable,
+  findAutoLevels,
+  createHistogram,
+  isNeutralAdjustments,
+} from './ImageAdjuster';
+import { createDefaultImageAdjustments } from '@/types';
+import { arbImageAdjustments } from '@/test/helpers';
+
+// Arbitrary generator for RGBA pixels of a small page
+const arbPixels = fc
+  .integer({ min: 1, max: 64 })
+  .chain(count => fc.uint8ClampedArray({ minLength: count * 4, maxLength: count * 4 }));
+
+describe('Property 38: Image Adjustments', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 38: Image Adjustments**
+   * **Validates: Grayscale, levels, gamma and curve raw cleaning before the watermark**
+   *
+   * Default adjustments SHALL leave every pixel unchanged, and the same
+   * adjustments SHALL always give the same pixels.
+   */
+  it('should be neutral by default and deterministic', () => {
+    fc.assert(
+      fc.property(arbPixels, arbImageAdjustments, (pixels, adjustments) => {
+        const neutral = { ...createDefaultImageAdjustments(), enabled: true };
+        expect(isNeutralAdjustments(neutral)).toBe(true);
+        const unchanged = pixels.slice();
+        adjustPixels(unchanged, neutral);
+        expect(unchanged).toEqual(pixels);
+
+        const first = pixels.slice();
+        const second = pixels.slice();
+        adjustPixels(first, adjustments);
+        adjustPixels(second, adjustments);
+        expect(first).toEqual(second);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 38: Image Adjustments**
+   * **Validates: Grayscale, levels, gamma and curve raw cleaning before the watermark**
+   *
+   * Grayscale SHALL give equal color channels and leave alpha unchanged.
+   */
+  it('should convert to true grayscale', () => {
+    fc.assert(
+      fc.property(arbPixels, arbImageAdjustments, (pixels, adjustments) => {
+        const adjusted = pixels.slice();
+        adjustPixels(adjusted, { ...adjustments, grayscale: true });
+
+        for (let i = 0; i < adjusted.length; i += 4) {
+          expect(adjusted[i + 1]).toBe(adjusted[i]);
+          expect(adjusted[i + 2]).toBe(adjusted[i]);
+          expect(adjusted[i + 3]).toBe(pixels[i + 3]);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 38: Image Adjustments**
+   * **Validates: Grayscale, levels, gamma and curve raw cleaning before the watermark**
+   *
+   * Levels SHALL map the black point to black and the white point to white,
+   * keeping the order of tones for any gamma.
+   */
+  it('should stretch levels without reordering tones', () => {
+    fc.assert(
+      fc.property(arbImageAdjustments, (adjustments) => {
+        const levels = { blackPoint: adjustments.blackPoint, whitePoint: adjustments.whitePoint };
+        const table = createToneTable({ ...adjustments, curve: [] }, levels);
+
+        expect(table[levels.blackPoint]).toBe(0);
+        expect(table[levels.whitePoint]).toBe(255);
+        for (let level = 1; level < 256; level++) {
+          expect(table[level]!).toBeGreaterThanOrEqual(table[level - 1]!);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 38: Image Adjustments**
+   * **Validates: Grayscale, levels, gamma and curve raw cleaning before the watermark**
+   *
+   * Auto levels without clipping SHALL stretch a grayscale page to the full
+   * range of tones.
+   */
+  it('should stretch a page to full range with auto levels', () => {
+    fc.assert(
+      fc.property(arbPixels, (pixels) => {
+        const adjustments = {
+          ...createDefaultImageAdjustments(),
+          enabled: true,
+          grayscale: true,
+          autoLevels: true,
+          autoLevelsClip: 0,
+        };
+        const adjusted = pixels.slice();
+        const levels = adjustPixels(adjusted, adjustments);
+
+        const histogram = createHistogram(adjusted);
+        const used = [...histogram.keys()].filter(level => histogram[level]! > 0);
+
+        // A page of one tone is left as it is
+        if (used.length > 1) {
+          expect(Math.min(...used)).toBe(0);
+          expect(Math.max(...used)).toBe(255);
+          expect(findAutoLevels(histogram, 0)).toEqual({ blackPoint: 0, whitePoint: 255 });
+        } else {
+          expect(levels).toEqual({ blackPoint: 0, whitePoint: 255 });
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
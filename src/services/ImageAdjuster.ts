@@ -0,0 +1,181 @@
+/**
+ * ImageAdjuster Service
+ * Deterministic raw cleaning applied to a page before the watermark:
+ * grayscale, levels (manual or from the histogram), gamma and a tone curve.
+ * Works on any 2D context, so it runs on the main thread and in render workers.
+ */
+
+import type { CurvePoint, ImageAdjustments } from '@/types';
+import type { Dimensions } from '@/utils/position';
+import type { RenderContext } from './WatermarkRenderer';
+
+/**
+ * Black and white input levels of a page
+ */
+export interface Levels {
+  blackPoint: number;
+  whitePoint: number;
+}
+
+/**
+ * Get the luma of a pixel (Rec. 601 weights, as used for grayscale conversion)
+ */
+export function getLuma(r: number, g: number, b: number): number {
+  return Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+}
+
+/**
+ * Check if adjustments leave every pixel unchanged
+ */
+export function isNeutralAdjustments(adjustments?: ImageAdjustments | null): boolean {
+  return (
+    !adjustments?.enabled ||
+    (!adjustments.grayscale &&
+      !adjustments.autoLevels &&
+      adjustments.blackPoint === 0 &&
+      adjustments.whitePoint === 255 &&
+      adjustments.gamma === 1 &&
+      adjustments.curve.every(point => point.input === point.output))
+  );
+}
+
+/**
+ * Count the pixels of each luma level
+ * @param data - RGBA pixels
+ * @returns 256 counts, one per level
+ */
+export function createHistogram(data: Uint8ClampedArray): Uint32Array {
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[getLuma(data[i]!, data[i + 1]!, data[i + 2]!)]!++;
+  }
+  return histogram;
+}
+
+/**
+ * Find black and white points from a histogram
+ * The darkest and lightest clipPercent of pixels are clipped, so dust and
+ * stray specks don't hold the levels back.
+ *
+ * @param histogram - Pixel counts per luma level
+ * @param clipPercent - Percent of pixels clipped at each end
+ * @returns Levels, with the white point always above the black point
+ */
+export function findAutoLevels(histogram: Uint32Array, clipPercent: number): Levels {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  const clip = total * clipPercent / 100;
+
+  let blackPoint = 0;
+  for (let seen = 0; blackPoint < 255; blackPoint++) {
+    seen += histogram[blackPoint]!;
+    if (seen > clip) break;
+  }
+
+  let whitePoint = 255;
+  for (let seen = 0; whitePoint > 0; whitePoint--) {
+    seen += histogram[whitePoint]!;
+    if (seen > clip) break;
+  }
+
+  if (whitePoint <= blackPoint) {
+    return { blackPoint: 0, whitePoint: 255 };
+  }
+  return { blackPoint, whitePoint };
+}
+
+/**
+ * Evaluate the tone curve at a level
+ * Points are joined by straight lines, from (0, 0) to (255, 255).
+ */
+function evaluateCurve(curve: CurvePoint[], level: number): number {
+  const points = [{ input: 0, output: 0 }, ...curve, { input: 255, output: 255 }]
+    .sort((a, b) => a.input - b.input);
+
+  for (let i = 1; i < points.length; i++) {
+    const start = points[i - 1]!;
+    const end = points[i]!;
+    if (level <= end.input) {
+      const span = end.input - start.input;
+      return span === 0
+        ? end.output
+        : start.output + (end.output - start.output) * (level - start.input) / span;
+    }
+  }
+  return 255;
+}
+
+/**
+ * Build the lookup table applied to every channel
+ * Levels stretch [blackPoint, whitePoint] to [0, 255], then gamma and the
+ * tone curve are applied.
+ *
+ * @param adjustments - Adjustments to apply
+ * @param levels - Black and white points to use
+ * @returns Output level for each of the 256 input levels
+ */
+export function createToneTable(adjustments: ImageAdjustments, levels: Levels): Uint8ClampedArray {
+  const table = new Uint8ClampedArray(256);
+  const range = levels.whitePoint - levels.blackPoint;
+
+  for (let level = 0; level < 256; level++) {
+    const normalized = Math.min(1, Math.max(0, (level - levels.blackPoint) / range));
+    const corrected = Math.pow(normalized, 1 / adjustments.gamma) * 255;
+    table[level] = Math.round(evaluateCurve(adjustments.curve, corrected));
+  }
+
+  return table;
+}
+
+/**
+ * Adjust RGBA pixels in place
+ * Alpha is left unchanged.
+ *
+ * @param data - RGBA pixels
+ * @param adjustments - Adjustments to apply
+ * @returns Levels that were used, which auto levels read from the pixels
+ */
+export function adjustPixels(data: Uint8ClampedArray, adjustments: ImageAdjustments): Levels {
+  if (adjustments.grayscale) {
+    for (let i = 0; i < data.length; i += 4) {
+      const luma = getLuma(data[i]!, data[i + 1]!, data[i + 2]!);
+      data[i] = luma;
+      data[i + 1] = luma;
+      data[i + 2] = luma;
+    }
+  }
+
+  const levels = adjustments.autoLevels
+    ? findAutoLevels(createHistogram(data), adjustments.autoLevelsClip)
+    : { blackPoint: adjustments.blackPoint, whitePoint: adjustments.whitePoint };
+  const table = createToneTable(adjustments, levels);
+
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = table[data[i]!]!;
+    data[i + 1] = table[data[i + 1]!]!;
+    data[i + 2] = table[data[i + 2]!]!;
+  }
+
+  return levels;
+}
+
+/**
+ * Apply adjustments to the page drawn on a canvas
+ * @param ctx - Context holding the page
+ * @param adjustments - Adjustments to apply, skipped when neutral
+ * @param size - Size of the page on the canvas
+ * @returns Levels that were used, or null when nothing was changed
+ */
+export function applyAdjustments(
+  ctx: RenderContext,
+  adjustments: ImageAdjustments | null | undefined,
+  size: Dimensions
+): Levels | null {
+  if (!adjustments || isNeutralAdjustments(adjustments)) {
+    return null;
+  }
+
+  const imageData = ctx.getImageData(0, 0, size.width, size.height);
+  const levels = adjustPixels(imageData.data, adjustments);
+  ctx.putImageData(imageData, 0, 0);
+  return levels;
+}
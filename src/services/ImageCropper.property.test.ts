@@ -0,0 +1,320 @@
+/**
+ * Property-Based Tests for ImageCropper Service
+ *
+ * **Feature: manga-watermark-tool, Property 21: Non-Destructive Crop Resolution**
+ * **Validates: Crop pipeline integration**
+ *
+ * **Feature: manga-watermark-tool, Property 37: Auto Trim**
+ * **Validates: Detecting scanner borders and unifying trimmed page sizes**
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  resolveCropRegion,
+  scaleCropRegion,
+  getCroppedDimensions,
+  detectBorderRegion,
+  unifyTrimRegions,
+  validateCropRegion,
+} from './ImageCropper';
+import { createDefaultCropSettings, type CropSettings } from '@/types';
+
+// Arbitrary generator for image dimensions
+const arbDimensions = fc.record({
+  width: fc.integer({ min: 10, max: 5000 }),
+  height: fc.integer({ min: 10, max: 5000 }),
+});
+
+// Arbitrary generator for a crop region inside the given dimensions
+const arbRegionWithin = (dims: { width: number; height: number }) =>
+  fc.record({
+    x: fc.integer({ min: 0, max: dims.width - 1 }),
+    y: fc.integer({ min: 0, max: dims.height - 1 }),
+  }).chain(({ x, y }) =>
+    fc.record({
+      x: fc.constant(x),
+      y: fc.constant(y),
+      width: fc.integer({ min: 1, max: dims.width - x }),
+      height: fc.integer({ min: 1, max: dims.height - y }),
+    })
+  );
+
+describe('Property 21: Non-Destructive Crop Resolution', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 21: Non-Destructive Crop Resolution**
+   *
+   * Without a per-image crop or an enabled batch crop, no region SHALL apply.
+   */
+  it('should return null when nothing is cropped', () => {
+    fc.assert(
+      fc.property(arbDimensions, (dims) => {
+        expect(resolveCropRegion(dims)).toBeNull();
+        expect(resolveCropRegion(dims, createDefaultCropSettings())).toBeNull();
+        expect(getCroppedDimensions(dims)).toEqual(dims);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 21: Non-Destructive Crop Resolution**
+   *
+   * A crop stored on the image SHALL take precedence over the batch crop.
+   */
+  it('should prefer the per-image crop over the batch crop', () => {
+    fc.assert(
+      fc.property(
+        arbDimensions.chain(dims => fc.tuple(fc.constant(dims), arbRegionWithin(dims))),
+        ([dims, region]) => {
+          const batch: CropSettings = {
+            enabled: true,
+            region: null,
+            aspectRatio: '1:1',
+            originalDimensions: null,
+          };
+          const resolved = resolveCropRegion({ ...dims, crop: region }, batch);
+          expect(resolved).toEqual(region);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 21: Non-Destructive Crop Resolution**
+   *
+   * A batch crop SHALL always resolve to a region within every page's bounds.
+   */
+  it('should keep batch crops within the bounds of every page', () => {
+    fc.assert(
+      fc.property(
+        arbDimensions.chain(dims => fc.tuple(fc.constant(dims), arbRegionWithin(dims))),
+        arbDimensions,
+        ([source, region], page) => {
+          const batch: CropSettings = {
+            enabled: true,
+            region,
+            aspectRatio: 'free',
+            originalDimensions: source,
+          };
+          const resolved = resolveCropRegion(page, batch);
+          expect(resolved).not.toBeNull();
+          if (!resolved) return;
+
+          expect(resolved.x).toBeGreaterThanOrEqual(0);
+          expect(resolved.y).toBeGreaterThanOrEqual(0);
+          expect(resolved.width).toBeGreaterThanOrEqual(1);
+          expect(resolved.height).toBeGreaterThanOrEqual(1);
+          expect(resolved.x + resolved.width).toBeLessThanOrEqual(page.width);
+          expect(resolved.y + resolved.height).toBeLessThanOrEqual(page.height);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 21: Non-Destructive Crop Resolution**
+   *
+   * Scaling a region to the same dimensions SHALL leave it unchanged.
+   */
+  it('should not change a region scaled to identical dimensions', () => {
+    fc.assert(
+      fc.property(
+        arbDimensions.chain(dims => fc.tuple(fc.constant(dims), arbRegionWithin(dims))),
+        ([dims, region]) => {
+          expect(scaleCropRegion(region, dims, dims)).toEqual(region);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 21: Non-Destructive Crop Resolution**
+   *
+   * An aspect-ratio batch crop without a region SHALL match the requested ratio on each page.
+   */
+  it('should center an aspect-ratio batch crop on each page', () => {
+    fc.assert(
+      fc.property(arbDimensions, (page) => {
+        const batch: CropSettings = {
+          enabled: true,
+          region: null,
+          aspectRatio: '1:1',
+          originalDimensions: null,
+        };
+        const resolved = resolveCropRegion(page, batch);
+        expect(resolved).not.toBeNull();
+        if (!resolved) return;
+
+        expect(Math.abs(resolved.width - resolved.height)).toBeLessThanOrEqual(1);
+        expect(resolved.width).toBe(Math.min(page.width, page.height));
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+/**
+ * Create RGBA pixels of a page: busy content inside the region, a uniform
+ * border of the given tone outside it
+ */
+function createBorderedPage(
+  width: number,
+  height: number,
+  content: { x: number; y: number; width: number; height: number },
+  border: number
+): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inside = x >= content.x && x < content.x + content.width
+        && y >= content.y && y < content.y + content.height;
+      const value = inside ? 128 : border;
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return data;
+}
+
+describe('Property 37: Auto Trim', () => {
+  const arbSmallDimensions = fc.record({
+    width: fc.integer({ min: 1, max: 40 }),
+    height: fc.integer({ min: 1, max: 40 }),
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 37: Auto Trim**
+   * **Validates: Detecting scanner borders and unifying trimmed page sizes**
+   *
+   * A white or black border within the tolerance SHALL be trimmed exactly
+   * down to the page content.
+   */
+  it('should trim uniform white and black borders to the content', () => {
+    fc.assert(
+      fc.property(
+        arbSmallDimensions.chain(dims => fc.tuple(fc.constant(dims), arbRegionWithin(dims))),
+        fc.boolean(),
+        fc.integer({ min: 0, max: 40 }),
+        ([dims, content], white, shade) => {
+          const tolerance = 40;
+          const border = white ? 255 - shade : shade;
+          const data = createBorderedPage(dims.width, dims.height, content, border);
+
+          expect(detectBorderRegion(data, dims.width, dims.height, tolerance)).toEqual(content);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 37: Auto Trim**
+   * **Validates: Detecting scanner borders and unifying trimmed page sizes**
+   *
+   * Grain within the tolerance and sparse specks outside it SHALL NOT stop
+   * a border from being trimmed down to the page content.
+   */
+  it('should trim noisy borders to the content', () => {
+    fc.assert(
+      fc.property(
+        fc.record({
+          width: fc.integer({ min: 50, max: 100 }),
+          height: fc.integer({ min: 50, max: 100 }),
+        }).chain(dims => fc.tuple(
+          fc.constant(dims),
+          arbRegionWithin({ width: dims.width - 2, height: dims.height - 2 })
+        )),
+        fc.boolean(),
+        fc.integer({ min: 1, max: 40 }),
+        ([dims, inner], white, grain) => {
+          const tolerance = 40;
+          // Content at least 3px across, so its lines stay above the noise share
+          const content = { ...inner, width: inner.width + 2, height: inner.height + 2 };
+          const data = createBorderedPage(dims.width, dims.height, content, white ? 255 : 0);
+
+          for (let y = 0; y < dims.height; y++) {
+            for (let x = 0; x < dims.width; x++) {
+              const besideContent = y >= content.y && y < content.y + content.height;
+              if (besideContent && x >= content.x && x < content.x + content.width) continue;
+              // Side columns are only scanned beside the content, which may be
+              // too short to absorb a speck, so specks go above and below it
+              const speck = x === y && !besideContent;
+              const shade = speck ? 128 : (x * 31 + y * 17) % (grain + 1);
+              const value = white ? 255 - shade : shade;
+              data.set([value, value, value], (y * dims.width + x) * 4);
+            }
+          }
+
+          expect(detectBorderRegion(data, dims.width, dims.height, tolerance)).toEqual(content);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 37: Auto Trim**
+   * **Validates: Detecting scanner borders and unifying trimmed page sizes**
+   *
+   * A border outside the tolerance SHALL NOT be trimmed, and a blank page
+   * SHALL be kept whole.
+   */
+  it('should keep pages without a uniform border whole', () => {
+    fc.assert(
+      fc.property(
+        arbSmallDimensions.chain(dims => fc.tuple(fc.constant(dims), arbRegionWithin(dims))),
+        fc.boolean(),
+        fc.integer({ min: 0, max: 20 }),
+        ([dims, content], white, tolerance) => {
+          const full = { x: 0, y: 0, width: dims.width, height: dims.height };
+          const shade = tolerance + 1;
+          const faint = createBorderedPage(dims.width, dims.height, content, white ? 255 - shade : shade);
+          const blank = createBorderedPage(dims.width, dims.height, { ...full, width: 0 }, white ? 255 : 0);
+
+          expect(detectBorderRegion(faint, dims.width, dims.height, tolerance)).toEqual(full);
+          expect(detectBorderRegion(blank, dims.width, dims.height, tolerance)).toEqual(full);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 37: Auto Trim**
+   * **Validates: Detecting scanner borders and unifying trimmed page sizes**
+   *
+   * Unified regions SHALL share one size and stay within their pages.
+   */
+  it('should give every page the same trimmed size within its bounds', () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          arbDimensions.chain(dims => fc.tuple(fc.constant(dims), arbRegionWithin(dims))),
+          { minLength: 1, maxLength: 8 }
+        ),
+        (pages) => {
+          const sizes = pages.map(([dims]) => dims);
+          const regions = pages.map(([, region]) => region);
+
+          const unified = unifyTrimRegions(regions, sizes);
+
+          expect(unified).toHaveLength(regions.length);
+          unified.forEach((region, index) => {
+            expect(region.width).toBe(unified[0]!.width);
+            expect(region.height).toBe(unified[0]!.height);
+            expect(validateCropRegion(region, sizes[index]!.width, sizes[index]!.height).valid).toBe(true);
+          });
+          // No page content is cut when every trimmed region fits every page
+          if (regions.every(r => sizes.every(s => r.width <= s.width && r.height <= s.height))) {
+            expect(unified[0]!.width).toBe(Math.max(...regions.map(r => r.width)));
+            expect(unified[0]!.height).toBe(Math.max(...regions.map(r => r.height)));
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -3,7 +3,7 @@
  * Handles image cropping operations
  */
 
-import type { CropRegion, AspectRatio } from '@/types';
+import type { CropRegion, CropSettings, AspectRatio, UploadedImage } from '@/types';
 import { getAspectRatioValue } from '@/types';
 
 /**
@@ -190,3 +190,269 @@ export function constrainToAspectRatio(
     imageHeight
   );
 }
+
+/**
+ * Scale a crop region drawn on one page to a page of different dimensions
+ * Keeps the region at the same relative place, e.g. a 20px border on a
+ * 1000px page becomes a 40px border on a 2000px page
+ */
+export function scaleCropRegion(
+  region: CropRegion,
+  from: { width: number; height: number },
+  to: { width: number; height: number }
+): CropRegion {
+  if (from.width === to.width && from.height === to.height) {
+    return region;
+  }
+
+  const scaleX = to.width / from.width;
+  const scaleY = to.height / from.height;
+
+  return {
+    x: Math.round(region.x * scaleX),
+    y: Math.round(region.y * scaleY),
+    width: Math.round(region.width * scaleX),
+    height: Math.round(region.height * scaleY),
+  };
+}
+
+/**
+ * Resolve the crop region that applies to an image at render time
+ * A crop stored on the image itself takes precedence over the batch crop.
+ * The batch crop uses its region (scaled from the page it was drawn on) or,
+ * without a region, a centered region from its aspect ratio.
+ *
+ * @param image - Image with original dimensions and optional per-image crop
+ * @param cropSettings - Optional batch crop settings applied to every page
+ * @returns Crop region clamped to the image, or null when the image is not cropped
+ */
+export function resolveCropRegion(
+  image: Pick<UploadedImage, 'width' | 'height' | 'crop'>,
+  cropSettings?: CropSettings | null
+): CropRegion | null {
+  const { width, height } = image;
+
+  if (image.crop) {
+    return clampCropRegion(image.crop, width, height);
+  }
+
+  if (!cropSettings?.enabled) {
+    return null;
+  }
+
+  if (cropSettings.region) {
+    const region = cropSettings.originalDimensions
+      ? scaleCropRegion(cropSettings.region, cropSettings.originalDimensions, { width, height })
+      : cropSettings.region;
+    return clampCropRegion(region, width, height);
+  }
+
+  if (cropSettings.aspectRatio !== 'free') {
+    return calculateRegionFromAspectRatio(width, height, cropSettings.aspectRatio);
+  }
+
+  return null;
+}
+
+/**
+ * Get the dimensions of an image after its crop is applied
+ */
+export function getCroppedDimensions(
+  image: Pick<UploadedImage, 'width' | 'height' | 'crop'>,
+  cropSettings?: CropSettings | null
+): { width: number; height: number } {
+  const region = resolveCropRegion(image, cropSettings);
+  return region
+    ? { width: region.width, height: region.height }
+    : { width: image.width, height: image.height };
+}
+
+// ============================================
+// Auto Trim
+// ============================================
+
+/**
+ * Default tolerance for border detection, in 0-255 channel steps
+ */
+export const DEFAULT_TRIM_TOLERANCE = 24;
+
+/**
+ * Longest side pages are scaled to before looking for borders
+ */
+const TRIM_ANALYSIS_SIZE = 1024;
+
+/**
+ * Check if a pixel is near white or near black
+ * @returns 'white', 'black', or null for any other pixel
+ */
+function getBorderTone(
+  data: Uint8ClampedArray,
+  offset: number,
+  tolerance: number
+): 'white' | 'black' | null {
+  const r = data[offset] ?? 0;
+  const g = data[offset + 1] ?? 0;
+  const b = data[offset + 2] ?? 0;
+  if (Math.min(r, g, b) >= 255 - tolerance) return 'white';
+  if (Math.max(r, g, b) <= tolerance) return 'black';
+  return null;
+}
+
+/**
+ * Share of a line's pixels that must be the border tone
+ * Leaves room for scanner noise and dust specks on otherwise blank borders.
+ */
+export const BORDER_LINE_RATIO = 0.98;
+
+/**
+ * Check if a row or column is a white or black border line
+ * A line counts when nearly all of its pixels share one border tone.
+ */
+function isBorderLine(
+  data: Uint8ClampedArray,
+  width: number,
+  start: { x: number; y: number },
+  step: { x: number; y: number },
+  length: number,
+  tolerance: number
+): boolean {
+  const required = Math.ceil(length * BORDER_LINE_RATIO);
+  let white = 0;
+  let black = 0;
+
+  for (let i = 0; i < length; i++) {
+    const offset = ((start.y + step.y * i) * width + start.x + step.x * i) * 4;
+    const tone = getBorderTone(data, offset, tolerance);
+    if (tone === 'white') white++;
+    else if (tone === 'black') black++;
+    // Stop once too many pixels are off for either tone to reach the share
+    if (i + 1 - Math.max(white, black) > length - required) return false;
+  }
+  return white >= required || black >= required;
+}
+
+/**
+ * Detect uniform scanner borders around a page
+ * Each edge is trimmed while its outermost line is white or black (within
+ * the tolerance) for at least BORDER_LINE_RATIO of its pixels. A blank page
+ * is not trimmed.
+ *
+ * @param data - RGBA pixels of the page
+ * @param width - Page width
+ * @param height - Page height
+ * @param tolerance - How far from pure white/black a border pixel may be (0-255)
+ * @returns Region inside the borders
+ */
+export function detectBorderRegion(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  tolerance: number = DEFAULT_TRIM_TOLERANCE
+): CropRegion {
+  let top = 0;
+  let bottom = height;
+  let left = 0;
+  let right = width;
+
+  const isRowBorder = (y: number) =>
+    isBorderLine(data, width, { x: left, y }, { x: 1, y: 0 }, right - left, tolerance);
+  const isColumnBorder = (x: number) =>
+    isBorderLine(data, width, { x, y: top }, { x: 0, y: 1 }, bottom - top, tolerance);
+
+  while (top < bottom && isRowBorder(top)) top++;
+  while (bottom > top && isRowBorder(bottom - 1)) bottom--;
+  while (left < right && isColumnBorder(left)) left++;
+  while (right > left && isColumnBorder(right - 1)) right--;
+
+  if (top === bottom || left === right) {
+    return { x: 0, y: 0, width, height };
+  }
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Give trimmed pages the same final dimensions
+ * Uses the largest trimmed size that fits every page, so content is only
+ * cut when the pages differ in size. Each region grows or shrinks around
+ * its center and is shifted back inside its page.
+ *
+ * @param regions - Trimmed region of each page
+ * @param pageSizes - Size of each page, in the same order
+ * @returns Regions of equal size, in the same order
+ */
+export function unifyTrimRegions(
+  regions: CropRegion[],
+  pageSizes: { width: number; height: number }[]
+): CropRegion[] {
+  if (regions.length === 0) {
+    return regions;
+  }
+
+  const width = Math.min(
+    Math.max(...regions.map(region => region.width)),
+    ...pageSizes.map(size => size.width)
+  );
+  const height = Math.min(
+    Math.max(...regions.map(region => region.height)),
+    ...pageSizes.map(size => size.height)
+  );
+
+  return regions.map((region, index) => {
+    const page = pageSizes[index] ?? { width, height };
+    const x = Math.round(region.x + (region.width - width) / 2);
+    const y = Math.round(region.y + (region.height - height) / 2);
+    return {
+      x: Math.max(0, Math.min(x, page.width - width)),
+      y: Math.max(0, Math.min(y, page.height - height)),
+      width,
+      height,
+    };
+  });
+}
+
+/**
+ * Detect the scanner borders of a page image
+ * Large pages are analyzed at a reduced size, and the region is scaled back.
+ *
+ * @param image - Page with its original dimensions
+ * @param tolerance - How far from pure white/black a border pixel may be (0-255)
+ * @returns Promise resolving to the region inside the borders
+ */
+export async function detectImageBorders(
+  image: Pick<UploadedImage, 'dataUrl' | 'width' | 'height'>,
+  tolerance: number = DEFAULT_TRIM_TOLERANCE
+): Promise<CropRegion> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+
+    img.onload = () => {
+      const scale = Math.min(1, TRIM_ANALYSIS_SIZE / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(image.width * scale));
+      canvas.height = Math.max(1, Math.round(image.height * scale));
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Failed to create canvas context'));
+        return;
+      }
+
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const region = detectBorderRegion(data, canvas.width, canvas.height, tolerance);
+
+      resolve(clampCropRegion(
+        scaleCropRegion(region, canvas, image),
+        image.width,
+        image.height
+      ));
+    };
+
+    img.onerror = () => {
+      reject(new Error('Failed to load image for trimming'));
+    };
+
+    img.src = image.dataUrl;
+  });
+}
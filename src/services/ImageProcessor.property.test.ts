@@ -16,6 +16,15 @@
  * 
  * **Feature: manga-watermark-tool, Property 15: Batch Cancellation Preservation**
  * **Validates: Requirements 6.5**
+ * 
+ * **Feature: manga-watermark-tool, Property 22: Preset Resize**
+ * **Validates: Compression preset export**
+ * 
+ * **Feature: manga-watermark-tool, Property 23: Batch Output Filenames**
+ * **Validates: Batch rename export**
+ * 
+ * **Feature: manga-watermark-tool, Property 24: Render Concurrency**
+ * **Validates: Parallel batch rendering**
  */
 
 import { describe, it, expect } from 'vitest';
@@ -25,13 +34,27 @@ import {
   cancelBatch, 
   resetBatchCancellation,
   isBatchCancelled,
+  getBatchCancelCount,
   generateOutputFilename,
   getMimeType,
   getExtensionForFormat,
   exportAsZip,
   getZipFileCount,
+  generateBatchFilenames,
+  normalizeConcurrency,
+  batchProcess,
 } from './ImageProcessor';
-import type { UploadedImage, ProcessingResult } from '@/types';
+import { getDownscaleSteps } from './PageRenderer';
+import { createBlobSink, MemoryOverflowError } from './ZipWriter';
+import type { UploadedImage, ProcessingResult, ExportSettings } from '@/types';
+import {
+  calculateResizeDimensions,
+  COMPRESSION_PRESETS,
+  createDefaultExportSettings,
+  createDefaultRenamePattern,
+  createDefaultWatermarkSettings,
+  MAX_RENDER_CONCURRENCY,
+} from '@/types';
 
 // Arbitrary generator for valid image dimensions
 const arbImageDimensions = fc.record({
@@ -315,6 +338,7 @@ describe('Property 15: Batch Cancellation Preservation', () => {
         fc.array(fc.boolean(), { minLength: 1, maxLength: 20 }),
         (operations) => {
           resetBatchCancellation();
+          const countBefore = getBatchCancelCount();
           
           for (const shouldCancel of operations) {
             if (shouldCancel) {
@@ -329,6 +353,9 @@ describe('Property 15: Batch Cancellation Preservation', () => {
           // Final state should match last operation
           const lastOp = operations[operations.length - 1];
           expect(isBatchCancelled()).toBe(lastOp);
+
+          // Every cancel is counted, even when a reset follows
+          expect(getBatchCancelCount() - countBefore).toBe(operations.filter(Boolean).length);
           
           // Clean up
           resetBatchCancellation();
@@ -625,12 +652,12 @@ describe('Property 18: ZIP Packaging', () => {
       },
     ];
     
-    const zipBlob = await exportAsZip(results, 'test_archive');
+    const zipBlob = await exportAsZip(results);
     
     // Should be a valid Blob
     expect(zipBlob).toBeInstanceOf(Blob);
-    expect(zipBlob.size).toBeGreaterThan(0);
-    expect(zipBlob.type).toBe('application/zip');
+    expect(zipBlob!.size).toBeGreaterThan(0);
+    expect(zipBlob!.type).toBe('application/zip');
   });
 
   /**
@@ -640,9 +667,266 @@ describe('Property 18: ZIP Packaging', () => {
    * exportAsZip should handle empty results gracefully.
    */
   it('should handle empty results gracefully', async () => {
-    const zipBlob = await exportAsZip([], 'empty_archive');
+    const zipBlob = await exportAsZip([]);
     
     // Should still produce a valid (empty) ZIP
     expect(zipBlob).toBeInstanceOf(Blob);
   });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 18: ZIP Packaging**
+   * **Validates: Requirements 7.6**
+   * 
+   * exportAsZip should raise E007 when the archive outgrows its sink.
+   */
+  it('should raise a memory overflow error when the sink is full', async () => {
+    const results: ProcessingResult[] = [
+      {
+        imageId: 'test-1',
+        success: true,
+        outputBlob: new Blob(['x'.repeat(200)], { type: 'image/png' }),
+        outputFilename: 'image1.png',
+      },
+    ];
+
+    await expect(exportAsZip(results, createBlobSink(100))).rejects.toBeInstanceOf(MemoryOverflowError);
+  });
+});
+
+describe('Property 22: Preset Resize', () => {
+  const arbSize = fc.integer({ min: 1, max: 8000 });
+  const arbLimit = fc.option(fc.integer({ min: 1, max: 4000 }), { nil: null });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 22: Preset Resize**
+   * **Validates: Compression preset export**
+   * 
+   * For any image and size limits, the output SHALL fit the limits
+   * and SHALL never be larger than the source.
+   */
+  it('should fit within limits without upscaling', () => {
+    fc.assert(
+      fc.property(
+        arbSize,
+        arbSize,
+        arbLimit,
+        arbLimit,
+        fc.boolean(),
+        (width, height, maxWidth, maxHeight, preserveAspectRatio) => {
+          const result = calculateResizeDimensions(width, height, {
+            maxWidth,
+            maxHeight,
+            preserveAspectRatio,
+          });
+
+          expect(result.width).toBeLessThanOrEqual(width);
+          expect(result.height).toBeLessThanOrEqual(height);
+          expect(result.width).toBeGreaterThanOrEqual(1);
+          expect(result.height).toBeGreaterThanOrEqual(1);
+          if (maxWidth !== null) {
+            expect(result.width).toBeLessThanOrEqual(Math.max(1, maxWidth));
+          }
+          if (maxHeight !== null) {
+            expect(result.height).toBeLessThanOrEqual(Math.max(1, maxHeight));
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 22: Preset Resize**
+   * **Validates: Compression preset export**
+   * 
+   * For any page wider than 1920px, the Web preset SHALL produce a
+   * 1920px-wide image with the source aspect ratio.
+   */
+  it('should resize to 1920px wide with the web preset', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1921, max: 8000 }),
+        fc.integer({ min: 100, max: 8000 }),
+        (width, height) => {
+          const result = calculateResizeDimensions(width, height, COMPRESSION_PRESETS.web);
+
+          expect(result.width).toBe(1920);
+          expect(Math.abs(result.height - (height * 1920) / width)).toBeLessThanOrEqual(1);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 22: Preset Resize**
+   * **Validates: Compression preset export**
+   * 
+   * For any downscale, each step SHALL at most halve the previous size
+   * and the last step SHALL be the target size.
+   */
+  it('should downscale in steps of at most half', () => {
+    fc.assert(
+      fc.property(
+        arbSize,
+        arbSize,
+        fc.double({ min: 0.001, max: 1, noNaN: true }),
+        (width, height, scale) => {
+          const targetWidth = Math.max(1, Math.round(width * scale));
+          const targetHeight = Math.max(1, Math.round(height * scale));
+          const steps = getDownscaleSteps(width, height, targetWidth, targetHeight);
+
+          expect(steps[steps.length - 1]).toEqual({ width: targetWidth, height: targetHeight });
+
+          let previous = { width, height };
+          for (const step of steps) {
+            expect(step.width).toBeGreaterThanOrEqual(Math.floor(previous.width / 2));
+            expect(step.height).toBeGreaterThanOrEqual(Math.floor(previous.height / 2));
+            previous = step;
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Property 23: Batch Output Filenames', () => {
+  const arbNames = fc.array(
+    fc.tuple(
+      fc.stringMatching(/^[a-zA-Z0-9_-]{1,12}$/),
+      fc.constantFrom('.jpg', '.png', '.webp')
+    ).map(([base, ext]) => `${base}${ext}`),
+    { minLength: 1, maxLength: 30 }
+  );
+
+  const arbExportSettings: fc.Arbitrary<ExportSettings> = fc.record({
+    format: fc.constantFrom('jpg' as const, 'png' as const, 'webp' as const),
+    quality: fc.integer({ min: 0, max: 100 }),
+    filenamePrefix: fc.constantFrom('', 'wm_'),
+    filenameSuffix: fc.constantFrom('', '_watermarked'),
+    preserveOriginalName: fc.boolean(),
+    concurrency: fc.integer({ min: 1, max: 8 }),
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 23: Batch Output Filenames**
+   * **Validates: Batch rename export**
+   * 
+   * For any batch, every output filename SHALL be unique, with or
+   * without a rename pattern.
+   */
+  it('should produce unique filenames across the batch', () => {
+    fc.assert(
+      fc.property(arbNames, arbExportSettings, fc.boolean(), (names, exportSettings, enabled) => {
+        const filenames = generateBatchFilenames(names, exportSettings, {
+          enabled,
+          pattern: { ...createDefaultRenamePattern(), pattern: 'Page' },
+        });
+
+        expect(filenames.length).toBe(names.length);
+        expect(new Set(filenames).size).toBe(filenames.length);
+        for (const filename of filenames) {
+          expect(filename.endsWith(`.${exportSettings.format}`)).toBe(true);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 23: Batch Output Filenames**
+   * **Validates: Batch rename export**
+   * 
+   * For any batch with rename enabled, page numbers SHALL follow list order.
+   */
+  it('should number pages in list order when rename is enabled', () => {
+    fc.assert(
+      fc.property(arbNames, fc.integer({ min: 0, max: 100 }), (names, startPage) => {
+        const pattern = { ...createDefaultRenamePattern(), startPage };
+        const filenames = generateBatchFilenames(names, createDefaultExportSettings(), {
+          enabled: true,
+          pattern,
+        });
+
+        filenames.forEach((filename, index) => {
+          const page = String(startPage + index).padStart(pattern.padLength, '0');
+          expect(filename).toBe(`Chapter${pattern.chapter}_${page}.png`);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 23: Batch Output Filenames**
+   * **Validates: Batch rename export**
+   * 
+   * For any batch with rename disabled, filenames SHALL use prefix and suffix.
+   */
+  it('should use prefix and suffix when rename is disabled', () => {
+    fc.assert(
+      fc.property(arbNames, arbExportSettings, (names, exportSettings) => {
+        // Keep one name per base, since extensions are replaced on export
+        const byBase = new Map(names.map(name => [name.replace(/\.[^.]+$/, ''), name]));
+        const uniqueNames = [...byBase.values()];
+        const filenames = generateBatchFilenames(uniqueNames, exportSettings, null);
+
+        uniqueNames.forEach((name, index) => {
+          expect(filenames[index]).toBe(generateOutputFilename(
+            name,
+            exportSettings.filenamePrefix,
+            exportSettings.filenameSuffix,
+            exportSettings.format
+          ));
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Property 24: Render Concurrency', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 24: Render Concurrency**
+   * **Validates: Parallel batch rendering**
+   * 
+   * For any configured value, concurrency SHALL be an integer between 1
+   * and MAX_RENDER_CONCURRENCY.
+   */
+  it('should clamp concurrency to the supported range', () => {
+    fc.assert(
+      fc.property(
+        fc.oneof(fc.double(), fc.integer({ min: -100, max: 100 })),
+        (value) => {
+          const result = normalizeConcurrency(value);
+
+          expect(Number.isInteger(result)).toBe(true);
+          expect(result).toBeGreaterThanOrEqual(1);
+          expect(result).toBeLessThanOrEqual(MAX_RENDER_CONCURRENCY);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 24: Render Concurrency**
+   * **Validates: Parallel batch rendering**
+   * 
+   * An empty batch SHALL finish without starting workers and report
+   * a final progress update.
+   */
+  it('should complete an empty batch', async () => {
+    const updates: number[] = [];
+    const results = await batchProcess(
+      [],
+      createDefaultWatermarkSettings(),
+      createDefaultExportSettings(),
+      (progress) => updates.push(progress.total)
+    );
+
+    expect(results).toEqual([]);
+    expect(updates).toEqual([0]);
+  });
 });
@@ -10,10 +10,50 @@ import type {
   ExportSettings, 
   ProcessingResult, 
   BatchProcessingProgress,
-  ExportFormat 
+  ExportFormat,
+  CropSettings,
+  ImageAdjustments,
+  InvisibleWatermarkSettings,
+  InvisibleMark,
+  InvisibleVerification,
+  ResizeOptions,
+  RenameSettings,
+  ArchiveSettings,
+  CustomFont,
+  PatternValues,
 } from '@/types';
-import { isValidImageFormat } from '@/utils/validation';
-import { render, loadImageFromDataUrl } from './WatermarkRenderer';
+import {
+  calculateResizeDimensions,
+  MAX_RENDER_CONCURRENCY,
+  previewFilenames,
+  validatePattern,
+  ensureUnique,
+  createDefaultRenamePattern,
+  isSvgImageData,
+} from '@/types';
+import { isValidImageFormat, isArchiveFile, validateFile } from '@/utils/validation';
+import { loadImageFromDataUrl, loadWatermarkImages } from './WatermarkRenderer';
+import { extractArchiveImages } from './ArchiveImporter';
+import { resolveCropRegion, getCroppedDimensions } from './ImageCropper';
+import { resolvePageSettings } from './PageOverrides';
+import { getPageTextValues, fillWatermarkText } from './WatermarkText';
+import {
+  renderPage,
+  createCanvas,
+  getRenderContext,
+  type PageRenderOptions,
+} from './PageRenderer';
+import { extractMark } from './InvisibleWatermark';
+import { RenderWorkerPool } from './RenderWorkerPool';
+import { getUsedFonts, waitForFonts } from './FontLibrary';
+import { ZipStreamWriter, createBlobSink, type ZipSink } from './ZipWriter';
+import {
+  getArchiveEntryNames,
+  getArchivePagePath,
+  writeArchivePrologue,
+  writeArchiveEpilogue,
+  type ArchivePage,
+} from './ArchiveBuilder';
 
 /**
  * Generate a unique ID for images
@@ -32,6 +72,17 @@ export class ImageLoadError extends Error {
   }
 }
 
+/**
+ * Reported for archive entries that are not images and were left out on
+ * purpose, as opposed to pages that failed to load
+ */
+export class SkippedEntryError extends ImageLoadError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SkippedEntryError';
+  }
+}
+
 /**
  * Load an image file and extract metadata
  * Requirements: 1.1, 1.2, 1.5, 1.6
@@ -117,7 +168,12 @@ export function getImageDimensions(dataUrl: string): Promise<{ width: number; he
  * Load multiple images
  * Requirements: 1.1, 1.2
  * 
- * @param files - Array of File objects to load
+ * ZIP/CBZ archives are unpacked first, so progress covers every page.
+ * Archive pages are validated like uploaded files and tagged with their
+ * chapter folder; non-image entries are reported against the archive as
+ * SkippedEntryError.
+ * 
+ * @param files - Array of File objects (images or archives) to load
  * @param onProgress - Optional callback for progress updates
  * @returns Promise resolving to array of results (success or error for each)
  */
@@ -126,13 +182,43 @@ export async function loadImages(
   onProgress?: (loaded: number, total: number) => void
 ): Promise<Array<{ file: File; result: UploadedImage | Error }>> {
   const results: Array<{ file: File; result: UploadedImage | Error }> = [];
+  const queue: Array<{ file: File; chapter?: string }> = [];
+
+  for (const file of files) {
+    if (!isArchiveFile(file)) {
+      queue.push({ file });
+      continue;
+    }
+    try {
+      const { entries, skipped } = await extractArchiveImages(file);
+      queue.push(...entries);
+      for (const path of skipped) {
+        results.push({
+          file,
+          result: new SkippedEntryError(`Skipped non-image file in ${file.name}: ${path}`),
+        });
+      }
+    } catch (error) {
+      results.push({
+        file,
+        result: error instanceof Error ? error : new ImageLoadError('Unknown error'),
+      });
+    }
+  }
   
-  for (let i = 0; i < files.length; i++) {
-    const file = files[i];
-    if (!file) continue;
+  for (let i = 0; i < queue.length; i++) {
+    const item = queue[i];
+    if (!item) continue;
+    const { file, chapter } = item;
     try {
+      if (chapter !== undefined) {
+        const validation = validateFile(file);
+        if (!validation.valid) {
+          throw new ImageLoadError(`${file.name}: ${validation.errors.join(' ')}`);
+        }
+      }
       const image = await loadImage(file);
-      results.push({ file, result: image });
+      results.push({ file, result: chapter !== undefined ? { ...image, chapter } : image });
     } catch (error) {
       results.push({ 
         file, 
@@ -140,7 +226,7 @@ export async function loadImages(
       });
     }
     
-    onProgress?.(i + 1, files.length);
+    onProgress?.(i + 1, queue.length);
   }
   
   return results;
@@ -178,6 +264,7 @@ export function extractMetadata(image: UploadedImage): {
  * Batch processor state for cancellation support
  */
 let batchCancelled = false;
+let cancelRequests = 0;
 
 /**
  * Cancel ongoing batch processing
@@ -185,6 +272,7 @@ let batchCancelled = false;
  */
 export function cancelBatch(): void {
   batchCancelled = true;
+  cancelRequests++;
 }
 
 /**
@@ -202,54 +290,164 @@ export function isBatchCancelled(): boolean {
 }
 
 /**
- * Apply watermark to a single image and return the result as a Blob
- * Requirements: 6.1
- * 
- * @param image - The uploaded image to process
- * @param settings - Watermark settings to apply
- * @returns Promise resolving to Blob with watermarked image
+ * Count the cancel requests made so far
+ * Unlike the cancelled flag it is never reset, so work that runs several
+ * batches in a row can tell whether a cancel came in since it started.
  */
-export async function applyWatermark(
-  image: UploadedImage,
-  settings: WatermarkSettings
-): Promise<Blob> {
-  // Create canvas with image dimensions
-  const canvas = document.createElement('canvas');
-  canvas.width = image.width;
-  canvas.height = image.height;
-  
-  const ctx = canvas.getContext('2d');
-  if (!ctx) {
-    throw new ImageLoadError('Failed to create canvas context');
-  }
+export function getBatchCancelCount(): number {
+  return cancelRequests;
+}
 
-  // Load and draw the base image
-  const img = await loadImageFromDataUrl(image.dataUrl);
-  ctx.drawImage(img, 0, 0, image.width, image.height);
+/**
+ * Optional pipeline stages applied by batchProcess to every image
+ */
+export interface BatchProcessOptions {
+  /** Crop applied to every page that has no crop of its own */
+  cropSettings?: CropSettings | null;
+  /** Size limits from the selected compression preset */
+  resize?: ResizeOptions | null;
+  /** Raw cleaning applied to every page before the watermark */
+  adjustments?: ImageAdjustments | null;
+  /** Batch rename pattern for output filenames */
+  renameSettings?: RenameSettings | null;
+  /** Invisible mark embedded in every page */
+  invisibleWatermark?: InvisibleWatermarkSettings | null;
+  /** Export time recorded in the invisible mark (ms); set once per batch */
+  exportedAt?: number;
+  /** Set to false to force rendering on the main thread */
+  useWorkers?: boolean;
+  /** Custom fonts from the font library, loaded into render workers */
+  fonts?: CustomFont[];
+  /**
+   * Receives each successful page as soon as it is rendered (one at a time,
+   * in completion order). The page's blob is dropped from the returned
+   * results afterwards, so large batches can be streamed to disk.
+   */
+  onOutput?: (result: ProcessingResult) => Promise<void>;
+}
 
-  // Load watermark image if needed
-  let watermarkImage: HTMLImageElement | undefined;
-  if (settings.config.type === 'image' && settings.config.imageData) {
-    watermarkImage = await loadImageFromDataUrl(settings.config.imageData);
+/**
+ * Build the invisible mark of a page
+ * The chapter is the batch rename chapter, or else the page's archive folder.
+ *
+ * @param image - Image to mark
+ * @param options - Optional pipeline stages
+ * @returns The mark, or null when disabled
+ */
+function getInvisibleMark(image: UploadedImage, options: BatchProcessOptions): InvisibleMark | null {
+  const { invisibleWatermark } = options;
+  if (!invisibleWatermark?.enabled) {
+    return null;
   }
 
-  // Render watermark
-  await render(ctx, settings, { width: image.width, height: image.height }, watermarkImage);
+  return {
+    payload: {
+      groupId: invisibleWatermark.groupId,
+      chapter: options.renameSettings?.pattern.chapter || (image.chapter ?? ''),
+      timestamp: Math.floor((options.exportedAt ?? Date.now()) / 1000),
+    },
+    strength: invisibleWatermark.strength,
+  };
+}
 
-  // Convert canvas to blob
-  return new Promise((resolve, reject) => {
-    canvas.toBlob(
-      (blob) => {
-        if (blob) {
-          resolve(blob);
-        } else {
-          reject(new ImageLoadError('Failed to convert canvas to blob'));
-        }
-      },
-      'image/png',
-      1.0
-    );
-  });
+/**
+ * Compute the text watermark variables of a page in a batch
+ * Pages are numbered by the batch rename pattern even when renaming is off.
+ *
+ * @param image - Page being rendered
+ * @param index - Position of the page in the batch
+ * @param outputFilename - Filename the page is exported as
+ * @param options - Optional pipeline stages
+ * @returns Values keyed by variable
+ */
+export function getBatchTextValues(
+  image: UploadedImage,
+  index: number,
+  outputFilename: string,
+  options: BatchProcessOptions
+): PatternValues {
+  return getPageTextValues(
+    image,
+    index,
+    outputFilename,
+    options.renameSettings?.pattern ?? createDefaultRenamePattern(),
+    new Date(options.exportedAt ?? Date.now())
+  );
+}
+
+/**
+ * Build the render options for a page
+ * @param image - Image to render
+ * @param exportSettings - Export settings (format, quality)
+ * @param options - Optional pipeline stages
+ * @returns Render options for PageRenderer
+ */
+function getPageRenderOptions(
+  image: UploadedImage,
+  exportSettings: ExportSettings,
+  options: BatchProcessOptions
+): PageRenderOptions {
+  const region = resolveCropRegion(image, options.cropSettings) ?? {
+    x: 0,
+    y: 0,
+    width: image.width,
+    height: image.height,
+  };
+
+  return {
+    region,
+    resize: options.resize ?? null,
+    adjustments: options.adjustments ?? null,
+    invisibleMark: getInvisibleMark(image, options),
+    mimeType: getMimeType(exportSettings.format),
+    quality: exportSettings.quality,
+  };
+}
+
+/**
+ * Render an image for export on the main thread in a single pass
+ * (crop, watermark, resize and encode to the target format)
+ * 
+ * @param image - The uploaded image to render
+ * @param globalSettings - Watermark settings to apply, before the image's overrides
+ * @param exportSettings - Export settings (format, quality)
+ * @param options - Optional pipeline stages
+ * @param textValues - Values of the text watermark variables of this page
+ * @returns Promise resolving to the exported Blob
+ */
+export async function renderImage(
+  image: UploadedImage,
+  globalSettings: WatermarkSettings,
+  exportSettings: ExportSettings,
+  options: BatchProcessOptions = {},
+  textValues: PatternValues = {}
+): Promise<Blob> {
+  const settings = fillWatermarkText(resolvePageSettings(
+    globalSettings,
+    image.watermarkOverride,
+    getCroppedDimensions(image, options.cropSettings)
+  ), textValues);
+  const img = await loadImageFromDataUrl(image.dataUrl);
+  const watermarkImages = await loadWatermarkImages(settings, loadImageFromDataUrl);
+  await waitForFonts(settings);
+
+  return renderPage(
+    img,
+    settings,
+    getPageRenderOptions(image, exportSettings, options),
+    watermarkImages
+  );
+}
+
+/**
+ * Check whether any enabled image layer holds an SVG
+ * @param settings - Watermark settings of a page
+ * @returns True if the page draws an SVG watermark
+ */
+function hasSvgLayers(settings: WatermarkSettings): boolean {
+  return settings.enabled && settings.layers.some(
+    layer => layer.enabled && layer.config.type === 'image' && isSvgImageData(layer.config.imageData)
+  );
 }
 
 /**
@@ -257,32 +455,36 @@ export async function applyWatermark(
  * @param image - Image to process
  * @param settings - Watermark settings
  * @param exportSettings - Export settings
+ * @param index - Position of the image within the batch
+ * @param outputFilename - Filename assigned to this image within the batch
+ * @param options - Optional pipeline stages
+ * @param pool - Worker pool to render on, or null for the main thread
  * @returns Processing result
  */
 async function processSingleImage(
   image: UploadedImage,
   settings: WatermarkSettings,
-  exportSettings: ExportSettings
+  exportSettings: ExportSettings,
+  index: number,
+  outputFilename: string,
+  options: BatchProcessOptions,
+  pool: RenderWorkerPool | null
 ): Promise<ProcessingResult> {
+  const textValues = getBatchTextValues(image, index, outputFilename, options);
+  const pageSettings = fillWatermarkText(
+    resolvePageSettings(settings, image.watermarkOverride, getCroppedDimensions(image, options.cropSettings)),
+    textValues
+  );
+
   try {
-    // Apply watermark
-    const watermarkedBlob = await applyWatermark(image, settings);
-    
-    // Export with format conversion
-    const outputBlob = await exportImage(
-      watermarkedBlob,
-      image.name,
-      exportSettings.format,
-      exportSettings.quality
-    );
-    
-    // Generate output filename
-    const outputFilename = generateOutputFilename(
-      image.name,
-      exportSettings.filenamePrefix,
-      exportSettings.filenameSuffix,
-      exportSettings.format
-    );
+    // Workers cannot decode SVG, so pages with SVG layers render on the main thread
+    const outputBlob = pool && !hasSvgLayers(pageSettings)
+      ? await pool.render({
+          imageDataUrl: image.dataUrl,
+          settings: pageSettings,
+          options: getPageRenderOptions(image, exportSettings, options),
+        })
+      : await renderImage(image, settings, exportSettings, options, textValues);
 
     return {
       imageId: image.id,
@@ -299,6 +501,60 @@ async function processSingleImage(
   }
 }
 
+/**
+ * Get the dimensions an image will have after crop and resize
+ * @param image - Image to export
+ * @param options - Optional pipeline stages
+ * @returns Output width and height
+ */
+export function getOutputDimensions(
+  image: UploadedImage,
+  options: BatchProcessOptions = {}
+): { width: number; height: number } {
+  const cropped = getCroppedDimensions(image, options.cropSettings);
+  return options.resize
+    ? calculateResizeDimensions(cropped.width, cropped.height, options.resize)
+    : cropped;
+}
+
+/**
+ * Drop the output blob from a result once it has been written elsewhere
+ * @param result - Processing result
+ * @returns Result without its blob
+ */
+function releaseOutputBlob(result: ProcessingResult): ProcessingResult {
+  const released: ProcessingResult = { ...result };
+  delete released.outputBlob;
+  return released;
+}
+
+/**
+ * Clamp the configured concurrency to the supported range
+ * @param concurrency - Requested number of parallel renders
+ * @returns Concurrency between 1 and MAX_RENDER_CONCURRENCY
+ */
+export function normalizeConcurrency(concurrency: number): number {
+  if (!Number.isFinite(concurrency)) return 1;
+  return Math.max(1, Math.min(MAX_RENDER_CONCURRENCY, Math.floor(concurrency)));
+}
+
+/**
+ * Start a worker pool for a batch, if workers are available
+ * @param concurrency - Number of workers
+ * @returns The pool, or null to render on the main thread
+ */
+function createWorkerPool(concurrency: number): RenderWorkerPool | null {
+  if (!RenderWorkerPool.isSupported()) {
+    return null;
+  }
+  try {
+    return new RenderWorkerPool(concurrency);
+  } catch {
+    // Workers can be blocked (e.g. by CSP); fall back to the main thread
+    return null;
+  }
+}
+
 /**
  * Batch process multiple images with watermark
  * Requirements: 6.1, 6.2, 6.3, 6.4, 6.5
@@ -307,66 +563,125 @@ async function processSingleImage(
  * @param settings - Watermark settings to apply
  * @param exportSettings - Export settings
  * @param onProgress - Callback for progress updates
+ * @param options - Optional pipeline stages (e.g. batch crop, rename)
  * @returns Promise resolving to array of processing results
  */
 export async function batchProcess(
   images: UploadedImage[],
   settings: WatermarkSettings,
   exportSettings: ExportSettings,
-  onProgress?: (progress: BatchProcessingProgress) => void
+  onProgress?: (progress: BatchProcessingProgress) => void,
+  options: BatchProcessOptions = {}
 ): Promise<ProcessingResult[]> {
   // Reset cancellation state
   resetBatchCancellation();
   
-  const results: ProcessingResult[] = [];
   const total = images.length;
+  // Every page of the batch records the same export time
+  const pageOptions: BatchProcessOptions = { ...options, exportedAt: options.exportedAt ?? Date.now() };
+  const slots: Array<ProcessingResult | undefined> = new Array(total);
   let completed = 0;
   let failed = 0;
-
-  for (const image of images) {
-    // Check for cancellation
-    if (batchCancelled) {
-      break;
-    }
-
-    // Report progress before processing
+  let currentImage = '';
+
+  // Filenames are assigned up front so numbering and uniqueness
+  // follow the list order, even if some images fail
+  const filenames = generateBatchFilenames(
+    images.map(image => image.name),
+    exportSettings,
+    options.renameSettings
+  );
+
+  // Render on workers when available, otherwise one page at a time
+  // on the main thread
+  const pool = options.useWorkers === false || total === 0
+    ? null
+    : createWorkerPool(normalizeConcurrency(exportSettings.concurrency));
+  const concurrency = pool ? pool.size : 1;
+  // Page overrides may switch a layer to another font
+  const pageLayers = images.flatMap(image =>
+    resolvePageSettings(settings, image.watermarkOverride, getCroppedDimensions(image, options.cropSettings)).layers
+  );
+  pool?.loadFonts(getUsedFonts({ ...settings, layers: pageLayers }, options.fonts ?? []));
+
+  // Outputs are written one at a time; a failing writer stops the batch
+  const { onOutput } = options;
+  let outputChain: Promise<void> = Promise.resolve();
+  let outputError: unknown = null;
+
+  // Results in list order, skipping pages still in flight
+  const collectResults = (): ProcessingResult[] =>
+    slots.filter((result): result is ProcessingResult => result !== undefined);
+
+  const reportProgress = () => {
     onProgress?.({
       total,
       completed,
       failed,
-      currentImage: image.name,
-      results: [...results],
+      currentImage,
+      results: collectResults(),
     });
+  };
 
-    // Process the image
-    const result = await processSingleImage(image, settings, exportSettings);
-    results.push(result);
-    
-    completed++;
-    if (!result.success) {
-      failed++;
+  let nextIndex = 0;
+  const runNext = async (): Promise<void> => {
+    while (!batchCancelled && nextIndex < total) {
+      const index = nextIndex++;
+      const image = images[index];
+      if (!image) continue;
+
+      // Report progress before processing
+      currentImage = image.name;
+      reportProgress();
+
+      let result = await processSingleImage(
+        image,
+        settings,
+        exportSettings,
+        index,
+        filenames[index] ?? image.name,
+        pageOptions,
+        pool
+      );
+
+      if (onOutput && result.success) {
+        const output = result;
+        outputChain = outputChain.then(() => onOutput(output));
+        try {
+          await outputChain;
+        } catch (error) {
+          outputError ??= error;
+          cancelBatch();
+        }
+        result = releaseOutputBlob(result);
+      }
+      slots[index] = result;
+
+      completed++;
+      if (!result.success) {
+        failed++;
+      }
+
+      // Report progress after processing
+      reportProgress();
     }
+  };
 
-    // Report progress after processing
-    onProgress?.({
-      total,
-      completed,
-      failed,
-      currentImage: image.name,
-      results: [...results],
-    });
+  try {
+    await Promise.all(Array.from({ length: Math.min(concurrency, total) }, runNext));
+  } finally {
+    pool?.terminate();
+  }
+
+  if (outputError) {
+    throw outputError;
   }
 
   // Final progress report
-  onProgress?.({
-    total,
-    completed,
-    failed,
-    currentImage: '',
-    results: [...results],
-  });
+  currentImage = '';
+  reportProgress();
 
-  return results;
+  return collectResults();
 }
 
 // ============================================
@@ -411,56 +726,26 @@ export function getExtensionForFormat(format: ExportFormat): string {
 }
 
 /**
- * Export image with format conversion and quality settings
- * Requirements: 7.1, 7.2
- * 
- * @param blob - Source blob to convert
- * @param filename - Original filename
- * @param format - Target format
- * @param quality - Quality setting (0-100)
- * @returns Promise resolving to converted Blob
- */
-export async function exportImage(
-  blob: Blob,
-  _filename: string,
-  format: ExportFormat,
-  quality: number
-): Promise<Blob> {
-  // Create image from blob
-  const url = URL.createObjectURL(blob);
-  
+ * Look for an invisible mark in a suspected leaked page
+ * The page is read at its own size; a leak that was resized or cropped
+ * off the 8-pixel grid won't give the mark back.
+ *
+ * @param file - Image file to check
+ * @returns Verification result, with the payload when found
+ */
+export async function verifyInvisibleMark(file: Blob): Promise<InvisibleVerification> {
+  const url = URL.createObjectURL(file);
+
   try {
     const img = await loadImageFromUrl(url);
-    
-    // Create canvas and draw image
-    const canvas = document.createElement('canvas');
-    canvas.width = img.naturalWidth;
-    canvas.height = img.naturalHeight;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-      throw new ImageLoadError('Failed to create canvas context');
-    }
-    
+    const width = img.naturalWidth;
+    const height = img.naturalHeight;
+
+    const canvas = createCanvas(width, height);
+    const ctx = getRenderContext(canvas);
     ctx.drawImage(img, 0, 0);
-    
-    // Convert to target format
-    const mimeType = getMimeType(format);
-    const normalizedQuality = quality / 100; // Convert 0-100 to 0-1
-    
-    return new Promise((resolve, reject) => {
-      canvas.toBlob(
-        (resultBlob) => {
-          if (resultBlob) {
-            resolve(resultBlob);
-          } else {
-            reject(new ImageLoadError('Failed to export image'));
-          }
-        },
-        mimeType,
-        normalizedQuality
-      );
-    });
+
+    return extractMark(ctx.getImageData(0, 0, width, height).data, width, height);
   } finally {
     URL.revokeObjectURL(url);
   }
@@ -497,8 +782,7 @@ export function generateOutputFilename(
   format: ExportFormat
 ): string {
   // Remove original extension
-  const lastDotIndex = originalName.lastIndexOf('.');
-  const baseName = lastDotIndex > 0 ? originalName.substring(0, lastDotIndex) : originalName;
+  const baseName = removeExtension(originalName);
   
   // Get new extension
   const extension = getExtensionForFormat(format);
@@ -507,6 +791,46 @@ export function generateOutputFilename(
   return `${prefix}${baseName}${suffix}${extension}`;
 }
 
+/**
+ * Generate output filenames for a whole batch
+ * 
+ * Uses the batch rename pattern when enabled and valid, otherwise the
+ * prefix/suffix from export settings. Duplicates are made unique across
+ * the batch, before the extension is added.
+ * 
+ * @param originalNames - Original filenames, in list order
+ * @param exportSettings - Export settings (format, prefix, suffix)
+ * @param renameSettings - Optional batch rename settings
+ * @returns Output filenames, one per input name
+ */
+export function generateBatchFilenames(
+  originalNames: string[],
+  exportSettings: ExportSettings,
+  renameSettings?: RenameSettings | null
+): string[] {
+  const useRename = renameSettings?.enabled === true
+    && validatePattern(renameSettings.pattern.pattern).valid;
+
+  const baseNames = useRename
+    ? previewFilenames(renameSettings.pattern, originalNames)
+    : originalNames.map(name =>
+        `${exportSettings.filenamePrefix}${removeExtension(name)}${exportSettings.filenameSuffix}`
+      );
+
+  const extension = getExtensionForFormat(exportSettings.format);
+  return ensureUnique(baseNames).map(baseName => `${baseName}${extension}`);
+}
+
+/**
+ * Remove the extension from a filename
+ * @param filename - Filename with optional extension
+ * @returns Filename without its extension
+ */
+function removeExtension(filename: string): string {
+  const lastDotIndex = filename.lastIndexOf('.');
+  return lastDotIndex > 0 ? filename.substring(0, lastDotIndex) : filename;
+}
+
 // ============================================
 // ZIP Packaging
 // Requirements: 7.6
@@ -516,33 +840,105 @@ export function generateOutputFilename(
  * Export multiple processed images as a ZIP archive
  * Requirements: 7.6
  * 
+ * Pages are written one at a time through ZipStreamWriter, so a disk sink
+ * never holds the whole archive in memory.
+ * 
  * @param results - Array of processing results with blobs
- * @param zipFilename - Name for the ZIP file (without extension)
- * @returns Promise resolving to ZIP Blob
+ * @param sink - Destination for the archive bytes (in memory by default)
+ * @returns The archive for in-memory sinks, null for disk sinks
+ * @throws MemoryOverflowError (E007) if the archive exceeds its limits
  */
 export async function exportAsZip(
   results: ProcessingResult[],
-  _zipFilename: string = 'watermarked_images'
-): Promise<Blob> {
-  // Dynamically import JSZip to avoid bundling issues
-  const JSZip = (await import('jszip')).default;
-  const zip = new JSZip();
-  
-  // Add each successful result to the ZIP
-  for (const result of results) {
-    if (result.success && result.outputBlob && result.outputFilename) {
-      zip.file(result.outputFilename, result.outputBlob);
+  sink: ZipSink = createBlobSink()
+): Promise<Blob | null> {
+  const writer = new ZipStreamWriter(sink);
+
+  try {
+    for (const result of results) {
+      if (result.success && result.outputBlob && result.outputFilename) {
+        await writer.addFile(result.outputFilename, result.outputBlob);
+      }
     }
+    return await writer.finish();
+  } catch (error) {
+    await writer.abort();
+    throw error;
+  }
+}
+
+/**
+ * Process a batch and stream each page into an archive as it finishes
+ * 
+ * Pages are written to the sink as soon as they are rendered and their
+ * blobs are released, so memory use stays flat regardless of batch size.
+ * A cancelled batch still produces a valid archive of the finished pages.
+ * CBZ archives get a ComicInfo.xml and EPUB archives a fixed-layout
+ * package, both listing pages in list order.
+ * 
+ * @param images - Array of images to process
+ * @param settings - Watermark settings to apply
+ * @param exportSettings - Export settings
+ * @param sink - Destination for the archive bytes
+ * @param archiveSettings - Archive format and metadata
+ * @param onProgress - Callback for progress updates
+ * @param options - Optional pipeline stages
+ * @returns Results (without blobs) and the archive for in-memory sinks
+ * @throws MemoryOverflowError (E007) if the archive exceeds its limits
+ */
+export async function exportBatchAsArchive(
+  images: UploadedImage[],
+  settings: WatermarkSettings,
+  exportSettings: ExportSettings,
+  sink: ZipSink,
+  archiveSettings: ArchiveSettings,
+  onProgress?: (progress: BatchProcessingProgress) => void,
+  options: BatchProcessOptions = {}
+): Promise<{ results: ProcessingResult[]; archive: Blob | null }> {
+  const { format } = archiveSettings;
+  const writer = new ZipStreamWriter(sink);
+
+  // Plain ZIPs keep the output filenames; comic formats need entries
+  // that sort in reading order
+  const filenames = generateBatchFilenames(
+    images.map(image => image.name),
+    exportSettings,
+    options.renameSettings
+  );
+  const entryNames = format === 'zip' ? filenames : getArchiveEntryNames(filenames);
+  const indexById = new Map(images.map((image, index) => [image.id, index]));
+  const pages: Array<ArchivePage | undefined> = new Array(images.length);
+  const mimeType = getMimeType(exportSettings.format);
+
+  try {
+    await writeArchivePrologue(writer, format);
+
+    const results = await batchProcess(images, settings, exportSettings, onProgress, {
+      ...options,
+      onOutput: async (result) => {
+        const index = indexById.get(result.imageId);
+        const image = index === undefined ? undefined : images[index];
+        if (index === undefined || !image || !result.outputBlob) return;
+
+        const path = getArchivePagePath(format, entryNames[index] ?? image.name);
+        await writer.addFile(path, result.outputBlob);
+        pages[index] = { path, mimeType, ...getOutputDimensions(image, options) };
+      },
+    });
+
+    await writeArchiveEpilogue(
+      writer,
+      archiveSettings,
+      options.renameSettings?.pattern.chapter ?? '',
+      pages.filter((page): page is ArchivePage => page !== undefined)
+    );
+
+    const archive = await writer.finish();
+    return { results, archive };
+  } catch (error) {
+    await writer.abort();
+    throw error;
   }
-  
-  // Generate the ZIP file
-  const zipBlob = await zip.generateAsync({ 
-    type: 'blob',
-    compression: 'DEFLATE',
-    compressionOptions: { level: 6 }
-  });
-  
-  return zipBlob;
 }
 
 /**
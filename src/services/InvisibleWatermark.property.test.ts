@@ -0,0 +1,344 @@
+/**
+ * Property-Based Tests for InvisibleWatermark Service
+ *
+ * **Feature: manga-watermark-tool, Property 39: Invisible Watermark**
+ * **Validates: Embedding and verifying an invisible mark that survives re-encoding**
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  encodePayload,
+  decodePayload,
+  embedMark,
+  extractMark,
+  canHoldMark,
+} from './InvisibleWatermark';
+import { renderPage } from './PageRenderer';
+import {
+  INVISIBLE_STRENGTHS,
+  type InvisiblePayload,
+  type InvisibleStrength,
+} from '@/types';
+
+const PAGE_WIDTH = 256;
+const PAGE_HEIGHT = 256;
+
+// Standard JPEG luminance quantization table
+const LUMA_TABLE = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+// DCT matrix (row = frequency, column = pixel) and its transpose, the inverse
+const DCT = Float64Array.from({ length: 64 }, (_, i) => {
+  const u = i >> 3;
+  const x = i & 7;
+  return (u === 0 ? Math.SQRT1_2 : 1) * 0.5 * Math.cos((2 * x + 1) * u * Math.PI / 16);
+});
+const INVERSE_DCT = Float64Array.from({ length: 64 }, (_, i) => DCT[(i & 7) * 8 + (i >> 3)]!);
+
+/**
+ * Apply a DCT matrix to the rows then the columns of an 8x8 block
+ */
+function transform(block: Float64Array, matrix: Float64Array): Float64Array {
+  const rows = new Float64Array(64);
+  const result = new Float64Array(64);
+  for (let y = 0; y < 8; y++) {
+    for (let k = 0; k < 8; k++) {
+      let sum = 0;
+      for (let n = 0; n < 8; n++) {
+        sum += block[y * 8 + n]! * matrix[k * 8 + n]!;
+      }
+      rows[y * 8 + k] = sum;
+    }
+  }
+  for (let x = 0; x < 8; x++) {
+    for (let k = 0; k < 8; k++) {
+      let sum = 0;
+      for (let n = 0; n < 8; n++) {
+        sum += rows[n * 8 + x]! * matrix[k * 8 + n]!;
+      }
+      result[k * 8 + x] = sum;
+    }
+  }
+  return result;
+}
+
+/**
+ * Re-encode a grayscale page as a baseline JPEG encoder would: quantize the
+ * DCT of each 8x8 block with the luminance table scaled to the quality
+ */
+function simulateJpeg(data: Uint8ClampedArray, width: number, height: number, quality: number): Uint8ClampedArray {
+  const scale = quality < 50 ? 5000 / quality : 200 - quality * 2;
+  const table = LUMA_TABLE.map(q => Math.max(1, Math.floor((q * scale + 50) / 100)));
+  const output = data.slice();
+  const block = new Float64Array(64);
+
+  for (let by = 0; by + 8 <= height; by += 8) {
+    for (let bx = 0; bx + 8 <= width; bx += 8) {
+      for (let i = 0; i < 64; i++) {
+        block[i] = data[((by + (i >> 3)) * width + bx + (i & 7)) * 4]! - 128;
+      }
+
+      // Forward DCT, quantize and dequantize, then inverse DCT
+      const coefficients = transform(block, DCT);
+      for (let k = 0; k < 64; k++) {
+        coefficients[k] = Math.round(coefficients[k]! / table[k]!) * table[k]!;
+      }
+      const pixels = transform(coefficients, INVERSE_DCT);
+      for (let i = 0; i < 64; i++) {
+        const p = ((by + (i >> 3)) * width + bx + (i & 7)) * 4;
+        output[p] = output[p + 1] = output[p + 2] = Math.round(pixels[i]! + 128);
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Create a grayscale page: white paper with panels of flat tone and a
+ * gradient, like a scanned manga page
+ */
+function createPage(panels: Array<{ x: number; y: number; size: number; tone: number }>): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(PAGE_WIDTH * PAGE_HEIGHT * 4).fill(255);
+  for (const { x, y, size, tone } of panels) {
+    for (let py = y; py < Math.min(PAGE_HEIGHT, y + size); py++) {
+      for (let px = x; px < Math.min(PAGE_WIDTH, x + size); px++) {
+        const i = (py * PAGE_WIDTH + px) * 4;
+        data[i] = data[i + 1] = data[i + 2] = (tone + px - x) % 256;
+      }
+    }
+  }
+  return data;
+}
+
+/**
+ * Back canvases with pixel buffers and encode them with simulateJpeg, so
+ * renderPage crops, embeds and encodes real pixels
+ * @returns Pixels of each canvas, pixels of each encoded Blob, and a restore function
+ */
+function mockPixelCanvases() {
+  const pixels = new WeakMap<HTMLCanvasElement, Uint8ClampedArray>();
+  const encoded = new WeakMap<Blob, Uint8ClampedArray>();
+  const getPixels = (canvas: HTMLCanvasElement) => {
+    let data = pixels.get(canvas);
+    if (!data) {
+      data = new Uint8ClampedArray(canvas.width * canvas.height * 4);
+      pixels.set(canvas, data);
+    }
+    return data;
+  };
+
+  const getContext = vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (
+    this: HTMLCanvasElement
+  ) {
+    const canvas = this;
+    return {
+      canvas,
+      drawImage: (source: HTMLCanvasElement, sx: number, sy: number, sw: number, sh: number, dx: number, dy: number) => {
+        const from = getPixels(source);
+        const to = getPixels(canvas);
+        for (let y = 0; y < sh; y++) {
+          const start = ((sy + y) * source.width + sx) * 4;
+          to.set(from.subarray(start, start + sw * 4), ((dy + y) * canvas.width + dx) * 4);
+        }
+      },
+      getImageData: (x: number, y: number, width: number, height: number) => {
+        expect({ x, y, width, height }).toEqual({ x: 0, y: 0, width: canvas.width, height: canvas.height });
+        return { data: getPixels(canvas).slice(), width, height };
+      },
+      putImageData: (imageData: ImageData) => getPixels(canvas).set(imageData.data),
+    } as unknown as CanvasRenderingContext2D;
+  } as unknown as typeof HTMLCanvasElement.prototype.getContext);
+
+  const toBlob = vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation(function (
+    this: HTMLCanvasElement,
+    callback: BlobCallback,
+    type?: string,
+    quality?: number
+  ) {
+    const data = getPixels(this);
+    const blob = new Blob([], { type: type ?? 'image/png' });
+    encoded.set(blob, type === 'image/jpeg'
+      ? simulateJpeg(data, this.width, this.height, Math.round((quality ?? 1) * 100))
+      : data.slice());
+    callback(blob);
+  });
+
+  return {
+    pixels,
+    encoded,
+    restore: () => {
+      getContext.mockRestore();
+      toBlob.mockRestore();
+    },
+  };
+}
+
+// Arbitrary generator for panels of a page
+const arbPanels = fc.array(
+  fc.record({
+    x: fc.integer({ min: 0, max: PAGE_WIDTH - 1 }),
+    y: fc.integer({ min: 0, max: PAGE_HEIGHT - 1 }),
+    size: fc.integer({ min: 8, max: 96 }),
+    tone: fc.integer({ min: 0, max: 255 }),
+  }),
+  { maxLength: 6 }
+);
+
+// Arbitrary generator for a payload that fits in full
+const arbPayload: fc.Arbitrary<InvisiblePayload> = fc.record({
+  groupId: fc.stringMatching(/^[A-Za-z0-9 ]{0,12}$/),
+  chapter: fc.stringMatching(/^[0-9.]{0,6}$/),
+  timestamp: fc.integer({ min: 0, max: 0xffffffff }),
+});
+
+describe('Property 39: Invisible Watermark', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 39: Invisible Watermark**
+   * **Validates: Embedding and verifying an invisible mark that survives re-encoding**
+   *
+   * Encoding then decoding a payload SHALL give it back, with long text
+   * truncated to fit, and any damaged byte SHALL be rejected.
+   */
+  it('should round-trip payloads and reject damaged ones', () => {
+    fc.assert(
+      fc.property(
+        arbPayload,
+        fc.string({ maxLength: 40 }),
+        fc.nat(),
+        fc.integer({ min: 1, max: 255 }),
+        (payload, longGroupId, index, flip) => {
+          expect(decodePayload(encodePayload(payload))).toEqual(payload);
+
+          const truncated = decodePayload(encodePayload({ ...payload, groupId: longGroupId }));
+          expect(truncated).not.toBeNull();
+          expect(longGroupId.startsWith(truncated!.groupId)).toBe(true);
+
+          const damaged = encodePayload(payload);
+          damaged[index % damaged.length]! ^= flip;
+          expect(decodePayload(damaged)).toBeNull();
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 39: Invisible Watermark**
+   * **Validates: Embedding and verifying an invisible mark that survives re-encoding**
+   *
+   * A marked page SHALL give back its payload as exported (PNG) and after
+   * JPEG re-encoding at the strength's minimum quality (90, 75 or 60).
+   */
+  it('should survive PNG and JPEG re-encoding', () => {
+    fc.assert(
+      fc.property(
+        arbPanels,
+        arbPayload,
+        fc.constantFrom<InvisibleStrength>('low', 'medium', 'high'),
+        (panels, payload, strength) => {
+          const page = createPage(panels);
+          expect(embedMark(page, PAGE_WIDTH, PAGE_HEIGHT, { payload, strength })).toBe(true);
+
+          for (const quality of [100, INVISIBLE_STRENGTHS[strength].minQuality]) {
+            const exported = quality === 100 ? page : simulateJpeg(page, PAGE_WIDTH, PAGE_HEIGHT, quality);
+            const result = extractMark(exported, PAGE_WIDTH, PAGE_HEIGHT);
+
+            expect(result.found).toBe(true);
+            expect(result.payload).toEqual(payload);
+            expect(result.confidence).toBeGreaterThan(0);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 39: Invisible Watermark**
+   * **Validates: Embedding and verifying an invisible mark that survives re-encoding**
+   *
+   * A cropped page exported through renderPage SHALL give back its payload
+   * as PNG and as JPEG at every quality down to the strength's minimum.
+   */
+  it('should survive export through the page renderer', async () => {
+    const canvases = mockPixelCanvases();
+    try {
+      await fc.assert(
+        fc.asyncProperty(
+          arbPanels,
+          arbPayload,
+          fc.constantFrom<InvisibleStrength>('low', 'medium', 'high'),
+          fc.integer({ min: 0, max: 15 }),
+          fc.integer({ min: 0, max: 15 }),
+          async (panels, payload, strength, x, y) => {
+            // Place the page inside a larger scan, so the crop shifts it off the block grid
+            const source = document.createElement('canvas');
+            source.width = PAGE_WIDTH + x;
+            source.height = PAGE_HEIGHT + y;
+            const scan = new Uint8ClampedArray(source.width * source.height * 4).fill(255);
+            const page = createPage(panels);
+            for (let row = 0; row < PAGE_HEIGHT; row++) {
+              const start = row * PAGE_WIDTH * 4;
+              scan.set(page.subarray(start, start + PAGE_WIDTH * 4), ((y + row) * source.width + x) * 4);
+            }
+            canvases.pixels.set(source, scan);
+
+            const { minQuality } = INVISIBLE_STRENGTHS[strength];
+            const exports = [
+              { mimeType: 'image/png', quality: 100 },
+              ...[100, 95, minQuality].map(quality => ({ mimeType: 'image/jpeg', quality })),
+            ];
+
+            for (const output of exports) {
+              const blob = await renderPage(source, { layers: [], enabled: false }, {
+                region: { x, y, width: PAGE_WIDTH, height: PAGE_HEIGHT },
+                invisibleMark: { payload, strength },
+                ...output,
+              });
+              const result = extractMark(canvases.encoded.get(blob)!, PAGE_WIDTH, PAGE_HEIGHT);
+
+              expect(blob.type).toBe(output.mimeType);
+              expect(result.found).toBe(true);
+              expect(result.payload).toEqual(payload);
+            }
+          }
+        ),
+        { numRuns: 20 }
+      );
+    } finally {
+      canvases.restore();
+    }
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 39: Invisible Watermark**
+   * **Validates: Embedding and verifying an invisible mark that survives re-encoding**
+   *
+   * An unmarked page SHALL NOT report a mark, and a page too small for the
+   * payload SHALL be left unchanged.
+   */
+  it('should not find a mark in unmarked or too small pages', () => {
+    fc.assert(
+      fc.property(arbPanels, arbPayload, (panels, payload) => {
+        const page = createPage(panels);
+        expect(extractMark(page, PAGE_WIDTH, PAGE_HEIGHT).found).toBe(false);
+
+        const small = new Uint8ClampedArray(64 * 64 * 4).fill(255);
+        expect(canHoldMark(64, 64)).toBe(false);
+        expect(embedMark(small, 64, 64, { payload, strength: 'high' })).toBe(false);
+        expect(small.every(value => value === 255)).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
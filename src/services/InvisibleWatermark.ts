@@ -0,0 +1,338 @@
+/**
+ * InvisibleWatermark Service
+ * Hides a small payload (group ID, chapter and export time) in the DCT of
+ * each 8x8 block of a page, and reads it back from a suspected leak.
+ *
+ * Every block carries one payload bit by quantizing a low-frequency luma
+ * coefficient onto one of two interleaved lattices. The bits are repeated
+ * over blocks in a keyed order across the whole page and read back by
+ * majority, so the mark survives PNG and moderate JPEG re-encoding (JPEG
+ * uses the same block grid). Resizing or cropping that shifts the grid
+ * destroys it, so the mark is embedded after the page is resized.
+ *
+ * Works on raw pixels, so it runs on the main thread and in render workers.
+ */
+
+import type {
+  InvisibleMark,
+  InvisiblePayload,
+  InvisibleStrength,
+  InvisibleVerification,
+} from '@/types';
+import { INVISIBLE_STRENGTHS, INVISIBLE_TEXT_BYTES } from '@/types';
+import type { Dimensions } from '@/utils/position';
+import { createSeededRandom } from '@/utils/random';
+import type { RenderContext } from './WatermarkRenderer';
+import { crc32 } from './ZipWriter';
+
+const BLOCK_SIZE = 8;
+const PAYLOAD_VERSION = 1;
+const TEXT_SEPARATOR = '\u001f';
+// Seeds the block order and dither; marks are only readable with the same key
+const MARK_KEY = 0x4d574d54;
+
+/**
+ * Payload bytes: version, timestamp (4), group ID and chapter, CRC-32 (4)
+ */
+export const PAYLOAD_BYTES = 1 + 4 + INVISIBLE_TEXT_BYTES + 4;
+export const PAYLOAD_BITS = PAYLOAD_BYTES * 8;
+
+/**
+ * Orthonormal DCT basis of the marked coefficient (u = 1, v = 1)
+ */
+const BASIS = (() => {
+  const basis = new Float64Array(BLOCK_SIZE * BLOCK_SIZE);
+  for (let y = 0; y < BLOCK_SIZE; y++) {
+    for (let x = 0; x < BLOCK_SIZE; x++) {
+      basis[y * BLOCK_SIZE + x] =
+        0.25 * Math.cos((2 * x + 1) * Math.PI / 16) * Math.cos((2 * y + 1) * Math.PI / 16);
+    }
+  }
+  return basis;
+})();
+
+/**
+ * Bit carried by each block and its dither
+ */
+interface BlockLayout {
+  bits: Uint16Array;
+  dither: Float64Array;
+}
+
+/**
+ * Check if a page has enough blocks to hold the payload
+ */
+export function canHoldMark(width: number, height: number): boolean {
+  return Math.floor(width / BLOCK_SIZE) * Math.floor(height / BLOCK_SIZE) >= PAYLOAD_BITS;
+}
+
+/**
+ * Truncate a string to a number of UTF-8 bytes without splitting a character
+ */
+function truncateUtf8(text: string, maxBytes: number): Uint8Array {
+  const encoder = new TextEncoder();
+  let bytes = encoder.encode(text);
+  if (bytes.length <= maxBytes) {
+    return bytes;
+  }
+
+  const chars = Array.from(text);
+  while (bytes.length > maxBytes) {
+    chars.pop();
+    bytes = encoder.encode(chars.join(''));
+  }
+  return bytes;
+}
+
+/**
+ * Encode a payload to bytes
+ * The group ID and chapter share INVISIBLE_TEXT_BYTES and are truncated to fit.
+ *
+ * @param payload - Payload to encode
+ * @returns PAYLOAD_BYTES bytes, ending with a CRC-32 of the rest
+ */
+export function encodePayload(payload: InvisiblePayload): Uint8Array {
+  const bytes = new Uint8Array(PAYLOAD_BYTES);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint8(0, PAYLOAD_VERSION);
+  view.setUint32(1, Math.max(0, Math.min(0xffffffff, Math.floor(payload.timestamp))));
+  bytes.set(truncateUtf8(`${payload.groupId}${TEXT_SEPARATOR}${payload.chapter}`, INVISIBLE_TEXT_BYTES), 5);
+  view.setUint32(PAYLOAD_BYTES - 4, crc32(bytes.subarray(0, PAYLOAD_BYTES - 4)));
+
+  return bytes;
+}
+
+/**
+ * Decode payload bytes
+ * @param bytes - PAYLOAD_BYTES bytes
+ * @returns The payload, or null if the version or checksum doesn't match
+ */
+export function decodePayload(bytes: Uint8Array): InvisiblePayload | null {
+  if (bytes.length !== PAYLOAD_BYTES) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (view.getUint8(0) !== PAYLOAD_VERSION) return null;
+  if (view.getUint32(PAYLOAD_BYTES - 4) !== crc32(bytes.subarray(0, PAYLOAD_BYTES - 4))) return null;
+
+  const textBytes = bytes.subarray(5, 5 + INVISIBLE_TEXT_BYTES);
+  const end = textBytes.indexOf(0);
+  const text = new TextDecoder().decode(end === -1 ? textBytes : textBytes.subarray(0, end));
+  const separator = text.indexOf(TEXT_SEPARATOR);
+
+  return {
+    groupId: separator === -1 ? text : text.slice(0, separator),
+    chapter: separator === -1 ? '' : text.slice(separator + 1),
+    timestamp: view.getUint32(1),
+  };
+}
+
+/**
+ * Assign payload bits to blocks in a keyed, shuffled order, so each bit is
+ * spread over the whole page instead of one region
+ * @param blockCount - Number of blocks on the page
+ * @returns Bit index and dither of each block
+ */
+function getBlockLayout(blockCount: number): BlockLayout {
+  const random = createSeededRandom(MARK_KEY);
+  const order = Array.from({ length: blockCount }, (_, i) => i);
+  for (let i = blockCount - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j]!, order[i]!];
+  }
+
+  const bits = new Uint16Array(blockCount);
+  const dither = new Float64Array(blockCount);
+  order.forEach((block, position) => {
+    bits[block] = position % PAYLOAD_BITS;
+  });
+  for (let block = 0; block < blockCount; block++) {
+    dither[block] = random();
+  }
+
+  return { bits, dither };
+}
+
+/**
+ * Get the marked DCT coefficient of the luma of a block
+ */
+function getBlockCoefficient(data: Uint8ClampedArray, width: number, blockX: number, blockY: number): number {
+  let coefficient = 0;
+  for (let y = 0; y < BLOCK_SIZE; y++) {
+    for (let x = 0; x < BLOCK_SIZE; x++) {
+      const i = ((blockY * BLOCK_SIZE + y) * width + blockX * BLOCK_SIZE + x) * 4;
+      const luma = 0.299 * data[i]! + 0.587 * data[i + 1]! + 0.114 * data[i + 2]!;
+      coefficient += luma * BASIS[y * BLOCK_SIZE + x]!;
+    }
+  }
+  return coefficient;
+}
+
+/**
+ * Add a multiple of the basis to a block, equally on every channel
+ * The block is shifted as a whole when the change would clip, which leaves
+ * the marked coefficient untouched.
+ */
+function addToBlock(
+  data: Uint8ClampedArray,
+  width: number,
+  blockX: number,
+  blockY: number,
+  amount: number
+): void {
+  let min = 255;
+  let max = 0;
+  for (let y = 0; y < BLOCK_SIZE; y++) {
+    for (let x = 0; x < BLOCK_SIZE; x++) {
+      const i = ((blockY * BLOCK_SIZE + y) * width + blockX * BLOCK_SIZE + x) * 4;
+      const delta = amount * BASIS[y * BLOCK_SIZE + x]!;
+      for (let c = 0; c < 3; c++) {
+        min = Math.min(min, data[i + c]! + delta);
+        max = Math.max(max, data[i + c]! + delta);
+      }
+    }
+  }
+  const shift = max > 255 ? Math.max(255 - max, -min) : min < 0 ? Math.min(-min, 255 - max) : 0;
+
+  for (let y = 0; y < BLOCK_SIZE; y++) {
+    for (let x = 0; x < BLOCK_SIZE; x++) {
+      const i = ((blockY * BLOCK_SIZE + y) * width + blockX * BLOCK_SIZE + x) * 4;
+      const delta = amount * BASIS[y * BLOCK_SIZE + x]! + shift;
+      for (let c = 0; c < 3; c++) {
+        data[i + c] = Math.round(data[i + c]! + delta);
+      }
+    }
+  }
+}
+
+/**
+ * Embed a mark in RGBA pixels in place
+ * @param data - RGBA pixels
+ * @param width - Page width
+ * @param height - Page height
+ * @param mark - Payload and strength
+ * @returns False when the page is too small to hold the payload
+ */
+export function embedMark(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  mark: InvisibleMark
+): boolean {
+  if (!canHoldMark(width, height)) {
+    return false;
+  }
+
+  const blocksX = Math.floor(width / BLOCK_SIZE);
+  const blockCount = blocksX * Math.floor(height / BLOCK_SIZE);
+  const { bits, dither } = getBlockLayout(blockCount);
+  const payload = encodePayload(mark.payload);
+  const step = INVISIBLE_STRENGTHS[mark.strength].step;
+
+  for (let block = 0; block < blockCount; block++) {
+    const bitIndex = bits[block]!;
+    const bit = (payload[bitIndex >> 3]! >> (7 - (bitIndex & 7))) & 1;
+    const blockX = block % blocksX;
+    const blockY = Math.floor(block / blocksX);
+
+    // Snap the coefficient to the nearest point of the bit's lattice
+    const coefficient = getBlockCoefficient(data, width, blockX, blockY);
+    const offset = dither[block]! * step + (bit ? step / 2 : 0);
+    const target = Math.round((coefficient - offset) / step) * step + offset;
+    addToBlock(data, width, blockX, blockY, target - coefficient);
+  }
+
+  return true;
+}
+
+/**
+ * Read the payload bits at one strength
+ * @returns The bits and their average agreement
+ */
+function readBits(
+  coefficients: Float64Array,
+  layout: BlockLayout,
+  step: number
+): { bytes: Uint8Array; confidence: number } {
+  const votes = new Float64Array(PAYLOAD_BITS);
+  const counts = new Uint32Array(PAYLOAD_BITS);
+
+  for (let block = 0; block < coefficients.length; block++) {
+    const bitIndex = layout.bits[block]!;
+    const position = (coefficients[block]! - layout.dither[block]! * step) / step;
+    // +1 on the lattice of 0, -1 on the lattice of 1
+    votes[bitIndex]! += Math.cos(2 * Math.PI * (position - Math.floor(position)));
+    counts[bitIndex]!++;
+  }
+
+  const bytes = new Uint8Array(PAYLOAD_BYTES);
+  let agreement = 0;
+  for (let bitIndex = 0; bitIndex < PAYLOAD_BITS; bitIndex++) {
+    if (votes[bitIndex]! < 0) {
+      bytes[bitIndex >> 3]! |= 1 << (7 - (bitIndex & 7));
+    }
+    agreement += Math.abs(votes[bitIndex]!) / Math.max(1, counts[bitIndex]!);
+  }
+
+  return { bytes, confidence: agreement / PAYLOAD_BITS };
+}
+
+/**
+ * Look for a mark in RGBA pixels
+ * Every strength is tried; a mark is found when its checksum matches.
+ *
+ * @param data - RGBA pixels
+ * @param width - Page width
+ * @param height - Page height
+ * @returns The payload when found, and how strongly the repeated bits agree
+ */
+export function extractMark(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number
+): InvisibleVerification {
+  const notFound: InvisibleVerification = { found: false, payload: null, strength: null, confidence: 0 };
+  if (!canHoldMark(width, height)) {
+    return notFound;
+  }
+
+  const blocksX = Math.floor(width / BLOCK_SIZE);
+  const blockCount = blocksX * Math.floor(height / BLOCK_SIZE);
+  const layout = getBlockLayout(blockCount);
+  const coefficients = new Float64Array(blockCount);
+  for (let block = 0; block < blockCount; block++) {
+    coefficients[block] = getBlockCoefficient(data, width, block % blocksX, Math.floor(block / blocksX));
+  }
+
+  let best = notFound;
+  for (const strength of Object.keys(INVISIBLE_STRENGTHS) as InvisibleStrength[]) {
+    const { bytes, confidence } = readBits(coefficients, layout, INVISIBLE_STRENGTHS[strength].step);
+    const payload = decodePayload(bytes);
+
+    if (payload && (!best.found || confidence > best.confidence)) {
+      best = { found: true, payload, strength, confidence };
+    } else if (!best.found && confidence > best.confidence) {
+      best = { ...notFound, confidence };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Embed a mark in the page drawn on a canvas
+ * @param ctx - Context holding the page
+ * @param mark - Payload and strength
+ * @param size - Size of the page on the canvas
+ * @returns False when the page is too small to hold the payload
+ */
+export function applyInvisibleMark(ctx: RenderContext, mark: InvisibleMark, size: Dimensions): boolean {
+  if (!canHoldMark(size.width, size.height)) {
+    return false;
+  }
+
+  const imageData = ctx.getImageData(0, 0, size.width, size.height);
+  embedMark(imageData.data, size.width, size.height, mark);
+  ctx.putImageData(imageData, 0, 0);
+  return true;
+}
@@ -0,0 +1,170 @@
+/**
+ * Property-Based Tests for PageOverrides Service
+ *
+ * **Feature: manga-watermark-tool, Property 35: Page Overrides**
+ * **Validates: Per-page watermark overrides on top of the global settings**
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  hasWatermarkOverride,
+  resolvePageSettings,
+  setLayerOverride,
+  setPageEnabledOverride,
+} from './PageOverrides';
+import { convertPositionUnits } from '@/utils/position';
+import {
+  arbPresetPosition,
+  arbOffset,
+  arbWatermarkSettings,
+  arbCanvasDimensions,
+} from '@/test/helpers';
+import { POSITION_UNITS } from '@/types';
+
+// Page the overrides are resolved against
+const PAGE = { width: 1000, height: 1500 };
+
+describe('Property 35: Page Overrides', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 35: Page Overrides**
+   * **Validates: Per-page watermark overrides on top of the global settings**
+   *
+   * A page without overrides SHALL use the global settings unchanged.
+   */
+  it('should use the global settings when a page has no override', () => {
+    fc.assert(
+      fc.property(arbWatermarkSettings, (settings) => {
+        expect(resolvePageSettings(settings, undefined, PAGE)).toBe(settings);
+        expect(resolvePageSettings(settings, null, PAGE)).toBe(settings);
+        expect(hasWatermarkOverride(null)).toBe(false);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 35: Page Overrides**
+   * **Validates: Per-page watermark overrides on top of the global settings**
+   *
+   * Overridden fields SHALL replace the global ones on that layer only,
+   * while fields the layer's type does not have are ignored.
+   */
+  it('should merge layer overrides over the global layer', () => {
+    fc.assert(
+      fc.property(
+        arbWatermarkSettings,
+        fc.nat(),
+        arbPresetPosition,
+        arbOffset,
+        fc.boolean(),
+        (settings, index, presetPosition, offsetX, enabled) => {
+          const target = settings.layers[index % settings.layers.length]!;
+          const override = setLayerOverride(null, target.id, {
+            enabled,
+            position: { presetPosition, offsetX },
+            config: {
+              text: 'Page text',
+              imageData: 'data:image/png;base64,',
+              fontSize: 40,
+              scale: 2,
+              size: 77,
+              opacity: 33,
+            },
+          });
+
+          const resolved = resolvePageSettings(settings, override, PAGE);
+
+          expect(resolved.enabled).toBe(settings.enabled);
+          resolved.layers.forEach((layer, i) => {
+            const global = settings.layers[i]!;
+            if (global.id !== target.id) {
+              expect(layer).toEqual(global);
+              return;
+            }
+            expect(layer.enabled).toBe(enabled);
+            expect(layer.position).toEqual({ ...global.position, presetPosition, offsetX });
+            expect(layer.config.type).toBe(global.config.type);
+            expect(layer.config.opacity).toBe(33);
+            if (layer.config.type === 'text') {
+              expect(layer.config.text).toBe('Page text');
+              expect(layer.config.fontSize).toBe(40);
+              expect('imageData' in layer.config).toBe(false);
+            } else if (layer.config.type === 'image') {
+              expect(layer.config.imageData).toBe('data:image/png;base64,');
+              expect(layer.config.scale).toBe(2);
+              expect('text' in layer.config).toBe(false);
+            } else {
+              expect(layer.config).toEqual({ ...global.config, size: 77, opacity: 33 });
+            }
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 35: Page Overrides**
+   * **Validates: Per-page watermark overrides on top of the global settings**
+   *
+   * An override SHALL keep its place on the page when the layer later
+   * switches between px and %, since its offsets are read in the unit they
+   * were saved in.
+   */
+  it('should convert overrides saved in another unit', () => {
+    fc.assert(
+      fc.property(
+        arbWatermarkSettings,
+        fc.constantFrom(...POSITION_UNITS),
+        arbCanvasDimensions,
+        arbOffset,
+        arbOffset,
+        (settings, unit, page, offsetX, offsetY) => {
+          const target = settings.layers[0]!;
+          const override = setLayerOverride(null, target.id, {
+            position: { presetPosition: 'custom', offsetX, offsetY, unit },
+          });
+          const saved = convertPositionUnits({ ...target.position, unit, offsetX, offsetY }, 'px', page);
+
+          const resolved = resolvePageSettings(settings, override, page).layers[0]!.position;
+          const placed = convertPositionUnits(resolved, 'px', page);
+
+          expect(resolved.unit).toBe(target.position.unit);
+          expect(resolved.presetPosition).toBe('custom');
+          expect(placed.offsetX).toBeCloseTo(saved.offsetX, 6);
+          expect(placed.offsetY).toBeCloseTo(saved.offsetY, 6);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 35: Page Overrides**
+   * **Validates: Per-page watermark overrides on top of the global settings**
+   *
+   * Hiding the watermark on a page SHALL override the global switch, and
+   * clearing every change SHALL return the page to the global settings.
+   */
+  it('should reset to global when nothing is overridden', () => {
+    fc.assert(
+      fc.property(arbWatermarkSettings, fc.boolean(), (settings, enabled) => {
+        const layerId = settings.layers[0]!.id;
+
+        const hidden = setPageEnabledOverride(null, enabled);
+        expect(resolvePageSettings(settings, hidden, PAGE).enabled).toBe(enabled);
+        expect(hasWatermarkOverride(hidden)).toBe(true);
+
+        const moved = setLayerOverride(hidden, layerId, { position: { presetPosition: 'center' } });
+        expect(moved?.enabled).toBe(enabled);
+
+        const cleared = setPageEnabledOverride(setLayerOverride(moved, layerId, null), null);
+        expect(cleared).toBeNull();
+        expect(setLayerOverride(null, layerId, {})).toBeNull();
+        expect(resolvePageSettings(settings, cleared, PAGE)).toBe(settings);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
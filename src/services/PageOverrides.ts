@@ -0,0 +1,151 @@
+/**
+ * PageOverrides Service
+ * Merges per-page watermark overrides over the global settings, so single
+ * pages (a cover, a double spread) can move or hide the watermark
+ */
+
+import type {
+  LayerOverride,
+  WatermarkConfig,
+  WatermarkOverride,
+  WatermarkPosition,
+  WatermarkSettings,
+} from '@/types';
+import { convertPositionUnits, type Dimensions } from '@/utils/position';
+
+/**
+ * Merge a position override over the layer's position
+ * Offsets and margins are read in the unit the override was made in, and
+ * converted when the layer has since switched between px and %. Overrides
+ * without a unit are in the layer's unit.
+ *
+ * @param position - Position of the global layer
+ * @param override - Overridden position fields
+ * @param pageSize - Dimensions of the page (after crop)
+ * @returns Position of the layer on the page, in the layer's unit
+ */
+function mergePositionOverride(
+  position: WatermarkPosition,
+  override: Partial<WatermarkPosition> | undefined,
+  pageSize: Dimensions
+): WatermarkPosition {
+  const unit = override?.unit ?? position.unit;
+  const merged = { ...convertPositionUnits(position, unit, pageSize), ...override };
+  return convertPositionUnits(merged, position.unit, pageSize);
+}
+
+/**
+ * Resolve the watermark settings that apply to a page
+ * Config overrides only apply fields the layer's watermark type has, so an
+ * override stays harmless when the global layer changes type.
+ *
+ * @param settings - Global watermark settings
+ * @param override - Overrides stored on the page
+ * @param pageSize - Dimensions of the page (after crop), to convert overrides made in another unit
+ * @returns Settings for the page, or the global settings when nothing is overridden
+ */
+export function resolvePageSettings(
+  settings: WatermarkSettings,
+  override: WatermarkOverride | null | undefined,
+  pageSize: Dimensions
+): WatermarkSettings {
+  if (!override) {
+    return settings;
+  }
+
+  return {
+    enabled: override.enabled ?? settings.enabled,
+    layers: settings.layers.map(layer => {
+      const layerOverride = override.layers[layer.id];
+      if (!layerOverride) {
+        return layer;
+      }
+
+      const configOverride = Object.entries(layerOverride.config ?? {})
+        .filter(([key]) => key !== 'type' && key in layer.config);
+
+      return {
+        ...layer,
+        enabled: layerOverride.enabled ?? layer.enabled,
+        config: { ...layer.config, ...Object.fromEntries(configOverride) } as WatermarkConfig,
+        position: mergePositionOverride(layer.position, layerOverride.position, pageSize),
+      };
+    }),
+  };
+}
+
+/**
+ * Check if a layer override changes anything
+ */
+function isEmptyLayerOverride(override: LayerOverride): boolean {
+  return (
+    override.enabled === undefined &&
+    Object.keys(override.position ?? {}).length === 0 &&
+    Object.keys(override.config ?? {}).length === 0
+  );
+}
+
+/**
+ * Check if a page overrides the global watermark
+ * @param override - Overrides stored on the page
+ * @returns true if anything on the page differs from the global settings
+ */
+export function hasWatermarkOverride(override?: WatermarkOverride | null): boolean {
+  if (!override) {
+    return false;
+  }
+  return (
+    override.enabled !== undefined ||
+    Object.values(override.layers).some(layer => !isEmptyLayerOverride(layer))
+  );
+}
+
+/**
+ * Drop an override that no longer changes anything
+ */
+function normalizeOverride(override: WatermarkOverride): WatermarkOverride | null {
+  return hasWatermarkOverride(override) ? override : null;
+}
+
+/**
+ * Replace the override of one layer on a page
+ * @param override - Current overrides of the page
+ * @param layerId - ID of the layer
+ * @param layerOverride - New override for the layer, or null to follow the global layer
+ * @returns Updated overrides, or null when the page follows the global settings
+ */
+export function setLayerOverride(
+  override: WatermarkOverride | null | undefined,
+  layerId: string,
+  layerOverride: LayerOverride | null
+): WatermarkOverride | null {
+  const layers = { ...override?.layers };
+  if (layerOverride && !isEmptyLayerOverride(layerOverride)) {
+    layers[layerId] = layerOverride;
+  } else {
+    delete layers[layerId];
+  }
+
+  const updated: WatermarkOverride = { layers };
+  if (override?.enabled !== undefined) {
+    updated.enabled = override.enabled;
+  }
+  return normalizeOverride(updated);
+}
+
+/**
+ * Show or hide the whole watermark on a page
+ * @param override - Current overrides of the page
+ * @param enabled - Whether the watermark is shown, or null to follow the global settings
+ * @returns Updated overrides, or null when the page follows the global settings
+ */
+export function setPageEnabledOverride(
+  override: WatermarkOverride | null | undefined,
+  enabled: boolean | null
+): WatermarkOverride | null {
+  const updated: WatermarkOverride = { layers: { ...override?.layers } };
+  if (enabled !== null) {
+    updated.enabled = enabled;
+  }
+  return normalizeOverride(updated);
+}
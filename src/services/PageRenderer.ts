@@ -0,0 +1,241 @@
+/**
+ * PageRenderer Service
+ * Renders an export page (crop, watermark, resize) and encodes it in a single pass.
+ * Works with HTMLCanvasElement on the main thread and OffscreenCanvas inside workers,
+ * so it must not touch the DOM beyond creating canvases.
+ */
+
+import type {
+  WatermarkSettings,
+  CropRegion,
+  ResizeOptions,
+  ImageAdjustments,
+  InvisibleMark,
+} from '@/types';
+import { calculateResizeDimensions } from '@/types';
+import {
+  render,
+  type RenderContext,
+  type WatermarkImages,
+} from './WatermarkRenderer';
+import { applyAdjustments } from './ImageAdjuster';
+import { applyInvisibleMark } from './InvisibleWatermark';
+
+/**
+ * Canvas the page is rendered on
+ */
+export type RenderCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+/**
+ * Per-page render options
+ */
+export interface PageRenderOptions {
+  /** Source region of the page to render (crop or full page) */
+  region: CropRegion;
+  /** Optional size limits; the page is downscaled to fit */
+  resize?: ResizeOptions | null;
+  /** Optional raw cleaning, applied before the watermark */
+  adjustments?: ImageAdjustments | null;
+  /** Optional invisible mark, embedded in the final (resized) page */
+  invisibleMark?: InvisibleMark | null;
+  /** Output MIME type */
+  mimeType: string;
+  /** Output quality (0-100) */
+  quality: number;
+}
+
+/**
+ * Create a canvas of the given size, preferring a DOM canvas when a
+ * document is available and falling back to OffscreenCanvas in workers
+ * @param width - Canvas width
+ * @param height - Canvas height
+ * @returns The new canvas
+ */
+export function createCanvas(width: number, height: number): RenderCanvas {
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+  return new OffscreenCanvas(width, height);
+}
+
+/**
+ * Get the 2D context of a canvas
+ * @param canvas - Canvas to get the context of
+ * @returns 2D rendering context
+ * @throws Error if the context cannot be created
+ */
+export function getRenderContext(canvas: RenderCanvas): RenderContext {
+  // Narrow the union so each canvas type resolves its own getContext overload
+  const ctx = 'convertToBlob' in canvas
+    ? canvas.getContext('2d')
+    : canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to create canvas context');
+  }
+  return ctx;
+}
+
+/**
+ * Draw a source onto a new canvas of the given size with high-quality smoothing
+ * @param source - Image source to draw
+ * @param width - Canvas width
+ * @param height - Canvas height
+ * @returns The new canvas
+ */
+function drawToCanvas(
+  source: CanvasImageSource,
+  width: number,
+  height: number
+): RenderCanvas {
+  const canvas = createCanvas(width, height);
+  const ctx = getRenderContext(canvas);
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, width, height);
+
+  return canvas;
+}
+
+/**
+ * Calculate the intermediate sizes used to downscale an image.
+ * Each step at most halves the previous size, so the browser's bilinear
+ * filter never skips source pixels; the final step lands on the target.
+ *
+ * @param width - Source width
+ * @param height - Source height
+ * @param targetWidth - Final width
+ * @param targetHeight - Final height
+ * @returns Ordered list of step sizes, ending with the target size
+ */
+export function getDownscaleSteps(
+  width: number,
+  height: number,
+  targetWidth: number,
+  targetHeight: number
+): Array<{ width: number; height: number }> {
+  const steps: Array<{ width: number; height: number }> = [];
+  let currentWidth = width;
+  let currentHeight = height;
+
+  while (currentWidth / 2 > targetWidth || currentHeight / 2 > targetHeight) {
+    currentWidth = Math.max(targetWidth, Math.round(currentWidth / 2));
+    currentHeight = Math.max(targetHeight, Math.round(currentHeight / 2));
+    steps.push({ width: currentWidth, height: currentHeight });
+  }
+
+  steps.push({ width: targetWidth, height: targetHeight });
+  return steps;
+}
+
+/**
+ * Downscale an image with high quality, halving in steps instead of
+ * a single drawImage call to avoid aliasing on large reductions
+ * @param source - Source image or canvas
+ * @param width - Source width
+ * @param height - Source height
+ * @param targetWidth - Final width
+ * @param targetHeight - Final height
+ * @returns Canvas containing the resized image
+ */
+export function downscale(
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  targetWidth: number,
+  targetHeight: number
+): RenderCanvas {
+  let current = source;
+  let canvas: RenderCanvas | null = null;
+
+  for (const step of getDownscaleSteps(width, height, targetWidth, targetHeight)) {
+    canvas = drawToCanvas(current, step.width, step.height);
+    current = canvas;
+  }
+
+  return canvas ?? drawToCanvas(source, targetWidth, targetHeight);
+}
+
+/**
+ * Encode a canvas to a Blob
+ * @param canvas - Canvas to encode
+ * @param mimeType - Output MIME type
+ * @param quality - Quality setting (0-100)
+ * @returns Promise resolving to the encoded Blob
+ */
+export function encodeCanvas(
+  canvas: RenderCanvas,
+  mimeType: string,
+  quality: number
+): Promise<Blob> {
+  const normalizedQuality = quality / 100; // Convert 0-100 to 0-1
+
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type: mimeType, quality: normalizedQuality });
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Failed to export image'));
+        }
+      },
+      mimeType,
+      normalizedQuality
+    );
+  });
+}
+
+/**
+ * Render a page and encode it straight to the output format
+ *
+ * The crop and adjustments are applied before the watermark, so positioning
+ * is relative to the cropped page and auto contrast sees the cleaned page.
+ * Resizing happens after the watermark is drawn, and the invisible mark is
+ * embedded last so its block grid lines up with the encoder's.
+ *
+ * @param source - Decoded page image
+ * @param settings - Watermark settings to apply
+ * @param options - Region, size limits and output encoding
+ * @param watermarkImages - Decoded images of the image layers, keyed by layer ID
+ * @returns Promise resolving to the encoded Blob
+ */
+export async function renderPage(
+  source: CanvasImageSource,
+  settings: WatermarkSettings,
+  options: PageRenderOptions,
+  watermarkImages?: WatermarkImages
+): Promise<Blob> {
+  const { region } = options;
+
+  const canvas = createCanvas(region.width, region.height);
+  const ctx = getRenderContext(canvas);
+  ctx.drawImage(
+    source,
+    region.x, region.y, region.width, region.height,
+    0, 0, region.width, region.height
+  );
+  applyAdjustments(ctx, options.adjustments, region);
+
+  await render(ctx, settings, { width: region.width, height: region.height }, watermarkImages);
+
+  const target = options.resize
+    ? calculateResizeDimensions(region.width, region.height, options.resize)
+    : { width: region.width, height: region.height };
+
+  const output = target.width === region.width && target.height === region.height
+    ? canvas
+    : downscale(canvas, region.width, region.height, target.width, target.height);
+
+  if (options.invisibleMark) {
+    applyInvisibleMark(getRenderContext(output), options.invisibleMark, target);
+  }
+
+  return encodeCanvas(output, options.mimeType, options.quality);
+}
@@ -11,7 +11,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import * as fc from 'fast-check';
 import { PresetManager } from './PresetManager';
-import { arbWatermarkSettings, arbNonEmptyText, settingsAreEqual } from '@/test/helpers';
+import { arbWatermarkSettings, arbNonEmptyText, arbImageAdjustments, settingsAreEqual } from '@/test/helpers';
 
 /**
  * Create a mock localStorage for testing
@@ -136,14 +136,15 @@ describe('Property 10: Preset Save/Load Round-Trip', () => {
           const savedPreset = manager.save(name, settings);
           
           // Modify original settings
-          if (settings.config.type === 'text') {
-            settings.config.text = 'MODIFIED';
+          const layer = settings.layers[0]!;
+          if (layer.config.type === 'text') {
+            layer.config.text = 'MODIFIED';
           }
-          settings.position.offsetX = 99999;
+          layer.position.offsetX = 99999;
           
           // Loaded preset should not be affected
           const loadedPreset = manager.getById(savedPreset.id);
-          expect(loadedPreset!.settings.position.offsetX).not.toBe(99999);
+          expect(loadedPreset!.settings.layers[0]!.position.offsetX).not.toBe(99999);
         }
       ),
       { numRuns: 100 }
@@ -204,6 +205,37 @@ describe('Property 12: Preset Export/Import Round-Trip', () => {
     );
   });
 
+  /**
+   * **Feature: manga-watermark-tool, Property 12: Preset Export/Import Round-Trip**
+   * **Validates: Requirements 5.6, 5.7**
+   * 
+   * Image adjustments saved with a preset SHALL survive export/import, and
+   * invalid adjustments SHALL be dropped without losing the preset.
+   */
+  it('should keep image adjustments through export/import', () => {
+    fc.assert(
+      fc.property(
+        arbNonEmptyText,
+        arbWatermarkSettings,
+        arbImageAdjustments,
+        (name, settings, adjustments) => {
+          manager.clear();
+          manager.save(name, settings, adjustments);
+          const exported = JSON.parse(manager.exportToJson()) as { presets: Array<Record<string, unknown>> };
+
+          const [imported] = new PresetManager(createMockStorage()).importFromJson(JSON.stringify(exported));
+          expect(imported?.adjustments).toEqual(adjustments);
+
+          exported.presets[0]!['adjustments'] = { ...adjustments, gamma: 0 };
+          const [withoutAdjustments] = new PresetManager(createMockStorage()).importFromJson(JSON.stringify(exported));
+          expect(withoutAdjustments).toBeDefined();
+          expect(withoutAdjustments!.adjustments).toBeUndefined();
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
   /**
    * **Feature: manga-watermark-tool, Property 12: Preset Export/Import Round-Trip**
    * **Validates: Requirements 5.6, 5.7**
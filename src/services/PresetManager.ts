@@ -4,11 +4,12 @@
  * Requirements: 5.1, 5.2, 5.3, 5.4, 5.5, 5.6, 5.7
  */
 
-import type { Preset, WatermarkSettings } from '@/types';
-import { isPreset } from '@/types';
+import type { ImageAdjustments, Preset, WatermarkSettings } from '@/types';
+import { isImageAdjustments, isPreset } from '@/types';
 import {
   serializeWatermarkSettings,
   deserializeWatermarkSettings,
+  migrateWatermarkSettings,
 } from '@/utils/serialization';
 
 /**
@@ -23,6 +24,26 @@ function generateId(): string {
   return `preset_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 }
 
+/**
+ * Migrate a stored preset to the current settings format
+ * (presets saved before layers existed hold a single watermark)
+ * Invalid image adjustments are dropped rather than losing the preset.
+ * @param value - Stored preset
+ * @returns Preset with layered settings, or null if invalid
+ */
+function migratePreset(value: unknown): Preset | null {
+  if (typeof value !== 'object' || value === null) return null;
+
+  const settings = migrateWatermarkSettings((value as Record<string, unknown>)['settings']);
+  if (!settings) return null;
+
+  const { adjustments, ...rest } = value as Record<string, unknown>;
+  const preset = isImageAdjustments(adjustments)
+    ? { ...rest, settings, adjustments }
+    : { ...rest, settings };
+  return isPreset(preset) ? preset : null;
+}
+
 /**
  * PresetManager class for managing watermark presets
  * Requirements: 5.1, 5.2, 5.3, 5.4, 5.5, 5.6, 5.7
@@ -48,11 +69,20 @@ export class PresetManager {
       if (stored) {
         const parsed = JSON.parse(stored);
         if (Array.isArray(parsed)) {
+          let migrated = false;
           for (const item of parsed) {
-            if (isPreset(item)) {
-              this.presets.set(item.id, item);
+            const preset = migratePreset(item);
+            if (preset) {
+              this.presets.set(preset.id, preset);
+              if (preset.settings !== (item as Preset).settings) {
+                migrated = true;
+              }
             }
           }
+          // Persist migrated presets so layer IDs stay stable between sessions
+          if (migrated) {
+            this.saveToStorage();
+          }
         }
       }
     } catch {
@@ -100,14 +130,16 @@ export class PresetManager {
    * 
    * @param name - Preset name
    * @param settings - Watermark settings to save
+   * @param adjustments - Optional image adjustments to save with the watermark
    * @returns Created preset
    */
-  save(name: string, settings: WatermarkSettings): Preset {
+  save(name: string, settings: WatermarkSettings, adjustments?: ImageAdjustments): Preset {
     const now = Date.now();
     const preset: Preset = {
       id: generateId(),
       name: name.trim() || 'Untitled Preset',
       settings: structuredClone(settings),
+      ...(adjustments && { adjustments: structuredClone(adjustments) }),
       createdAt: now,
       updatedAt: now,
     };
@@ -127,7 +159,7 @@ export class PresetManager {
    * @returns Updated preset
    * @throws Error if preset not found
    */
-  update(id: string, updates: Partial<Pick<Preset, 'name' | 'settings'>>): Preset {
+  update(id: string, updates: Partial<Pick<Preset, 'name' | 'settings' | 'adjustments'>>): Preset {
     const existing = this.presets.get(id);
     if (!existing) {
       throw new Error(`Preset with id "${id}" not found`);
@@ -137,6 +169,7 @@ export class PresetManager {
       ...existing,
       name: updates.name !== undefined ? updates.name.trim() || existing.name : existing.name,
       settings: updates.settings !== undefined ? structuredClone(updates.settings) : existing.settings,
+      ...(updates.adjustments !== undefined && { adjustments: structuredClone(updates.adjustments) }),
       updatedAt: Date.now(),
     };
 
@@ -213,10 +246,11 @@ export class PresetManager {
     const now = Date.now();
 
     for (const item of presetsToImport) {
-      if (isPreset(item)) {
+      const preset = migratePreset(item);
+      if (preset) {
         // Generate new ID to avoid conflicts
         const newPreset: Preset = {
-          ...item,
+          ...preset,
           id: generateId(),
           createdAt: now,
           updatedAt: now,
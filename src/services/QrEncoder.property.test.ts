@@ -0,0 +1,319 @@
+/**
+ * Property-Based Tests for QrEncoder Service and QR code watermarks
+ *
+ * **Feature: manga-watermark-tool, Property 42: QR Code Watermark**
+ * **Validates: QR code watermark type with a self-contained encoder**
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { encodeQr, getQrVersion, isMasked, type QrCode } from './QrEncoder';
+import { getLayerDimensions, renderQrWatermark, calculateWatermarkBounds } from './WatermarkRenderer';
+import { serializeWatermarkSettings, deserializeWatermarkSettings, validateSettingsJson } from '@/utils/serialization';
+import {
+  QR_ERROR_CORRECTION_LEVELS,
+  createDefaultQrWatermarkConfig,
+  createWatermarkLayer,
+  isQrWatermarkConfig,
+  type QrErrorCorrection,
+} from '@/types';
+import { arbQrWatermarkConfig, arbWatermarkPosition, arbCanvasDimensions } from '@/test/helpers';
+
+// ============================================
+// Reference reader for versions 1-9 (ISO/IEC 18004 tables)
+// ============================================
+
+// Total codewords of versions 1-9
+const TOTAL_CODEWORDS = [26, 44, 70, 100, 134, 172, 196, 242, 292];
+
+// Error correction codewords per block and block count of versions 1-9
+const BLOCK_ECC: Record<QrErrorCorrection, number[]> = {
+  L: [7, 10, 15, 20, 26, 18, 20, 24, 30],
+  M: [10, 16, 26, 18, 24, 16, 18, 22, 22],
+  Q: [13, 22, 18, 26, 18, 24, 18, 22, 20],
+  H: [17, 28, 22, 16, 22, 28, 26, 26, 24],
+};
+const BLOCK_COUNT: Record<QrErrorCorrection, number[]> = {
+  L: [1, 1, 1, 1, 1, 2, 2, 2, 2],
+  M: [1, 1, 1, 2, 2, 4, 4, 4, 5],
+  Q: [1, 1, 2, 2, 4, 4, 6, 6, 8],
+  H: [1, 1, 2, 4, 4, 4, 5, 6, 8],
+};
+
+// Alignment pattern centers of versions 1-9
+const ALIGNMENT_CENTERS = [[], [6, 18], [6, 22], [6, 26], [6, 30], [6, 34], [6, 22, 38], [6, 24, 42], [6, 26, 46]];
+
+// Error correction level of the two format bits
+const LEVEL_OF_BITS: QrErrorCorrection[] = ['M', 'L', 'H', 'Q'];
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+}
+
+function isFunctionModule(version: number, x: number, y: number): boolean {
+  const size = version * 4 + 17;
+  // Finders with separators and format information
+  if ((x < 9 && y < 9) || (x >= size - 8 && y < 9) || (x < 9 && y >= size - 8)) return true;
+  // Timing patterns
+  if (x === 6 || y === 6) return true;
+  // Version information
+  if (version >= 7 && ((x >= size - 11 && x < size - 8 && y < 6) || (y >= size - 11 && y < size - 8 && x < 6))) {
+    return true;
+  }
+  const centers = ALIGNMENT_CENTERS[version - 1]!;
+  return centers.some((cy, i) => centers.some((cx, j) => {
+    const last = centers.length - 1;
+    if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return false;
+    return Math.abs(x - cx) <= 2 && Math.abs(y - cy) <= 2;
+  }));
+}
+
+/**
+ * Read a code back: format information, codewords, error correction and data
+ */
+function readQr(code: QrCode): { level: QrErrorCorrection; bytes: Uint8Array; syndromesZero: boolean } {
+  const { version, size, modules } = code;
+  const dark = (x: number, y: number) => modules[y]![x]!;
+
+  // Format information, first copy and second copy
+  let first = 0;
+  let second = 0;
+  const firstBits = [
+    ...[0, 1, 2, 3, 4, 5].map(i => dark(8, i)), dark(8, 7), dark(8, 8), dark(7, 8),
+    ...[9, 10, 11, 12, 13, 14].map(i => dark(14 - i, 8)),
+  ];
+  const secondBits = [
+    ...[0, 1, 2, 3, 4, 5, 6, 7].map(i => dark(size - 1 - i, 8)),
+    ...[8, 9, 10, 11, 12, 13, 14].map(i => dark(8, size - 15 + i)),
+  ];
+  firstBits.forEach((bit, i) => { first |= (bit ? 1 : 0) << i; });
+  secondBits.forEach((bit, i) => { second |= (bit ? 1 : 0) << i; });
+  expect(second).toBe(first);
+
+  // The unmasked format word is a multiple of the BCH generator
+  let remainder = first ^ 0x5412;
+  for (let bit = 14; bit >= 10; bit--) {
+    if ((remainder >>> bit) & 1) remainder ^= 0x537 << (bit - 10);
+  }
+  expect(remainder).toBe(0);
+  const level = LEVEL_OF_BITS[((first ^ 0x5412) >>> 13) & 3]!;
+  const mask = ((first ^ 0x5412) >>> 10) & 7;
+
+  // Codewords in zigzag order, unmasked
+  const bits: number[] = [];
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const y = ((right + 1) & 2) === 0 ? size - 1 - vertical : vertical;
+        if (!isFunctionModule(version, x, y)) {
+          bits.push(dark(x, y) !== isMasked(mask, x, y) ? 1 : 0);
+        }
+      }
+    }
+  }
+  const total = TOTAL_CODEWORDS[version - 1]!;
+  const codewords = Array.from({ length: total }, (_, i) =>
+    bits.slice(i * 8, i * 8 + 8).reduce((byte, bit) => (byte << 1) | bit, 0)
+  );
+
+  // De-interleave the blocks
+  const ecc = BLOCK_ECC[level][version - 1]!;
+  const blockCount = BLOCK_COUNT[level][version - 1]!;
+  const shortBlocks = blockCount - total % blockCount;
+  const shortLength = Math.floor(total / blockCount);
+  const dataLengths = Array.from({ length: blockCount }, (_, b) => shortLength - ecc + (b < shortBlocks ? 0 : 1));
+  const blocks = dataLengths.map(() => [] as number[]);
+  let k = 0;
+  for (let i = 0; i < Math.max(...dataLengths); i++) {
+    blocks.forEach((block, b) => { if (i < dataLengths[b]!) block.push(codewords[k++]!); });
+  }
+  for (let i = 0; i < ecc; i++) {
+    blocks.forEach(block => block.push(codewords[k++]!));
+  }
+
+  // Every block evaluates to zero at the generator roots 2^0 .. 2^(ecc-1)
+  let syndromesZero = true;
+  let root = 1;
+  for (let r = 0; r < ecc; r++) {
+    for (const block of blocks) {
+      const value = block.reduce((acc, coefficient) => gfMultiply(acc, root) ^ coefficient, 0);
+      if (value !== 0) syndromesZero = false;
+    }
+    root = gfMultiply(root, 2);
+  }
+
+  // Byte mode segment
+  const data = blocks.flatMap((block, b) => block.slice(0, dataLengths[b]));
+  const dataBits = data.flatMap(byte => [7, 6, 5, 4, 3, 2, 1, 0].map(i => (byte >>> i) & 1));
+  const readBits = (start: number, length: number) =>
+    dataBits.slice(start, start + length).reduce((value, bit) => (value << 1) | bit, 0);
+  expect(readBits(0, 4)).toBe(0b0100);
+  const count = readBits(4, 8);
+  const bytes = Uint8Array.from({ length: count }, (_, i) => readBits(12 + i * 8, 8));
+
+  return { level, bytes, syndromesZero };
+}
+
+const arbContent = fc.oneof(
+  fc.string({ maxLength: 60 }),
+  fc.fullUnicodeString({ maxLength: 15 }),
+  fc.webUrl().filter(url => url.length <= 60)
+);
+const arbLevel = fc.constantFrom(...QR_ERROR_CORRECTION_LEVELS);
+
+/**
+ * Context that records the rectangles drawn
+ */
+function createRecordingContext(rects: Array<{ x: number; y: number; width: number; height: number; style: string }>) {
+  let offsetX = 0;
+  let offsetY = 0;
+  const stack: Array<[number, number]> = [];
+  const ctx = {
+    fillStyle: '',
+    globalAlpha: 1,
+    globalCompositeOperation: 'source-over',
+    save: vi.fn(() => { stack.push([offsetX, offsetY]); }),
+    restore: vi.fn(() => { [offsetX, offsetY] = stack.pop() ?? [0, 0]; }),
+    translate: vi.fn((x: number, y: number) => { offsetX += x; offsetY += y; }),
+    rotate: vi.fn(),
+    fillRect: vi.fn((x: number, y: number, width: number, height: number) => {
+      rects.push({ x: x + offsetX, y: y + offsetY, width, height, style: ctx.fillStyle });
+    }),
+  };
+  return ctx as unknown as CanvasRenderingContext2D;
+}
+
+describe('Property 42: QR Code Watermark', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 42: QR Code Watermark**
+   * **Validates: QR code watermark type with a self-contained encoder**
+   *
+   * An encoded code SHALL carry valid format information for its level,
+   * error correction that checks out in every block, and the content as
+   * UTF-8 in byte mode.
+   */
+  it('should encode content that reads back through the error correction', () => {
+    fc.assert(
+      fc.property(arbContent, arbLevel, (content, level) => {
+        const code = encodeQr(content, level)!;
+        expect(code.size).toBe(code.version * 4 + 17);
+        expect(code.modules).toHaveLength(code.size);
+
+        const read = readQr(code);
+        expect(read.level).toBe(level);
+        expect(read.syndromesZero).toBe(true);
+        expect(new TextDecoder().decode(read.bytes)).toBe(content);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 42: QR Code Watermark**
+   * **Validates: QR code watermark type with a self-contained encoder**
+   *
+   * The smallest version SHALL be chosen, matching the byte capacities of
+   * the standard, and content beyond version 40 SHALL be refused.
+   */
+  it('should pick the smallest version that holds the content', () => {
+    // [version, level, bytes] from the byte mode capacity table
+    const capacities: Array<[number, QrErrorCorrection, number]> = [
+      [1, 'L', 17], [1, 'M', 14], [1, 'Q', 11], [1, 'H', 7],
+      [2, 'L', 32], [2, 'H', 14], [7, 'M', 122], [10, 'Q', 151],
+      [25, 'L', 1273], [40, 'L', 2953], [40, 'M', 2331], [40, 'Q', 1663], [40, 'H', 1273],
+    ];
+    fc.assert(
+      fc.property(fc.constantFrom(...capacities), ([version, level, bytes]) => {
+        expect(getQrVersion(bytes, level)).toBe(version);
+        expect(getQrVersion(bytes + 1, level)).toBe(version === 40 ? null : version + 1);
+        if (version === 40) {
+          expect(encodeQr('a'.repeat(bytes + 1), level)).toBeNull();
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 42: QR Code Watermark**
+   * **Validates: QR code watermark type with a self-contained encoder**
+   *
+   * A QR layer SHALL be a square of its size placed like any other layer,
+   * draw its dark modules inside those bounds in the module color, and
+   * skip the background when it is transparent.
+   */
+  it('should draw the code inside the positioned square', () => {
+    fc.assert(
+      fc.property(arbQrWatermarkConfig, arbWatermarkPosition, arbCanvasDimensions, (config, position, canvas) => {
+        const layer = createWatermarkLayer({ ...config, tileEnabled: false }, { ...position, unit: 'px' });
+        const rects: Array<{ x: number; y: number; width: number; height: number; style: string }> = [];
+        const ctx = createRecordingContext(rects);
+
+        const dimensions = getLayerDimensions(ctx, layer);
+        expect(dimensions).toEqual({ width: config.size, height: config.size });
+        const bounds = calculateWatermarkBounds(layer, canvas, dimensions!);
+
+        renderQrWatermark(ctx, { ...config, tileEnabled: false }, bounds, canvas);
+
+        const modules = rects.filter(rect => rect.style === config.color);
+        expect(modules.length).toBeGreaterThan(0);
+        for (const rect of rects) {
+          expect(rect.x).toBeGreaterThanOrEqual(Math.round(bounds.x));
+          expect(rect.y).toBeGreaterThanOrEqual(Math.round(bounds.y));
+          expect(rect.x + rect.width).toBeLessThanOrEqual(Math.round(bounds.x) + Math.round(config.size));
+          expect(rect.y + rect.height).toBeLessThanOrEqual(Math.round(bounds.y) + Math.round(config.size));
+        }
+        if (config.backgroundTransparent) {
+          expect(modules).toHaveLength(rects.length);
+        } else {
+          expect(rects[0]!.style).toBe(config.backgroundColor);
+          expect(modules.length).toBeGreaterThanOrEqual(rects.length - 1);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 42: QR Code Watermark**
+   * **Validates: QR code watermark type with a self-contained encoder**
+   *
+   * QR layers SHALL survive serialization, and validation SHALL reject an
+   * unknown error correction level or any missing field.
+   */
+  it('should serialize and validate QR layers', () => {
+    const fields = Object.keys(createDefaultQrWatermarkConfig()).filter(key => key !== 'type');
+
+    fc.assert(
+      fc.property(arbQrWatermarkConfig, arbWatermarkPosition, fc.constantFrom(...fields), (config, position, field) => {
+        const settings = { layers: [createWatermarkLayer(config, position)], enabled: true };
+        const json = serializeWatermarkSettings(settings);
+
+        expect(validateSettingsJson(json).valid).toBe(true);
+        const restored = deserializeWatermarkSettings(json);
+        expect(isQrWatermarkConfig(restored.layers[0]!.config)).toBe(true);
+        expect(restored.layers[0]!.config).toEqual(config);
+
+        const invalid = JSON.parse(json) as { layers: Array<{ config: Record<string, unknown> }> };
+        invalid.layers[0]!.config['errorCorrection'] = 'X';
+        const result = validateSettingsJson(JSON.stringify(invalid));
+        expect(result.valid).toBe(false);
+        expect(result.errors.some(error => error.includes('errorCorrection'))).toBe(true);
+
+        const incomplete = JSON.parse(json) as { layers: Array<{ config: Record<string, unknown> }> };
+        delete incomplete.layers[0]!.config[field];
+        const missing = validateSettingsJson(JSON.stringify(incomplete));
+        expect(missing.valid).toBe(false);
+        expect(missing.errors.some(error => error.includes(field))).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
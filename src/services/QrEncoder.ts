@@ -0,0 +1,526 @@
+/**
+ * QrEncoder Service
+ * Self-contained QR code encoder (ISO/IEC 18004, byte mode, versions 1-40),
+ * so QR watermarks render without a network request or an extra library
+ */
+
+import type { QrErrorCorrection } from '@/types';
+
+/**
+ * An encoded QR code
+ */
+export interface QrCode {
+  version: number; // 1-40
+  size: number; // modules per side (17 + 4 * version)
+  modules: boolean[][]; // [y][x], true = dark
+}
+
+export const MIN_QR_VERSION = 1;
+export const MAX_QR_VERSION = 40;
+
+// Error correction codewords per block, by level and version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, readonly number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+// Error correction blocks, by level and version (index 0 unused)
+const ECC_BLOCKS: Record<QrErrorCorrection, readonly number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+// Error correction level bits of the format information
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Penalty weights used to pick the mask
+const PENALTY_RUN = 3;
+const PENALTY_BLOCK = 3;
+const PENALTY_FINDER = 40;
+const PENALTY_BALANCE = 10;
+
+/**
+ * Count the modules of a version that hold data and error correction
+ * (everything but the function patterns and format/version information)
+ */
+function getRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+}
+
+/**
+ * Count the data codewords of a version at an error correction level
+ */
+export function getDataCodewords(version: number, level: QrErrorCorrection): number {
+  return Math.floor(getRawDataModules(version) / 8)
+    - (ECC_CODEWORDS_PER_BLOCK[level][version] ?? 0) * (ECC_BLOCKS[level][version] ?? 0);
+}
+
+/**
+ * Get the centers of the alignment patterns of a version, along one axis
+ */
+export function getAlignmentPositions(version: number): number[] {
+  if (version === 1) {
+    return [];
+  }
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const positions = [6];
+  for (let pos = version * 4 + 10; positions.length < count; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+  return positions;
+}
+
+/**
+ * Bits of the character count of a byte mode segment
+ */
+function getCountBits(version: number): number {
+  return version <= 9 ? 8 : 16;
+}
+
+// ============================================
+// Reed-Solomon error correction over GF(256)
+// ============================================
+
+function multiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+}
+
+function getDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = multiply(result[j]!, root) ^ (result[j + 1] ?? 0);
+    }
+    root = multiply(root, 0x02);
+  }
+  return result;
+}
+
+function getRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() ?? 0);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] = result[i]! ^ multiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+/**
+ * Split data into blocks, add error correction to each and interleave them
+ */
+function addErrorCorrection(data: number[], version: number, level: QrErrorCorrection): number[] {
+  const blockCount = ECC_BLOCKS[level][version]!;
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version]!;
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlocks = blockCount - rawCodewords % blockCount;
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = getDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const block = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1));
+    offset += block.length;
+    const ecc = getRemainder(block, divisor);
+    // Short blocks get a placeholder so all blocks interleave by column
+    if (i < shortBlocks) {
+      block.push(0);
+    }
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < shortBlockLength + 1; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) {
+        result.push(block[i]!);
+      }
+    });
+  }
+  return result;
+}
+
+// ============================================
+// Module placement
+// ============================================
+
+/**
+ * Modules under construction, with the function modules (finders, timing,
+ * alignment, format and version information) marked so data and masks skip them
+ */
+class ModuleGrid {
+  readonly modules: boolean[][];
+  private readonly reserved: boolean[][];
+
+  constructor(readonly size: number) {
+    this.modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    this.reserved = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  }
+
+  setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y]![x] = dark;
+    this.reserved[y]![x] = true;
+  }
+
+  isFunction(x: number, y: number): boolean {
+    return this.reserved[y]![x]!;
+  }
+}
+
+function drawFinder(grid: ModuleGrid, centerX: number, centerY: number): void {
+  for (let dy = -4; dy <= 4; dy++) {
+    for (let dx = -4; dx <= 4; dx++) {
+      const x = centerX + dx;
+      const y = centerY + dy;
+      if (x >= 0 && x < grid.size && y >= 0 && y < grid.size) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        grid.setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+}
+
+function drawAlignment(grid: ModuleGrid, centerX: number, centerY: number): void {
+  for (let dy = -2; dy <= 2; dy++) {
+    for (let dx = -2; dx <= 2; dx++) {
+      grid.setFunction(centerX + dx, centerY + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }
+}
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+/**
+ * Draw both copies of the format information (level and mask, BCH protected)
+ */
+function drawFormatBits(grid: ModuleGrid, level: QrErrorCorrection, mask: number): void {
+  const data = (FORMAT_BITS[level] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const { size } = grid;
+
+  // Around the top-left finder
+  for (let i = 0; i <= 5; i++) {
+    grid.setFunction(8, i, getBit(bits, i));
+  }
+  grid.setFunction(8, 7, getBit(bits, 6));
+  grid.setFunction(8, 8, getBit(bits, 7));
+  grid.setFunction(7, 8, getBit(bits, 8));
+  for (let i = 9; i < 15; i++) {
+    grid.setFunction(14 - i, 8, getBit(bits, i));
+  }
+
+  // Split between the other two finders
+  for (let i = 0; i < 8; i++) {
+    grid.setFunction(size - 1 - i, 8, getBit(bits, i));
+  }
+  for (let i = 8; i < 15; i++) {
+    grid.setFunction(8, size - 15 + i, getBit(bits, i));
+  }
+  grid.setFunction(8, size - 8, true); // Always dark
+}
+
+/**
+ * Draw both copies of the version information (versions 7 and up)
+ */
+function drawVersionBits(grid: ModuleGrid, version: number): void {
+  if (version < 7) {
+    return;
+  }
+
+  let remainder = version;
+  for (let i = 0; i < 12; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  }
+  const bits = (version << 12) | remainder;
+
+  for (let i = 0; i < 18; i++) {
+    const a = grid.size - 11 + i % 3;
+    const b = Math.floor(i / 3);
+    grid.setFunction(a, b, getBit(bits, i));
+    grid.setFunction(b, a, getBit(bits, i));
+  }
+}
+
+function drawFunctionPatterns(grid: ModuleGrid, version: number, level: QrErrorCorrection): void {
+  const { size } = grid;
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    grid.setFunction(6, i, i % 2 === 0);
+    grid.setFunction(i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns with their separators
+  drawFinder(grid, 3, 3);
+  drawFinder(grid, size - 4, 3);
+  drawFinder(grid, 3, size - 4);
+
+  // Alignment patterns, except where they would overlap a finder
+  const positions = getAlignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((y, i) => {
+    positions.forEach((x, j) => {
+      const overlapsFinder = (i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0);
+      if (!overlapsFinder) {
+        drawAlignment(grid, x, y);
+      }
+    });
+  });
+
+  // Reserve the format area; the real bits are drawn once the mask is chosen
+  drawFormatBits(grid, level, 0);
+  drawVersionBits(grid, version);
+}
+
+/**
+ * Place the codewords in the zigzag order, two columns at a time from the right
+ */
+function drawCodewords(grid: ModuleGrid, codewords: number[]): void {
+  const { size } = grid;
+  let bit = 0;
+
+  for (let right = size - 1; right >= 1; right -= 2) {
+    // The vertical timing pattern takes a whole column
+    if (right === 6) {
+      right = 5;
+    }
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!grid.isFunction(x, y) && bit < codewords.length * 8) {
+          grid.modules[y]![x] = getBit(codewords[bit >>> 3]!, 7 - (bit & 7));
+          bit++;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Check whether a mask pattern flips the module at (x, y)
+ */
+export function isMasked(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return (x * y) % 2 + (x * y) % 3 === 0;
+    case 6: return ((x * y) % 2 + (x * y) % 3) % 2 === 0;
+    default: return ((x + y) % 2 + (x * y) % 3) % 2 === 0;
+  }
+}
+
+/**
+ * Flip the data modules selected by a mask (applying it twice undoes it)
+ */
+function applyMask(grid: ModuleGrid, mask: number): void {
+  for (let y = 0; y < grid.size; y++) {
+    for (let x = 0; x < grid.size; x++) {
+      if (!grid.isFunction(x, y) && isMasked(mask, x, y)) {
+        grid.modules[y]![x] = !grid.modules[y]![x];
+      }
+    }
+  }
+}
+
+// ============================================
+// Mask penalty
+// ============================================
+
+/**
+ * Score one row or column: long runs of one color and finder-like patterns
+ */
+function getLinePenalty(line: boolean[]): number {
+  const size = line.length;
+  const history = [0, 0, 0, 0, 0, 0, 0];
+  let penalty = 0;
+
+  const addHistory = (length: number) => {
+    // The first run of a line is extended by the light border around the code
+    const first = history[0] === 0;
+    history.pop();
+    history.unshift(first ? length + size : length);
+  };
+  const countFinders = (): number => {
+    const n = history[1]!;
+    const core = n > 0 && history[2] === n && history[3] === n * 3 && history[4] === n && history[5] === n;
+    return (core && history[0]! >= n * 4 && history[6]! >= n ? 1 : 0)
+      + (core && history[6]! >= n * 4 && history[0]! >= n ? 1 : 0);
+  };
+
+  let runColor = false;
+  let runLength = 0;
+  for (const dark of line) {
+    if (dark === runColor) {
+      runLength++;
+      if (runLength === 5) {
+        penalty += PENALTY_RUN;
+      } else if (runLength > 5) {
+        penalty++;
+      }
+    } else {
+      addHistory(runLength);
+      if (!runColor) {
+        penalty += countFinders() * PENALTY_FINDER;
+      }
+      runColor = dark;
+      runLength = 1;
+    }
+  }
+
+  // Close the line against the light border
+  if (runColor) {
+    addHistory(runLength);
+    runLength = 0;
+  }
+  addHistory(runLength + size);
+  return penalty + countFinders() * PENALTY_FINDER;
+}
+
+/**
+ * Score a masked code; the mask with the lowest score is used
+ */
+export function getPenalty(modules: boolean[][]): number {
+  const size = modules.length;
+  let penalty = 0;
+
+  for (let i = 0; i < size; i++) {
+    penalty += getLinePenalty(modules[i]!);
+    penalty += getLinePenalty(modules.map(row => row[i]!));
+  }
+
+  // 2x2 blocks of one color
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const dark = modules[y]![x];
+      if (dark === modules[y]![x + 1] && dark === modules[y + 1]![x] && dark === modules[y + 1]![x + 1]) {
+        penalty += PENALTY_BLOCK;
+      }
+    }
+  }
+
+  // Balance of dark and light modules
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  const deviation = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+  return penalty + deviation * PENALTY_BALANCE;
+}
+
+// ============================================
+// Encoding
+// ============================================
+
+/**
+ * Get the smallest version that holds a number of bytes in byte mode
+ * @param byteLength - Bytes to encode
+ * @param level - Error correction level
+ * @returns Version, or null when even version 40 is too small
+ */
+export function getQrVersion(byteLength: number, level: QrErrorCorrection): number | null {
+  for (let version = MIN_QR_VERSION; version <= MAX_QR_VERSION; version++) {
+    const usedBits = 4 + getCountBits(version) + byteLength * 8;
+    if (byteLength < 1 << getCountBits(version) && usedBits <= getDataCodewords(version, level) * 8) {
+      return version;
+    }
+  }
+  return null;
+}
+
+/**
+ * Encode text as a QR code
+ * The text is stored as UTF-8 in byte mode, in the smallest version that
+ * fits, with the mask that scores the lowest penalty.
+ *
+ * @param content - Text or URL to encode
+ * @param level - Error correction level
+ * @returns The code, or null when the content is too long for any version
+ */
+export function encodeQr(content: string, level: QrErrorCorrection): QrCode | null {
+  const bytes = new TextEncoder().encode(content);
+  const version = getQrVersion(bytes.length, level);
+  if (version === null) {
+    return null;
+  }
+
+  // Mode indicator, character count and data
+  const bits: number[] = [];
+  const appendBits = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+  appendBits(0b0100, 4);
+  appendBits(bytes.length, getCountBits(version));
+  bytes.forEach(byte => appendBits(byte, 8));
+
+  // Terminator, byte alignment, then alternating pad bytes
+  const capacityBits = getDataCodewords(version, level) * 8;
+  appendBits(0, Math.min(4, capacityBits - bits.length));
+  appendBits(0, (8 - bits.length % 8) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    appendBits(pad, 8);
+  }
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+
+  const grid = new ModuleGrid(version * 4 + 17);
+  drawFunctionPatterns(grid, version, level);
+  drawCodewords(grid, addErrorCorrection(data, version, level));
+
+  // Try every mask and keep the one with the lowest penalty
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    applyMask(grid, mask);
+    drawFormatBits(grid, level, mask);
+    const penalty = getPenalty(grid.modules);
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    applyMask(grid, mask);
+  }
+  applyMask(grid, bestMask);
+  drawFormatBits(grid, level, bestMask);
+
+  return {
+    version,
+    size: grid.size,
+    modules: grid.modules,
+  };
+}
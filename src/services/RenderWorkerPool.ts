@@ -0,0 +1,193 @@
+/**
+ * RenderWorkerPool Service
+ * Renders export pages on a pool of Web Workers using OffscreenCanvas,
+ * keeping the main thread free during large batches
+ */
+
+import type { WatermarkSettings, FontSource } from '@/types';
+import type { PageRenderOptions } from './PageRenderer';
+
+/**
+ * A single page to render
+ */
+export interface RenderJob {
+  /** Page image as a data URL */
+  imageDataUrl: string;
+  settings: WatermarkSettings;
+  options: PageRenderOptions;
+}
+
+/**
+ * Message sent to a render worker
+ */
+export interface RenderWorkerRequest {
+  id: number;
+  job: RenderJob;
+}
+
+/**
+ * Message that loads custom fonts into a render worker
+ * Jobs sent afterwards wait until the fonts are ready.
+ */
+export interface RenderWorkerFontsMessage {
+  fonts: FontSource[];
+}
+
+/**
+ * Any message sent to a render worker
+ */
+export type RenderWorkerMessage = RenderWorkerRequest | RenderWorkerFontsMessage;
+
+/**
+ * Message sent back by a render worker
+ */
+export type RenderWorkerResponse =
+  | { id: number; blob: Blob }
+  | { id: number; error: string };
+
+interface PendingJob {
+  id: number;
+  job: RenderJob;
+  resolve: (blob: Blob) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Error thrown when a worker fails to render a page
+ */
+export class RenderWorkerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RenderWorkerError';
+  }
+}
+
+/**
+ * RenderWorkerPool class for rendering pages in parallel
+ * Jobs are queued and handed to the next idle worker.
+ */
+export class RenderWorkerPool {
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private queue: PendingJob[] = [];
+  private active = new Map<Worker, PendingJob>();
+  private nextId = 0;
+
+  /**
+   * Check whether workers with OffscreenCanvas are available
+   * (false in jsdom and older browsers)
+   */
+  static isSupported(): boolean {
+    return (
+      typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined' &&
+      typeof createImageBitmap !== 'undefined'
+    );
+  }
+
+  /**
+   * @param size - Number of workers to start
+   */
+  constructor(size: number) {
+    for (let i = 0; i < Math.max(1, size); i++) {
+      const worker = new Worker(
+        new URL('../workers/render.worker.ts', import.meta.url),
+        { type: 'module' }
+      );
+      worker.onmessage = (event: MessageEvent<RenderWorkerResponse>) => {
+        this.handleResponse(worker, event.data);
+      };
+      worker.onerror = (event) => {
+        event.preventDefault();
+        this.handleFailure(worker, event.message || 'Render worker crashed');
+      };
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+  }
+
+  /**
+   * Number of workers in the pool
+   */
+  get size(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * Load custom fonts into every worker before rendering with them
+   * @param fonts - Fonts used by the pages
+   */
+  loadFonts(fonts: FontSource[]): void {
+    if (fonts.length === 0) return;
+
+    const message: RenderWorkerMessage = { fonts };
+    for (const worker of this.workers) {
+      worker.postMessage(message);
+    }
+  }
+
+  /**
+   * Queue a page for rendering
+   * @param job - Page to render
+   * @returns Promise resolving to the encoded page
+   */
+  render(job: RenderJob): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, job, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stop all workers and reject any queued or running jobs
+   */
+  terminate(): void {
+    const error = new RenderWorkerError('Render worker pool terminated');
+    for (const pending of [...this.queue, ...this.active.values()]) {
+      pending.reject(error);
+    }
+    for (const worker of this.workers) {
+      worker.terminate();
+    }
+    this.queue = [];
+    this.active.clear();
+    this.idle = [];
+    this.workers = [];
+  }
+
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop();
+      const pending = this.queue.shift();
+      if (!worker || !pending) return;
+
+      this.active.set(worker, pending);
+      const request: RenderWorkerMessage = { id: pending.id, job: pending.job };
+      worker.postMessage(request);
+    }
+  }
+
+  private handleResponse(worker: Worker, response: RenderWorkerResponse): void {
+    const pending = this.active.get(worker);
+    if (!pending || pending.id !== response.id) return;
+
+    this.release(worker);
+    if ('blob' in response) {
+      pending.resolve(response.blob);
+    } else {
+      pending.reject(new RenderWorkerError(response.error));
+    }
+  }
+
+  private handleFailure(worker: Worker, message: string): void {
+    const pending = this.active.get(worker);
+    this.release(worker);
+    pending?.reject(new RenderWorkerError(message));
+  }
+
+  private release(worker: Worker): void {
+    this.active.delete(worker);
+    this.idle.push(worker);
+    this.dispatch();
+  }
+}
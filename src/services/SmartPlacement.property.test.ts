@@ -0,0 +1,214 @@
+/**
+ * Property-Based Tests for SmartPlacement Service
+ *
+ * **Feature: manga-watermark-tool, Property 33: Smart Placement**
+ * **Validates: Auto-choosing the emptiest corner or gutter per page**
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  createBusynessMap,
+  findGutters,
+  chooseAutoPlacement,
+} from './SmartPlacement';
+import { createDefaultWatermarkPosition, type PresetPosition, type WatermarkPosition } from '@/types';
+import { arbWatermarkPosition } from '@/test/helpers';
+
+const PAGE_SIZE = 64;
+const QUIET_SIZE = 20;
+
+const CORNERS: PresetPosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+/**
+ * Create RGBA pixels of a checkerboard page, blank (white) where isBlank is true
+ */
+function createPage(
+  width: number,
+  height: number,
+  isBlank: (x: number, y: number) => boolean
+): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = isBlank(x, y) || (x + y) % 2 === 0 ? 255 : 0;
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return data;
+}
+
+/**
+ * Check if a page pixel lies in the blank square of a corner
+ */
+function inCorner(corner: PresetPosition, x: number, y: number): boolean {
+  const inX = corner.endsWith('left') ? x < QUIET_SIZE : x >= PAGE_SIZE - QUIET_SIZE;
+  const inY = corner.startsWith('top') ? y < QUIET_SIZE : y >= PAGE_SIZE - QUIET_SIZE;
+  return inX && inY;
+}
+
+// Arbitrary generator for a busy page with one blank corner, and candidates that include it
+const arbQuietCornerCase = fc.constantFrom(...CORNERS).chain(quiet =>
+  fc.record({
+    quiet: fc.constant(quiet),
+    candidates: fc.shuffledSubarray(CORNERS.filter(c => c !== quiet)).chain(others =>
+      fc.integer({ min: 0, max: others.length }).map(i => [...others.slice(0, i), quiet, ...others.slice(i)])
+    ),
+    margin: fc.integer({ min: 0, max: 5 }),
+    size: fc.record({
+      width: fc.integer({ min: 1, max: 12 }),
+      height: fc.integer({ min: 1, max: 12 }),
+    }),
+  })
+);
+
+describe('Property 33: Smart Placement', () => {
+  const page = { width: PAGE_SIZE, height: PAGE_SIZE };
+
+  const autoPosition = (overrides: Partial<WatermarkPosition>): WatermarkPosition => ({
+    ...createDefaultWatermarkPosition(),
+    presetPosition: 'auto',
+    autoGutters: false,
+    ...overrides,
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 33: Smart Placement**
+   * **Validates: Auto-choosing the emptiest corner or gutter per page**
+   *
+   * On a busy page with one blank corner, that corner SHALL be chosen,
+   * whatever the preference order of the candidates.
+   */
+  it('should choose the blank corner of a busy page', () => {
+    fc.assert(
+      fc.property(arbQuietCornerCase, ({ quiet, candidates, margin, size }) => {
+        const map = createBusynessMap(
+          createPage(PAGE_SIZE, PAGE_SIZE, (x, y) => inCorner(quiet, x, y)),
+          PAGE_SIZE,
+          PAGE_SIZE
+        );
+        const position = autoPosition({
+          autoCandidates: candidates,
+          marginTop: margin,
+          marginRight: margin,
+          marginBottom: margin,
+          marginLeft: margin,
+        });
+
+        const placement = chooseAutoPlacement(map, position, page, size);
+
+        expect(placement.chosen.spot).toBe(quiet);
+        expect(placement.chosen.busyness).toBe(0);
+        expect(placement.candidates.map(c => c.spot)).toEqual(candidates);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 33: Smart Placement**
+   * **Validates: Auto-choosing the emptiest corner or gutter per page**
+   *
+   * The chosen spot SHALL respect the margins, including gutter spots.
+   */
+  it('should keep the chosen spot within the margins', () => {
+    fc.assert(
+      fc.property(
+        arbWatermarkPosition,
+        fc.uint8Array({ minLength: PAGE_SIZE * PAGE_SIZE * 4, maxLength: PAGE_SIZE * PAGE_SIZE * 4 }),
+        fc.integer({ min: 1, max: 16 }),
+        (position, pixels, side) => {
+          const margins = {
+            marginTop: position.marginTop % 20,
+            marginRight: position.marginRight % 20,
+            marginBottom: position.marginBottom % 20,
+            marginLeft: position.marginLeft % 20,
+          };
+          const map = createBusynessMap(pixels, PAGE_SIZE, PAGE_SIZE);
+          const size = { width: side, height: side };
+
+          const { chosen } = chooseAutoPlacement(map, { ...position, ...margins }, page, size);
+
+          expect(chosen.point.x).toBeGreaterThanOrEqual(margins.marginLeft);
+          expect(chosen.point.y).toBeGreaterThanOrEqual(margins.marginTop);
+          expect(chosen.point.x + side).toBeLessThanOrEqual(PAGE_SIZE - margins.marginRight);
+          expect(chosen.point.y + side).toBeLessThanOrEqual(PAGE_SIZE - margins.marginBottom);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 33: Smart Placement**
+   * **Validates: Auto-choosing the emptiest corner or gutter per page**
+   *
+   * A blank band between panels SHALL be found as a gutter, and a gutter
+   * spot SHALL be offered when gutters are allowed.
+   */
+  it('should find blank bands between panels as gutters', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 12, max: 40 }),
+        fc.integer({ min: 4, max: 12 }),
+        fc.boolean(),
+        (start, thickness, horizontal) => {
+          const inBand = (value: number) => value >= start && value < start + thickness;
+          const map = createBusynessMap(
+            createPage(PAGE_SIZE, PAGE_SIZE, (x, y) => inBand(horizontal ? y : x)),
+            PAGE_SIZE,
+            PAGE_SIZE
+          );
+
+          const gutters = findGutters(map);
+          const found = horizontal ? gutters.horizontal : gutters.vertical;
+          const other = horizontal ? gutters.vertical : gutters.horizontal;
+          expect(found).toHaveLength(1);
+          expect(inBand(found[0]!)).toBe(true);
+          expect(other).toHaveLength(0);
+
+          const placement = chooseAutoPlacement(
+            map,
+            autoPosition({ autoCandidates: ['top-left'], autoGutters: true }),
+            page,
+            { width: 2, height: 2 }
+          );
+          expect(placement.chosen.spot).toBe('gutter');
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 33: Smart Placement**
+   * **Validates: Auto-choosing the emptiest corner or gutter per page**
+   *
+   * On a blank page every spot is equally empty, so the first allowed spot SHALL win.
+   */
+  it('should break ties by preference order', () => {
+    fc.assert(
+      fc.property(
+        fc.shuffledSubarray(CORNERS, { minLength: 1 }),
+        (candidates) => {
+          const map = createBusynessMap(
+            createPage(PAGE_SIZE, PAGE_SIZE, () => true),
+            PAGE_SIZE,
+            PAGE_SIZE
+          );
+
+          const placement = chooseAutoPlacement(
+            map,
+            autoPosition({ autoCandidates: candidates, autoGutters: true }),
+            page,
+            { width: 10, height: 10 }
+          );
+
+          expect(placement.chosen).toBe(placement.candidates[0]);
+          expect(placement.chosen.spot).toBe(candidates[0]);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
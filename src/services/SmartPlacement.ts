@@ -0,0 +1,238 @@
+/**
+ * SmartPlacement Service
+ * Picks the least busy spot of a page for auto-placed watermarks, so they
+ * avoid speech bubbles and artwork. Busyness is the edge density of a
+ * downscaled copy of the page.
+ */
+
+import type { PresetPosition, WatermarkPosition } from '@/types';
+import {
+  calculateFinalPosition,
+  resolvePositionUnits,
+  type Dimensions,
+  type Point,
+} from '@/utils/position';
+import type { RenderContext, WatermarkBounds } from './WatermarkRenderer';
+import { createCanvas, getRenderContext } from './PageRenderer';
+
+/**
+ * Longest side of the page copy that is analysed, in pixels
+ */
+export const ANALYSIS_SIZE = 256;
+
+/**
+ * Rows or columns with a lower mean edge strength (0-255) count as gutter
+ */
+export const GUTTER_THRESHOLD = 4;
+
+/**
+ * Edge density of a page, stored as a summed-area table
+ */
+export interface BusynessMap {
+  width: number;        // map size in analysed pixels
+  height: number;
+  scale: number;        // page pixels per map pixel
+  sums: Float64Array;   // (width + 1) * (height + 1) summed-area table of edge strength
+}
+
+/**
+ * Spot a candidate was derived from
+ */
+export type PlacementSpot = PresetPosition | 'gutter';
+
+/**
+ * A place the watermark could go, with how busy the page is there
+ */
+export interface PlacementCandidate {
+  spot: PlacementSpot;
+  point: Point;         // top-left of the watermark in page pixels
+  busyness: number;     // mean edge strength under the watermark, 0 = blank
+}
+
+/**
+ * Result of auto placement for one layer on one page
+ */
+export interface AutoPlacement {
+  chosen: PlacementCandidate;
+  candidates: PlacementCandidate[];   // every spot considered, in order of preference
+}
+
+/**
+ * Build a busyness map from RGBA pixel data
+ * Edge strength is the sum of the horizontal and vertical luma differences.
+ *
+ * @param data - Pixel data, 4 bytes per pixel
+ * @param width - Width of the pixel data
+ * @param height - Height of the pixel data
+ * @param scale - Page pixels per pixel of the data
+ * @returns Busyness map
+ */
+export function createBusynessMap(
+  data: ArrayLike<number>,
+  width: number,
+  height: number,
+  scale: number = 1
+): BusynessMap {
+  const luma = new Float64Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    luma[i] = 0.299 * data[i * 4]! + 0.587 * data[i * 4 + 1]! + 0.114 * data[i * 4 + 2]!;
+  }
+
+  const stride = width + 1;
+  const sums = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const dx = x + 1 < width ? Math.abs(luma[i + 1]! - luma[i]!) : 0;
+      const dy = y + 1 < height ? Math.abs(luma[i + width]! - luma[i]!) : 0;
+      rowSum += dx + dy;
+      sums[(y + 1) * stride + x + 1] = sums[y * stride + x + 1]! + rowSum;
+    }
+  }
+
+  return { width, height, scale, sums };
+}
+
+/**
+ * Sum of edge strength over a map rectangle (exclusive end)
+ */
+function sumRegion(map: BusynessMap, x0: number, y0: number, x1: number, y1: number): number {
+  const stride = map.width + 1;
+  return map.sums[y1 * stride + x1]! - map.sums[y0 * stride + x1]!
+    - map.sums[y1 * stride + x0]! + map.sums[y0 * stride + x0]!;
+}
+
+/**
+ * Mean edge strength of a page region
+ * @param map - Busyness map of the page
+ * @param bounds - Region in page pixels, clipped to the page
+ * @returns Mean edge strength per pixel, 0 for an empty region
+ */
+export function measureBusyness(map: BusynessMap, bounds: WatermarkBounds): number {
+  const clamp = (value: number, max: number) => Math.max(0, Math.min(max, value));
+  const x0 = clamp(Math.floor(bounds.x / map.scale), map.width);
+  const y0 = clamp(Math.floor(bounds.y / map.scale), map.height);
+  const x1 = clamp(Math.ceil((bounds.x + bounds.width) / map.scale), map.width);
+  const y1 = clamp(Math.ceil((bounds.y + bounds.height) / map.scale), map.height);
+
+  const area = (x1 - x0) * (y1 - y0);
+  return area > 0 ? sumRegion(map, x0, y0, x1, y1) / area : 0;
+}
+
+/**
+ * Find panel gutters: blank bands running across the page between panels
+ * Bands touching the page edge are page margins, not gutters, and are skipped.
+ *
+ * @param map - Busyness map of the page
+ * @returns Gutter centers in page pixels; horizontal gutters are y values, vertical ones x values
+ */
+export function findGutters(map: BusynessMap): { horizontal: number[]; vertical: number[] } {
+  const findBands = (length: number, span: number, lineSum: (i: number) => number): number[] => {
+    const centers: number[] = [];
+    let start = -1;
+    for (let i = 0; i <= length; i++) {
+      const quiet = i < length && span > 0 && lineSum(i) / span < GUTTER_THRESHOLD;
+      if (quiet && start < 0) {
+        start = i;
+      } else if (!quiet && start >= 0) {
+        if (start > 0 && i < length && i - start >= 2) {
+          centers.push(((start + i) / 2) * map.scale);
+        }
+        start = -1;
+      }
+    }
+    return centers;
+  };
+
+  return {
+    horizontal: findBands(map.height, map.width, y => sumRegion(map, 0, y, map.width, y + 1)),
+    vertical: findBands(map.width, map.height, x => sumRegion(map, x, 0, x + 1, map.height)),
+  };
+}
+
+/**
+ * Choose where an auto-placed watermark goes on a page
+ * Each allowed preset (with offsets and margins applied) and, when enabled,
+ * each panel gutter is scored; the least busy wins, earlier spots win ties.
+ *
+ * @param map - Busyness map of the page
+ * @param layerPosition - Position settings of the layer
+ * @param canvasSize - Page dimensions
+ * @param watermarkSize - Watermark dimensions
+ * @returns The chosen spot and every candidate considered
+ */
+export function chooseAutoPlacement(
+  map: BusynessMap,
+  layerPosition: WatermarkPosition,
+  canvasSize: Dimensions,
+  watermarkSize: Dimensions
+): AutoPlacement {
+  // Gutter spots are pixel offsets
+  const position = resolvePositionUnits(layerPosition, canvasSize);
+  const points: { spot: PlacementSpot; point: Point }[] = position.autoCandidates.map(spot => ({
+    spot,
+    point: calculateFinalPosition({ ...position, presetPosition: spot }, canvasSize, watermarkSize),
+  }));
+
+  if (position.autoGutters) {
+    // Gutters center the watermark on the band; margins still apply
+    const gutterPoint = (x: number, y: number) => ({
+      spot: 'gutter' as const,
+      point: calculateFinalPosition(
+        { ...position, presetPosition: 'custom', offsetX: x, offsetY: y },
+        canvasSize,
+        watermarkSize
+      ),
+    });
+    const gutters = findGutters(map);
+    for (const y of gutters.horizontal) {
+      points.push(gutterPoint((canvasSize.width - watermarkSize.width) / 2, y - watermarkSize.height / 2));
+    }
+    for (const x of gutters.vertical) {
+      points.push(gutterPoint(x - watermarkSize.width / 2, (canvasSize.height - watermarkSize.height) / 2));
+    }
+  }
+
+  if (points.length === 0) {
+    points.push({ spot: 'bottom-right', point: calculateFinalPosition(position, canvasSize, watermarkSize) });
+  }
+
+  const candidates = points.map(({ spot, point }) => ({
+    spot,
+    point,
+    busyness: measureBusyness(map, { ...point, ...watermarkSize }),
+  }));
+
+  let chosen = candidates[0]!;
+  for (const candidate of candidates) {
+    if (candidate.busyness < chosen.busyness) {
+      chosen = candidate;
+    }
+  }
+
+  return { chosen, candidates };
+}
+
+/**
+ * Build the busyness map of the page drawn on a canvas
+ * @param ctx - Canvas 2D context holding the page
+ * @param canvasSize - Page dimensions
+ * @returns Busyness map, or null if the page pixels cannot be read
+ */
+export function readBusynessMap(ctx: RenderContext, canvasSize: Dimensions): BusynessMap | null {
+  const scale = Math.max(1, Math.max(canvasSize.width, canvasSize.height) / ANALYSIS_SIZE);
+  const width = Math.max(1, Math.round(canvasSize.width / scale));
+  const height = Math.max(1, Math.round(canvasSize.height / scale));
+
+  try {
+    // Small copy of the page to analyse
+    const analysis = getRenderContext(createCanvas(width, height));
+    analysis.drawImage(ctx.canvas, 0, 0, canvasSize.width, canvasSize.height, 0, 0, width, height);
+    const { data } = analysis.getImageData(0, 0, width, height);
+    return createBusynessMap(data, width, height, canvasSize.width / width);
+  } catch {
+    // Tainted canvases cannot be read, and the copy may not be creatable
+    return null;
+  }
+}
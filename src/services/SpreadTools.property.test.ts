@@ -0,0 +1,157 @@
+/**
+ * Property-Based Tests for SpreadTools Service
+ *
+ * **Feature: manga-watermark-tool, Property 36: Spread Split and Merge**
+ * **Validates: Detecting, splitting and merging double-page spreads in RTL order**
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  detectSpreads,
+  getSplitRegions,
+  getMergeLayout,
+} from './SpreadTools';
+import { replaceImagesInPlace } from '@/utils/imageList';
+import type { UploadedImage } from '@/types';
+import { createMockImageFile } from '@/test/helpers';
+
+/**
+ * Create a page with the given size
+ */
+function createPage(id: string, width: number, height: number, chapter?: string): UploadedImage {
+  return {
+    id,
+    file: createMockImageFile(`${id}.png`),
+    name: `${id}.png`,
+    width,
+    height,
+    size: 0,
+    dataUrl: '',
+    processed: false,
+    ...(chapter !== undefined && { chapter }),
+  };
+}
+
+// Arbitrary generator for a page size
+const arbPageSize = fc.record({
+  width: fc.integer({ min: 1, max: 4000 }),
+  height: fc.integer({ min: 1, max: 4000 }),
+});
+
+describe('Property 36: Spread Split and Merge', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 36: Spread Split and Merge**
+   * **Validates: Detecting, splitting and merging double-page spreads in RTL order**
+   *
+   * A page about twice as wide as its chapter siblings SHALL be detected as
+   * a spread, and the siblings SHALL NOT.
+   */
+  it('should detect pages much wider than their chapter siblings', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 800, max: 1200 }),
+        fc.integer({ min: 1, max: 6 }),
+        fc.nat(),
+        (pageWidth, pageCount, spreadIndex) => {
+          const height = 1500;
+          const pages = Array.from({ length: pageCount }, (_, i) =>
+            createPage(`page${i}`, pageWidth, height, 'Chapter 1')
+          );
+          const spread = createPage('spread', pageWidth * 2, height, 'Chapter 1');
+          pages.splice(spreadIndex % (pageCount + 1), 0, spread);
+          // A landscape page in another chapter is compared with its own siblings
+          const otherChapter = [
+            createPage('wide1', height, pageWidth, 'Chapter 2'),
+            createPage('wide2', height, pageWidth, 'Chapter 2'),
+          ];
+
+          expect(detectSpreads([...pages, ...otherChapter])).toEqual(['spread']);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 36: Spread Split and Merge**
+   * **Validates: Detecting, splitting and merging double-page spreads in RTL order**
+   *
+   * Splitting SHALL cover the whole spread without overlap, with the right
+   * half first.
+   */
+  it('should split a spread into right then left halves', () => {
+    fc.assert(
+      fc.property(arbPageSize, ({ width, height }) => {
+        const [right, left] = getSplitRegions(width, height);
+
+        expect(left.x).toBe(0);
+        expect(right.x).toBe(left.width);
+        expect(left.width + right.width).toBe(width);
+        expect(right.width - left.width).toBeGreaterThanOrEqual(0);
+        expect(right.width - left.width).toBeLessThanOrEqual(1);
+        expect(right.height).toBe(height);
+        expect(left.height).toBe(height);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 36: Spread Split and Merge**
+   * **Validates: Detecting, splitting and merging double-page spreads in RTL order**
+   *
+   * Merging SHALL put the first page on the right at a shared height, and
+   * splitting two equal pages' spread SHALL give back their sizes.
+   */
+  it('should merge the first page on the right', () => {
+    fc.assert(
+      fc.property(arbPageSize, arbPageSize, (first, second) => {
+        const layout = getMergeLayout(first, second);
+
+        expect(layout.height).toBe(Math.max(first.height, second.height));
+        expect(layout.left.x).toBe(0);
+        expect(layout.right.x).toBe(layout.left.width);
+        expect(layout.width).toBe(layout.left.width + layout.right.width);
+
+        const spread = getMergeLayout(first, first);
+        const [right, left] = getSplitRegions(spread.width, spread.height);
+        expect(right).toEqual(spread.right);
+        expect(left).toEqual(spread.left);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 36: Spread Split and Merge**
+   * **Validates: Detecting, splitting and merging double-page spreads in RTL order**
+   *
+   * New pages SHALL take the place of the first replaced page, and every
+   * other page SHALL keep its order.
+   */
+  it('should insert replacements in place', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 10 }),
+        fc.array(fc.nat(), { minLength: 1, maxLength: 3 }),
+        fc.integer({ min: 1, max: 3 }),
+        (count, picks, replacementCount) => {
+          const pages = Array.from({ length: count }, (_, i) => createPage(`page${i}`, 100, 150));
+          const replacedIds = [...new Set(picks.map(pick => pages[pick % count]!.id))];
+          const replacements = Array.from({ length: replacementCount }, (_, i) => createPage(`new${i}`, 100, 150));
+
+          const result = replaceImagesInPlace(pages, replacedIds, replacements);
+          const firstIndex = pages.findIndex(page => replacedIds.includes(page.id));
+
+          expect(result).toHaveLength(count - replacedIds.length + replacementCount);
+          expect(result.slice(firstIndex, firstIndex + replacementCount)).toEqual(replacements);
+          expect(result.filter(page => !page.id.startsWith('new'))).toEqual(
+            pages.filter(page => !replacedIds.includes(page.id))
+          );
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
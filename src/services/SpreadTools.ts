@@ -0,0 +1,202 @@
+/**
+ * SpreadTools Service
+ * Detects double-page spreads, splits them into single pages and merges
+ * two pages back into one spread. Manga reads right to left, so the right
+ * half of a spread is the earlier page.
+ */
+
+import type { CropRegion, UploadedImage } from '@/types';
+import { loadImage } from './ImageProcessor';
+
+/**
+ * How much wider than its chapter siblings a page must be to count as a spread
+ * A spread of two pages is about twice as wide; 1.5 tolerates trimmed scans.
+ */
+export const SPREAD_WIDTH_RATIO = 1.5;
+
+/**
+ * Placement of the two pages in a merged spread
+ */
+export interface SpreadLayout {
+  width: number;
+  height: number;
+  right: CropRegion; // Earlier page, drawn on the right
+  left: CropRegion; // Later page, drawn on the left
+}
+
+/**
+ * Get the median width-to-height ratio of pages
+ * @returns Median aspect ratio, or null when there are no pages
+ */
+function getMedianAspectRatio(pages: UploadedImage[]): number | null {
+  const ratios = pages.map(page => page.width / page.height).sort((a, b) => a - b);
+  if (ratios.length === 0) {
+    return null;
+  }
+  const middle = Math.floor(ratios.length / 2);
+  return ratios.length % 2 === 1
+    ? ratios[middle]!
+    : (ratios[middle - 1]! + ratios[middle]!) / 2;
+}
+
+/**
+ * Find the pages that look like double-page spreads
+ * A landscape page is a spread when it is at least SPREAD_WIDTH_RATIO times
+ * wider than the median page of its chapter. A page without siblings counts
+ * as a spread when it is landscape.
+ *
+ * @param images - Pages in list order
+ * @returns IDs of the spread pages, in list order
+ */
+export function detectSpreads(images: UploadedImage[]): string[] {
+  return images
+    .filter(image => {
+      if (image.width <= image.height) {
+        return false;
+      }
+      const siblings = images.filter(other => other.id !== image.id && other.chapter === image.chapter);
+      const median = getMedianAspectRatio(siblings);
+      return median === null || image.width / image.height >= median * SPREAD_WIDTH_RATIO;
+    })
+    .map(image => image.id);
+}
+
+/**
+ * Get the halves of a spread, in reading order
+ * The right half gets the extra pixel of an odd width.
+ *
+ * @param width - Spread width
+ * @param height - Spread height
+ * @returns Right (first) and left (second) page regions
+ */
+export function getSplitRegions(width: number, height: number): [CropRegion, CropRegion] {
+  const leftWidth = Math.floor(width / 2);
+  return [
+    { x: leftWidth, y: 0, width: width - leftWidth, height },
+    { x: 0, y: 0, width: leftWidth, height },
+  ];
+}
+
+/**
+ * Lay out two pages side by side as a spread
+ * Both pages are scaled to the taller page's height, the first page on the right.
+ *
+ * @param first - Earlier page
+ * @param second - Later page
+ * @returns Spread size and where each page is drawn
+ */
+export function getMergeLayout(
+  first: { width: number; height: number },
+  second: { width: number; height: number }
+): SpreadLayout {
+  const height = Math.max(first.height, second.height);
+  const leftWidth = Math.round(second.width * height / second.height);
+  const rightWidth = Math.round(first.width * height / first.height);
+  return {
+    width: leftWidth + rightWidth,
+    height,
+    right: { x: leftWidth, y: 0, width: rightWidth, height },
+    left: { x: 0, y: 0, width: leftWidth, height },
+  };
+}
+
+/**
+ * Get a filename without its extension
+ */
+function getBaseName(name: string): string {
+  const lastDotIndex = name.lastIndexOf('.');
+  return lastDotIndex > 0 ? name.substring(0, lastDotIndex) : name;
+}
+
+/**
+ * Load a page's pixels
+ */
+function loadPageElement(dataUrl: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load page'));
+    img.src = dataUrl;
+  });
+}
+
+/**
+ * Draw regions of pages onto a new canvas and load it as a page
+ */
+async function createPage(
+  name: string,
+  width: number,
+  height: number,
+  draw: (ctx: CanvasRenderingContext2D) => void
+): Promise<UploadedImage> {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to create canvas context');
+  }
+  draw(ctx);
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      result => (result ? resolve(result) : reject(new Error('Failed to encode page'))),
+      'image/png'
+    );
+  });
+  return loadImage(new File([blob], name, { type: 'image/png' }));
+}
+
+/**
+ * Split a spread into its right and left pages
+ * The pages keep the spread's chapter and watermark overrides; its crop is
+ * dropped because the region no longer fits the halves.
+ *
+ * @param spread - Spread page
+ * @returns Right (first) and left (second) pages
+ */
+export async function splitSpread(spread: UploadedImage): Promise<[UploadedImage, UploadedImage]> {
+  const source = await loadPageElement(spread.dataUrl);
+  const baseName = getBaseName(spread.name);
+
+  const [first, second] = await Promise.all(
+    getSplitRegions(spread.width, spread.height).map((region, index) =>
+      createPage(`${baseName}_${index + 1}.png`, region.width, region.height, ctx => {
+        ctx.drawImage(
+          source,
+          region.x, region.y, region.width, region.height,
+          0, 0, region.width, region.height
+        );
+      })
+    )
+  );
+
+  return [first!, second!].map(page => ({
+    ...page,
+    ...(spread.chapter !== undefined && { chapter: spread.chapter }),
+    ...(spread.watermarkOverride && { watermarkOverride: spread.watermarkOverride }),
+  })) as [UploadedImage, UploadedImage];
+}
+
+/**
+ * Merge two pages into one spread, the first page on the right
+ * @param first - Earlier page
+ * @param second - Later page
+ * @returns Spread page, in the first page's chapter
+ */
+export async function mergeSpread(first: UploadedImage, second: UploadedImage): Promise<UploadedImage> {
+  const [right, left] = await Promise.all([
+    loadPageElement(first.dataUrl),
+    loadPageElement(second.dataUrl),
+  ]);
+  const layout = getMergeLayout(first, second);
+  const name = `${getBaseName(first.name)}-${getBaseName(second.name)}.png`;
+
+  const spread = await createPage(name, layout.width, layout.height, ctx => {
+    ctx.drawImage(right, layout.right.x, layout.right.y, layout.right.width, layout.right.height);
+    ctx.drawImage(left, layout.left.x, layout.left.y, layout.left.width, layout.left.height);
+  });
+
+  return first.chapter !== undefined ? { ...spread, chapter: first.chapter } : spread;
+}
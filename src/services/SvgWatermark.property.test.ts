@@ -0,0 +1,157 @@
+/**
+ * Property-Based Tests for SvgWatermark Service and SVG image watermarks
+ *
+ * **Feature: manga-watermark-tool, Property 43: SVG Watermark**
+ * **Validates: SVG logos rasterized at the drawn size, with optional recoloring**
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { DEFAULT_SVG_SIZE, getSvgSize, getSvgDataUrl } from './SvgWatermark';
+import { getImageDataUrl, rasterizeImageWatermark } from './WatermarkRenderer';
+import {
+  serializeWatermarkSettings,
+  deserializeWatermarkSettings,
+  validateSettingsJson,
+  isValidBase64,
+} from '@/utils/serialization';
+import { createWatermarkLayer, isSvgImageData, type ImageWatermarkConfig } from '@/types';
+import { arbBase64Image, arbImageWatermarkConfig, arbSvgImage, arbWatermarkPosition } from '@/test/helpers';
+
+const arbLength = fc.integer({ min: 1, max: 4000 });
+
+/**
+ * Decode the markup of an SVG data URL
+ */
+function decodeSvgDataUrl(dataUrl: string): string {
+  const prefix = 'data:image/svg+xml;charset=utf-8,';
+  expect(dataUrl.startsWith(prefix)).toBe(true);
+  return decodeURIComponent(dataUrl.slice(prefix.length));
+}
+
+describe('Property 43: SVG Watermark', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 43: SVG Watermark**
+   * **Validates: SVG logos rasterized at the drawn size, with optional recoloring**
+   *
+   * The intrinsic size SHALL come from width and height, fall back to the
+   * viewBox (keeping its aspect ratio), and else to the browser default.
+   */
+  it('should read the intrinsic size of an SVG', () => {
+    fc.assert(
+      fc.property(arbLength, arbLength, arbLength, arbLength, (width, height, boxWidth, boxHeight) => {
+        const viewBox = `viewBox="0 0 ${boxWidth} ${boxHeight}"`;
+
+        expect(getSvgSize(`<svg width="${width}px" height="${height}" ${viewBox}></svg>`))
+          .toEqual({ width, height });
+        expect(getSvgSize(`<svg ${viewBox}></svg>`)).toEqual({ width: boxWidth, height: boxHeight });
+        expect(getSvgSize(`<svg width="${width}" ${viewBox}></svg>`).height)
+          .toBeCloseTo(width * boxHeight / boxWidth);
+        expect(getSvgSize(`<svg width="100%" height="50%"></svg>`)).toEqual(DEFAULT_SVG_SIZE);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 43: SVG Watermark**
+   * **Validates: SVG logos rasterized at the drawn size, with optional recoloring**
+   *
+   * SVG markup SHALL be decoded from a data URL whose root has an explicit
+   * size and a viewBox, keeping the drawing; bitmaps SHALL keep their data URL.
+   */
+  it('should build a scalable data URL for SVG markup', () => {
+    fc.assert(
+      fc.property(arbSvgImage, arbBase64Image, (svg, bitmap) => {
+        expect(isSvgImageData(svg)).toBe(true);
+        expect(isSvgImageData(`<?xml version="1.0"?>\n<!-- logo -->\n${svg}`)).toBe(true);
+        expect(isSvgImageData(bitmap)).toBe(false);
+        expect(getImageDataUrl(bitmap)).toBe(bitmap);
+
+        const decoded = decodeSvgDataUrl(getImageDataUrl(svg));
+        const size = getSvgSize(svg);
+        expect(decoded).toContain(`width="${size.width}" height="${size.height}"`);
+        expect(decoded).toMatch(/viewBox="0 0 [\d.]+ [\d.]+"/);
+        expect(getSvgSize(decoded)).toEqual(size);
+        expect(decoded).toContain('<circle cx="1" cy="1" r="1"/></svg>');
+        expect(getSvgDataUrl(decoded)).toBe(getSvgDataUrl(svg));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 43: SVG Watermark**
+   * **Validates: SVG logos rasterized at the drawn size, with optional recoloring**
+   *
+   * SVG layers SHALL be drawn from the vector at the rounded drawn size and
+   * painted in the watermark color only when recoloring; bitmaps SHALL be
+   * drawn as they are.
+   */
+  it('should rasterize SVG layers at the drawn size', () => {
+    fc.assert(
+      fc.property(
+        arbImageWatermarkConfig,
+        fc.double({ min: 0.5, max: 4000, noNaN: true }),
+        fc.double({ min: 0.5, max: 4000, noNaN: true }),
+        (config, width, height) => {
+          const image = document.createElement('img');
+          const raster = rasterizeImageWatermark(config, image, { width, height });
+
+          if (!isSvgImageData(config.imageData)) {
+            expect(raster).toBe(image);
+            return;
+          }
+
+          const canvas = raster as HTMLCanvasElement;
+          expect(canvas.width).toBe(Math.max(1, Math.round(width)));
+          expect(canvas.height).toBe(Math.max(1, Math.round(height)));
+
+          const { results } = vi.mocked(HTMLCanvasElement.prototype.getContext).mock;
+          const ctx = results[results.length - 1]!.value as CanvasRenderingContext2D;
+          expect(ctx.drawImage).toHaveBeenCalledWith(image, 0, 0, canvas.width, canvas.height);
+          if (config.recolor) {
+            expect(ctx.globalCompositeOperation).toBe('source-in');
+            expect(ctx.fillStyle).toBe(config.color);
+            expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, canvas.width, canvas.height);
+          } else {
+            expect(ctx.fillRect).not.toHaveBeenCalled();
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 43: SVG Watermark**
+   * **Validates: SVG logos rasterized at the drawn size, with optional recoloring**
+   *
+   * SVG markup SHALL pass as image data and survive serialization, while
+   * image data that is neither base64 nor SVG SHALL be rejected.
+   */
+  it('should serialize and validate SVG image data', () => {
+    fc.assert(
+      fc.property(
+        arbImageWatermarkConfig,
+        arbSvgImage,
+        arbWatermarkPosition,
+        fc.stringMatching(/^[a-z ]*[ !][a-z ]*$/),
+        (base, svg, position, garbage) => {
+          const config: ImageWatermarkConfig = { ...base, imageData: svg };
+          const json = serializeWatermarkSettings({ layers: [createWatermarkLayer(config, position)], enabled: true });
+
+          expect(isValidBase64(svg)).toBe(true);
+          expect(validateSettingsJson(json).valid).toBe(true);
+          expect(deserializeWatermarkSettings(json).layers[0]!.config).toEqual(config);
+
+          expect(isValidBase64(garbage)).toBe(false);
+          const invalid = JSON.parse(json) as { layers: Array<{ config: Record<string, unknown> }> };
+          invalid.layers[0]!.config['imageData'] = garbage;
+          expect(validateSettingsJson(JSON.stringify(invalid)).valid).toBe(false);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
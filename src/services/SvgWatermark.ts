@@ -0,0 +1,98 @@
+/**
+ * SvgWatermark Service
+ * Handles SVG logos stored as markup in image watermarks, so they can be
+ * decoded as images and drawn from the vector at any size
+ */
+
+import type { Dimensions } from '@/utils/position';
+
+/**
+ * Size browsers give an SVG image without width, height or viewBox
+ */
+export const DEFAULT_SVG_SIZE: Dimensions = { width: 300, height: 150 };
+
+const SVG_ROOT_TAG = /<svg\b[^>]*>/i;
+
+/**
+ * Read an attribute of the root tag
+ * @param tag - Root <svg> start tag
+ * @param name - Attribute name
+ * @returns Attribute value, or null if missing
+ */
+function getAttribute(tag: string, name: string): string | null {
+  const match = new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i').exec(tag);
+  return match ? (match[2] ?? match[3] ?? '') : null;
+}
+
+/**
+ * Parse an absolute length in user units (px or unitless)
+ * @param value - Attribute value
+ * @returns Length, or null for relative units, zero or invalid values
+ */
+function parseLength(value: string | null): number | null {
+  const match = value === null ? null : /^\s*([\d.]+(?:e[+-]?\d+)?)\s*(px)?\s*$/i.exec(value);
+  const length = match ? Number(match[1]) : NaN;
+  return Number.isFinite(length) && length > 0 ? length : null;
+}
+
+/**
+ * Parse the viewBox of the root tag
+ * @param tag - Root <svg> start tag
+ * @returns Width and height of the viewBox, or null if missing or invalid
+ */
+function parseViewBox(tag: string): Dimensions | null {
+  const values = (getAttribute(tag, 'viewBox') ?? '').trim().split(/[\s,]+/).map(Number);
+  if (values.length !== 4 || values.some(v => !Number.isFinite(v))) return null;
+  const [, , width, height] = values as [number, number, number, number];
+  return width > 0 && height > 0 ? { width, height } : null;
+}
+
+/**
+ * Get the intrinsic size of an SVG
+ * Width and height win; a missing one follows the viewBox aspect ratio.
+ *
+ * @param svg - SVG markup
+ * @returns Intrinsic dimensions
+ */
+export function getSvgSize(svg: string): Dimensions {
+  const tag = SVG_ROOT_TAG.exec(svg)?.[0] ?? '';
+  const width = parseLength(getAttribute(tag, 'width'));
+  const height = parseLength(getAttribute(tag, 'height'));
+  const viewBox = parseViewBox(tag);
+
+  if (width !== null && height !== null) return { width, height };
+  if (viewBox) {
+    if (width !== null) return { width, height: width * viewBox.height / viewBox.width };
+    if (height !== null) return { width: height * viewBox.width / viewBox.height, height };
+    return viewBox;
+  }
+  return {
+    width: width ?? DEFAULT_SVG_SIZE.width,
+    height: height ?? DEFAULT_SVG_SIZE.height,
+  };
+}
+
+/**
+ * Build a data URL that decodes an SVG as an image
+ * The root gets an explicit size, so every browser reports the same
+ * natural size, and a viewBox, so the drawing scales with the drawn size.
+ *
+ * @param svg - SVG markup
+ * @returns URL-encoded SVG data URL
+ */
+export function getSvgDataUrl(svg: string): string {
+  const tag = SVG_ROOT_TAG.exec(svg)?.[0];
+  if (!tag) {
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  }
+
+  const size = getSvgSize(svg);
+  let root = tag.replace(/\s(width|height)\s*=\s*("[^"]*"|'[^']*')/gi, '');
+  if (!parseViewBox(tag)) {
+    root = root.replace(/\sviewBox\s*=\s*("[^"]*"|'[^']*')/i, '')
+      .replace(/^<svg/i, `<svg viewBox="0 0 ${size.width} ${size.height}"`);
+  }
+  root = root.replace(/^<svg/i, `<svg width="${size.width}" height="${size.height}"`);
+
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg.replace(tag, () => root))}`;
+}
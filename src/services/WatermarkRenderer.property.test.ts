@@ -1,7 +1,7 @@
 /**
  * Property-Based Tests for WatermarkRenderer Service
  * 
- * Tests Properties 3, 4, 5, 6, and 8 from the design document
+ * Tests Properties 3, 4, 5, 6, 8, 28, 30, 31, 32 and 34 from the design document
  */
 
 import { describe, it, expect, vi } from 'vitest';
@@ -11,16 +11,33 @@ import {
   degreesToRadians,
   calculateScaledDimensions,
   calculateTileCount,
+  calculateTilePositions,
   renderTextWatermark,
+  renderImageWatermark,
+  render,
+  wrapText,
+  getTextWatermarkDimensions,
+  calculateGradientLine,
+  calculateLuminance,
+  chooseContrastColor,
+  calculateWatermarkBounds,
+  convertLayerUnits,
+  resolveLayerUnits,
 } from './WatermarkRenderer';
 import {
   arbTextWatermarkConfig,
+  arbImageWatermarkConfig,
+  arbQrWatermarkConfig,
   arbOpacity,
   arbScale,
   arbRotation,
   arbCanvasDimensions,
   arbWatermarkDimensions,
+  arbWatermarkLayer,
+  arbWatermarkPosition,
+  arbHexColor,
 } from '@/test/helpers';
+import { createWatermarkLayer, type BlendMode, type WatermarkConfig } from '@/types';
 
 // Mock canvas context for testing
 function createMockContext(): CanvasRenderingContext2D {
@@ -40,10 +57,12 @@ function createMockContext(): CanvasRenderingContext2D {
     fillStyle: '',
     strokeStyle: '',
     globalAlpha: 1,
+    globalCompositeOperation: 'source-over',
     textBaseline: 'alphabetic',
     lineWidth: 1,
     lineJoin: 'miter',
     drawImage: vi.fn(),
+    fillRect: vi.fn(),
   } as unknown as CanvasRenderingContext2D;
 }
 
@@ -199,6 +218,46 @@ describe('Property 4: Opacity Application', () => {
       { numRuns: 100 }
     );
   });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 4: Opacity Application**
+   * **Validates: Requirements 2.6, 3.4**
+   * 
+   * Text and image watermarks SHALL blend with the page through the
+   * composite operation of their blend mode ('normal' draws over the page).
+   */
+  it('should apply the blend mode when rendering', () => {
+    fc.assert(
+      fc.property(
+        arbTextWatermarkConfig,
+        arbImageWatermarkConfig,
+        arbCanvasDimensions,
+        (textConfig, imageConfig, canvasSize) => {
+          const expected = (mode: BlendMode) => mode === 'normal' ? 'source-over' : mode;
+
+          const textCtx = createMockContext();
+          const textOperations: string[] = [];
+          vi.mocked(textCtx.fillText).mockImplementation(() => {
+            textOperations.push(textCtx.globalCompositeOperation);
+          });
+          renderTextWatermark(textCtx, textConfig, { x: 0, y: 0 }, 0);
+          expect(textOperations.length).toBeGreaterThan(0);
+          expect(textOperations.every(op => op === expected(textConfig.blendMode))).toBe(true);
+
+          const imageCtx = createMockContext();
+          const imageOperations: string[] = [];
+          vi.mocked(imageCtx.drawImage).mockImplementation(() => {
+            imageOperations.push(imageCtx.globalCompositeOperation);
+          });
+          const image = { width: 100, height: 50 } as ImageBitmap;
+          renderImageWatermark(imageCtx, imageConfig, image, { x: 0, y: 0 }, canvasSize, 0);
+          expect(imageOperations.length).toBeGreaterThan(0);
+          expect(imageOperations.every(op => op === expected(imageConfig.blendMode))).toBe(true);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
 });
 
 describe('Property 5: Image Watermark Scaling', () => {
@@ -307,6 +366,87 @@ describe('Property 6: Tiling Calculation', () => {
       { numRuns: 100 }
     );
   });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 6: Tiling Calculation**
+   * **Validates: Requirements 3.5**
+   * 
+   * Without stagger or grid rotation, tile positions SHALL form the grid
+   * counted by calculateTileCount, starting at the canvas origin.
+   */
+  it('should lay out an unrotated grid from the tile count', () => {
+    fc.assert(
+      fc.property(
+        arbCanvasDimensions,
+        arbWatermarkDimensions,
+        fc.integer({ min: 0, max: 200 }),
+        fc.integer({ min: 0, max: 200 }),
+        (canvasSize, watermarkSize, spacingX, spacingY) => {
+          const positions = calculateTilePositions(canvasSize, watermarkSize, spacingX, spacingY);
+          const { tilesX, totalTiles } = calculateTileCount(canvasSize, watermarkSize, spacingX, spacingY);
+
+          expect(positions).toHaveLength(totalTiles);
+          positions.forEach((position, i) => {
+            expect(position.x).toBe((i % tilesX) * (watermarkSize.width + spacingX));
+            expect(position.y).toBe(Math.floor(i / tilesX) * (watermarkSize.height + spacingY));
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 6: Tiling Calculation**
+   * **Validates: Requirements 3.5**
+   * 
+   * For any stagger and grid rotation, every corner of the canvas SHALL fall
+   * inside a tile cell once the grid is rotated around the canvas center.
+   */
+  it('should cover the canvas for any stagger and grid rotation', () => {
+    fc.assert(
+      fc.property(
+        fc.record({ width: fc.integer({ min: 1, max: 1000 }), height: fc.integer({ min: 1, max: 1000 }) }),
+        fc.record({ width: fc.integer({ min: 20, max: 300 }), height: fc.integer({ min: 20, max: 300 }) }),
+        fc.integer({ min: 0, max: 100 }),
+        fc.integer({ min: 0, max: 100 }),
+        fc.integer({ min: 0, max: 100 }),
+        fc.integer({ min: -180, max: 180 }),
+        (canvasSize, tileSize, spacingX, spacingY, stagger, gridRotation) => {
+          const positions = calculateTilePositions(
+            canvasSize, tileSize, spacingX, spacingY, stagger, gridRotation
+          );
+          const stepX = tileSize.width + spacingX;
+          const stepY = tileSize.height + spacingY;
+          const centerX = canvasSize.width / 2;
+          const centerY = canvasSize.height / 2;
+          const angle = -degreesToRadians(gridRotation);
+          const epsilon = 1e-6;
+
+          const corners = [
+            { x: 0, y: 0 },
+            { x: canvasSize.width, y: 0 },
+            { x: 0, y: canvasSize.height },
+            { x: canvasSize.width, y: canvasSize.height },
+          ];
+          for (const corner of corners) {
+            // Map the corner into unrotated grid space
+            const dx = corner.x - centerX;
+            const dy = corner.y - centerY;
+            const x = centerX + dx * Math.cos(angle) - dy * Math.sin(angle);
+            const y = centerY + dx * Math.sin(angle) + dy * Math.cos(angle);
+
+            const covered = positions.some(p =>
+              x >= p.x - epsilon && x <= p.x + stepX + epsilon &&
+              y >= p.y - epsilon && y <= p.y + stepY + epsilon
+            );
+            expect(covered).toBe(true);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
 });
 
 describe('Property 8: Rotation Application', () => {
@@ -372,6 +512,34 @@ describe('Property 8: Rotation Application', () => {
     );
   });
 
+  /**
+   * **Feature: manga-watermark-tool, Property 8: Rotation Application**
+   * **Validates: Requirements 4.4**
+   * 
+   * A rotated text block SHALL turn around the center of its measured
+   * bounds, the same box used for hit-testing and auto placement.
+   */
+  it('should rotate text around the center of its bounds', () => {
+    fc.assert(
+      fc.property(
+        arbTextWatermarkConfig.filter(config => config.text.trim().length > 0),
+        fc.integer({ min: 1, max: 359 }),
+        fc.integer({ min: 0, max: 1000 }),
+        fc.integer({ min: 0, max: 1000 }),
+        (config, rotation, x, y) => {
+          const ctx = createMockContext();
+          const dimensions = getTextWatermarkDimensions(ctx, config);
+          renderTextWatermark(ctx, config, { x, y }, rotation);
+
+          const [centerX, centerY] = vi.mocked(ctx.translate).mock.calls[0]!;
+          expect(centerX).toBeCloseTo(x + dimensions.width / 2);
+          expect(centerY).toBeCloseTo(y + dimensions.height / 2);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
   /**
    * **Feature: manga-watermark-tool, Property 8: Rotation Application**
    * **Validates: Requirements 4.4**
@@ -387,3 +555,597 @@ describe('Property 8: Rotation Application', () => {
     expect(Math.sin(radians360)).toBeCloseTo(Math.sin(radians0), 10);
   });
 });
+
+describe('Property 28: Watermark Layer Stack', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 28: Watermark Layer Stack**
+   * **Validates: Multiple watermark layers**
+   * 
+   * For any stack of untiled layers, rendering SHALL draw the enabled text
+   * layers in order (bottom to top), skip disabled layers, and scale each
+   * layer's opacity by its layer opacity.
+   */
+  it('should render enabled layers in order with layer opacity', async () => {
+    const arbUntiledLayer = arbWatermarkLayer.map(layer => ({
+      ...layer,
+      config: { ...layer.config, tileEnabled: false },
+    }));
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(arbUntiledLayer, { minLength: 1, maxLength: 5 }),
+        arbCanvasDimensions,
+        async (layers, canvasSize) => {
+          const ctx = createMockContext();
+          const alphas: number[] = [];
+          vi.mocked(ctx.fillText).mockImplementation(() => {
+            alphas.push(ctx.globalAlpha);
+          });
+
+          await render(ctx, { layers, enabled: true }, canvasSize);
+
+          const drawn = layers.filter(l =>
+            l.enabled && l.config.type === 'text' && l.config.text.trim().length > 0
+          );
+          expect(vi.mocked(ctx.fillText).mock.calls.map(call => call[0])).toEqual(
+            drawn.map(l => l.config.type === 'text' ? l.config.text : '')
+          );
+          drawn.forEach((layer, i) => {
+            expect(alphas[i]).toBeCloseTo(
+              normalizeOpacity(layer.config.opacity) * normalizeOpacity(layer.opacity)
+            );
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 28: Watermark Layer Stack**
+   * **Validates: Multiple watermark layers**
+   * 
+   * Disabling the watermark SHALL skip every layer.
+   */
+  it('should not render any layer when disabled', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(arbWatermarkLayer, { minLength: 1, maxLength: 5 }),
+        arbCanvasDimensions,
+        async (layers, canvasSize) => {
+          const ctx = createMockContext();
+
+          await render(ctx, { layers, enabled: false }, canvasSize);
+
+          expect(ctx.fillText).not.toHaveBeenCalled();
+          expect(ctx.drawImage).not.toHaveBeenCalled();
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// Mock context whose text width is proportional to the character count
+function createMeasuringContext(charWidth: number): CanvasRenderingContext2D {
+  const ctx = createMockContext();
+  vi.mocked(ctx.measureText).mockImplementation((text: string) => ({
+    width: Array.from(text).length * charWidth,
+    actualBoundingBoxAscent: 12,
+    actualBoundingBoxDescent: 4,
+  }) as TextMetrics);
+  return ctx;
+}
+
+// Arbitrary generator for multi-line text made of short words
+const arbWords = fc.array(fc.stringMatching(/^[a-z]{1,8}$/), { minLength: 1, maxLength: 6 })
+  .map(words => words.join(' '));
+const arbMultilineText = fc.array(arbWords, { minLength: 1, maxLength: 4 })
+  .map(lines => lines.join('\n'));
+const arbPosition = fc.record({
+  x: fc.integer({ min: 0, max: 1000 }),
+  y: fc.integer({ min: 0, max: 1000 }),
+});
+
+describe('Property 30: Text Block Layout', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 30: Text Block Layout**
+   * **Validates: Multi-line, aligned and letter-spaced text watermarks**
+   *
+   * Wrapping SHALL keep every word in order, break on every newline and
+   * never exceed the max width unless a single word is wider.
+   */
+  it('should wrap text within the max width', () => {
+    fc.assert(
+      fc.property(arbMultilineText, fc.integer({ min: 0, max: 80 }), (text, maxWidth) => {
+        const measure = (t: string) => t.length;
+        const lines = wrapText(text, maxWidth, measure);
+
+        expect(lines.join(' ').split(/ +/)).toEqual(text.split(/\n| +/));
+        expect(lines.length).toBeGreaterThanOrEqual(text.split('\n').length);
+        for (const line of lines) {
+          if (maxWidth > 0 && line.includes(' ')) {
+            expect(measure(line)).toBeLessThanOrEqual(maxWidth);
+          }
+        }
+        if (maxWidth === 0) {
+          expect(lines).toEqual(text.split('\n'));
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 30: Text Block Layout**
+   * **Validates: Multi-line, aligned and letter-spaced text watermarks**
+   *
+   * Text dimensions SHALL cover the whole block: the widest line including
+   * letter spacing, and every line at the configured line height.
+   */
+  it('should report the size of the whole text block', () => {
+    fc.assert(
+      fc.property(
+        arbTextWatermarkConfig,
+        arbMultilineText,
+        fc.integer({ min: 0, max: 20 }),
+        (config, text, letterSpacing) => {
+          const ctx = createMeasuringContext(10);
+          const lines = text.split('\n');
+
+          const dimensions = getTextWatermarkDimensions(ctx, { ...config, text, letterSpacing });
+
+          const widths = lines.map(line => line.length * 10 + letterSpacing * (line.length - 1));
+          expect(dimensions.width).toBeCloseTo(Math.max(...widths));
+          expect(dimensions.height).toBeCloseTo(
+            (lines.length - 1) * config.fontSize * config.lineHeight + 16
+          );
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 30: Text Block Layout**
+   * **Validates: Multi-line, aligned and letter-spaced text watermarks**
+   *
+   * Each line SHALL be drawn one line height below the previous one and
+   * aligned left, centered or right within the block width.
+   */
+  it('should draw each line aligned within the block', () => {
+    fc.assert(
+      fc.property(arbTextWatermarkConfig, arbMultilineText, arbPosition, (config, text, position) => {
+        const ctx = createMeasuringContext(10);
+        const lines = text.split('\n');
+        const blockWidth = Math.max(...lines.map(line => line.length * 10));
+
+        renderTextWatermark(ctx, { ...config, text }, position, 0);
+
+        const calls = vi.mocked(ctx.fillText).mock.calls;
+        expect(calls.map(call => call[0])).toEqual(lines);
+        calls.forEach(([line, x, y], i) => {
+          const free = blockWidth - line.length * 10;
+          const offset = config.textAlign === 'center' ? free / 2 : config.textAlign === 'right' ? free : 0;
+          expect(x).toBeCloseTo(position.x + offset);
+          expect(y).toBeCloseTo(position.y + i * config.fontSize * config.lineHeight);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 30: Text Block Layout**
+   * **Validates: Multi-line, aligned and letter-spaced text watermarks**
+   *
+   * With letter spacing, characters SHALL be drawn one by one, each
+   * advanced by its width plus the spacing.
+   */
+  it('should space out characters by the letter spacing', () => {
+    fc.assert(
+      fc.property(
+        arbTextWatermarkConfig,
+        arbWords,
+        fc.integer({ min: 1, max: 20 }),
+        arbPosition,
+        (config, text, letterSpacing, position) => {
+          const ctx = createMeasuringContext(10);
+
+          renderTextWatermark(ctx, { ...config, text, letterSpacing }, position, 0);
+
+          const calls = vi.mocked(ctx.fillText).mock.calls;
+          expect(calls.map(call => call[0]).join('')).toBe(text);
+          calls.forEach(([, x], i) => {
+            expect(x).toBeCloseTo(position.x + i * (10 + letterSpacing));
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// Mock context that also supports gradients and paths
+function createEffectsContext(): CanvasRenderingContext2D {
+  const ctx = createMeasuringContext(10);
+  const gradient = { addColorStop: vi.fn() };
+  return Object.assign(ctx, {
+    createLinearGradient: vi.fn(() => gradient),
+    createRadialGradient: vi.fn(() => gradient),
+    beginPath: vi.fn(),
+    moveTo: vi.fn(),
+    arcTo: vi.fn(),
+    closePath: vi.fn(),
+    fill: vi.fn(),
+  });
+}
+
+describe('Property 31: Text Effects', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 31: Text Effects**
+   * **Validates: Drop shadow, gradient fill and background plate**
+   *
+   * A linear gradient line SHALL pass through the box center and span the
+   * box exactly: every corner projects onto it between 0 and 1.
+   */
+  it('should span the text block with the gradient line', () => {
+    fc.assert(
+      fc.property(arbWatermarkDimensions, arbPosition, fc.integer({ min: 0, max: 359 }), (size, position, angle) => {
+        const bounds = { ...position, ...size };
+        const { start, end } = calculateGradientLine(bounds, angle);
+
+        expect((start.x + end.x) / 2).toBeCloseTo(bounds.x + bounds.width / 2);
+        expect((start.y + end.y) / 2).toBeCloseTo(bounds.y + bounds.height / 2);
+
+        const dx = end.x - start.x;
+        const dy = end.y - start.y;
+        const lengthSquared = dx * dx + dy * dy;
+        const projections = [
+          [bounds.x, bounds.y],
+          [bounds.x + bounds.width, bounds.y],
+          [bounds.x, bounds.y + bounds.height],
+          [bounds.x + bounds.width, bounds.y + bounds.height],
+        ].map(([x, y]) => ((x! - start.x) * dx + (y! - start.y) * dy) / lengthSquared);
+
+        expect(Math.min(...projections)).toBeCloseTo(0);
+        expect(Math.max(...projections)).toBeCloseTo(1);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 31: Text Effects**
+   * **Validates: Drop shadow, gradient fill and background plate**
+   *
+   * Gradient fills SHALL run from the text color to the gradient color.
+   */
+  it('should fill text with a gradient from color to gradient color', () => {
+    fc.assert(
+      fc.property(
+        arbTextWatermarkConfig,
+        fc.constantFrom('linear' as const, 'radial' as const),
+        (config, fillType) => {
+          const ctx = createEffectsContext();
+
+          renderTextWatermark(ctx, { ...config, fillType }, { x: 0, y: 0 }, 0);
+
+          const create = fillType === 'linear' ? ctx.createLinearGradient : ctx.createRadialGradient;
+          expect(create).toHaveBeenCalledTimes(1);
+          const gradient = vi.mocked(create).mock.results[0]!.value as CanvasGradient;
+          expect(ctx.fillStyle).toBe(gradient);
+          expect(gradient.addColorStop).toHaveBeenCalledWith(0, config.color);
+          expect(gradient.addColorStop).toHaveBeenCalledWith(1, config.gradientColor);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 31: Text Effects**
+   * **Validates: Drop shadow, gradient fill and background plate**
+   *
+   * A background plate SHALL add its padding on every side of the text
+   * block, and the text SHALL be drawn inside the padding.
+   */
+  it('should pad the text block with the background plate', () => {
+    fc.assert(
+      fc.property(arbTextWatermarkConfig, arbPosition, (config, position) => {
+        const plain = getTextWatermarkDimensions(createEffectsContext(), config);
+        const plated = { ...config, backgroundEnabled: true };
+        const padding = config.backgroundPadding;
+
+        const dimensions = getTextWatermarkDimensions(createEffectsContext(), plated);
+        expect(dimensions.width).toBeCloseTo(plain.width + padding * 2);
+        expect(dimensions.height).toBeCloseTo(plain.height + padding * 2);
+
+        const ctx = createEffectsContext();
+        const alphas: number[] = [];
+        vi.mocked(ctx.fill).mockImplementation(() => {
+          alphas.push(ctx.globalAlpha);
+        });
+        renderTextWatermark(ctx, plated, position, 0);
+
+        expect(ctx.fill).toHaveBeenCalledTimes(1);
+        expect(alphas[0]).toBeCloseTo(
+          normalizeOpacity(config.opacity) * normalizeOpacity(config.backgroundOpacity)
+        );
+        const [, x, y] = vi.mocked(ctx.fillText).mock.calls[0]!;
+        if (config.textAlign === 'left') {
+          expect(x).toBe(position.x + padding);
+        }
+        expect(y).toBe(position.y + padding);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 31: Text Effects**
+   * **Validates: Drop shadow, gradient fill and background plate**
+   *
+   * The drop shadow SHALL be cast once: by the outline when there is one,
+   * otherwise by the fill.
+   */
+  it('should cast the drop shadow from the first text pass only', () => {
+    fc.assert(
+      fc.property(arbTextWatermarkConfig, (config) => {
+        const shadowed = { ...config, shadowEnabled: true, shadowColor: '#123456' };
+        const ctx = createEffectsContext();
+        const strokeShadows: string[] = [];
+        const fillShadows: string[] = [];
+        vi.mocked(ctx.strokeText).mockImplementation(() => {
+          strokeShadows.push(ctx.shadowColor);
+        });
+        vi.mocked(ctx.fillText).mockImplementation(() => {
+          fillShadows.push(ctx.shadowColor);
+        });
+
+        renderTextWatermark(ctx, shadowed, { x: 0, y: 0 }, 0);
+
+        expect(ctx.shadowOffsetX).toBe(config.shadowOffsetX);
+        expect(ctx.shadowOffsetY).toBe(config.shadowOffsetY);
+        expect(ctx.shadowBlur).toBe(config.shadowBlur);
+        if (config.outlineEnabled) {
+          expect(strokeShadows.every(color => color === '#123456')).toBe(true);
+          expect(fillShadows.every(color => color === 'transparent')).toBe(true);
+        } else {
+          expect(fillShadows.every(color => color === '#123456')).toBe(true);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// Mock context showing a page of one gray level, recording reads and draws in order
+function createPageContext(gray: number, events: string[] = []): CanvasRenderingContext2D {
+  const ctx = createEffectsContext();
+  return Object.assign(ctx, {
+    getImageData: vi.fn((_x: number, _y: number, width: number, height: number) => {
+      events.push('read');
+      const data = new Uint8ClampedArray(width * height * 4);
+      for (let i = 0; i < data.length; i += 4) {
+        data[i] = data[i + 1] = data[i + 2] = gray;
+        data[i + 3] = 255;
+      }
+      return { data, width, height } as ImageData;
+    }),
+    fillText: vi.fn(() => {
+      events.push(`fill:${String(ctx.fillStyle)}:${ctx.globalCompositeOperation}`);
+    }),
+  });
+}
+
+// Arbitrary generator for untiled auto contrast text layers
+const arbAutoContrastLayer = fc
+  .tuple(arbTextWatermarkConfig, arbWatermarkPosition, arbHexColor, arbHexColor)
+  .map(([config, position, lightColor, darkColor]) => ({
+    id: 'auto',
+    name: 'Auto',
+    config: { ...config, colorMode: 'auto' as const, lightColor, darkColor, tileEnabled: false },
+    position,
+    enabled: true,
+    opacity: 100,
+  }));
+
+describe('Property 32: Auto Contrast', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 32: Auto Contrast**
+   * **Validates: Adaptive watermark color based on the underlying page content**
+   *
+   * Luminance SHALL range from 0 for black to 1 for white, and the dark
+   * color SHALL be chosen on light regions and the light color on dark ones.
+   */
+  it('should pick the contrasting color from the region luminance', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: 0, max: 255 }), { minLength: 3, maxLength: 3 }),
+        fc.integer({ min: 1, max: 20 }),
+        arbHexColor,
+        arbHexColor,
+        ([r, g, b], pixels, lightColor, darkColor) => {
+          const data = new Uint8ClampedArray(pixels * 4);
+          for (let i = 0; i < data.length; i += 4) {
+            data.set([r!, g!, b!, 255], i);
+          }
+
+          const luminance = calculateLuminance(data);
+
+          expect(luminance).toBeGreaterThanOrEqual(0);
+          expect(luminance).toBeLessThanOrEqual(1);
+          expect(luminance).toBeCloseTo((0.2126 * r! + 0.7152 * g! + 0.0722 * b!) / 255);
+          expect(chooseContrastColor(luminance, lightColor, darkColor))
+            .toBe(luminance > 0.5 ? darkColor : lightColor);
+        }
+      ),
+      { numRuns: 100 }
+    );
+
+    expect(calculateLuminance(new Uint8ClampedArray([0, 0, 0, 255]))).toBe(0);
+    expect(calculateLuminance(new Uint8ClampedArray([255, 255, 255, 255]))).toBeCloseTo(1);
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 32: Auto Contrast**
+   * **Validates: Adaptive watermark color based on the underlying page content**
+   *
+   * An auto contrast layer SHALL sample the page under its bounds before
+   * any layer is drawn, and be drawn in the contrasting color.
+   */
+  it('should color auto contrast text from the page under it', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        arbAutoContrastLayer,
+        fc.integer({ min: 0, max: 255 }),
+        fc.record({ width: fc.integer({ min: 200, max: 2000 }), height: fc.integer({ min: 200, max: 2000 }) }),
+        async (layer, gray, canvasSize) => {
+          const events: string[] = [];
+          const ctx = createPageContext(gray, events);
+          const dimensions = getTextWatermarkDimensions(ctx, layer.config);
+          const bounds = calculateWatermarkBounds(layer, canvasSize, dimensions);
+
+          await render(ctx, { layers: [layer], enabled: true }, canvasSize);
+
+          const inside = Math.min(canvasSize.width, Math.ceil(bounds.x + bounds.width)) > Math.max(0, Math.floor(bounds.x)) &&
+            Math.min(canvasSize.height, Math.ceil(bounds.y + bounds.height)) > Math.max(0, Math.floor(bounds.y));
+          const fills = events.filter(event => event.startsWith('fill:'));
+          expect(fills.length).toBeGreaterThan(0);
+
+          if (inside) {
+            expect(events[0]).toBe('read');
+            const color = gray / 255 > 0.5 ? layer.config.darkColor : layer.config.lightColor;
+            expect(fills.every(event => event.startsWith(`fill:${color}:`))).toBe(true);
+          } else {
+            expect(ctx.getImageData).not.toHaveBeenCalled();
+            expect(fills.every(event => event.startsWith(`fill:${layer.config.color}:`))).toBe(true);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 32: Auto Contrast**
+   * **Validates: Adaptive watermark color based on the underlying page content**
+   *
+   * Invert mode SHALL draw the text fill in white with the difference
+   * operation, so every page pixel under the glyphs is inverted.
+   */
+  it('should invert the page under the text in invert mode', () => {
+    fc.assert(
+      fc.property(arbTextWatermarkConfig, (config) => {
+        const events: string[] = [];
+        const ctx = createPageContext(0, events);
+
+        renderTextWatermark(ctx, { ...config, colorMode: 'invert' }, { x: 0, y: 0 }, 0);
+
+        expect(events.length).toBeGreaterThan(0);
+        expect(events.every(event => event === 'fill:#ffffff:difference')).toBe(true);
+        expect(ctx.getImageData).not.toHaveBeenCalled();
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Property 34: Relative Units', () => {
+  // Image with a known size, as decoded in a worker
+  const createBitmap = (width: number, height: number) => ({ width, height }) as ImageBitmap;
+
+  /**
+   * **Feature: manga-watermark-tool, Property 34: Relative Units**
+   * **Validates: Percentage-based sizing and offsets for mixed-resolution chapters**
+   * 
+   * With a reference length, the scale SHALL be the width as a percentage
+   * of it, keeping the aspect ratio.
+   */
+  it('should scale images to a percentage of the reference length', () => {
+    fc.assert(
+      fc.property(
+        arbWatermarkDimensions,
+        fc.double({ min: 1, max: 100, noNaN: true }),
+        fc.integer({ min: 100, max: 4000 }),
+        (image, percent, referenceLength) => {
+          const scaled = calculateScaledDimensions(image.width, image.height, percent, referenceLength);
+
+          expect(scaled.width).toBeCloseTo(referenceLength * percent / 100, 6);
+          expect(scaled.height / scaled.width).toBeCloseTo(image.height / image.width, 6);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 34: Relative Units**
+   * **Validates: Percentage-based sizing and offsets for mixed-resolution chapters**
+   * 
+   * A percentage layer SHALL resolve to pixel sizes proportional to the
+   * page, so pages of different resolutions get the same relative watermark.
+   */
+  it('should resolve percentage sizes in proportion to the page', () => {
+    fc.assert(
+      fc.property(
+        arbTextWatermarkConfig,
+        arbWatermarkPosition,
+        fc.double({ min: 0.5, max: 30, noNaN: true }),
+        arbCanvasDimensions,
+        fc.integer({ min: 2, max: 5 }),
+        (textConfig, basePosition, fontSize, canvas, factor) => {
+          const position = { ...basePosition, unit: 'percent' as const };
+          const layer = createWatermarkLayer({ ...textConfig, fontSize }, position);
+          const large = { width: canvas.width * factor, height: canvas.height * factor };
+
+          const small = resolveLayerUnits(layer, canvas);
+          const scaled = resolveLayerUnits(layer, large);
+
+          expect(small.position.unit).toBe('px');
+          expect(small.config.type === 'text' && small.config.fontSize).toBeCloseTo(
+            fontSize / 100 * (position.sizeReference === 'width' ? canvas.width : Math.min(canvas.width, canvas.height)),
+            6
+          );
+          expect(scaled.config.type === 'text' && scaled.config.fontSize)
+            .toBeCloseTo((small.config.type === 'text' ? small.config.fontSize : 0) * factor, 6);
+          expect(scaled.position.offsetX).toBeCloseTo(small.position.offsetX * factor, 6);
+          expect(scaled.position.marginBottom).toBeCloseTo(small.position.marginBottom * factor, 6);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 34: Relative Units**
+   * **Validates: Percentage-based sizing and offsets for mixed-resolution chapters**
+   * 
+   * Switching a layer to percentages and back on the same page SHALL keep
+   * its pixel size, and pixel layers SHALL be left untouched.
+   */
+  it('should keep the watermark size when switching units', () => {
+    fc.assert(
+      fc.property(
+        fc.oneof(arbTextWatermarkConfig, arbImageWatermarkConfig, arbQrWatermarkConfig),
+        arbWatermarkPosition,
+        arbCanvasDimensions,
+        arbWatermarkDimensions,
+        (config, position, canvas, imageSize) => {
+          const layer = createWatermarkLayer(config, position);
+          const image = createBitmap(imageSize.width, imageSize.height);
+
+          expect(resolveLayerUnits(layer, canvas, image)).toBe(layer);
+
+          const restored = convertLayerUnits(convertLayerUnits(layer, 'percent', canvas, image), 'px', canvas, image);
+          const size = (c: WatermarkConfig) => c.type === 'text' ? c.fontSize : c.type === 'qr' ? c.size : c.scale;
+          expect(restored.position.unit).toBe('px');
+          expect(size(restored.config)).toBeCloseTo(size(config), 6);
+          expect(restored.position.offsetY).toBeCloseTo(position.offsetY, 6);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
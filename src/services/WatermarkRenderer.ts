@@ -1,15 +1,56 @@
 /**
  * WatermarkRenderer Service
- * Handles rendering of text and image watermarks on canvas
+ * Handles rendering of text, image and QR code watermarks on canvas
  * Requirements: 2.1, 2.2, 2.3, 2.4, 2.5, 2.6, 3.1, 3.2, 3.3, 3.4, 3.5, 4.4
  */
 
 import type {
+  BlendMode,
   WatermarkSettings,
+  WatermarkLayer,
+  WatermarkConfig,
   TextWatermarkConfig,
   ImageWatermarkConfig,
+  QrWatermarkConfig,
+  PositionUnit,
 } from '@/types';
-import { calculateFinalPosition, type Dimensions, type Point } from '@/utils/position';
+import { DEFAULT_IMAGE_WIDTH_PERCENT, getFontFaceFamily, isSvgImageData } from '@/types';
+import {
+  calculateFinalPosition,
+  convertPositionUnits,
+  getReferenceLength,
+  type Dimensions,
+  type Point,
+} from '@/utils/position';
+import {
+  chooseAutoPlacement,
+  readBusynessMap,
+  type AutoPlacement,
+  type BusynessMap,
+} from './SmartPlacement';
+import { encodeQr, type QrCode } from './QrEncoder';
+import { getSvgDataUrl } from './SvgWatermark';
+import { createCanvas, getRenderContext, type RenderCanvas } from './PageRenderer';
+
+/**
+ * 2D context the renderer draws on (main thread canvas or OffscreenCanvas in a worker)
+ */
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Decoded watermark image (HTMLImageElement on the main thread, ImageBitmap in a worker)
+ */
+export type WatermarkImageSource = HTMLImageElement | ImageBitmap;
+
+/**
+ * Decoded images of the image layers, keyed by layer ID
+ */
+export type WatermarkImages<T extends WatermarkImageSource = WatermarkImageSource> = Map<string, T>;
+
+/**
+ * Auto placements chosen for a page, keyed by layer ID
+ */
+export type AutoPlacements = Map<string, AutoPlacement>;
 
 /**
  * Watermark bounds for hit testing and positioning
@@ -39,6 +80,38 @@ export function degreesToRadians(degrees: number): number {
   return (degrees * Math.PI) / 180;
 }
 
+/**
+ * Map a watermark blend mode to a canvas composite operation
+ * @param blendMode - Watermark blend mode
+ * @returns Value for globalCompositeOperation
+ */
+export function getCompositeOperation(blendMode: BlendMode): GlobalCompositeOperation {
+  return blendMode === 'normal' ? 'source-over' : blendMode;
+}
+
+/**
+ * Resolve the CSS font family of a text watermark
+ * Custom fonts come first, with the configured family as fallback.
+ * @param config - Text watermark configuration
+ * @returns Font family list for a canvas font string
+ */
+export function resolveFontFamily(config: Pick<TextWatermarkConfig, 'fontFamily' | 'fontId'>): string {
+  return config.fontId
+    ? `"${getFontFaceFamily(config.fontId)}", ${config.fontFamily}`
+    : config.fontFamily;
+}
+
+/**
+ * Build the canvas font string of a text watermark
+ * @param config - Text watermark configuration
+ * @returns Font shorthand, e.g. "bold 24px Arial"
+ */
+export function getFontString(
+  config: Pick<TextWatermarkConfig, 'fontFamily' | 'fontId' | 'fontSize' | 'fontWeight'>
+): string {
+  return `${config.fontWeight} ${config.fontSize}px ${resolveFontFamily(config)}`;
+}
+
 /**
  * Measure text dimensions using canvas context
  * @param ctx - Canvas 2D context
@@ -49,7 +122,7 @@ export function degreesToRadians(degrees: number): number {
  * @returns Text dimensions
  */
 export function measureText(
-  ctx: CanvasRenderingContext2D,
+  ctx: RenderContext,
   text: string,
   fontFamily: string,
   fontSize: number,
@@ -69,17 +142,200 @@ export function measureText(
   };
 }
 
+/**
+ * Laid out lines of a text watermark
+ */
+export interface TextLayout {
+  lines: { text: string; width: number }[];
+  width: number;       // widest line
+  height: number;      // full block height
+  lineHeight: number;  // distance between line tops in px
+}
+
+/**
+ * Break text into lines on newlines and, when a max width is set, at word
+ * boundaries. Words wider than the max width stay on a line of their own.
+ *
+ * @param text - Watermark text
+ * @param maxWidth - Maximum line width in pixels (0 = no wrapping)
+ * @param measure - Returns the width of a piece of text
+ * @returns Lines in drawing order
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  measure: (text: string) => number
+): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    if (maxWidth <= 0) {
+      lines.push(paragraph);
+      continue;
+    }
+
+    let line = '';
+    for (const word of paragraph.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measure(candidate) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+/**
+ * Measure a line including letter spacing
+ */
+function measureLine(ctx: RenderContext, text: string, letterSpacing: number): number {
+  const characters = Array.from(text).length;
+  return ctx.measureText(text).width + letterSpacing * Math.max(0, characters - 1);
+}
+
+/**
+ * Lay out a text watermark: wrap its lines and measure the text block.
+ * The context font must already be set.
+ *
+ * @param ctx - Canvas 2D context
+ * @param config - Text watermark configuration
+ * @returns Lines with their widths and the block size
+ */
+export function layoutText(ctx: RenderContext, config: TextWatermarkConfig): TextLayout {
+  const texts = wrapText(config.text, config.maxWidth, text => measureLine(ctx, text, config.letterSpacing));
+  const lines = texts.map(text => ({ text, width: measureLine(ctx, text, config.letterSpacing) }));
+  const lineHeight = config.fontSize * config.lineHeight;
+
+  // The last line contributes its glyph height, so a single line keeps its measured size
+  const lastMetrics = ctx.measureText(texts[texts.length - 1] ?? '');
+  const lastHeight = lastMetrics.actualBoundingBoxAscent + lastMetrics.actualBoundingBoxDescent || config.fontSize;
+
+  return {
+    lines,
+    width: Math.max(0, ...lines.map(line => line.width)),
+    height: (lines.length - 1) * lineHeight + lastHeight,
+    lineHeight,
+  };
+}
+
+/**
+ * Draw one line of text, spacing characters out when letter spacing is set
+ */
+function drawTextLine(
+  ctx: RenderContext,
+  text: string,
+  x: number,
+  y: number,
+  letterSpacing: number,
+  draw: (text: string, x: number, y: number) => void
+): void {
+  if (letterSpacing === 0) {
+    draw(text, x, y);
+    return;
+  }
+
+  let offset = x;
+  for (const character of Array.from(text)) {
+    draw(character, offset, y);
+    offset += ctx.measureText(character).width + letterSpacing;
+  }
+}
+
+/**
+ * Calculate the start and end points of a linear gradient across a box
+ * The line runs through the box center at the given angle and is just long
+ * enough for the first and last colors to touch opposite corners.
+ *
+ * @param bounds - Box the gradient fills
+ * @param angle - Gradient direction in degrees (0 = left to right, 90 = top to bottom)
+ * @returns Gradient line end points
+ */
+export function calculateGradientLine(
+  bounds: WatermarkBounds,
+  angle: number
+): { start: Point; end: Point } {
+  const radians = degreesToRadians(angle);
+  const dx = Math.cos(radians);
+  const dy = Math.sin(radians);
+  const half = Math.abs((bounds.width / 2) * dx) + Math.abs((bounds.height / 2) * dy);
+  const centerX = bounds.x + bounds.width / 2;
+  const centerY = bounds.y + bounds.height / 2;
+
+  return {
+    start: { x: centerX - dx * half, y: centerY - dy * half },
+    end: { x: centerX + dx * half, y: centerY + dy * half },
+  };
+}
+
+/**
+ * Create the fill style of a text watermark: its color, or a gradient from
+ * color to gradientColor across the text block
+ */
+function createTextFill(
+  ctx: RenderContext,
+  config: TextWatermarkConfig,
+  bounds: WatermarkBounds
+): string | CanvasGradient {
+  if (config.fillType === 'solid') {
+    return config.color;
+  }
+
+  let gradient: CanvasGradient;
+  if (config.fillType === 'linear') {
+    const { start, end } = calculateGradientLine(bounds, config.gradientAngle);
+    gradient = ctx.createLinearGradient(start.x, start.y, end.x, end.y);
+  } else {
+    const centerX = bounds.x + bounds.width / 2;
+    const centerY = bounds.y + bounds.height / 2;
+    const radius = Math.hypot(bounds.width, bounds.height) / 2;
+    gradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, radius);
+  }
+  gradient.addColorStop(0, config.color);
+  gradient.addColorStop(1, config.gradientColor);
+  return gradient;
+}
+
+/**
+ * Trace a rounded rectangle path; the radius is clamped to half the shorter side
+ */
+function traceRoundedRect(ctx: RenderContext, bounds: WatermarkBounds, radius: number): void {
+  const { x, y, width, height } = bounds;
+  const r = Math.max(0, Math.min(radius, width / 2, height / 2));
+
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + width, y, x + width, y + height, r);
+  ctx.arcTo(x + width, y + height, x, y + height, r);
+  ctx.arcTo(x, y + height, x, y, r);
+  ctx.arcTo(x, y, x + width, y, r);
+  ctx.closePath();
+}
+
+/**
+ * Space between the text and the watermark edge (the background plate padding)
+ * @param config - Text watermark configuration
+ * @returns Padding in pixels, 0 without a background plate
+ */
+export function getTextPadding(config: TextWatermarkConfig): number {
+  return config.backgroundEnabled ? Math.max(0, config.backgroundPadding) : 0;
+}
+
 /**
  * Render text watermark on canvas
  * Requirements: 2.1, 2.2, 2.3, 2.4, 2.5, 2.6
  * 
  * @param ctx - Canvas 2D rendering context
  * @param config - Text watermark configuration
- * @param position - Position on canvas
+ * @param position - Top-left corner of the watermark (the background plate when enabled)
  * @param rotation - Rotation in degrees
  */
 export function renderTextWatermark(
-  ctx: CanvasRenderingContext2D,
+  ctx: RenderContext,
   config: TextWatermarkConfig,
   position: Point,
   rotation: number = 0
@@ -91,17 +347,17 @@ export function renderTextWatermark(
   ctx.save();
 
   // Set font
-  ctx.font = `${config.fontWeight} ${config.fontSize}px ${config.fontFamily}`;
+  ctx.font = getFontString(config);
   ctx.textBaseline = 'top';
 
-  // Measure text for rotation center
-  const textMetrics = ctx.measureText(config.text);
-  const textWidth = textMetrics.width;
-  const textHeight = config.fontSize;
+  const layout = layoutText(ctx, config);
+  const padding = getTextPadding(config);
+  const textX = position.x + padding;
+  const textY = position.y + padding;
 
-  // Calculate center point for rotation
-  const centerX = position.x + textWidth / 2;
-  const centerY = position.y + textHeight / 2;
+  // Calculate center point of the text block for rotation
+  const centerX = textX + layout.width / 2;
+  const centerY = textY + layout.height / 2;
 
   // Apply rotation around center
   if (rotation !== 0) {
@@ -110,41 +366,97 @@ export function renderTextWatermark(
     ctx.translate(-centerX, -centerY);
   }
 
+  const opacity = normalizeOpacity(config.opacity);
+
+  // Blend the plate and the text with the page
+  ctx.globalCompositeOperation = getCompositeOperation(config.blendMode);
+
+  // Draw background plate behind the text
+  if (config.backgroundEnabled) {
+    ctx.globalAlpha = opacity * normalizeOpacity(config.backgroundOpacity);
+    ctx.fillStyle = config.backgroundColor;
+    traceRoundedRect(ctx, {
+      x: position.x,
+      y: position.y,
+      width: layout.width + padding * 2,
+      height: layout.height + padding * 2,
+    }, config.backgroundRadius);
+    ctx.fill();
+  }
+
   // Set opacity
-  ctx.globalAlpha = normalizeOpacity(config.opacity);
+  ctx.globalAlpha = opacity;
+
+  // The shadow is cast by the first text pass only, so outline and fill don't double it
+  if (config.shadowEnabled) {
+    ctx.shadowColor = config.shadowColor;
+    ctx.shadowOffsetX = config.shadowOffsetX;
+    ctx.shadowOffsetY = config.shadowOffsetY;
+    ctx.shadowBlur = config.shadowBlur;
+  }
+
+  // Align each line within the block
+  const lines = layout.lines.map((line, i) => {
+    const free = layout.width - line.width;
+    return {
+      text: line.text,
+      x: textX + (config.textAlign === 'center' ? free / 2 : config.textAlign === 'right' ? free : 0),
+      y: textY + i * layout.lineHeight,
+    };
+  });
 
   // Draw outline if enabled
   if (config.outlineEnabled && config.outlineWidth > 0) {
     ctx.strokeStyle = config.outlineColor;
     ctx.lineWidth = config.outlineWidth;
     ctx.lineJoin = 'round';
-    ctx.strokeText(config.text, position.x, position.y);
+    for (const line of lines) {
+      drawTextLine(ctx, line.text, line.x, line.y, config.letterSpacing, (t, x, y) => ctx.strokeText(t, x, y));
+    }
+    ctx.shadowColor = 'transparent';
   }
 
-  // Draw text fill
-  ctx.fillStyle = config.color;
-  ctx.fillText(config.text, position.x, position.y);
+  // Draw text fill; invert mode flips the page pixels under the glyphs instead
+  if (config.colorMode === 'invert') {
+    ctx.globalCompositeOperation = 'difference';
+    ctx.fillStyle = '#ffffff';
+  } else {
+    ctx.fillStyle = createTextFill(ctx, config, {
+      x: textX,
+      y: textY,
+      width: layout.width,
+      height: layout.height,
+    });
+  }
+  for (const line of lines) {
+    drawTextLine(ctx, line.text, line.x, line.y, config.letterSpacing, (t, x, y) => ctx.fillText(t, x, y));
+  }
 
   ctx.restore();
 }
 
 /**
  * Get text watermark dimensions
+ * Multi-line text reports the size of the whole text block, plus the
+ * padding of the background plate when enabled.
  * @param ctx - Canvas 2D context
  * @param config - Text watermark configuration
  * @returns Dimensions of the text watermark
  */
 export function getTextWatermarkDimensions(
-  ctx: CanvasRenderingContext2D,
+  ctx: RenderContext,
   config: TextWatermarkConfig
 ): Dimensions {
-  return measureText(
-    ctx,
-    config.text,
-    config.fontFamily,
-    config.fontSize,
-    config.fontWeight
-  );
+  ctx.save();
+  ctx.font = getFontString(config);
+  const layout = layoutText(ctx, config);
+  ctx.restore();
+
+  const padding = getTextPadding(config);
+  return {
+    width: layout.width + padding * 2,
+    height: layout.height + padding * 2,
+  };
 }
 
 
@@ -162,23 +474,82 @@ export function loadImageFromDataUrl(dataUrl: string): Promise<HTMLImageElement>
   });
 }
 
+/**
+ * Get the data URL an image layer is decoded from
+ * @param imageData - Base64 data URL or SVG markup
+ * @returns Data URL of the image
+ */
+export function getImageDataUrl(imageData: string): string {
+  return isSvgImageData(imageData) ? getSvgDataUrl(imageData) : imageData;
+}
+
+/**
+ * Decode the images of all image layers
+ * Layers sharing the same image data are decoded once. SVG markup is
+ * decoded as an SVG image, which keeps its vector for rasterizing.
+ * 
+ * @param settings - Watermark settings
+ * @param decode - Decoder for a data URL (HTMLImageElement or ImageBitmap)
+ * @returns Promise resolving to the decoded images keyed by layer ID
+ */
+export async function loadWatermarkImages<T extends WatermarkImageSource>(
+  settings: WatermarkSettings,
+  decode: (dataUrl: string) => Promise<T>
+): Promise<WatermarkImages<T>> {
+  const decoded = new Map<string, Promise<T>>();
+  const images: WatermarkImages<T> = new Map();
+
+  for (const layer of settings.layers) {
+    if (layer.config.type !== 'image' || !layer.config.imageData) continue;
+
+    const dataUrl = getImageDataUrl(layer.config.imageData);
+    let image = decoded.get(dataUrl);
+    if (!image) {
+      image = decode(dataUrl);
+      decoded.set(dataUrl, image);
+    }
+    images.set(layer.id, await image);
+  }
+
+  return images;
+}
+
+/**
+ * Get the intrinsic size of a decoded watermark image
+ * @param image - HTMLImageElement or ImageBitmap
+ * @returns Intrinsic dimensions
+ */
+export function getImageSourceSize(image: WatermarkImageSource): Dimensions {
+  if ('naturalWidth' in image) {
+    return { width: image.naturalWidth, height: image.naturalHeight };
+  }
+  return { width: image.width, height: image.height };
+}
+
 /**
  * Calculate scaled dimensions for image watermark
  * Requirements: 3.3
  * 
  * @param originalWidth - Original image width
  * @param originalHeight - Original image height
- * @param scale - Scale factor
+ * @param scale - Scale factor, or the width as a percentage of referenceLength
+ * @param referenceLength - Page length a percentage scale is relative to
  * @returns Scaled dimensions
  */
 export function calculateScaledDimensions(
   originalWidth: number,
   originalHeight: number,
-  scale: number
+  scale: number,
+  referenceLength?: number
 ): Dimensions {
+  // A percentage scale sets the width; the aspect ratio is kept
+  const factor = referenceLength === undefined
+    ? scale
+    : originalWidth > 0 ? referenceLength * scale / 100 / originalWidth : 0;
+
   return {
-    width: originalWidth * scale,
-    height: originalHeight * scale,
+    width: originalWidth * factor,
+    height: originalHeight * factor,
   };
 }
 
@@ -211,42 +582,186 @@ export function calculateTileCount(
   };
 }
 
+/**
+ * Calculate the top-left corners of the tiles of a tiled watermark
+ * The grid is laid out in canvas space; when it is rotated, it covers a
+ * square around the canvas center that is as wide as the canvas diagonal,
+ * so no corner is left uncovered once the grid is turned.
+ * 
+ * @param canvasSize - Canvas dimensions
+ * @param tileSize - Dimensions of a single tile
+ * @param spacingX - Horizontal spacing between tiles
+ * @param spacingY - Vertical spacing between tiles
+ * @param stagger - Shift of every other row, in percent of the horizontal tile step
+ * @param gridRotation - Rotation of the whole grid in degrees
+ * @returns Tile positions before the grid rotation is applied
+ */
+export function calculateTilePositions(
+  canvasSize: Dimensions,
+  tileSize: Dimensions,
+  spacingX: number,
+  spacingY: number,
+  stagger: number = 0,
+  gridRotation: number = 0
+): Point[] {
+  const stepX = tileSize.width + spacingX;
+  const stepY = tileSize.height + spacingY;
+  if (stepX <= 0 || stepY <= 0) {
+    return [];
+  }
+
+  const diagonal = Math.ceil(Math.hypot(canvasSize.width, canvasSize.height));
+  const area: Dimensions = gridRotation % 360 === 0
+    ? canvasSize
+    : { width: diagonal, height: diagonal };
+  const originX = (canvasSize.width - area.width) / 2;
+  const originY = (canvasSize.height - area.height) / 2;
+
+  const { tilesX, tilesY } = calculateTileCount(area, tileSize, spacingX, spacingY);
+  const shift = (Math.max(0, Math.min(100, stagger)) / 100) * stepX;
+
+  const positions: Point[] = [];
+  for (let row = 0; row < tilesY; row++) {
+    const rowShift = row % 2 === 1 ? shift : 0;
+    // A shifted row needs one more tile on the left to stay covered
+    const firstCol = rowShift > 0 ? -1 : 0;
+    for (let col = firstCol; col < tilesX; col++) {
+      positions.push({
+        x: originX + col * stepX + rowShift,
+        y: originY + row * stepY,
+      });
+    }
+  }
+  return positions;
+}
+
+/**
+ * Render a tiled text watermark across the canvas
+ * 
+ * @param ctx - Canvas 2D rendering context
+ * @param config - Text watermark configuration
+ * @param canvasSize - Canvas dimensions
+ * @param rotation - Rotation of each tile in degrees
+ */
+export function renderTiledTextWatermark(
+  ctx: RenderContext,
+  config: TextWatermarkConfig,
+  canvasSize: Dimensions,
+  rotation: number = 0
+): void {
+  if (!config.text || config.text.trim().length === 0) {
+    return;
+  }
+
+  const positions = calculateTilePositions(
+    canvasSize,
+    getTextWatermarkDimensions(ctx, config),
+    config.tileSpacingX,
+    config.tileSpacingY,
+    config.tileStagger,
+    config.tileRotation
+  );
+
+  ctx.save();
+
+  // Rotate the whole grid around the canvas center
+  if (config.tileRotation !== 0) {
+    const centerX = canvasSize.width / 2;
+    const centerY = canvasSize.height / 2;
+    ctx.translate(centerX, centerY);
+    ctx.rotate(degreesToRadians(config.tileRotation));
+    ctx.translate(-centerX, -centerY);
+  }
+
+  for (const position of positions) {
+    renderTextWatermark(ctx, config, position, rotation);
+  }
+
+  ctx.restore();
+}
+
+/**
+ * Rasterize an SVG watermark at the size it is drawn
+ * The vector is drawn at the exact pixel size of the page, so a small logo
+ * scaled up stays sharp; recoloring paints every opaque pixel in the
+ * watermark color, which suits monochrome logos. Bitmaps are drawn as they are.
+ *
+ * @param config - Image watermark configuration
+ * @param image - Decoded watermark image
+ * @param dimensions - Scaled dimensions
+ * @returns Image to draw at the scaled dimensions
+ */
+export function rasterizeImageWatermark(
+  config: ImageWatermarkConfig,
+  image: WatermarkImageSource,
+  dimensions: Dimensions
+): CanvasImageSource {
+  if (!isSvgImageData(config.imageData)) {
+    return image;
+  }
+
+  const width = Math.max(1, Math.round(dimensions.width));
+  const height = Math.max(1, Math.round(dimensions.height));
+  let canvas: RenderCanvas;
+  let ctx: RenderContext;
+  try {
+    canvas = createCanvas(width, height);
+    ctx = getRenderContext(canvas);
+  } catch {
+    // Without a canvas, the page canvas scales the vector instead
+    return image;
+  }
+
+  ctx.drawImage(image, 0, 0, width, height);
+  if (config.recolor) {
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = config.color;
+    ctx.fillRect(0, 0, width, height);
+  }
+  return canvas;
+}
+
 /**
  * Render image watermark on canvas
  * Requirements: 3.1, 3.2, 3.3, 3.4, 3.5
  * 
  * @param ctx - Canvas 2D rendering context
  * @param config - Image watermark configuration
- * @param image - Loaded HTMLImageElement
+ * @param image - Loaded watermark image
  * @param position - Position on canvas
  * @param canvasSize - Canvas dimensions (needed for tiling)
  * @param rotation - Rotation in degrees
  */
 export function renderImageWatermark(
-  ctx: CanvasRenderingContext2D,
+  ctx: RenderContext,
   config: ImageWatermarkConfig,
-  image: HTMLImageElement,
+  image: WatermarkImageSource,
   position: Point,
   canvasSize: Dimensions,
   rotation: number = 0
 ): void {
   ctx.save();
 
-  // Set opacity
+  // Set opacity and blend mode
   ctx.globalAlpha = normalizeOpacity(config.opacity);
+  ctx.globalCompositeOperation = getCompositeOperation(config.blendMode);
 
   // Calculate scaled dimensions
+  const imageSize = getImageSourceSize(image);
   const scaledDimensions = calculateScaledDimensions(
-    image.naturalWidth,
-    image.naturalHeight,
+    imageSize.width,
+    imageSize.height,
     config.scale
   );
 
+  // SVG images are rasterized once per page and shared by all tiles
+  const source = rasterizeImageWatermark(config, image, scaledDimensions);
+
   if (config.tileEnabled) {
     // Render tiled watermarks
     renderTiledWatermark(
       ctx,
-      image,
+      (x, y) => ctx.drawImage(source, x, y, scaledDimensions.width, scaledDimensions.height),
       scaledDimensions,
       canvasSize,
       config.tileSpacingX,
@@ -257,7 +772,7 @@ export function renderImageWatermark(
     // Render single watermark
     renderSingleImageWatermark(
       ctx,
-      image,
+      source,
       position,
       scaledDimensions,
       rotation
@@ -270,14 +785,14 @@ export function renderImageWatermark(
 /**
  * Render a single image watermark
  * @param ctx - Canvas context
- * @param image - Image element
+ * @param image - Image to draw
  * @param position - Position
  * @param dimensions - Scaled dimensions
  * @param rotation - Rotation in degrees
  */
 function renderSingleImageWatermark(
-  ctx: CanvasRenderingContext2D,
-  image: HTMLImageElement,
+  ctx: RenderContext,
+  image: CanvasImageSource,
   position: Point,
   dimensions: Dimensions,
   rotation: number
@@ -305,7 +820,7 @@ function renderSingleImageWatermark(
  * Requirements: 3.5
  * 
  * @param ctx - Canvas context
- * @param image - Image element
+ * @param draw - Draws one tile with its top-left corner at (x, y)
  * @param dimensions - Scaled dimensions
  * @param canvasSize - Canvas dimensions
  * @param spacingX - Horizontal spacing
@@ -313,59 +828,166 @@ function renderSingleImageWatermark(
  * @param rotation - Rotation in degrees
  */
 function renderTiledWatermark(
-  ctx: CanvasRenderingContext2D,
-  image: HTMLImageElement,
+  ctx: RenderContext,
+  draw: (x: number, y: number) => void,
   dimensions: Dimensions,
   canvasSize: Dimensions,
   spacingX: number,
   spacingY: number,
   rotation: number
 ): void {
-  const { tilesX, tilesY } = calculateTileCount(
-    canvasSize,
-    dimensions,
-    spacingX,
-    spacingY
-  );
+  const positions = calculateTilePositions(canvasSize, dimensions, spacingX, spacingY);
 
-  const effectiveWidth = dimensions.width + spacingX;
-  const effectiveHeight = dimensions.height + spacingY;
+  for (const { x, y } of positions) {
+    ctx.save();
 
-  for (let row = 0; row < tilesY; row++) {
-    for (let col = 0; col < tilesX; col++) {
-      const x = col * effectiveWidth;
-      const y = row * effectiveHeight;
-
-      ctx.save();
-
-      if (rotation !== 0) {
-        const centerX = x + dimensions.width / 2;
-        const centerY = y + dimensions.height / 2;
-        ctx.translate(centerX, centerY);
-        ctx.rotate(degreesToRadians(rotation));
-        ctx.translate(-centerX, -centerY);
+    if (rotation !== 0) {
+      const centerX = x + dimensions.width / 2;
+      const centerY = y + dimensions.height / 2;
+      ctx.translate(centerX, centerY);
+      ctx.rotate(degreesToRadians(rotation));
+      ctx.translate(-centerX, -centerY);
+    }
+
+    draw(x, y);
+    ctx.restore();
+  }
+}
+
+// Last encoded QR code; every page of a batch draws the same one
+let cachedQr: { key: string; code: QrCode | null } | null = null;
+
+/**
+ * Encode the content of a QR watermark, reusing the last code when unchanged
+ * @param config - QR watermark configuration
+ * @returns The code, or null when there is no content or it is too long
+ */
+export function getQrCode(config: Pick<QrWatermarkConfig, 'content' | 'errorCorrection'>): QrCode | null {
+  if (!config.content) {
+    return null;
+  }
+  const key = `${config.errorCorrection}:${config.content}`;
+  if (cachedQr?.key !== key) {
+    cachedQr = { key, code: encodeQr(config.content, config.errorCorrection) };
+  }
+  return cachedQr.code;
+}
+
+/**
+ * Draw a QR code with its quiet zone
+ * Module edges are snapped to whole pixels so neighbouring modules don't
+ * leave hairline seams.
+ *
+ * @param ctx - Canvas context
+ * @param code - Encoded QR code
+ * @param config - QR watermark configuration
+ * @param x - Left edge
+ * @param y - Top edge
+ */
+function drawQrCode(ctx: RenderContext, code: QrCode, config: QrWatermarkConfig, x: number, y: number): void {
+  const quietZone = Math.max(0, Math.round(config.quietZone));
+  const moduleSize = config.size / (code.size + quietZone * 2);
+  const edge = (index: number) => Math.round((index + quietZone) * moduleSize);
+
+  ctx.save();
+  ctx.translate(Math.round(x), Math.round(y));
+
+  if (!config.backgroundTransparent) {
+    ctx.fillStyle = config.backgroundColor;
+    ctx.fillRect(0, 0, Math.round(config.size), Math.round(config.size));
+  }
+
+  // One rectangle per run of dark modules in a row
+  ctx.fillStyle = config.color;
+  code.modules.forEach((row, moduleY) => {
+    let start = -1;
+    for (let moduleX = 0; moduleX <= code.size; moduleX++) {
+      const dark = row[moduleX] === true;
+      if (dark && start < 0) {
+        start = moduleX;
+      } else if (!dark && start >= 0) {
+        ctx.fillRect(edge(start), edge(moduleY), edge(moduleX) - edge(start), edge(moduleY + 1) - edge(moduleY));
+        start = -1;
       }
+    }
+  });
+
+  ctx.restore();
+}
+
+/**
+ * Get the dimensions of a QR watermark
+ * @param config - QR watermark configuration
+ * @returns Square dimensions, or null when there is no code to draw
+ */
+export function getQrWatermarkDimensions(config: QrWatermarkConfig): Dimensions | null {
+  return getQrCode(config) && config.size > 0 ? { width: config.size, height: config.size } : null;
+}
+
+/**
+ * Render QR code watermark on canvas
+ * 
+ * @param ctx - Canvas 2D rendering context
+ * @param config - QR watermark configuration
+ * @param position - Position on canvas
+ * @param canvasSize - Canvas dimensions (needed for tiling)
+ * @param rotation - Rotation in degrees
+ */
+export function renderQrWatermark(
+  ctx: RenderContext,
+  config: QrWatermarkConfig,
+  position: Point,
+  canvasSize: Dimensions,
+  rotation: number = 0
+): void {
+  const code = getQrCode(config);
+  const dimensions = getQrWatermarkDimensions(config);
+  if (!code || !dimensions) {
+    return;
+  }
+
+  ctx.save();
+  ctx.globalAlpha = normalizeOpacity(config.opacity);
+  ctx.globalCompositeOperation = getCompositeOperation(config.blendMode);
 
-      ctx.drawImage(image, x, y, dimensions.width, dimensions.height);
-      ctx.restore();
+  if (config.tileEnabled) {
+    renderTiledWatermark(
+      ctx,
+      (x, y) => drawQrCode(ctx, code, config, x, y),
+      dimensions,
+      canvasSize,
+      config.tileSpacingX,
+      config.tileSpacingY,
+      rotation
+    );
+  } else {
+    const centerX = position.x + dimensions.width / 2;
+    const centerY = position.y + dimensions.height / 2;
+    if (rotation !== 0) {
+      ctx.translate(centerX, centerY);
+      ctx.rotate(degreesToRadians(rotation));
+      ctx.translate(-centerX, -centerY);
     }
+    drawQrCode(ctx, code, config, position.x, position.y);
   }
+
+  ctx.restore();
 }
 
 /**
  * Calculate watermark bounds for hit testing
- * @param settings - Watermark settings
+ * @param layer - Watermark layer
  * @param canvasSize - Canvas dimensions
  * @param watermarkSize - Watermark dimensions
  * @returns Watermark bounds
  */
 export function calculateWatermarkBounds(
-  settings: WatermarkSettings,
+  layer: Pick<WatermarkLayer, 'position'>,
   canvasSize: Dimensions,
   watermarkSize: Dimensions
 ): WatermarkBounds {
   const position = calculateFinalPosition(
-    settings.position,
+    layer.position,
     canvasSize,
     watermarkSize
   );
@@ -399,52 +1021,338 @@ export function hitTest(
 }
 
 /**
- * Render watermark based on settings
- * Main entry point for watermark rendering
+ * Get the dimensions of a layer's watermark
+ * @param ctx - Canvas 2D context (used to measure text)
+ * @param layer - Watermark layer
+ * @param watermarkImage - Decoded image for image layers
+ * @returns Watermark dimensions, or null if there is nothing to draw
+ */
+export function getLayerDimensions(
+  ctx: RenderContext,
+  layer: WatermarkLayer,
+  watermarkImage?: WatermarkImageSource
+): Dimensions | null {
+  const config = layer.config;
+
+  if (config.type === 'text') {
+    return config.text ? getTextWatermarkDimensions(ctx, config) : null;
+  }
+  if (config.type === 'qr') {
+    return getQrWatermarkDimensions(config);
+  }
+  if (watermarkImage) {
+    const imageSize = getImageSourceSize(watermarkImage);
+    return calculateScaledDimensions(imageSize.width, imageSize.height, config.scale);
+  }
+  return null;
+}
+
+/**
+ * Convert a layer's size, offsets and margins to another unit
+ * The font size, image width or QR code width is a percentage of the
+ * layer's reference length, and offsets and margins percentages of the page. Without the
+ * decoded image, an image layer's width is unknown and its scale starts
+ * over from the unit's default.
+ *
+ * @param layer - Watermark layer
+ * @param unit - Unit to convert to
+ * @param canvasSize - Dimensions of the page to convert against
+ * @param watermarkImage - Decoded image for image layers
+ * @returns Layer in the given unit, or the layer itself if it already is
+ */
+export function convertLayerUnits(
+  layer: WatermarkLayer,
+  unit: PositionUnit,
+  canvasSize: Dimensions,
+  watermarkImage?: WatermarkImageSource
+): WatermarkLayer {
+  if (layer.position.unit === unit) {
+    return layer;
+  }
+
+  const toPixels = unit === 'px';
+  const referenceLength = getReferenceLength(canvasSize, layer.position.sizeReference);
+  const toPercent = (pixels: number) => referenceLength > 0 ? pixels / referenceLength * 100 : 0;
+
+  const config = layer.config;
+  let converted: WatermarkConfig;
+  if (config.type === 'text') {
+    const fontSize = toPixels ? referenceLength * config.fontSize / 100 : toPercent(config.fontSize);
+    converted = { ...config, fontSize };
+  } else if (config.type === 'qr') {
+    const size = toPixels ? referenceLength * config.size / 100 : toPercent(config.size);
+    converted = { ...config, size };
+  } else if (watermarkImage) {
+    const imageSize = getImageSourceSize(watermarkImage);
+    const scale = toPixels
+      ? calculateScaledDimensions(imageSize.width, imageSize.height, config.scale, referenceLength).width /
+        (imageSize.width || 1)
+      : toPercent(imageSize.width * config.scale);
+    converted = { ...config, scale };
+  } else {
+    converted = { ...config, scale: toPixels ? 1 : DEFAULT_IMAGE_WIDTH_PERCENT };
+  }
+
+  return {
+    ...layer,
+    config: converted,
+    position: convertPositionUnits(layer.position, unit, canvasSize),
+  };
+}
+
+/**
+ * Resolve a percentage-based layer to pixels for a page
+ * @param layer - Watermark layer
+ * @param canvasSize - Canvas dimensions
+ * @param watermarkImage - Decoded image for image layers
+ * @returns Layer in pixels, or the layer itself if it already is
+ */
+export function resolveLayerUnits(
+  layer: WatermarkLayer,
+  canvasSize: Dimensions,
+  watermarkImage?: WatermarkImageSource
+): WatermarkLayer {
+  return convertLayerUnits(layer, 'px', canvasSize, watermarkImage);
+}
+
+/**
+ * Average relative luminance of RGBA pixel data
+ * @param data - Pixel data, 4 bytes per pixel
+ * @returns Luminance from 0 (black) to 1 (white), 0.5 for no pixels
+ */
+export function calculateLuminance(data: ArrayLike<number>): number {
+  const pixels = Math.floor(data.length / 4);
+  if (pixels === 0) return 0.5;
+
+  let total = 0;
+  for (let i = 0; i < pixels * 4; i += 4) {
+    total += 0.2126 * data[i]! + 0.7152 * data[i + 1]! + 0.0722 * data[i + 2]!;
+  }
+  return total / pixels / 255;
+}
+
+/**
+ * Pick the text color that stands out against a background
+ * @param luminance - Background luminance (0-1)
+ * @param lightColor - Color for dark backgrounds
+ * @param darkColor - Color for light backgrounds
+ * @returns darkColor on light backgrounds, lightColor otherwise
+ */
+export function chooseContrastColor(luminance: number, lightColor: string, darkColor: string): string {
+  return luminance > 0.5 ? darkColor : lightColor;
+}
+
+/**
+ * Sample the luminance of a canvas region
+ * @param ctx - Canvas 2D context holding the page
+ * @param bounds - Region to sample, clipped to the canvas
+ * @param canvasSize - Canvas dimensions
+ * @returns Average luminance, or null if the pixels cannot be read
+ */
+export function sampleLuminance(
+  ctx: RenderContext,
+  bounds: WatermarkBounds,
+  canvasSize: Dimensions
+): number | null {
+  const x = Math.max(0, Math.floor(bounds.x));
+  const y = Math.max(0, Math.floor(bounds.y));
+  const width = Math.min(canvasSize.width, Math.ceil(bounds.x + bounds.width)) - x;
+  const height = Math.min(canvasSize.height, Math.ceil(bounds.y + bounds.height)) - y;
+  if (width <= 0 || height <= 0) return null;
+
+  try {
+    return calculateLuminance(ctx.getImageData(x, y, width, height).data);
+  } catch {
+    // Tainted canvases cannot be read
+    return null;
+  }
+}
+
+/**
+ * Resolve the color of an auto contrast text layer from the page under it
+ * Tiled layers sample the whole page.
+ *
+ * @param ctx - Canvas 2D context holding the page
+ * @param layer - Watermark layer
+ * @param canvasSize - Canvas dimensions
+ * @returns Layer with its text color chosen, or the layer itself if it is not auto contrast
+ */
+export function applyAutoContrast(
+  ctx: RenderContext,
+  layer: WatermarkLayer,
+  canvasSize: Dimensions
+): WatermarkLayer {
+  const config = layer.config;
+  if (!layer.enabled || config.type !== 'text' || config.colorMode !== 'auto') {
+    return layer;
+  }
+
+  const dimensions = getLayerDimensions(ctx, layer);
+  if (!dimensions) {
+    return layer;
+  }
+
+  const bounds = config.tileEnabled
+    ? { x: 0, y: 0, width: canvasSize.width, height: canvasSize.height }
+    : calculateWatermarkBounds(layer, canvasSize, dimensions);
+  const luminance = sampleLuminance(ctx, bounds, canvasSize);
+  if (luminance === null) {
+    return layer;
+  }
+
+  return {
+    ...layer,
+    config: { ...config, color: chooseContrastColor(luminance, config.lightColor, config.darkColor) },
+  };
+}
+
+/**
+ * Pin auto-placed layers to the least busy spot of the page
+ * The page is analysed once, and only if a layer needs it. Tiled layers
+ * cover the whole page and keep their position.
+ *
+ * @param ctx - Canvas 2D context holding the page
+ * @param layers - Watermark layers
+ * @param canvasSize - Canvas dimensions
+ * @param watermarkImages - Decoded images of the image layers, keyed by layer ID
+ * @returns Layers with custom positions, and the placement chosen for each auto layer
+ */
+export function applyAutoPlacement(
+  ctx: RenderContext,
+  layers: WatermarkLayer[],
+  canvasSize: Dimensions,
+  watermarkImages?: WatermarkImages
+): { layers: WatermarkLayer[]; placements: AutoPlacements } {
+  const placements: AutoPlacements = new Map();
+  let map: BusynessMap | null | undefined;
+
+  const placed = layers.map(layer => {
+    if (!layer.enabled || layer.position.presetPosition !== 'auto' || layer.config.tileEnabled) {
+      return layer;
+    }
+
+    const dimensions = getLayerDimensions(ctx, layer, watermarkImages?.get(layer.id));
+    if (!dimensions) {
+      return layer;
+    }
+
+    if (map === undefined) {
+      map = readBusynessMap(ctx, canvasSize);
+    }
+    if (!map) {
+      return layer;
+    }
+
+    const placement = chooseAutoPlacement(map, layer.position, canvasSize, dimensions);
+    placements.set(layer.id, placement);
+    return {
+      ...layer,
+      position: {
+        ...layer.position,
+        presetPosition: 'custom' as const,
+        unit: 'px' as const,
+        offsetX: placement.chosen.point.x,
+        offsetY: placement.chosen.point.y,
+      },
+    };
+  });
+
+  return { layers: placed, placements };
+}
+
+/**
+ * Combine the layer opacity with the watermark's own opacity
+ * @param config - Watermark config of the layer
+ * @param layerOpacity - Layer opacity (0-100)
+ * @returns Config with the effective opacity
+ */
+export function applyLayerOpacity<T extends WatermarkConfig>(config: T, layerOpacity: number): T {
+  return { ...config, opacity: config.opacity * normalizeOpacity(layerOpacity) };
+}
+
+/**
+ * Render a single watermark layer
  * 
  * @param ctx - Canvas 2D context
- * @param settings - Complete watermark settings
+ * @param layer - Watermark layer
  * @param canvasSize - Canvas dimensions
- * @param watermarkImage - Optional loaded image for image watermarks
+ * @param watermarkImage - Decoded image for image layers
  */
-export async function render(
-  ctx: CanvasRenderingContext2D,
-  settings: WatermarkSettings,
+export function renderLayer(
+  ctx: RenderContext,
+  layer: WatermarkLayer,
   canvasSize: Dimensions,
-  watermarkImage?: HTMLImageElement
-): Promise<void> {
-  if (!settings.enabled) {
+  watermarkImage?: WatermarkImageSource
+): void {
+  if (!layer.enabled) {
     return;
   }
 
-  const config = settings.config;
+  const dimensions = getLayerDimensions(ctx, layer, watermarkImage);
+  if (!dimensions) {
+    return;
+  }
 
-  if (config.type === 'text') {
-    const dimensions = getTextWatermarkDimensions(ctx, config);
-    const position = calculateFinalPosition(
-      settings.position,
-      canvasSize,
-      dimensions
-    );
-    renderTextWatermark(ctx, config, position, settings.position.rotation);
-  } else if (config.type === 'image' && watermarkImage) {
-    const scaledDimensions = calculateScaledDimensions(
-      watermarkImage.naturalWidth,
-      watermarkImage.naturalHeight,
-      config.scale
-    );
-    const position = calculateFinalPosition(
-      settings.position,
+  const position = calculateFinalPosition(layer.position, canvasSize, dimensions);
+
+  if (layer.config.type === 'text') {
+    const config = applyLayerOpacity(layer.config, layer.opacity);
+    if (config.tileEnabled) {
+      renderTiledTextWatermark(ctx, config, canvasSize, layer.position.rotation);
+    } else {
+      renderTextWatermark(ctx, config, position, layer.position.rotation);
+    }
+  } else if (layer.config.type === 'qr') {
+    renderQrWatermark(
+      ctx,
+      applyLayerOpacity(layer.config, layer.opacity),
+      position,
       canvasSize,
-      scaledDimensions
+      layer.position.rotation
     );
+  } else if (watermarkImage) {
     renderImageWatermark(
       ctx,
-      config,
+      applyLayerOpacity(layer.config, layer.opacity),
       watermarkImage,
       position,
       canvasSize,
-      settings.position.rotation
+      layer.position.rotation
     );
   }
 }
+
+/**
+ * Render watermark based on settings
+ * Main entry point for watermark rendering. Layers are drawn in order,
+ * so later layers appear on top. Percentage sizes are resolved for this
+ * page, and auto placements and auto contrast colors are picked from the
+ * page before any layer is drawn.
+ * 
+ * @param ctx - Canvas 2D context
+ * @param settings - Complete watermark settings
+ * @param canvasSize - Canvas dimensions
+ * @param watermarkImages - Decoded images of the image layers, keyed by layer ID
+ * @returns The placement chosen for each auto-placed layer
+ */
+export async function render(
+  ctx: RenderContext,
+  settings: WatermarkSettings,
+  canvasSize: Dimensions,
+  watermarkImages?: WatermarkImages
+): Promise<AutoPlacements> {
+  if (!settings.enabled) {
+    return new Map();
+  }
+
+  const { layers, placements } = applyAutoPlacement(
+    ctx,
+    settings.layers.map(layer => resolveLayerUnits(layer, canvasSize, watermarkImages?.get(layer.id))),
+    canvasSize,
+    watermarkImages
+  );
+  for (const layer of layers.map(layer => applyAutoContrast(ctx, layer, canvasSize))) {
+    renderLayer(ctx, layer, canvasSize, watermarkImages?.get(layer.id));
+  }
+  return placements;
+}
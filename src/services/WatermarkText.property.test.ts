@@ -0,0 +1,136 @@
+/**
+ * Property-Based Tests for WatermarkText Service
+ *
+ * **Feature: manga-watermark-tool, Property 41: Watermark Text Variables**
+ * **Validates: Template variables in text watermarks**
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  TEXT_VARIABLES,
+  getPageTextValues,
+  fillWatermarkText,
+  validateWatermarkText,
+} from './WatermarkText';
+import { RECIPIENT_TOKEN, type RenamePattern } from '@/types';
+import { arbWatermarkSettings, arbTextWatermarkConfig } from '@/test/helpers';
+
+const arbPattern: fc.Arbitrary<RenamePattern> = fc.record({
+  pattern: fc.constant('{page}'),
+  chapter: fc.stringMatching(/^[0-9A-Za-z.]{0,6}$/),
+  startPage: fc.integer({ min: 0, max: 500 }),
+  padLength: fc.integer({ min: 1, max: 5 }),
+});
+
+const arbPlainText = fc.stringMatching(/^[^{}]{0,20}$/);
+
+const arbUnknownToken = fc
+  .stringMatching(/^[a-z]{1,10}$/)
+  .map(name => `{${name}}`)
+  .filter(token => !TEXT_VARIABLES.some(v => v.variable === token));
+
+describe('Property 41: Watermark Text Variables', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 41: Watermark Text Variables**
+   * **Validates: Template variables in text watermarks**
+   *
+   * Page values SHALL number pages from the start page with padding, take
+   * the batch rename chapter, or the page's folder when none is set, and
+   * drop the extension of the exported filename.
+   */
+  it('should compute the variable values of a page', () => {
+    fc.assert(
+      fc.property(
+        arbPattern,
+        fc.nat({ max: 200 }),
+        fc.option(fc.stringMatching(/^[A-Za-z0-9 ]{1,10}$/), { nil: undefined }),
+        arbPlainText,
+        (pattern, index, chapter, base) => {
+          const image = chapter === undefined ? { name: 'scan.png' } : { name: 'scan.png', chapter };
+          const values = getPageTextValues(image, index, `${base}.jpg`, pattern, new Date(Date.UTC(2024, 4, 6)));
+
+          expect(values['{page}']).toBe(String(pattern.startPage + index).padStart(pattern.padLength, '0'));
+          expect(Number(values['{page}'])).toBe(pattern.startPage + index);
+          expect(values['{chapter}']).toBe(pattern.chapter || (chapter ?? ''));
+          expect(values['{original}']).toBe('scan');
+          expect(values['{filename}']).toBe(base);
+          expect(values['{date}']).toBe('2024-05-06');
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 41: Watermark Text Variables**
+   * **Validates: Template variables in text watermarks**
+   *
+   * Known variables in text layers SHALL be replaced, unknown tokens kept as
+   * typed, and settings without variables returned unchanged.
+   */
+  it('should fill known variables and keep unknown tokens', () => {
+    fc.assert(
+      fc.property(
+        arbWatermarkSettings,
+        arbTextWatermarkConfig,
+        arbPattern,
+        fc.nat({ max: 200 }),
+        arbPlainText,
+        arbUnknownToken,
+        (base, config, pattern, index, prefix, unknown) => {
+          const values = getPageTextValues({ name: 'page.png' }, index, 'out.png', pattern);
+          const plain = {
+            ...base,
+            layers: base.layers.map(layer =>
+              layer.config.type === 'text'
+                ? { ...layer, config: { ...layer.config, text: layer.config.text.replace(/[{}]/g, '') } }
+                : layer
+            ),
+          };
+          expect(fillWatermarkText(plain, values)).toBe(plain);
+
+          const [first, ...rest] = plain.layers;
+          const settings = {
+            ...plain,
+            layers: [{ ...first!, config: { ...config, text: `${prefix}Ch.{chapter} p.{page} ${unknown}` } }, ...rest],
+          };
+          const filled = fillWatermarkText(settings, values);
+          const layer = filled.layers[0]!;
+
+          expect(layer.config.type === 'text' && layer.config.text)
+            .toBe(`${prefix}Ch.${values['{chapter}']} p.${values['{page}']} ${unknown}`);
+          expect(filled.layers.slice(1)).toEqual(settings.layers.slice(1));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 41: Watermark Text Variables**
+   * **Validates: Template variables in text watermarks**
+   *
+   * Validation SHALL accept every known variable, including {recipient},
+   * and report each unknown token once.
+   */
+  it('should flag unknown variables only', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.constantFrom(...TEXT_VARIABLES.map(v => v.variable)), { maxLength: 5 }),
+        fc.array(arbUnknownToken, { maxLength: 3 }),
+        arbPlainText,
+        (known, unknown, plain) => {
+          const knownText = `${plain}${known.join(' ')}`;
+          expect(validateWatermarkText(knownText)).toEqual({ valid: true, errors: [] });
+          expect(validateWatermarkText(RECIPIENT_TOKEN).valid).toBe(true);
+
+          const result = validateWatermarkText(`${knownText}${unknown.join('')}${unknown.join('')}`);
+          expect(result.valid).toBe(unknown.length === 0);
+          expect(result.errors).toEqual([...new Set(unknown)].map(token => `Unknown variable ${token}`));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
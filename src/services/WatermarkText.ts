@@ -0,0 +1,94 @@
+/**
+ * WatermarkText Service
+ * Fills the batch rename variables into text watermarks, so each page can
+ * carry its own chapter, page number or filename (e.g. "Ch.{chapter} p.{page}")
+ */
+
+import type { WatermarkSettings, RenamePattern, UploadedImage, PatternValues } from '@/types';
+import {
+  PATTERN_VARIABLES,
+  RECIPIENT_TOKEN,
+  getPatternValues,
+  fillPattern,
+  getPatternTokens,
+} from '@/types';
+
+/**
+ * Variables available in watermark text
+ * {recipient} is filled by the distribution export, not per page.
+ */
+export const TEXT_VARIABLES = [
+  ...PATTERN_VARIABLES,
+  { variable: '{filename}', description: 'Exported filename' },
+  { variable: RECIPIENT_TOKEN, description: 'Recipient (distribution export)' },
+] as const;
+
+const KNOWN_VARIABLES = new Set<string>(TEXT_VARIABLES.map(v => v.variable));
+
+/**
+ * Compute the variable values of a page
+ * The chapter is the batch rename chapter, or else the page's archive folder.
+ *
+ * @param image - Page being rendered
+ * @param index - Position of the page in the batch
+ * @param outputFilename - Filename the page is exported as
+ * @param pattern - Batch rename pattern (chapter, start page, padding)
+ * @param date - Export date
+ * @returns Values keyed by variable
+ */
+export function getPageTextValues(
+  image: Pick<UploadedImage, 'name' | 'chapter'>,
+  index: number,
+  outputFilename: string,
+  pattern: RenamePattern,
+  date: Date = new Date()
+): PatternValues {
+  const values = getPatternValues(pattern, image.name, index, date);
+  values['{filename}'] = outputFilename.replace(/\.[^/.]+$/, '');
+  if (!pattern.chapter && image.chapter !== undefined) {
+    values['{chapter}'] = image.chapter;
+  }
+  return values;
+}
+
+/**
+ * Fill the variables of every text layer
+ * @param settings - Watermark settings of the page
+ * @param values - Values keyed by variable
+ * @returns Settings with filled text, or the same settings when no text layer has variables
+ */
+export function fillWatermarkText(settings: WatermarkSettings, values: PatternValues): WatermarkSettings {
+  const hasVariables = settings.layers.some(
+    layer => layer.config.type === 'text' && getPatternTokens(layer.config.text).length > 0
+  );
+  if (!hasVariables) {
+    return settings;
+  }
+
+  return {
+    ...settings,
+    layers: settings.layers.map(layer =>
+      layer.config.type === 'text'
+        ? { ...layer, config: { ...layer.config, text: fillPattern(layer.config.text, values) } }
+        : layer
+    ),
+  };
+}
+
+/**
+ * Validate the variables of a watermark text
+ * Unknown tokens are rendered as typed, which is usually a typo.
+ *
+ * @param text - Watermark text
+ * @returns Validity and one error per unknown token
+ */
+export function validateWatermarkText(text: string): { valid: boolean; errors: string[] } {
+  const errors = getPatternTokens(text)
+    .filter(token => !KNOWN_VARIABLES.has(token))
+    .map(token => `Unknown variable ${token}`);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
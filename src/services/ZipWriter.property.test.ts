@@ -0,0 +1,129 @@
+/**
+ * Property-Based Tests for ZipWriter Service
+ *
+ * **Feature: manga-watermark-tool, Property 25: Streaming ZIP Packaging**
+ * **Validates: Streaming ZIP export**
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import JSZip from 'jszip';
+import {
+  ZipStreamWriter,
+  MemoryOverflowError,
+  createBlobSink,
+  crc32,
+} from './ZipWriter';
+import { ErrorCodes } from '@/types';
+
+// Arbitrary generator for archive entries with unique names
+const arbEntries = fc.uniqueArray(
+  fc.record({
+    name: fc.stringMatching(/^[a-zA-Z0-9_-]{1,16}\.(png|jpg|webp)$/),
+    content: fc.string({ maxLength: 200 }),
+  }),
+  { minLength: 1, maxLength: 10, selector: entry => entry.name }
+);
+
+describe('Property 25: Streaming ZIP Packaging', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 25: Streaming ZIP Packaging**
+   * **Validates: Streaming ZIP export**
+   *
+   * For any set of files written incrementally, the archive SHALL be a valid
+   * ZIP containing exactly those files with their original contents.
+   */
+  it('should produce archives readable by standard ZIP readers', async () => {
+    await fc.assert(
+      fc.asyncProperty(arbEntries, async (entries) => {
+        const writer = new ZipStreamWriter(createBlobSink());
+        for (const entry of entries) {
+          await writer.addFile(entry.name, new Blob([entry.content]));
+        }
+        const archive = await writer.finish();
+        expect(archive).toBeInstanceOf(Blob);
+        if (!archive) return;
+
+        const zip = await JSZip.loadAsync(archive);
+        const names = Object.keys(zip.files).sort();
+        expect(names).toEqual(entries.map(e => e.name).sort());
+
+        for (const entry of entries) {
+          const content = await zip.file(entry.name)?.async('string');
+          expect(content).toBe(entry.content);
+        }
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 25: Streaming ZIP Packaging**
+   * **Validates: Streaming ZIP export**
+   *
+   * When the in-memory limit is exceeded, the writer SHALL raise E007
+   * with a suggested action.
+   */
+  it('should raise E007 when the in-memory limit is exceeded', async () => {
+    const writer = new ZipStreamWriter(createBlobSink(64));
+
+    const error = await writer
+      .addFile('page.png', new Blob(['x'.repeat(100)]))
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(MemoryOverflowError);
+    expect((error as MemoryOverflowError).code).toBe(ErrorCodes.MEMORY_OVERFLOW);
+    expect((error as MemoryOverflowError).suggestedAction.length).toBeGreaterThan(0);
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 25: Streaming ZIP Packaging**
+   * **Validates: Streaming ZIP export**
+   *
+   * The size limit SHALL count the central directory and end record, so a
+   * finished archive never exceeds it and the file that would overflow it
+   * raises E007.
+   */
+  it('should keep the central directory within the archive size limit', async () => {
+    await fc.assert(
+      fc.asyncProperty(arbEntries, fc.integer({ min: 22, max: 2000 }), async (entries, maxBytes) => {
+        const writer = new ZipStreamWriter(createBlobSink(), maxBytes);
+        let error: unknown = null;
+        for (const entry of entries) {
+          error = await writer.addFile(entry.name, new Blob([entry.content])).then(() => null, (e: unknown) => e);
+          if (error) break;
+        }
+
+        if (error) {
+          expect(error).toBeInstanceOf(MemoryOverflowError);
+          expect((error as MemoryOverflowError).code).toBe(ErrorCodes.MEMORY_OVERFLOW);
+          expect(writer.fileCount).toBeLessThan(entries.length);
+        } else {
+          expect(writer.fileCount).toBe(entries.length);
+        }
+        const archive = await writer.finish();
+        expect(archive!.size).toBeLessThanOrEqual(maxBytes);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 25: Streaming ZIP Packaging**
+   * **Validates: Streaming ZIP export**
+   *
+   * CRC-32 SHALL match the standard check value and always be unsigned.
+   */
+  it('should compute standard CRC-32 checksums', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+
+    fc.assert(
+      fc.property(fc.uint8Array({ maxLength: 500 }), (bytes) => {
+        const crc = crc32(bytes);
+        expect(crc).toBeGreaterThanOrEqual(0);
+        expect(crc).toBeLessThanOrEqual(0xffffffff);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
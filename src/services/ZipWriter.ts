@@ -0,0 +1,394 @@
+/**
+ * ZipWriter Service
+ * Incremental ZIP writer for large exports. Each page is written as soon
+ * as it is rendered, so output blobs can be released instead of being
+ * held in memory until the whole archive is generated.
+ */
+
+import { ErrorCodes } from '@/types';
+
+/**
+ * Maximum archive size kept in memory when the File System Access API
+ * is not available
+ */
+export const MAX_IN_MEMORY_ZIP_BYTES = 1.5 * 1024 * 1024 * 1024;
+
+/**
+ * ZIP (without ZIP64) format limits
+ */
+const MAX_ZIP_ENTRIES = 0xffff;
+const MAX_ZIP_OFFSET = 0xffffffff;
+
+/**
+ * Fixed sizes of the ZIP records, without the filename
+ */
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_RECORD_SIZE = 22;
+
+/**
+ * Error thrown when an export exceeds memory or format limits
+ */
+export class MemoryOverflowError extends Error {
+  readonly code = ErrorCodes.MEMORY_OVERFLOW;
+  readonly recoverable = true;
+
+  constructor(message: string, public readonly suggestedAction: string) {
+    super(message);
+    this.name = 'MemoryOverflowError';
+  }
+}
+
+/**
+ * Destination the archive bytes are written to
+ */
+export interface ZipSink {
+  /** Append bytes to the archive */
+  write(chunk: Blob): Promise<void>;
+  /** Finish writing; resolves to the archive for in-memory sinks, null otherwise */
+  close(): Promise<Blob | null>;
+  /** Discard a partially written archive */
+  abort(): Promise<void>;
+}
+
+// ============================================
+// Sinks
+// ============================================
+
+/**
+ * Create a sink that collects the archive as Blob parts
+ * @param maxBytes - Size limit before MemoryOverflowError is raised
+ * @param mimeType - MIME type of the resulting archive
+ * @returns In-memory sink
+ */
+export function createBlobSink(
+  maxBytes: number = MAX_IN_MEMORY_ZIP_BYTES,
+  mimeType: string = 'application/zip'
+): ZipSink {
+  let parts: Blob[] = [];
+  let size = 0;
+
+  return {
+    async write(chunk) {
+      if (size + chunk.size > maxBytes) {
+        throw new MemoryOverflowError(
+          `Archive exceeds the ${formatMegabytes(maxBytes)} in-memory limit`,
+          'Use a browser that can save directly to disk (Chrome or Edge), ' +
+            'export fewer pages at a time, or switch to JPG/WebP to reduce size.'
+        );
+      }
+      parts.push(chunk);
+      size += chunk.size;
+    },
+    async close() {
+      const blob = new Blob(parts, { type: mimeType });
+      parts = [];
+      return blob;
+    },
+    async abort() {
+      parts = [];
+      size = 0;
+    },
+  };
+}
+
+/**
+ * Minimal typing for the File System Access save picker
+ */
+type SaveFilePicker = (options: {
+  suggestedName?: string;
+  types?: Array<{ description: string; accept: Record<string, string[]> }>;
+}) => Promise<FileSystemFileHandle>;
+
+/**
+ * Check if the archive can be written straight to disk
+ */
+export function isFileSystemAccessSupported(): boolean {
+  return typeof window !== 'undefined' && 'showSaveFilePicker' in window;
+}
+
+/**
+ * Create a sink that writes the archive to a file chosen by the user
+ * Must be called from a user gesture.
+ *
+ * @param filename - Suggested filename, including extension
+ * @param mimeType - MIME type of the archive
+ * @returns Disk-backed sink
+ * @throws DOMException (AbortError) if the user cancels the picker
+ */
+export async function createFileSystemSink(
+  filename: string,
+  mimeType: string = 'application/zip'
+): Promise<ZipSink> {
+  const picker = (window as unknown as { showSaveFilePicker: SaveFilePicker }).showSaveFilePicker;
+  const extension = filename.substring(filename.lastIndexOf('.'));
+  const handle = await picker({
+    suggestedName: filename,
+    types: [{ description: 'Archive', accept: { [mimeType]: [extension] } }],
+  });
+  const writable = await handle.createWritable();
+
+  return {
+    async write(chunk) {
+      await writable.write(chunk);
+    },
+    async close() {
+      await writable.close();
+      return null;
+    },
+    async abort() {
+      await writable.abort();
+    },
+  };
+}
+
+/**
+ * Create the best available sink: disk when supported, memory otherwise
+ * @param filename - Suggested filename, including extension
+ * @param mimeType - MIME type of the archive
+ * @returns Archive sink
+ */
+export async function createZipSink(
+  filename: string,
+  mimeType: string = 'application/zip'
+): Promise<ZipSink> {
+  return isFileSystemAccessSupported()
+    ? createFileSystemSink(filename, mimeType)
+    : createBlobSink(MAX_IN_MEMORY_ZIP_BYTES, mimeType);
+}
+
+// ============================================
+// ZIP Writer
+// ============================================
+
+interface CentralDirectoryEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+/**
+ * ZipStreamWriter class for writing uncompressed (stored) ZIP archives
+ * incrementally. Images are already compressed, so storing them avoids
+ * spending time on DEFLATE for almost no gain.
+ */
+export class ZipStreamWriter {
+  private entries: CentralDirectoryEntry[] = [];
+  private offset = 0;
+  private directorySize = 0;
+  private finished = false;
+  private encoder = new TextEncoder();
+
+  /**
+   * @param sink - Destination of the archive bytes
+   * @param maxBytes - Size limit of the whole archive (the 4 GB ZIP limit by default)
+   */
+  constructor(
+    private readonly sink: ZipSink,
+    private readonly maxBytes: number = MAX_ZIP_OFFSET
+  ) {}
+
+  /**
+   * Number of files written so far
+   */
+  get fileCount(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Number of bytes written so far
+   */
+  get bytesWritten(): number {
+    return this.offset;
+  }
+
+  /**
+   * Append a file to the archive
+   * @param name - Path of the file inside the archive
+   * @param data - File contents
+   * @param date - Modification date
+   * @throws MemoryOverflowError if ZIP limits are exceeded
+   */
+  async addFile(name: string, data: Blob, date: Date = new Date()): Promise<void> {
+    if (this.finished) {
+      throw new Error('Cannot add files to a finished archive');
+    }
+    if (this.entries.length >= MAX_ZIP_ENTRIES) {
+      throw new MemoryOverflowError(
+        `Archive cannot hold more than ${MAX_ZIP_ENTRIES} files`,
+        'Split the export into several smaller batches.'
+      );
+    }
+
+    const bytes = new Uint8Array(await readBlobAsArrayBuffer(data));
+    const nameBytes = this.encoder.encode(name);
+    const headerSize = LOCAL_HEADER_SIZE + nameBytes.length;
+    const directoryEntrySize = CENTRAL_HEADER_SIZE + nameBytes.length;
+
+    // The central directory and end record are written after the last file,
+    // so they must still fit once this file is added
+    const projectedSize = this.offset + headerSize + bytes.length +
+      this.directorySize + directoryEntrySize + END_RECORD_SIZE;
+    if (projectedSize > this.maxBytes) {
+      throw new MemoryOverflowError(
+        'Archive exceeds the 4 GB ZIP size limit',
+        'Split the export into several smaller batches, or switch to JPG/WebP to reduce size.'
+      );
+    }
+
+    const { time, date: dosDate } = toDosDateTime(date);
+    const entry: CentralDirectoryEntry = {
+      name: nameBytes,
+      crc: crc32(bytes),
+      size: bytes.length,
+      offset: this.offset,
+      time,
+      date: dosDate,
+    };
+
+    const header = new DataView(new ArrayBuffer(LOCAL_HEADER_SIZE));
+    header.setUint32(0, 0x04034b50, true);  // Local file header signature
+    header.setUint16(4, 20, true);          // Version needed to extract
+    header.setUint16(6, 0x0800, true);      // Flags: UTF-8 filenames
+    header.setUint16(8, 0, true);           // Compression: stored
+    header.setUint16(10, entry.time, true);
+    header.setUint16(12, entry.date, true);
+    header.setUint32(14, entry.crc, true);
+    header.setUint32(18, entry.size, true); // Compressed size
+    header.setUint32(22, entry.size, true); // Uncompressed size
+    header.setUint16(26, nameBytes.length, true);
+    header.setUint16(28, 0, true);          // Extra field length
+
+    await this.sink.write(new Blob([header.buffer, nameBytes, bytes]));
+    this.entries.push(entry);
+    this.offset += headerSize + bytes.length;
+    this.directorySize += directoryEntrySize;
+  }
+
+  /**
+   * Write the central directory and close the sink
+   * @returns The archive for in-memory sinks, null for disk sinks
+   */
+  async finish(): Promise<Blob | null> {
+    if (this.finished) {
+      throw new Error('Archive is already finished');
+    }
+    this.finished = true;
+
+    const parts: BlobPart[] = [];
+
+    for (const entry of this.entries) {
+      const header = new DataView(new ArrayBuffer(CENTRAL_HEADER_SIZE));
+      header.setUint32(0, 0x02014b50, true);  // Central directory signature
+      header.setUint16(4, 20, true);          // Version made by
+      header.setUint16(6, 20, true);          // Version needed to extract
+      header.setUint16(8, 0x0800, true);      // Flags: UTF-8 filenames
+      header.setUint16(10, 0, true);          // Compression: stored
+      header.setUint16(12, entry.time, true);
+      header.setUint16(14, entry.date, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.size, true);
+      header.setUint32(24, entry.size, true);
+      header.setUint16(28, entry.name.length, true);
+      // Extra, comment, disk number, attributes: all zero
+      header.setUint32(42, entry.offset, true);
+
+      parts.push(header.buffer, entry.name);
+    }
+
+    const end = new DataView(new ArrayBuffer(END_RECORD_SIZE));
+    end.setUint32(0, 0x06054b50, true);       // End of central directory signature
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, this.directorySize, true);
+    end.setUint32(16, this.offset, true);
+    parts.push(end.buffer);
+
+    await this.sink.write(new Blob(parts));
+    this.entries = [];
+    this.directorySize = 0;
+    return this.sink.close();
+  }
+
+  /**
+   * Abandon the archive and discard anything written so far
+   */
+  async abort(): Promise<void> {
+    this.finished = true;
+    this.entries = [];
+    await this.sink.abort();
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Read a Blob into an ArrayBuffer
+ * @param blob - Blob to read
+ * @returns Promise resolving to the contents
+ */
+function readBlobAsArrayBuffer(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (reader.result instanceof ArrayBuffer) {
+        resolve(reader.result);
+      } else {
+        reject(new Error('Failed to read blob'));
+      }
+    };
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read blob'));
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Calculate the CRC-32 checksum used by ZIP
+ * @param bytes - Data to checksum
+ * @returns Unsigned CRC-32
+ */
+export function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = (crcTable[(crc ^ (bytes[i] ?? 0)) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Convert a date to MS-DOS date and time fields
+ * @param date - Date to convert
+ * @returns DOS time and date words
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Format a byte count in megabytes for messages
+ */
+function formatMegabytes(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
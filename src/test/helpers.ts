@@ -2,13 +2,17 @@ import * as fc from 'fast-check'
 import type {
   TextWatermarkConfig,
   ImageWatermarkConfig,
+  QrWatermarkConfig,
   WatermarkPosition,
+  WatermarkLayer,
   WatermarkSettings,
   Preset,
   ExportFormat,
   ExportSettings,
   PresetPosition,
+  ImageAdjustments,
 } from '@/types'
+import { BLEND_MODES, SIZE_REFERENCES, QR_ERROR_CORRECTION_LEVELS } from '@/types'
 
 /**
  * Arbitrary generators for property-based testing
@@ -30,6 +34,9 @@ export const arbHexColor = fc.hexaString({ minLength: 6, maxLength: 6 }).map(s =
 // Generate valid opacity (0-100)
 export const arbOpacity = fc.integer({ min: 0, max: 100 })
 
+// Generate valid blend mode
+export const arbBlendMode = fc.constantFrom(...BLEND_MODES)
+
 // Generate valid font size (8-200)
 export const arbFontSize = fc.integer({ min: 8, max: 200 })
 
@@ -62,36 +69,99 @@ export const arbFontWeight = fc.constantFrom('normal' as const, 'bold' as const)
 export const arbNonEmptyText = fc.string({ minLength: 1, maxLength: 100 })
   .filter(s => s.trim().length > 0)
 
+// Generate custom font reference (null for a system font)
+export const arbCustomFontId = fc.option(
+  fc.uuid().map(uuid => `font_${uuid}`),
+  { nil: null }
+)
+
 // Generate text watermark config
 export const arbTextWatermarkConfig: fc.Arbitrary<TextWatermarkConfig> = fc.record({
   type: fc.constant('text' as const),
   text: arbNonEmptyText,
   fontFamily: arbFontFamily,
+  fontId: fc.constant(null), // system fonts; see arbCustomFontId
   fontSize: arbFontSize,
   fontWeight: arbFontWeight,
+  lineHeight: fc.constantFrom(1, 1.2, 1.5, 2),
+  textAlign: fc.constantFrom('left' as const, 'center' as const, 'right' as const),
+  letterSpacing: fc.constant(0), // keeps one fillText per line so draw calls match the text
+  maxWidth: fc.constant(0),
   color: arbHexColor,
+  colorMode: fc.constant('fixed' as const), // auto contrast needs a context with getImageData
+  lightColor: arbHexColor,
+  darkColor: arbHexColor,
   opacity: arbOpacity,
+  blendMode: arbBlendMode,
   outlineEnabled: fc.boolean(),
   outlineColor: arbHexColor,
   outlineWidth: fc.integer({ min: 1, max: 10 }),
+  shadowEnabled: fc.boolean(),
+  shadowColor: arbHexColor,
+  shadowOffsetX: fc.integer({ min: -20, max: 20 }),
+  shadowOffsetY: fc.integer({ min: -20, max: 20 }),
+  shadowBlur: fc.integer({ min: 0, max: 30 }),
+  fillType: fc.constant('solid' as const), // gradients need a context with createLinearGradient
+  gradientColor: arbHexColor,
+  gradientAngle: fc.integer({ min: 0, max: 359 }),
+  backgroundEnabled: fc.constant(false), // keeps the text at the watermark position
+  backgroundColor: arbHexColor,
+  backgroundOpacity: arbOpacity,
+  backgroundPadding: fc.integer({ min: 0, max: 40 }),
+  backgroundRadius: fc.integer({ min: 0, max: 40 }),
+  tileEnabled: fc.boolean(),
+  tileSpacingX: fc.integer({ min: 0, max: 200 }),
+  tileSpacingY: fc.integer({ min: 0, max: 200 }),
+  tileStagger: fc.integer({ min: 0, max: 100 }),
+  tileRotation: arbRotation,
 })
 
 // Generate base64 image data (simplified for testing)
 export const arbBase64Image = fc.constant('data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==')
 
+// Generate SVG markup of a monochrome logo
+export const arbSvgImage = fc.record({
+  width: fc.integer({ min: 1, max: 500 }),
+  height: fc.integer({ min: 1, max: 500 }),
+  viewBox: fc.boolean(),
+}).map(({ width, height, viewBox }) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"` +
+  `${viewBox ? ` viewBox="0 0 ${width} ${height}"` : ''}><circle cx="1" cy="1" r="1"/></svg>`
+)
+
 // Generate image watermark config
 export const arbImageWatermarkConfig: fc.Arbitrary<ImageWatermarkConfig> = fc.record({
   type: fc.constant('image' as const),
-  imageData: arbBase64Image,
+  imageData: fc.oneof(arbBase64Image, arbSvgImage),
   scale: arbScale,
   opacity: arbOpacity,
+  blendMode: arbBlendMode,
+  recolor: fc.boolean(),
+  color: arbHexColor,
   tileEnabled: fc.boolean(),
   tileSpacingX: fc.integer({ min: 0, max: 200 }),
   tileSpacingY: fc.integer({ min: 0, max: 200 }),
 })
 
-// Generate watermark config (either text or image)
-export const arbWatermarkConfig = fc.oneof(arbTextWatermarkConfig, arbImageWatermarkConfig)
+// Generate QR code watermark config
+export const arbQrWatermarkConfig: fc.Arbitrary<QrWatermarkConfig> = fc.record({
+  type: fc.constant('qr' as const),
+  content: fc.string({ minLength: 1, maxLength: 100 }),
+  errorCorrection: fc.constantFrom(...QR_ERROR_CORRECTION_LEVELS),
+  size: fc.integer({ min: 20, max: 400 }),
+  color: arbHexColor,
+  backgroundColor: arbHexColor,
+  backgroundTransparent: fc.boolean(),
+  quietZone: fc.integer({ min: 0, max: 8 }),
+  opacity: arbOpacity,
+  blendMode: arbBlendMode,
+  tileEnabled: fc.boolean(),
+  tileSpacingX: fc.integer({ min: 0, max: 200 }),
+  tileSpacingY: fc.integer({ min: 0, max: 200 }),
+})
+
+// Generate watermark config (text, image or QR code)
+export const arbWatermarkConfig = fc.oneof(arbTextWatermarkConfig, arbImageWatermarkConfig, arbQrWatermarkConfig)
 
 // Generate watermark position
 export const arbWatermarkPosition: fc.Arbitrary<WatermarkPosition> = fc.record({
@@ -103,15 +173,45 @@ export const arbWatermarkPosition: fc.Arbitrary<WatermarkPosition> = fc.record({
   marginRight: arbMargin,
   marginBottom: arbMargin,
   marginLeft: arbMargin,
+  autoCandidates: fc.subarray(presetPositions, { minLength: 1 }),
+  autoGutters: fc.boolean(),
+  unit: fc.constant('px' as const), // pixel positions keep the position tests exact
+  sizeReference: fc.constantFrom(...SIZE_REFERENCES),
 })
 
-// Generate watermark settings
-export const arbWatermarkSettings: fc.Arbitrary<WatermarkSettings> = fc.record({
+// Generate watermark layer
+export const arbWatermarkLayer: fc.Arbitrary<WatermarkLayer> = fc.record({
+  id: fc.uuid(),
+  name: arbNonEmptyText,
   config: arbWatermarkConfig,
   position: arbWatermarkPosition,
   enabled: fc.boolean(),
+  opacity: fc.integer({ min: 0, max: 100 }),
 })
 
+// Generate watermark settings
+export const arbWatermarkSettings: fc.Arbitrary<WatermarkSettings> = fc.record({
+  layers: fc.array(arbWatermarkLayer, { minLength: 1, maxLength: 4 }),
+  enabled: fc.boolean(),
+})
+
+// Generate image adjustments (black point kept below white point)
+export const arbImageAdjustments: fc.Arbitrary<ImageAdjustments> = fc.record({
+  enabled: fc.boolean(),
+  grayscale: fc.boolean(),
+  autoLevels: fc.boolean(),
+  autoLevelsClip: fc.integer({ min: 0, max: 50 }).map(n => n / 10),
+  blackPoint: fc.integer({ min: 0, max: 254 }),
+  whitePoint: fc.integer({ min: 1, max: 255 }),
+  gamma: fc.integer({ min: 10, max: 500 }).map(n => n / 100),
+  curve: fc.array(
+    fc.record({ input: fc.integer({ min: 0, max: 255 }), output: fc.integer({ min: 0, max: 255 }) }),
+    { maxLength: 3 }
+  ),
+}).map(adjustments => adjustments.blackPoint < adjustments.whitePoint
+  ? adjustments
+  : { ...adjustments, blackPoint: adjustments.whitePoint - 1 })
+
 // Generate preset
 export const arbPreset: fc.Arbitrary<Preset> = fc.record({
   id: fc.uuid(),
@@ -131,6 +231,7 @@ export const arbExportSettings: fc.Arbitrary<ExportSettings> = fc.record({
   filenamePrefix: fc.string({ maxLength: 50 }),
   filenameSuffix: fc.string({ maxLength: 50 }),
   preserveOriginalName: fc.boolean(),
+  concurrency: fc.integer({ min: 1, max: 8 }),
 })
 
 // Generate valid image file extension
@@ -0,0 +1,81 @@
+/**
+ * Image Adjustment Types
+ * Types for raw cleaning (grayscale, levels, gamma and tone curve) applied
+ * to each page before the watermark
+ */
+
+/**
+ * A point of the tone curve, mapping an input level to an output level (0-255)
+ */
+export interface CurvePoint {
+  input: number;
+  output: number;
+}
+
+export interface ImageAdjustments {
+  enabled: boolean;
+  grayscale: boolean;       // Convert to true grayscale before the levels
+  autoLevels: boolean;      // Take black and white points from each page's histogram
+  autoLevelsClip: number;   // Percent of pixels clipped at each end by auto levels (0-5)
+  blackPoint: number;       // Input level mapped to black (0-254)
+  whitePoint: number;       // Input level mapped to white (1-255)
+  gamma: number;            // Midtone gamma (0.1-5), 1 leaves midtones unchanged
+  curve: CurvePoint[];      // Tone curve points between (0, 0) and (255, 255)
+}
+
+/**
+ * Tone curve handles offered in the Tools tab, at fixed input levels
+ */
+export const CURVE_HANDLES = [
+  { input: 64, label: 'Shadows' },
+  { input: 128, label: 'Midtones' },
+  { input: 192, label: 'Highlights' },
+] as const;
+
+export function createDefaultImageAdjustments(): ImageAdjustments {
+  return {
+    enabled: false,
+    grayscale: false,
+    autoLevels: false,
+    autoLevelsClip: 0.5,
+    blackPoint: 0,
+    whitePoint: 255,
+    gamma: 1,
+    curve: [],
+  };
+}
+
+/**
+ * Check if a value is a valid CurvePoint
+ */
+function isCurvePoint(value: unknown): value is CurvePoint {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  return (
+    typeof obj['input'] === 'number' && obj['input'] >= 0 && obj['input'] <= 255 &&
+    typeof obj['output'] === 'number' && obj['output'] >= 0 && obj['output'] <= 255
+  );
+}
+
+/**
+ * Check if a value is a valid ImageAdjustments
+ */
+export function isImageAdjustments(value: unknown): value is ImageAdjustments {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+
+  return (
+    typeof obj['enabled'] === 'boolean' &&
+    typeof obj['grayscale'] === 'boolean' &&
+    typeof obj['autoLevels'] === 'boolean' &&
+    typeof obj['autoLevelsClip'] === 'number' &&
+    obj['autoLevelsClip'] >= 0 && obj['autoLevelsClip'] <= 5 &&
+    typeof obj['blackPoint'] === 'number' &&
+    typeof obj['whitePoint'] === 'number' &&
+    obj['blackPoint'] >= 0 && obj['blackPoint'] < obj['whitePoint'] && obj['whitePoint'] <= 255 &&
+    typeof obj['gamma'] === 'number' &&
+    obj['gamma'] >= 0.1 && obj['gamma'] <= 5 &&
+    Array.isArray(obj['curve']) &&
+    obj['curve'].every(isCurvePoint)
+  );
+}
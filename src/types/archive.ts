@@ -0,0 +1,68 @@
+/**
+ * Archive Types
+ * Types for ZIP, CBZ and EPUB export targets
+ */
+
+export type ArchiveFormat = 'zip' | 'cbz' | 'epub';
+
+export type ReadingDirection = 'rtl' | 'ltr';
+
+export interface ComicMetadata {
+  series: string;
+  title: string;                       // Optional chapter title
+  language: string;                    // ISO 639 code, e.g. "ja"
+  readingDirection: ReadingDirection;  // rtl = manga
+}
+
+export interface ArchiveSettings {
+  format: ArchiveFormat;
+  metadata: ComicMetadata;
+}
+
+export interface ArchiveFormatInfo {
+  value: ArchiveFormat;
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const ARCHIVE_FORMATS: Record<ArchiveFormat, ArchiveFormatInfo> = {
+  zip: {
+    value: 'zip',
+    label: 'ZIP',
+    description: 'Plain archive of images',
+    extension: '.zip',
+    mimeType: 'application/zip',
+  },
+  cbz: {
+    value: 'cbz',
+    label: 'CBZ',
+    description: 'Comic archive with ComicInfo.xml',
+    extension: '.cbz',
+    mimeType: 'application/vnd.comicbook+zip',
+  },
+  epub: {
+    value: 'epub',
+    label: 'EPUB',
+    description: 'Fixed-layout EPUB3 e-book',
+    extension: '.epub',
+    mimeType: 'application/epub+zip',
+  },
+};
+
+export function createDefaultComicMetadata(): ComicMetadata {
+  return {
+    series: '',
+    title: '',
+    language: 'ja',
+    readingDirection: 'rtl',
+  };
+}
+
+export function createDefaultArchiveSettings(): ArchiveSettings {
+  return {
+    format: 'zip',
+    metadata: createDefaultComicMetadata(),
+  };
+}
@@ -18,6 +18,11 @@ export interface CompressionPreset {
   preserveAspectRatio: boolean;
 }
 
+/**
+ * Size limits applied to exported images
+ */
+export type ResizeOptions = Pick<CompressionPreset, 'maxWidth' | 'maxHeight' | 'preserveAspectRatio'>;
+
 export const COMPRESSION_PRESETS: Record<PresetName, CompressionPreset> = {
   web: {
     name: 'web',
@@ -69,6 +74,32 @@ export function getAllPresets(): CompressionPreset[] {
   return Object.values(COMPRESSION_PRESETS);
 }
 
+/**
+ * Calculate output dimensions for an image under the given size limits.
+ * Images are only ever scaled down, never up.
+ */
+export function calculateResizeDimensions(
+  width: number,
+  height: number,
+  options: ResizeOptions
+): { width: number; height: number } {
+  const widthRatio = options.maxWidth && width > options.maxWidth ? options.maxWidth / width : 1;
+  const heightRatio = options.maxHeight && height > options.maxHeight ? options.maxHeight / height : 1;
+
+  if (options.preserveAspectRatio) {
+    const ratio = Math.min(widthRatio, heightRatio);
+    return {
+      width: Math.max(1, Math.round(width * ratio)),
+      height: Math.max(1, Math.round(height * ratio)),
+    };
+  }
+
+  return {
+    width: Math.max(1, Math.round(width * widthRatio)),
+    height: Math.max(1, Math.round(height * heightRatio)),
+  };
+}
+
 /**
  * Estimate file size based on preset
  * This is a rough estimation
@@ -76,14 +107,12 @@ export function getAllPresets(): CompressionPreset[] {
 export function estimateFileSize(
   originalSize: number,
   width: number,
-  _height: number,
+  height: number,
   preset: CompressionPreset
 ): number {
-  // Calculate dimension ratio if resizing
-  let dimensionRatio = 1;
-  if (preset.maxWidth && width > preset.maxWidth) {
-    dimensionRatio = preset.maxWidth / width;
-  }
+  // Calculate pixel ratio if resizing
+  const resized = calculateResizeDimensions(width, height, preset);
+  const pixelRatio = (resized.width * resized.height) / (width * height);
   
   // Base compression ratios by format
   const formatRatios: Record<ExportFormat, number> = {
@@ -95,8 +124,8 @@ export function estimateFileSize(
   const formatRatio = formatRatios[preset.format];
   const qualityRatio = preset.quality / 100;
   
-  // Estimate: original * dimension^2 * format * quality
-  const estimated = originalSize * (dimensionRatio * dimensionRatio) * formatRatio * qualityRatio;
+  // Estimate: original * pixels * format * quality
+  const estimated = originalSize * pixelRatio * formatRatio * qualityRatio;
   
   return Math.round(estimated);
 }
@@ -0,0 +1,43 @@
+/**
+ * Distribution Types
+ * Types for exporting a separately watermarked copy per recipient, to trace
+ * which copy leaked
+ */
+
+/**
+ * Token replaced with the recipient's name in text watermarks
+ */
+export const RECIPIENT_TOKEN = '{recipient}';
+
+export interface DistributionSettings {
+  recipients: string[];     // Names or IDs, one copy each
+  jitterEnabled: boolean;   // Shift position and tile phase per recipient
+  maxShift: number;         // Largest shift in px (a tenth of it in % for percent layers), 1-50
+}
+
+/**
+ * One recipient's copy, as recorded in the manifest
+ */
+export interface DistributionManifestEntry {
+  recipient: string;
+  archive: string;          // ZIP filename of the copy
+  seed: number;             // Seed of the recipient's shifts
+  settingsHash: string;     // SHA-256 of the recipient's watermark settings
+}
+
+/**
+ * Manifest kept by the distributor, mapping each copy to its recipient
+ */
+export interface DistributionManifest {
+  createdAt: string;        // ISO date of the export
+  pageCount: number;
+  entries: DistributionManifestEntry[];
+}
+
+export function createDefaultDistributionSettings(): DistributionSettings {
+  return {
+    recipients: [],
+    jitterEnabled: true,
+    maxShift: 8,
+  };
+}
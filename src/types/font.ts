@@ -0,0 +1,33 @@
+/**
+ * Font Types
+ * Types for custom fonts uploaded to the local font library
+ */
+
+export const SUPPORTED_FONT_FORMATS = ['ttf', 'otf', 'woff2'] as const;
+export type FontFormat = typeof SUPPORTED_FONT_FORMATS[number];
+
+export const MAX_FONT_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+export interface CustomFont {
+  id: string;
+  name: string;         // Family name shown in the UI
+  fileName: string;
+  format: FontFormat;
+  data: ArrayBuffer;    // Raw font file
+  createdAt: number;
+}
+
+/**
+ * Font data sent to render workers
+ */
+export type FontSource = Pick<CustomFont, 'id' | 'data'>;
+
+/**
+ * CSS family name a custom font is registered under.
+ * Derived from the ID so fonts with the same name never clash.
+ * @param fontId - Custom font ID
+ * @returns Family name for FontFace and canvas font strings
+ */
+export function getFontFaceFamily(fontId: string): string {
+  return `wm-font-${fontId}`;
+}
@@ -8,35 +8,109 @@ export * from './crop';
 export * from './compression';
 export * from './rename';
 export * from './ai';
+export * from './archive';
+export * from './font';
+export * from './adjustments';
+export * from './invisible';
+export * from './distribution';
+
+import type { CropRegion, CropSettings } from './crop';
+import type { PresetName } from './compression';
+import type { RenameSettings } from './rename';
+import { createDefaultRenameSettings } from './rename';
+import type { ArchiveSettings } from './archive';
+import { createDefaultArchiveSettings } from './archive';
+import { createDefaultCropSettings } from './crop';
+import type { CustomFont } from './font';
+import type { ImageAdjustments } from './adjustments';
+import { createDefaultImageAdjustments, isImageAdjustments } from './adjustments';
+import type { InvisibleWatermarkSettings } from './invisible';
+import { createDefaultInvisibleWatermarkSettings } from './invisible';
+import type { DistributionSettings } from './distribution';
+import { createDefaultDistributionSettings } from './distribution';
 
 // ============================================
 // Watermark Types
 // ============================================
 
+export type TextAlign = 'left' | 'center' | 'right';
+
+export type TextFillType = 'solid' | 'linear' | 'radial';
+
+export type TextColorMode = 'fixed' | 'auto' | 'invert';
+
 export interface TextWatermarkConfig {
   type: 'text';
   text: string;
   fontFamily: string;
+  fontId: string | null; // custom font from the font library; fontFamily is the fallback
   fontSize: number;
   fontWeight: 'normal' | 'bold';
+  lineHeight: number; // line spacing as a multiple of the font size
+  textAlign: TextAlign;
+  letterSpacing: number; // extra space between characters in px
+  maxWidth: number; // wrap lines wider than this in px, 0 = no wrapping
   color: string;
+  colorMode: TextColorMode; // auto picks lightColor or darkColor from the page, invert flips the pixels under the text
+  lightColor: string; // used on dark regions in auto mode
+  darkColor: string; // used on light regions in auto mode
   opacity: number;
+  blendMode: BlendMode;
   outlineEnabled: boolean;
   outlineColor: string;
   outlineWidth: number;
+  shadowEnabled: boolean;
+  shadowColor: string;
+  shadowOffsetX: number;
+  shadowOffsetY: number;
+  shadowBlur: number;
+  fillType: TextFillType; // gradients run from color to gradientColor
+  gradientColor: string;
+  gradientAngle: number; // direction of a linear gradient in degrees, 0 = left to right
+  backgroundEnabled: boolean; // rounded plate behind the text
+  backgroundColor: string;
+  backgroundOpacity: number; // 0-100, on top of the text opacity
+  backgroundPadding: number;
+  backgroundRadius: number;
+  tileEnabled: boolean;
+  tileSpacingX: number;
+  tileSpacingY: number;
+  tileStagger: number; // shift of every other row, 0-100% of a tile step
+  tileRotation: number; // rotation of the whole tiled grid in degrees
 }
 
 export interface ImageWatermarkConfig {
   type: 'image';
-  imageData: string; // base64
+  imageData: string; // base64 data URL, or SVG markup rasterized at the drawn size
   scale: number;
   opacity: number;
+  blendMode: BlendMode;
+  recolor: boolean; // paint a monochrome SVG in color
+  color: string;
   tileEnabled: boolean;
   tileSpacingX: number;
   tileSpacingY: number;
 }
 
-export type WatermarkConfig = TextWatermarkConfig | ImageWatermarkConfig;
+export type QrErrorCorrection = typeof QR_ERROR_CORRECTION_LEVELS[number];
+
+export interface QrWatermarkConfig {
+  type: 'qr';
+  content: string; // URL or text encoded in the code
+  errorCorrection: QrErrorCorrection; // higher levels survive more damage but need more modules
+  size: number; // width of the code including the quiet zone, in px or % of the reference length
+  color: string; // color of the dark modules
+  backgroundColor: string;
+  backgroundTransparent: boolean; // leave light modules and the quiet zone transparent
+  quietZone: number; // blank margin around the code, in modules (0-8)
+  opacity: number;
+  blendMode: BlendMode;
+  tileEnabled: boolean;
+  tileSpacingX: number;
+  tileSpacingY: number;
+}
+
+export type WatermarkConfig = TextWatermarkConfig | ImageWatermarkConfig | QrWatermarkConfig;
 
 // ============================================
 // Position Types
@@ -47,8 +121,12 @@ export type PresetPosition =
   | 'middle-left' | 'center' | 'middle-right'
   | 'bottom-left' | 'bottom-center' | 'bottom-right';
 
+export type PositionUnit = typeof POSITION_UNITS[number];
+
+export type SizeReference = typeof SIZE_REFERENCES[number];
+
 export interface WatermarkPosition {
-  presetPosition: PresetPosition | 'custom';
+  presetPosition: PresetPosition | 'custom' | 'auto'; // auto picks the least busy spot per page
   offsetX: number;
   offsetY: number;
   rotation: number;
@@ -56,6 +134,10 @@ export interface WatermarkPosition {
   marginRight: number;
   marginBottom: number;
   marginLeft: number;
+  autoCandidates: PresetPosition[]; // spots auto placement may choose from, in order of preference
+  autoGutters: boolean; // also consider empty panel gutters in auto placement
+  unit: PositionUnit; // percent: offsets, margins and watermark size scale with the page
+  sizeReference: SizeReference; // page length the watermark size is a percentage of
 }
 
 
@@ -63,10 +145,18 @@ export interface WatermarkPosition {
 // Complete Watermark Settings
 // ============================================
 
-export interface WatermarkSettings {
+export interface WatermarkLayer {
+  id: string;
+  name: string;
   config: WatermarkConfig;
   position: WatermarkPosition;
   enabled: boolean;
+  opacity: number; // 0-100, multiplied with the watermark's own opacity
+}
+
+export interface WatermarkSettings {
+  layers: WatermarkLayer[]; // Drawn in order, the last layer ends up on top
+  enabled: boolean;
 }
 
 // ============================================
@@ -77,6 +167,7 @@ export interface Preset {
   id: string;
   name: string;
   settings: WatermarkSettings;
+  adjustments?: ImageAdjustments; // Raw cleaning saved with the preset
   createdAt: number;
   updatedAt: number;
 }
@@ -94,6 +185,27 @@ export interface UploadedImage {
   size: number;
   dataUrl: string;
   processed: boolean;
+  crop?: CropRegion | null; // Non-destructive crop, applied at render time
+  chapter?: string; // Source folder when imported from a ZIP/CBZ archive
+  watermarkOverride?: WatermarkOverride | null; // Changes to the global watermark for this page only
+}
+
+/**
+ * Changes to one watermark layer on a single page
+ * Fields left out follow the global layer.
+ */
+export interface LayerOverride {
+  enabled?: boolean;
+  position?: Partial<WatermarkPosition>;
+  config?: Partial<TextWatermarkConfig> | Partial<ImageWatermarkConfig> | Partial<QrWatermarkConfig>;
+}
+
+/**
+ * Per-page watermark overrides, merged over the global settings at render time
+ */
+export interface WatermarkOverride {
+  enabled?: boolean; // false hides every layer on this page
+  layers: Record<string, LayerOverride>; // keyed by layer ID
 }
 
 // ============================================
@@ -108,6 +220,7 @@ export interface ExportSettings {
   filenamePrefix: string;
   filenameSuffix: string;
   preserveOriginalName: boolean;
+  concurrency: number; // Pages rendered in parallel (1-MAX_RENDER_CONCURRENCY)
 }
 
 // ============================================
@@ -168,14 +281,27 @@ export interface AppState {
 
   // Watermark
   watermarkSettings: WatermarkSettings;
+  selectedLayerId: string | null;
 
   // Presets
   presets: Preset[];
   selectedPresetId: string | null;
 
+  // Fonts
+  customFonts: CustomFont[];
+
   // Export
   exportSettings: ExportSettings;
 
+  // Tools
+  cropSettings: CropSettings;
+  compressionPreset: PresetName;
+  renameSettings: RenameSettings;
+  archiveSettings: ArchiveSettings;
+  adjustments: ImageAdjustments;
+  invisibleWatermark: InvisibleWatermarkSettings;
+  distributionSettings: DistributionSettings;
+
   // UI State
   isProcessing: boolean;
   processingProgress: BatchProcessingProgress | null;
@@ -201,12 +327,63 @@ export interface StoredData {
 export const SUPPORTED_IMAGE_FORMATS = ['jpg', 'jpeg', 'png', 'webp', 'gif'] as const;
 export type SupportedImageFormat = typeof SUPPORTED_IMAGE_FORMATS[number];
 
+export const SUPPORTED_ARCHIVE_FORMATS = ['zip', 'cbz'] as const;
+export type SupportedArchiveFormat = typeof SUPPORTED_ARCHIVE_FORMATS[number];
+
 export const PRESET_POSITIONS: PresetPosition[] = [
   'top-left', 'top-center', 'top-right',
   'middle-left', 'center', 'middle-right',
   'bottom-left', 'bottom-center', 'bottom-right',
 ];
 
+export const POSITION_LABELS: Record<PresetPosition, string> = {
+  'top-left': 'Top Left',
+  'top-center': 'Top Center',
+  'top-right': 'Top Right',
+  'middle-left': 'Middle Left',
+  'center': 'Center',
+  'middle-right': 'Middle Right',
+  'bottom-left': 'Bottom Left',
+  'bottom-center': 'Bottom Center',
+  'bottom-right': 'Bottom Right',
+};
+
+/**
+ * Units for offsets, margins and watermark size: absolute pixels, or a
+ * percentage of the page so mixed-resolution chapters look alike
+ */
+export const POSITION_UNITS = ['px', 'percent'] as const;
+
+export const SIZE_REFERENCES = ['width', 'shorter-side'] as const;
+
+// Width of an image watermark, as a percentage, when its pixel size is unknown
+export const DEFAULT_IMAGE_WIDTH_PERCENT = 20;
+
+/**
+ * QR error correction levels, recovering about 7%, 15%, 25% and 30% of the code
+ */
+export const QR_ERROR_CORRECTION_LEVELS = ['L', 'M', 'Q', 'H'] as const;
+
+export const QR_ERROR_CORRECTION_LABELS: Record<QrErrorCorrection, string> = {
+  L: 'Low (7%)',
+  M: 'Medium (15%)',
+  Q: 'Quartile (25%)',
+  H: 'High (30%)',
+};
+
+export const SIZE_REFERENCE_LABELS: Record<SizeReference, string> = {
+  'width': 'Page width',
+  'shorter-side': 'Shorter side',
+};
+
+/**
+ * Spots auto placement tries by default: the corners first, then the top and bottom edges
+ */
+export const DEFAULT_AUTO_CANDIDATES: PresetPosition[] = [
+  'bottom-right', 'bottom-left', 'top-right', 'top-left',
+  'bottom-center', 'top-center',
+];
+
 export const FONT_FAMILIES = [
   'Arial',
   'Helvetica',
@@ -220,6 +397,21 @@ export const FONT_FAMILIES = [
 
 export type FontFamily = typeof FONT_FAMILIES[number];
 
+export const BLEND_MODES = ['normal', 'multiply', 'screen', 'overlay', 'difference'] as const;
+
+export type BlendMode = typeof BLEND_MODES[number];
+
+export const BLEND_MODE_LABELS: Record<BlendMode, string> = {
+  normal: 'Normal',
+  multiply: 'Multiply (darken, best on white paper)',
+  screen: 'Screen (lighten, best on dark panels)',
+  overlay: 'Overlay',
+  difference: 'Difference',
+};
+
+export const DEFAULT_RENDER_CONCURRENCY = 2;
+export const MAX_RENDER_CONCURRENCY = 8;
+
 
 // ============================================
 // Type Guards for Runtime Validation
@@ -232,6 +424,13 @@ export function isPresetPosition(value: unknown): value is PresetPosition {
   return typeof value === 'string' && PRESET_POSITIONS.includes(value as PresetPosition);
 }
 
+/**
+ * Check if a value is a valid BlendMode
+ */
+export function isBlendMode(value: unknown): value is BlendMode {
+  return typeof value === 'string' && BLEND_MODES.includes(value as BlendMode);
+}
+
 /**
  * Check if a value is a valid ExportFormat
  */
@@ -258,13 +457,40 @@ export function isTextWatermarkConfig(value: unknown): value is TextWatermarkCon
     obj['type'] === 'text' &&
     typeof obj['text'] === 'string' &&
     typeof obj['fontFamily'] === 'string' &&
+    (obj['fontId'] === null || typeof obj['fontId'] === 'string') &&
     typeof obj['fontSize'] === 'number' &&
     (obj['fontWeight'] === 'normal' || obj['fontWeight'] === 'bold') &&
+    typeof obj['lineHeight'] === 'number' &&
+    (obj['textAlign'] === 'left' || obj['textAlign'] === 'center' || obj['textAlign'] === 'right') &&
+    typeof obj['letterSpacing'] === 'number' &&
+    typeof obj['maxWidth'] === 'number' &&
     typeof obj['color'] === 'string' &&
+    (obj['colorMode'] === 'fixed' || obj['colorMode'] === 'auto' || obj['colorMode'] === 'invert') &&
+    typeof obj['lightColor'] === 'string' &&
+    typeof obj['darkColor'] === 'string' &&
     typeof obj['opacity'] === 'number' &&
+    isBlendMode(obj['blendMode']) &&
     typeof obj['outlineEnabled'] === 'boolean' &&
     typeof obj['outlineColor'] === 'string' &&
-    typeof obj['outlineWidth'] === 'number'
+    typeof obj['outlineWidth'] === 'number' &&
+    typeof obj['shadowEnabled'] === 'boolean' &&
+    typeof obj['shadowColor'] === 'string' &&
+    typeof obj['shadowOffsetX'] === 'number' &&
+    typeof obj['shadowOffsetY'] === 'number' &&
+    typeof obj['shadowBlur'] === 'number' &&
+    (obj['fillType'] === 'solid' || obj['fillType'] === 'linear' || obj['fillType'] === 'radial') &&
+    typeof obj['gradientColor'] === 'string' &&
+    typeof obj['gradientAngle'] === 'number' &&
+    typeof obj['backgroundEnabled'] === 'boolean' &&
+    typeof obj['backgroundColor'] === 'string' &&
+    typeof obj['backgroundOpacity'] === 'number' &&
+    typeof obj['backgroundPadding'] === 'number' &&
+    typeof obj['backgroundRadius'] === 'number' &&
+    typeof obj['tileEnabled'] === 'boolean' &&
+    typeof obj['tileSpacingX'] === 'number' &&
+    typeof obj['tileSpacingY'] === 'number' &&
+    typeof obj['tileStagger'] === 'number' &&
+    typeof obj['tileRotation'] === 'number'
   );
 }
 
@@ -280,6 +506,40 @@ export function isImageWatermarkConfig(value: unknown): value is ImageWatermarkC
     typeof obj['imageData'] === 'string' &&
     typeof obj['scale'] === 'number' &&
     typeof obj['opacity'] === 'number' &&
+    isBlendMode(obj['blendMode']) &&
+    typeof obj['recolor'] === 'boolean' &&
+    typeof obj['color'] === 'string' &&
+    typeof obj['tileEnabled'] === 'boolean' &&
+    typeof obj['tileSpacingX'] === 'number' &&
+    typeof obj['tileSpacingY'] === 'number'
+  );
+}
+
+/**
+ * Check if image watermark data is SVG markup rather than a data URL
+ */
+export function isSvgImageData(imageData: string): boolean {
+  return /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<svg[\s>]/i.test(imageData);
+}
+
+/**
+ * Check if a value is a valid QrWatermarkConfig
+ */
+export function isQrWatermarkConfig(value: unknown): value is QrWatermarkConfig {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+
+  return (
+    obj['type'] === 'qr' &&
+    typeof obj['content'] === 'string' &&
+    QR_ERROR_CORRECTION_LEVELS.includes(obj['errorCorrection'] as QrErrorCorrection) &&
+    typeof obj['size'] === 'number' &&
+    typeof obj['color'] === 'string' &&
+    typeof obj['backgroundColor'] === 'string' &&
+    typeof obj['backgroundTransparent'] === 'boolean' &&
+    typeof obj['quietZone'] === 'number' &&
+    typeof obj['opacity'] === 'number' &&
+    isBlendMode(obj['blendMode']) &&
     typeof obj['tileEnabled'] === 'boolean' &&
     typeof obj['tileSpacingX'] === 'number' &&
     typeof obj['tileSpacingY'] === 'number'
@@ -290,7 +550,7 @@ export function isImageWatermarkConfig(value: unknown): value is ImageWatermarkC
  * Check if a value is a valid WatermarkConfig
  */
 export function isWatermarkConfig(value: unknown): value is WatermarkConfig {
-  return isTextWatermarkConfig(value) || isImageWatermarkConfig(value);
+  return isTextWatermarkConfig(value) || isImageWatermarkConfig(value) || isQrWatermarkConfig(value);
 }
 
 /**
@@ -301,7 +561,7 @@ export function isWatermarkPosition(value: unknown): value is WatermarkPosition
   const obj = value as Record<string, unknown>;
   
   const presetPos = obj['presetPosition'];
-  const isValidPresetPos = presetPos === 'custom' || isPresetPosition(presetPos);
+  const isValidPresetPos = presetPos === 'custom' || presetPos === 'auto' || isPresetPosition(presetPos);
   
   return (
     isValidPresetPos &&
@@ -311,20 +571,43 @@ export function isWatermarkPosition(value: unknown): value is WatermarkPosition
     typeof obj['marginTop'] === 'number' &&
     typeof obj['marginRight'] === 'number' &&
     typeof obj['marginBottom'] === 'number' &&
-    typeof obj['marginLeft'] === 'number'
+    typeof obj['marginLeft'] === 'number' &&
+    Array.isArray(obj['autoCandidates']) &&
+    obj['autoCandidates'].every(isPresetPosition) &&
+    typeof obj['autoGutters'] === 'boolean' &&
+    POSITION_UNITS.includes(obj['unit'] as PositionUnit) &&
+    SIZE_REFERENCES.includes(obj['sizeReference'] as SizeReference)
   );
 }
 
 /**
- * Check if a value is a valid WatermarkSettings
+ * Check if a value is a valid WatermarkLayer
  */
-export function isWatermarkSettings(value: unknown): value is WatermarkSettings {
+export function isWatermarkLayer(value: unknown): value is WatermarkLayer {
   if (typeof value !== 'object' || value === null) return false;
   const obj = value as Record<string, unknown>;
   
   return (
+    typeof obj['id'] === 'string' &&
+    typeof obj['name'] === 'string' &&
     isWatermarkConfig(obj['config']) &&
     isWatermarkPosition(obj['position']) &&
+    typeof obj['enabled'] === 'boolean' &&
+    isValidOpacity(obj['opacity'])
+  );
+}
+
+/**
+ * Check if a value is a valid WatermarkSettings
+ */
+export function isWatermarkSettings(value: unknown): value is WatermarkSettings {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  
+  return (
+    Array.isArray(obj['layers']) &&
+    obj['layers'].length > 0 &&
+    obj['layers'].every(isWatermarkLayer) &&
     typeof obj['enabled'] === 'boolean'
   );
 }
@@ -340,6 +623,7 @@ export function isPreset(value: unknown): value is Preset {
     typeof obj['id'] === 'string' &&
     typeof obj['name'] === 'string' &&
     isWatermarkSettings(obj['settings']) &&
+    (obj['adjustments'] === undefined || isImageAdjustments(obj['adjustments'])) &&
     typeof obj['createdAt'] === 'number' &&
     typeof obj['updatedAt'] === 'number'
   );
@@ -359,7 +643,9 @@ export function isExportSettings(value: unknown): value is ExportSettings {
     obj['quality'] <= 100 &&
     typeof obj['filenamePrefix'] === 'string' &&
     typeof obj['filenameSuffix'] === 'string' &&
-    typeof obj['preserveOriginalName'] === 'boolean'
+    typeof obj['preserveOriginalName'] === 'boolean' &&
+    typeof obj['concurrency'] === 'number' &&
+    obj['concurrency'] >= 1
   );
 }
 
@@ -412,13 +698,40 @@ export function createDefaultTextWatermarkConfig(): TextWatermarkConfig {
     type: 'text',
     text: 'Watermark',
     fontFamily: 'Arial',
+    fontId: null,
     fontSize: 24,
     fontWeight: 'normal',
+    lineHeight: 1.2,
+    textAlign: 'left',
+    letterSpacing: 0,
+    maxWidth: 0,
     color: '#000000',
+    colorMode: 'fixed',
+    lightColor: '#ffffff',
+    darkColor: '#000000',
     opacity: 50,
+    blendMode: 'normal',
     outlineEnabled: false,
     outlineColor: '#ffffff',
     outlineWidth: 2,
+    shadowEnabled: false,
+    shadowColor: '#000000',
+    shadowOffsetX: 2,
+    shadowOffsetY: 2,
+    shadowBlur: 4,
+    fillType: 'solid',
+    gradientColor: '#ffffff',
+    gradientAngle: 90,
+    backgroundEnabled: false,
+    backgroundColor: '#ffffff',
+    backgroundOpacity: 60,
+    backgroundPadding: 8,
+    backgroundRadius: 6,
+    tileEnabled: false,
+    tileSpacingX: 100,
+    tileSpacingY: 80,
+    tileStagger: 50,
+    tileRotation: -30,
   };
 }
 
@@ -431,6 +744,30 @@ export function createDefaultImageWatermarkConfig(): ImageWatermarkConfig {
     imageData: '',
     scale: 1,
     opacity: 50,
+    blendMode: 'normal',
+    recolor: false,
+    color: '#ffffff',
+    tileEnabled: false,
+    tileSpacingX: 50,
+    tileSpacingY: 50,
+  };
+}
+
+/**
+ * Create default QR code watermark config
+ */
+export function createDefaultQrWatermarkConfig(): QrWatermarkConfig {
+  return {
+    type: 'qr',
+    content: '',
+    errorCorrection: 'M',
+    size: 120,
+    color: '#000000',
+    backgroundColor: '#ffffff',
+    backgroundTransparent: false,
+    quietZone: 2,
+    opacity: 80,
+    blendMode: 'normal',
     tileEnabled: false,
     tileSpacingX: 50,
     tileSpacingY: 50,
@@ -450,16 +787,59 @@ export function createDefaultWatermarkPosition(): WatermarkPosition {
     marginRight: 10,
     marginBottom: 10,
     marginLeft: 10,
+    autoCandidates: [...DEFAULT_AUTO_CANDIDATES],
+    autoGutters: true,
+    unit: 'px',
+    sizeReference: 'width',
+  };
+}
+
+/**
+ * Generate a unique ID for watermark layers
+ */
+export function generateLayerId(): string {
+  return `layer_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Get the default display name of a layer for its watermark type
+ */
+export function getDefaultLayerName(config: WatermarkConfig): string {
+  switch (config.type) {
+    case 'text':
+      return 'Text';
+    case 'image':
+      return 'Image';
+    case 'qr':
+      return 'QR Code';
+  }
+}
+
+/**
+ * Create a watermark layer
+ * @param config - Watermark config (defaults to a text watermark)
+ * @param position - Layer position (defaults to bottom-right)
+ */
+export function createWatermarkLayer(
+  config: WatermarkConfig = createDefaultTextWatermarkConfig(),
+  position: WatermarkPosition = createDefaultWatermarkPosition()
+): WatermarkLayer {
+  return {
+    id: generateLayerId(),
+    name: getDefaultLayerName(config),
+    config,
+    position,
+    enabled: true,
+    opacity: 100,
   };
 }
 
 /**
- * Create default watermark settings
+ * Create default watermark settings (a single text layer)
  */
 export function createDefaultWatermarkSettings(): WatermarkSettings {
   return {
-    config: createDefaultTextWatermarkConfig(),
-    position: createDefaultWatermarkPosition(),
+    layers: [createWatermarkLayer()],
     enabled: true,
   };
 }
@@ -474,6 +854,7 @@ export function createDefaultExportSettings(): ExportSettings {
     filenamePrefix: '',
     filenameSuffix: '_watermarked',
     preserveOriginalName: true,
+    concurrency: DEFAULT_RENDER_CONCURRENCY,
   };
 }
 
@@ -481,13 +862,23 @@ export function createDefaultExportSettings(): ExportSettings {
  * Create default app state
  */
 export function createDefaultAppState(): AppState {
+  const watermarkSettings = createDefaultWatermarkSettings();
   return {
     images: [],
     selectedImageId: null,
-    watermarkSettings: createDefaultWatermarkSettings(),
+    watermarkSettings,
+    selectedLayerId: watermarkSettings.layers[0]?.id ?? null,
     presets: [],
+    customFonts: [],
     selectedPresetId: null,
     exportSettings: createDefaultExportSettings(),
+    cropSettings: createDefaultCropSettings(),
+    compressionPreset: 'custom',
+    renameSettings: createDefaultRenameSettings(),
+    archiveSettings: createDefaultArchiveSettings(),
+    adjustments: createDefaultImageAdjustments(),
+    invisibleWatermark: createDefaultInvisibleWatermarkSettings(),
+    distributionSettings: createDefaultDistributionSettings(),
     isProcessing: false,
     processingProgress: null,
     previewZoom: 1,
@@ -0,0 +1,67 @@
+/**
+ * Invisible Watermark Types
+ * Types for the invisible mark hidden in exported pages and read back from
+ * suspected leaks
+ */
+
+export type InvisibleStrength = 'low' | 'medium' | 'high';
+
+/**
+ * Strength levels, as the quantization step of the marked DCT coefficient.
+ * Higher steps survive lower JPEG quality (down to minQuality) but add more
+ * grain to flat areas.
+ */
+export const INVISIBLE_STRENGTHS: Record<
+  InvisibleStrength,
+  { label: string; step: number; minQuality: number }
+> = {
+  low: { label: 'Low', step: 12, minQuality: 90 },
+  medium: { label: 'Medium', step: 24, minQuality: 75 },
+  high: { label: 'High', step: 40, minQuality: 60 },
+};
+
+/**
+ * UTF-8 bytes shared by the group ID and chapter in the payload
+ */
+export const INVISIBLE_TEXT_BYTES = 24;
+
+export interface InvisibleWatermarkSettings {
+  enabled: boolean;
+  groupId: string;              // Scanlation group or recipient ID
+  strength: InvisibleStrength;
+}
+
+/**
+ * Data hidden in a page
+ */
+export interface InvisiblePayload {
+  groupId: string;
+  chapter: string;
+  timestamp: number;            // Export time, in whole seconds since the epoch
+}
+
+/**
+ * Mark embedded in one page by the renderer
+ */
+export interface InvisibleMark {
+  payload: InvisiblePayload;
+  strength: InvisibleStrength;
+}
+
+/**
+ * Result of looking for a mark in a page
+ */
+export interface InvisibleVerification {
+  found: boolean;
+  payload: InvisiblePayload | null;
+  strength: InvisibleStrength | null;
+  confidence: number;           // Agreement of the repeated bits (0-1)
+}
+
+export function createDefaultInvisibleWatermarkSettings(): InvisibleWatermarkSettings {
+  return {
+    enabled: false,
+    groupId: '',
+    strength: 'medium',
+  };
+}
@@ -39,6 +39,61 @@ export function createDefaultRenameSettings(): RenameSettings {
   };
 }
 
+/**
+ * Values of the pattern variables, keyed by variable (e.g. '{page}')
+ */
+export type PatternValues = Record<string, string>;
+
+/**
+ * Matches a {variable} token
+ */
+const PATTERN_TOKEN = /{[^{}\s]+}/g;
+
+/**
+ * Compute the value of every pattern variable for a page
+ * @param pattern - Rename pattern (chapter, start page, padding)
+ * @param originalName - Original filename of the page
+ * @param index - Position of the page in the batch
+ * @param date - Date written for {date}; defaults to today
+ * @returns Values keyed by variable
+ */
+export function getPatternValues(
+  pattern: RenamePattern,
+  originalName: string,
+  index: number,
+  date: Date = new Date()
+): PatternValues {
+  const pageNumber = pattern.startPage + index;
+
+  return {
+    '{chapter}': pattern.chapter,
+    '{page}': String(pageNumber).padStart(pattern.padLength, '0'),
+    // Remove extension from original name
+    '{original}': originalName.replace(/\.[^/.]+$/, ''),
+    '{date}': date.toISOString().split('T')[0] ?? '', // YYYY-MM-DD
+    '{index}': String(index).padStart(pattern.padLength, '0'),
+  };
+}
+
+/**
+ * Replace the variables in a text
+ * Tokens without a value are left as typed.
+ *
+ * @param text - Text with {variable} tokens
+ * @param values - Values keyed by variable
+ * @returns The filled text
+ */
+export function fillPattern(text: string, values: PatternValues): string {
+  return text.replace(PATTERN_TOKEN, token => values[token] ?? token);
+}
+
+/**
+ * List the {variable} tokens of a text, in order, without duplicates
+ */
+export function getPatternTokens(text: string): string[] {
+  return [...new Set(text.match(PATTERN_TOKEN) ?? [])];
+}
+
 /**
  * Generate filename from pattern
  */
@@ -47,22 +102,7 @@ export function generateFilename(
   originalName: string,
   index: number
 ): string {
-  const pageNumber = pattern.startPage + index;
-  const paddedPage = String(pageNumber).padStart(pattern.padLength, '0');
-  const paddedIndex = String(index).padStart(pattern.padLength, '0');
-  const date = new Date().toISOString().split('T')[0] ?? ''; // YYYY-MM-DD
-  
-  // Remove extension from original name
-  const originalBase = originalName.replace(/\.[^/.]+$/, '');
-  
-  let result = pattern.pattern
-    .replace(/{chapter}/g, pattern.chapter)
-    .replace(/{page}/g, paddedPage)
-    .replace(/{original}/g, originalBase)
-    .replace(/{date}/g, date)
-    .replace(/{index}/g, paddedIndex);
-  
-  return result;
+  return fillPattern(pattern.pattern, getPatternValues(pattern, originalName, index));
 }
 
 /**
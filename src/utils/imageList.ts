@@ -0,0 +1,29 @@
+/**
+ * Image List Utilities
+ * Pure helpers for editing the ordered page list held in app state
+ */
+
+import type { UploadedImage } from '@/types';
+
+/**
+ * Replace pages with new ones at the position of the first replaced page
+ * Pages not being replaced keep their relative order.
+ *
+ * @param images - Pages in list order
+ * @param imageIds - IDs of the pages to replace
+ * @param replacements - New pages, in reading order
+ * @returns Updated page list
+ */
+export function replaceImagesInPlace(
+  images: UploadedImage[],
+  imageIds: string[],
+  replacements: UploadedImage[]
+): UploadedImage[] {
+  const insertAt = images.findIndex(image => imageIds.includes(image.id));
+  if (insertAt === -1) {
+    return images;
+  }
+  const kept = images.filter(image => !imageIds.includes(image.id));
+  const keptBefore = images.slice(0, insertAt).filter(image => !imageIds.includes(image.id)).length;
+  return [...kept.slice(0, keptBefore), ...replacements, ...kept.slice(keptBefore)];
+}
@@ -6,6 +6,9 @@
  * 
  * **Feature: manga-watermark-tool, Property 9: Margin Constraints**
  * **Validates: Requirements 4.5**
+ * 
+ * **Feature: manga-watermark-tool, Property 34: Relative Units**
+ * **Validates: Percentage-based sizing and offsets for mixed-resolution chapters**
  */
 
 import { describe, it, expect } from 'vitest';
@@ -15,10 +18,14 @@ import {
   applyMargins,
   clampToCanvas,
   respectsMargins,
+  calculateFinalPosition,
+  convertPositionUnits,
+  getReferenceLength,
   type Point,
   type Dimensions,
 } from './position';
-import { arbPresetPosition } from '@/test/helpers';
+import { arbPresetPosition, arbWatermarkPosition } from '@/test/helpers';
+import { createDefaultWatermarkPosition, type WatermarkPosition } from '@/types';
 
 // Arbitrary for valid canvas dimensions (must be positive)
 const arbCanvasDimensions = fc.record({
@@ -336,3 +343,94 @@ describe('Property 9: Margin Constraints', () => {
     );
   });
 });
+
+describe('Property 34: Relative Units', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 34: Relative Units**
+   * **Validates: Percentage-based sizing and offsets for mixed-resolution chapters**
+   * 
+   * Converting a pixel position to percentages and back SHALL restore its
+   * offsets and margins.
+   */
+  it('should round-trip offsets and margins through percentages', () => {
+    fc.assert(
+      fc.property(arbWatermarkPosition, arbCanvasDimensions, (position, canvas) => {
+        const percent = convertPositionUnits(position, 'percent', canvas);
+        const restored = convertPositionUnits(percent, 'px', canvas);
+
+        expect(percent.unit).toBe('percent');
+        expect(restored.unit).toBe('px');
+        expect(percent.offsetX).toBeCloseTo(position.offsetX / canvas.width * 100, 6);
+        expect(percent.marginTop).toBeCloseTo(position.marginTop / canvas.height * 100, 6);
+        for (const key of ['offsetX', 'offsetY', 'marginTop', 'marginRight', 'marginBottom', 'marginLeft'] as const) {
+          expect(restored[key]).toBeCloseTo(position[key], 6);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 34: Relative Units**
+   * **Validates: Percentage-based sizing and offsets for mixed-resolution chapters**
+   * 
+   * A percentage position SHALL land on the same relative spot of every
+   * page: scaling the page and the watermark scales the final position.
+   */
+  it('should place percentage positions proportionally on pages of any size', () => {
+    fc.assert(
+      fc.property(
+        arbPresetPosition,
+        fc.record({
+          offsetX: fc.double({ min: -20, max: 20, noNaN: true }),
+          offsetY: fc.double({ min: -20, max: 20, noNaN: true }),
+          margin: fc.double({ min: 0, max: 10, noNaN: true }),
+        }),
+        arbCanvasDimensions,
+        fc.integer({ min: 2, max: 5 }),
+        (presetPosition, { offsetX, offsetY, margin }, canvas, factor) => {
+          const position: WatermarkPosition = {
+            ...createDefaultWatermarkPosition(),
+            presetPosition,
+            unit: 'percent',
+            offsetX,
+            offsetY,
+            marginTop: margin,
+            marginRight: margin,
+            marginBottom: margin,
+            marginLeft: margin,
+          };
+          const watermark = { width: canvas.width / 10, height: canvas.height / 10 };
+          const large = { width: canvas.width * factor, height: canvas.height * factor };
+
+          const small = calculateFinalPosition(position, canvas, watermark);
+          const scaled = calculateFinalPosition(
+            position,
+            large,
+            { width: watermark.width * factor, height: watermark.height * factor }
+          );
+
+          expect(scaled.x).toBeCloseTo(small.x * factor, 6);
+          expect(scaled.y).toBeCloseTo(small.y * factor, 6);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 34: Relative Units**
+   * **Validates: Percentage-based sizing and offsets for mixed-resolution chapters**
+   * 
+   * The reference length SHALL be the page width or the shorter side.
+   */
+  it('should use the page width or the shorter side as reference length', () => {
+    fc.assert(
+      fc.property(arbCanvasDimensions, (canvas) => {
+        expect(getReferenceLength(canvas, 'width')).toBe(canvas.width);
+        expect(getReferenceLength(canvas, 'shorter-side')).toBe(Math.min(canvas.width, canvas.height));
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -3,7 +3,7 @@
  * Requirements: 4.1, 4.3, 4.5
  */
 
-import type { PresetPosition, WatermarkPosition } from '@/types';
+import type { PositionUnit, PresetPosition, SizeReference, WatermarkPosition } from '@/types';
 
 /**
  * Represents a 2D point/coordinate
@@ -141,33 +141,39 @@ export function calculateFinalPosition(
   canvasSize: Dimensions,
   watermarkSize: Dimensions
 ): Point {
+  // Percentage offsets and margins are resolved against this page
+  const resolved = resolvePositionUnits(watermarkPosition, canvasSize);
   let position: Point;
 
   // Start with preset position or custom offset
-  if (watermarkPosition.presetPosition === 'custom') {
+  if (resolved.presetPosition === 'custom') {
     position = {
-      x: watermarkPosition.offsetX,
-      y: watermarkPosition.offsetY,
+      x: resolved.offsetX,
+      y: resolved.offsetY,
     };
   } else {
+    // Auto placement is resolved per page; unresolved, it uses the first allowed spot
+    const presetPosition = resolved.presetPosition === 'auto'
+      ? resolved.autoCandidates[0] ?? 'bottom-right'
+      : resolved.presetPosition;
     position = calculatePresetPosition(
-      watermarkPosition.presetPosition,
+      presetPosition,
       canvasSize,
       watermarkSize
     );
     // Apply offsets to preset position
     position = {
-      x: position.x + watermarkPosition.offsetX,
-      y: position.y + watermarkPosition.offsetY,
+      x: position.x + resolved.offsetX,
+      y: position.y + resolved.offsetY,
     };
   }
 
   // Apply margins
   const margins: Margins = {
-    top: watermarkPosition.marginTop,
-    right: watermarkPosition.marginRight,
-    bottom: watermarkPosition.marginBottom,
-    left: watermarkPosition.marginLeft,
+    top: resolved.marginTop,
+    right: resolved.marginRight,
+    bottom: resolved.marginBottom,
+    left: resolved.marginLeft,
   };
 
   position = applyMargins(position, margins, canvasSize, watermarkSize);
@@ -224,3 +230,66 @@ export function respectsMargins(
     position.y + wmHeight <= canvasHeight - margins.bottom
   );
 }
+
+/**
+ * Get the page length a percentage watermark size is relative to
+ * 
+ * @param canvasSize - The dimensions of the canvas
+ * @param reference - Page width, or the shorter side of the page
+ * @returns The reference length in pixels
+ */
+export function getReferenceLength(canvasSize: Dimensions, reference: SizeReference): number {
+  return reference === 'shorter-side'
+    ? Math.min(canvasSize.width, canvasSize.height)
+    : canvasSize.width;
+}
+
+/**
+ * Convert the offsets and margins of a position to another unit
+ * Percentages are of the page width for horizontal values and of the
+ * page height for vertical values.
+ * 
+ * @param watermarkPosition - The watermark position
+ * @param unit - The unit to convert to
+ * @param canvasSize - The dimensions of the page to convert against
+ * @returns The position in the given unit
+ */
+export function convertPositionUnits(
+  watermarkPosition: WatermarkPosition,
+  unit: PositionUnit,
+  canvasSize: Dimensions
+): WatermarkPosition {
+  if (watermarkPosition.unit === unit) {
+    return watermarkPosition;
+  }
+
+  const toPixels = unit === 'px';
+  const convert = (value: number, length: number) =>
+    toPixels ? value * length / 100 : length > 0 ? value / length * 100 : 0;
+  const { width, height } = canvasSize;
+
+  return {
+    ...watermarkPosition,
+    unit,
+    offsetX: convert(watermarkPosition.offsetX, width),
+    offsetY: convert(watermarkPosition.offsetY, height),
+    marginTop: convert(watermarkPosition.marginTop, height),
+    marginRight: convert(watermarkPosition.marginRight, width),
+    marginBottom: convert(watermarkPosition.marginBottom, height),
+    marginLeft: convert(watermarkPosition.marginLeft, width),
+  };
+}
+
+/**
+ * Resolve a position to pixels for a page
+ * 
+ * @param watermarkPosition - The watermark position
+ * @param canvasSize - The dimensions of the canvas
+ * @returns The position with pixel offsets and margins
+ */
+export function resolvePositionUnits(
+  watermarkPosition: WatermarkPosition,
+  canvasSize: Dimensions
+): WatermarkPosition {
+  return convertPositionUnits(watermarkPosition, 'px', canvasSize);
+}
@@ -0,0 +1,35 @@
+/**
+ * Seeded Random Utilities
+ * Deterministic hashing and pseudo-random numbers, so the same key always
+ * gives the same sequence (e.g. on every export of a recipient's copy)
+ */
+
+/**
+ * Hash a string to an unsigned 32-bit number (FNV-1a)
+ * @param text - Text to hash
+ * @returns Unsigned 32-bit hash
+ */
+export function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a seeded pseudo-random generator (mulberry32)
+ * @param seed - Unsigned 32-bit seed
+ * @returns Function returning numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -6,6 +6,21 @@
  * 
  * **Feature: manga-watermark-tool, Property 20: Serialization Validation**
  * **Validates: Requirements 9.4**
+ * 
+ * **Feature: manga-watermark-tool, Property 28: Watermark Layer Stack**
+ * **Validates: Multiple watermark layers**
+ * 
+ * **Feature: manga-watermark-tool, Property 31: Text Effects**
+ * **Validates: Drop shadow, gradient fill and background plate**
+ * 
+ * **Feature: manga-watermark-tool, Property 32: Auto Contrast**
+ * **Validates: Adaptive watermark color based on the underlying page content**
+ * 
+ * **Feature: manga-watermark-tool, Property 33: Smart Placement**
+ * **Validates: Auto-choosing the emptiest corner or gutter per page**
+ * 
+ * **Feature: manga-watermark-tool, Property 34: Relative Units**
+ * **Validates: Percentage-based sizing and offsets for mixed-resolution chapters**
  */
 
 import { describe, it, expect } from 'vitest';
@@ -14,9 +29,17 @@ import {
   serializeWatermarkSettings,
   deserializeWatermarkSettings,
   validateSettingsJson,
+  migrateWatermarkSettings,
   SerializationValidationError,
 } from './serialization';
-import { arbWatermarkSettings, settingsAreEqual } from '@/test/helpers';
+import {
+  arbWatermarkSettings,
+  arbWatermarkConfig,
+  arbWatermarkPosition,
+  arbTextWatermarkConfig,
+  settingsAreEqual,
+} from '@/test/helpers';
+import { createWatermarkLayer, DEFAULT_AUTO_CANDIDATES, type WatermarkSettings } from '@/types';
 
 describe('Property 19: Serialization Round-Trip', () => {
   /**
@@ -71,18 +94,25 @@ describe('Property 19: Serialization Round-Trip', () => {
         const deserialized = deserializeWatermarkSettings(serialized);
         
         // Check all top-level fields exist
-        expect(deserialized).toHaveProperty('config');
-        expect(deserialized).toHaveProperty('position');
+        expect(deserialized).toHaveProperty('layers');
         expect(deserialized).toHaveProperty('enabled');
+        expect(deserialized.layers).toHaveLength(settings.layers.length);
         
-        // Check config type is preserved
-        expect(deserialized.config.type).toBe(settings.config.type);
-        
-        // Check position fields
-        expect(deserialized.position.presetPosition).toBe(settings.position.presetPosition);
-        expect(deserialized.position.offsetX).toBe(settings.position.offsetX);
-        expect(deserialized.position.offsetY).toBe(settings.position.offsetY);
-        expect(deserialized.position.rotation).toBe(settings.position.rotation);
+        settings.layers.forEach((layer, i) => {
+          const restored = deserialized.layers[i]!;
+          
+          // Check layer fields and config type are preserved
+          expect(restored.id).toBe(layer.id);
+          expect(restored.enabled).toBe(layer.enabled);
+          expect(restored.opacity).toBe(layer.opacity);
+          expect(restored.config.type).toBe(layer.config.type);
+          
+          // Check position fields
+          expect(restored.position.presetPosition).toBe(layer.position.presetPosition);
+          expect(restored.position.offsetX).toBe(layer.position.offsetX);
+          expect(restored.position.offsetY).toBe(layer.position.offsetY);
+          expect(restored.position.rotation).toBe(layer.position.rotation);
+        });
         
         // Check enabled
         expect(deserialized.enabled).toBe(settings.enabled);
@@ -126,7 +156,7 @@ describe('Property 20: Serialization Validation', () => {
       fc.property(arbWatermarkSettings, (settings) => {
         const serialized = serializeWatermarkSettings(settings);
         const parsed = JSON.parse(serialized);
-        delete parsed.config;
+        delete parsed.layers[0].config;
         const invalidJson = JSON.stringify(parsed);
         
         expect(() => deserializeWatermarkSettings(invalidJson)).toThrow(SerializationValidationError);
@@ -144,7 +174,7 @@ describe('Property 20: Serialization Validation', () => {
       fc.property(arbWatermarkSettings, (settings) => {
         const serialized = serializeWatermarkSettings(settings);
         const parsed = JSON.parse(serialized);
-        delete parsed.position;
+        delete parsed.layers[0].position;
         const invalidJson = JSON.stringify(parsed);
         
         expect(() => deserializeWatermarkSettings(invalidJson)).toThrow(SerializationValidationError);
@@ -199,7 +229,7 @@ describe('Property 20: Serialization Validation', () => {
       fc.property(arbWatermarkSettings, (settings) => {
         const serialized = serializeWatermarkSettings(settings);
         const parsed = JSON.parse(serialized);
-        parsed.config.type = 'invalid_type';
+        parsed.layers[0].config.type = 'invalid_type';
         const invalidJson = JSON.stringify(parsed);
         
         expect(() => deserializeWatermarkSettings(invalidJson)).toThrow(SerializationValidationError);
@@ -217,7 +247,7 @@ describe('Property 20: Serialization Validation', () => {
       fc.property(arbWatermarkSettings, (settings) => {
         const serialized = serializeWatermarkSettings(settings);
         const parsed = JSON.parse(serialized);
-        parsed.position.presetPosition = 'invalid_position';
+        parsed.layers[0].position.presetPosition = 'invalid_position';
         const invalidJson = JSON.stringify(parsed);
         
         expect(() => deserializeWatermarkSettings(invalidJson)).toThrow(SerializationValidationError);
@@ -275,4 +305,366 @@ describe('Property 20: Serialization Validation', () => {
     expect(result.valid).toBe(false);
     expect(result.errors.length).toBeGreaterThan(0);
   });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 20: Serialization Validation**
+   * **Validates: Requirements 9.4**
+   */
+  it('should reject JSON with an unknown blend mode', () => {
+    fc.assert(
+      fc.property(arbWatermarkSettings, (settings) => {
+        const parsed = JSON.parse(serializeWatermarkSettings(settings));
+        parsed.layers[0].config.blendMode = 'dissolve';
+
+        const result = validateSettingsJson(JSON.stringify(parsed));
+
+        expect(result.valid).toBe(false);
+        expect(result.errors.some(error => error.includes('blendMode'))).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Property 28: Watermark Layer Stack', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 28: Watermark Layer Stack**
+   * **Validates: Multiple watermark layers**
+   * 
+   * For any single-watermark (version 1) JSON, deserialization SHALL migrate it
+   * into one enabled, fully opaque layer with the same config and position.
+   */
+  it('should migrate version 1 JSON into a single layer', () => {
+    fc.assert(
+      fc.property(arbWatermarkSettings, (settings) => {
+        const layer = JSON.parse(serializeWatermarkSettings(settings)).layers[0];
+        const legacyJson = JSON.stringify({
+          version: 1,
+          config: layer.config,
+          position: layer.position,
+          enabled: settings.enabled,
+        });
+
+        const migrated = deserializeWatermarkSettings(legacyJson);
+        const original = settings.layers[0]!;
+
+        expect(migrated.enabled).toBe(settings.enabled);
+        expect(migrated.layers).toHaveLength(1);
+        expect(migrated.layers[0]!.enabled).toBe(true);
+        expect(migrated.layers[0]!.opacity).toBe(100);
+        expect(migrated.layers[0]!.config).toEqual(original.config);
+        expect(migrated.layers[0]!.position).toEqual(original.position);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 28: Watermark Layer Stack**
+   * **Validates: Multiple watermark layers**
+   * 
+   * migrateWatermarkSettings SHALL keep current settings as they are, wrap
+   * single-watermark settings in a layer and reject anything else.
+   */
+  it('should migrate stored single-watermark settings', () => {
+    fc.assert(
+      fc.property(
+        arbWatermarkSettings,
+        arbWatermarkConfig,
+        arbWatermarkPosition,
+        fc.boolean(),
+        (settings, config, position, enabled) => {
+          expect(migrateWatermarkSettings(settings)).toBe(settings);
+
+          const migrated = migrateWatermarkSettings({ config, position, enabled });
+          expect(migrated?.enabled).toBe(enabled);
+          expect(migrated?.layers).toHaveLength(1);
+          expect(migrated?.layers[0]?.config).toEqual(config);
+          expect(migrated?.layers[0]?.position).toEqual(position);
+        }
+      ),
+      { numRuns: 100 }
+    );
+
+    expect(migrateWatermarkSettings({ enabled: true })).toBeNull();
+    expect(migrateWatermarkSettings({ layers: [], enabled: true })).toBeNull();
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 28: Watermark Layer Stack**
+   * **Validates: Multiple watermark layers**
+   * 
+   * Layer order SHALL survive a round-trip, since it decides which layer is on top.
+   */
+  it('should preserve layer order after round-trip', () => {
+    fc.assert(
+      fc.property(arbWatermarkSettings, (settings) => {
+        const deserialized = deserializeWatermarkSettings(serializeWatermarkSettings(settings));
+
+        expect(deserialized.layers.map(l => l.id)).toEqual(settings.layers.map(l => l.id));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 28: Watermark Layer Stack**
+   * **Validates: Multiple watermark layers**
+   * 
+   * Text configs saved before tiling existed SHALL load with tiling disabled.
+   */
+  it('should fill in text tiling fields missing from stored settings', () => {
+    fc.assert(
+      fc.property(arbWatermarkSettings, (settings) => {
+        const parsed = JSON.parse(serializeWatermarkSettings(settings));
+        for (const layer of parsed.layers) {
+          for (const key of ['tileEnabled', 'tileSpacingX', 'tileSpacingY', 'tileStagger', 'tileRotation']) {
+            if (layer.config.type === 'text') delete layer.config[key];
+          }
+        }
+
+        const checkLayers = (restored: WatermarkSettings | null) => {
+          restored?.layers.forEach((layer, i) => {
+            expect(layer.config.type).toBe(settings.layers[i]!.config.type);
+            if (layer.config.type === 'text') {
+              expect(layer.config.tileEnabled).toBe(false);
+            }
+          });
+        };
+
+        checkLayers(deserializeWatermarkSettings(JSON.stringify(parsed)));
+
+        const migrated = migrateWatermarkSettings(parsed);
+        expect(migrated).not.toBeNull();
+        checkLayers(migrated);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 28: Watermark Layer Stack**
+   * **Validates: Multiple watermark layers**
+   * 
+   * Text and image configs saved before blend modes existed SHALL load
+   * with the normal blend mode.
+   */
+  it('should default the blend mode of stored configs to normal', () => {
+    fc.assert(
+      fc.property(arbWatermarkSettings, (settings) => {
+        const parsed = JSON.parse(serializeWatermarkSettings(settings));
+        for (const layer of parsed.layers) {
+          // QR configs were never stored without a blend mode
+          if (layer.config.type !== 'qr') {
+            delete layer.config.blendMode;
+          }
+        }
+
+        const checkLayers = (restored: WatermarkSettings | null) => {
+          expect(restored?.layers).toHaveLength(settings.layers.length);
+          restored?.layers.forEach((layer, index) => {
+            expect(layer.config.blendMode).toBe(
+              layer.config.type === 'qr' ? settings.layers[index]!.config.blendMode : 'normal'
+            );
+          });
+        };
+
+        checkLayers(deserializeWatermarkSettings(JSON.stringify(parsed)));
+        checkLayers(migrateWatermarkSettings(parsed));
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+// Text effect fields added after version 1
+const TEXT_EFFECT_FIELDS = [
+  'shadowEnabled', 'shadowColor', 'shadowOffsetX', 'shadowOffsetY', 'shadowBlur',
+  'fillType', 'gradientColor', 'gradientAngle',
+  'backgroundEnabled', 'backgroundColor', 'backgroundOpacity', 'backgroundPadding', 'backgroundRadius',
+];
+
+// Arbitrary generator for text configs with any combination of effects
+const arbTextEffectsConfig = fc
+  .tuple(arbTextWatermarkConfig, fc.constantFrom('solid' as const, 'linear' as const, 'radial' as const), fc.boolean())
+  .map(([config, fillType, backgroundEnabled]) => ({ ...config, fillType, backgroundEnabled }));
+
+describe('Property 31: Text Effects', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 31: Text Effects**
+   * **Validates: Drop shadow, gradient fill and background plate**
+   * 
+   * Shadow, gradient and background plate settings SHALL survive a round-trip.
+   */
+  it('should preserve text effects through serialization', () => {
+    fc.assert(
+      fc.property(arbTextEffectsConfig, arbWatermarkPosition, (config, position) => {
+        const settings: WatermarkSettings = {
+          layers: [createWatermarkLayer(config, position)],
+          enabled: true,
+        };
+
+        const restored = deserializeWatermarkSettings(serializeWatermarkSettings(settings));
+
+        expect(settingsAreEqual(settings, restored)).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 31: Text Effects**
+   * **Validates: Drop shadow, gradient fill and background plate**
+   * 
+   * Text configs saved before effects existed SHALL load with every effect off.
+   */
+  it('should load stored text configs without effects as plain text', () => {
+    fc.assert(
+      fc.property(arbWatermarkSettings, (settings) => {
+        const parsed = JSON.parse(serializeWatermarkSettings(settings));
+        for (const layer of parsed.layers) {
+          for (const key of TEXT_EFFECT_FIELDS) {
+            if (layer.config.type === 'text') delete layer.config[key];
+          }
+        }
+
+        const restored = deserializeWatermarkSettings(JSON.stringify(parsed));
+
+        for (const layer of restored.layers) {
+          if (layer.config.type === 'text') {
+            expect(layer.config.shadowEnabled).toBe(false);
+            expect(layer.config.fillType).toBe('solid');
+            expect(layer.config.backgroundEnabled).toBe(false);
+          }
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: manga-watermark-tool, Property 31: Text Effects**
+   * **Validates: Drop shadow, gradient fill and background plate**
+   * 
+   * Unknown fill types and mistyped effect fields SHALL be rejected.
+   */
+  it('should reject invalid text effect fields', () => {
+    fc.assert(
+      fc.property(arbTextEffectsConfig, fc.constantFrom(...TEXT_EFFECT_FIELDS), (config, field) => {
+        const settings: WatermarkSettings = {
+          layers: [createWatermarkLayer(config)],
+          enabled: true,
+        };
+        const parsed = JSON.parse(serializeWatermarkSettings(settings));
+        parsed.layers[0].config[field] = field === 'fillType' ? 'conic' : [];
+
+        const result = validateSettingsJson(JSON.stringify(parsed));
+
+        expect(result.valid).toBe(false);
+        expect(result.errors.some(error => error.includes(field))).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Property 32: Auto Contrast', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 32: Auto Contrast**
+   * **Validates: Adaptive watermark color based on the underlying page content**
+   * 
+   * Color modes and contrast colors SHALL survive a round-trip, and text
+   * configs saved before color modes existed SHALL keep their fixed color.
+   */
+  it('should preserve color modes and default stored configs to fixed', () => {
+    fc.assert(
+      fc.property(
+        arbTextWatermarkConfig,
+        fc.constantFrom('fixed' as const, 'auto' as const, 'invert' as const),
+        (textConfig, colorMode) => {
+          const config = { ...textConfig, colorMode };
+          const settings: WatermarkSettings = { layers: [createWatermarkLayer(config)], enabled: true };
+          const serialized = serializeWatermarkSettings(settings);
+
+          expect(settingsAreEqual(settings, deserializeWatermarkSettings(serialized))).toBe(true);
+
+          const parsed = JSON.parse(serialized);
+          for (const key of ['colorMode', 'lightColor', 'darkColor']) {
+            delete parsed.layers[0].config[key];
+          }
+          const restored = deserializeWatermarkSettings(JSON.stringify(parsed)).layers[0]!.config;
+          expect(restored.type === 'text' && restored.colorMode).toBe('fixed');
+          expect(restored.type === 'text' && restored.color).toBe(config.color);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Property 33: Smart Placement', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 33: Smart Placement**
+   * **Validates: Auto-choosing the emptiest corner or gutter per page**
+   * 
+   * Auto positions SHALL survive a round-trip, and positions saved before
+   * smart placement existed SHALL get the default candidates.
+   */
+  it('should preserve auto positions and default stored positions', () => {
+    fc.assert(
+      fc.property(arbWatermarkConfig, arbWatermarkPosition, (config, basePosition) => {
+        const position = { ...basePosition, presetPosition: 'auto' as const };
+        const settings: WatermarkSettings = { layers: [createWatermarkLayer(config, position)], enabled: true };
+        const serialized = serializeWatermarkSettings(settings);
+
+        expect(settingsAreEqual(settings, deserializeWatermarkSettings(serialized))).toBe(true);
+
+        const parsed = JSON.parse(serialized);
+        delete parsed.layers[0].position.autoCandidates;
+        delete parsed.layers[0].position.autoGutters;
+        const restored = deserializeWatermarkSettings(JSON.stringify(parsed)).layers[0]!.position;
+        expect(restored.presetPosition).toBe('auto');
+        expect(restored.autoCandidates).toEqual(DEFAULT_AUTO_CANDIDATES);
+        expect(restored.autoGutters).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Property 34: Relative Units', () => {
+  /**
+   * **Feature: manga-watermark-tool, Property 34: Relative Units**
+   * **Validates: Percentage-based sizing and offsets for mixed-resolution chapters**
+   * 
+   * Units SHALL survive a round-trip, positions saved before units existed
+   * SHALL stay in pixels, and unknown units SHALL be rejected.
+   */
+  it('should preserve units, default stored positions to pixels and reject unknown units', () => {
+    fc.assert(
+      fc.property(
+        arbWatermarkConfig,
+        arbWatermarkPosition,
+        fc.constantFrom('px' as const, 'percent' as const),
+        (config, basePosition, unit) => {
+          const position = { ...basePosition, unit };
+          const settings: WatermarkSettings = { layers: [createWatermarkLayer(config, position)], enabled: true };
+          const serialized = serializeWatermarkSettings(settings);
+
+          expect(settingsAreEqual(settings, deserializeWatermarkSettings(serialized))).toBe(true);
+
+          const parsed = JSON.parse(serialized);
+          delete parsed.layers[0].position.unit;
+          delete parsed.layers[0].position.sizeReference;
+          const restored = deserializeWatermarkSettings(JSON.stringify(parsed)).layers[0]!.position;
+          expect(restored.unit).toBe('px');
+          expect(restored.sizeReference).toBe('width');
+
+          parsed.layers[0].position.unit = 'em';
+          expect(validateSettingsJson(JSON.stringify(parsed)).valid).toBe(false);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
 });
@@ -3,7 +3,33 @@
  * Requirements: 9.1, 9.2, 9.3, 9.4, 9.5
  */
 
-import type { WatermarkSettings, TextWatermarkConfig, ImageWatermarkConfig } from '@/types';
+import type {
+  WatermarkSettings,
+  WatermarkLayer,
+  WatermarkConfig,
+  WatermarkPosition,
+  QrErrorCorrection,
+  BlendMode,
+  PresetPosition,
+  PositionUnit,
+  SizeReference,
+} from '@/types';
+import {
+  BLEND_MODES,
+  QR_ERROR_CORRECTION_LEVELS,
+  POSITION_UNITS,
+  SIZE_REFERENCES,
+  createDefaultTextWatermarkConfig,
+  createDefaultImageWatermarkConfig,
+  createDefaultWatermarkPosition,
+  isPresetPosition,
+  generateLayerId,
+  getDefaultLayerName,
+  isWatermarkSettings,
+  isWatermarkConfig,
+  isSvgImageData,
+  isWatermarkPosition,
+} from '@/types';
 
 /**
  * Validation error thrown when JSON structure is invalid
@@ -21,6 +47,24 @@ export class SerializationValidationError extends Error {
  */
 export interface SerializedWatermarkSettings {
   version: number;
+  layers: SerializedWatermarkLayer[];
+  enabled: boolean;
+}
+
+export interface SerializedWatermarkLayer {
+  id: string;
+  name: string;
+  config: SerializedWatermarkConfig;
+  position: SerializedWatermarkPosition;
+  enabled: boolean;
+  opacity: number;
+}
+
+/**
+ * Version 1 format: a single watermark without layers
+ */
+export interface LegacySerializedWatermarkSettings {
+  version?: number;
   config: SerializedWatermarkConfig;
   position: SerializedWatermarkPosition;
   enabled: boolean;
@@ -37,19 +81,112 @@ export interface SerializedTextWatermarkConfig {
   outlineEnabled: boolean;
   outlineColor: string;
   outlineWidth: number;
+  // Added after version 1; defaults are used when missing
+  fontId?: string | null; // custom font ID from the font library
+  colorMode?: 'fixed' | 'auto' | 'invert';
+  lightColor?: string;
+  darkColor?: string;
+  blendMode?: BlendMode;
+  lineHeight?: number;
+  textAlign?: 'left' | 'center' | 'right';
+  letterSpacing?: number;
+  maxWidth?: number;
+  shadowEnabled?: boolean;
+  shadowColor?: string;
+  shadowOffsetX?: number;
+  shadowOffsetY?: number;
+  shadowBlur?: number;
+  fillType?: 'solid' | 'linear' | 'radial';
+  gradientColor?: string;
+  gradientAngle?: number;
+  backgroundEnabled?: boolean;
+  backgroundColor?: string;
+  backgroundOpacity?: number;
+  backgroundPadding?: number;
+  backgroundRadius?: number;
+  tileEnabled?: boolean;
+  tileSpacingX?: number;
+  tileSpacingY?: number;
+  tileStagger?: number;
+  tileRotation?: number;
 }
 
+/**
+ * Text config fields added after version 1, filled with defaults when missing
+ */
+const ADDED_TEXT_CONFIG_FIELDS = [
+  'fontId',
+  'colorMode',
+  'lightColor',
+  'darkColor',
+  'blendMode',
+  'lineHeight',
+  'textAlign',
+  'letterSpacing',
+  'maxWidth',
+  'shadowEnabled',
+  'shadowColor',
+  'shadowOffsetX',
+  'shadowOffsetY',
+  'shadowBlur',
+  'fillType',
+  'gradientColor',
+  'gradientAngle',
+  'backgroundEnabled',
+  'backgroundColor',
+  'backgroundOpacity',
+  'backgroundPadding',
+  'backgroundRadius',
+  'tileEnabled',
+  'tileSpacingX',
+  'tileSpacingY',
+  'tileStagger',
+  'tileRotation',
+] as const;
+
 export interface SerializedImageWatermarkConfig {
   type: 'image';
-  imageData: string; // base64 encoded
+  imageData: string; // base64 encoded, or SVG markup
   scale: number;
   opacity: number;
   tileEnabled: boolean;
   tileSpacingX: number;
   tileSpacingY: number;
+  // Added after version 1; defaults are used when missing
+  blendMode?: BlendMode;
+  recolor?: boolean;
+  color?: string;
+}
+
+/**
+ * Image config fields added after version 1, filled with defaults when missing
+ */
+const ADDED_IMAGE_CONFIG_FIELDS = [
+  'blendMode',
+  'recolor',
+  'color',
+] as const;
+
+export interface SerializedQrWatermarkConfig {
+  type: 'qr';
+  content: string;
+  errorCorrection: QrErrorCorrection;
+  size: number;
+  color: string;
+  backgroundColor: string;
+  backgroundTransparent: boolean;
+  quietZone: number;
+  opacity: number;
+  blendMode: BlendMode;
+  tileEnabled: boolean;
+  tileSpacingX: number;
+  tileSpacingY: number;
 }
 
-export type SerializedWatermarkConfig = SerializedTextWatermarkConfig | SerializedImageWatermarkConfig;
+export type SerializedWatermarkConfig =
+  | SerializedTextWatermarkConfig
+  | SerializedImageWatermarkConfig
+  | SerializedQrWatermarkConfig;
 
 
 export interface SerializedWatermarkPosition {
@@ -61,12 +198,28 @@ export interface SerializedWatermarkPosition {
   marginRight: number;
   marginBottom: number;
   marginLeft: number;
+  // Added after version 1; defaults are used when missing
+  autoCandidates?: string[];
+  autoGutters?: boolean;
+  unit?: string;
+  sizeReference?: string;
 }
 
+/**
+ * Position fields added after version 1, filled with defaults when missing
+ */
+const ADDED_POSITION_FIELDS = [
+  'autoCandidates',
+  'autoGutters',
+  'unit',
+  'sizeReference',
+] as const;
+
 /**
  * Current serialization format version
+ * Version 1 stored a single watermark; version 2 stores a layer list.
  */
-export const SERIALIZATION_VERSION = 1;
+export const SERIALIZATION_VERSION = 2;
 
 /**
  * Serialize WatermarkSettings to JSON string
@@ -78,47 +231,110 @@ export const SERIALIZATION_VERSION = 1;
 export function serializeWatermarkSettings(settings: WatermarkSettings): string {
   const serialized: SerializedWatermarkSettings = {
     version: SERIALIZATION_VERSION,
-    config: serializeConfig(settings.config),
-    position: {
-      presetPosition: settings.position.presetPosition,
-      offsetX: settings.position.offsetX,
-      offsetY: settings.position.offsetY,
-      rotation: settings.position.rotation,
-      marginTop: settings.position.marginTop,
-      marginRight: settings.position.marginRight,
-      marginBottom: settings.position.marginBottom,
-      marginLeft: settings.position.marginLeft,
-    },
+    layers: settings.layers.map(layer => ({
+      id: layer.id,
+      name: layer.name,
+      config: serializeConfig(layer.config),
+      position: serializePosition(layer.position),
+      enabled: layer.enabled,
+      opacity: layer.opacity,
+    })),
     enabled: settings.enabled,
   };
 
   return JSON.stringify(serialized);
 }
 
+/**
+ * Serialize watermark position
+ */
+function serializePosition(position: WatermarkPosition): SerializedWatermarkPosition {
+  return {
+    presetPosition: position.presetPosition,
+    offsetX: position.offsetX,
+    offsetY: position.offsetY,
+    rotation: position.rotation,
+    marginTop: position.marginTop,
+    marginRight: position.marginRight,
+    marginBottom: position.marginBottom,
+    marginLeft: position.marginLeft,
+    autoCandidates: [...position.autoCandidates],
+    autoGutters: position.autoGutters,
+    unit: position.unit,
+    sizeReference: position.sizeReference,
+  };
+}
+
 /**
  * Serialize watermark config (handles base64 encoding for image watermarks)
  */
-function serializeConfig(config: TextWatermarkConfig | ImageWatermarkConfig): SerializedWatermarkConfig {
+function serializeConfig(config: WatermarkConfig): SerializedWatermarkConfig {
   if (config.type === 'text') {
     return {
       type: 'text',
       text: config.text,
       fontFamily: config.fontFamily,
+      fontId: config.fontId,
       fontSize: config.fontSize,
       fontWeight: config.fontWeight,
+      lineHeight: config.lineHeight,
+      textAlign: config.textAlign,
+      letterSpacing: config.letterSpacing,
+      maxWidth: config.maxWidth,
       color: config.color,
+      colorMode: config.colorMode,
+      lightColor: config.lightColor,
+      darkColor: config.darkColor,
       opacity: config.opacity,
+      blendMode: config.blendMode,
       outlineEnabled: config.outlineEnabled,
       outlineColor: config.outlineColor,
       outlineWidth: config.outlineWidth,
+      shadowEnabled: config.shadowEnabled,
+      shadowColor: config.shadowColor,
+      shadowOffsetX: config.shadowOffsetX,
+      shadowOffsetY: config.shadowOffsetY,
+      shadowBlur: config.shadowBlur,
+      fillType: config.fillType,
+      gradientColor: config.gradientColor,
+      gradientAngle: config.gradientAngle,
+      backgroundEnabled: config.backgroundEnabled,
+      backgroundColor: config.backgroundColor,
+      backgroundOpacity: config.backgroundOpacity,
+      backgroundPadding: config.backgroundPadding,
+      backgroundRadius: config.backgroundRadius,
+      tileEnabled: config.tileEnabled,
+      tileSpacingX: config.tileSpacingX,
+      tileSpacingY: config.tileSpacingY,
+      tileStagger: config.tileStagger,
+      tileRotation: config.tileRotation,
+    };
+  } else if (config.type === 'qr') {
+    return {
+      type: 'qr',
+      content: config.content,
+      errorCorrection: config.errorCorrection,
+      size: config.size,
+      color: config.color,
+      backgroundColor: config.backgroundColor,
+      backgroundTransparent: config.backgroundTransparent,
+      quietZone: config.quietZone,
+      opacity: config.opacity,
+      blendMode: config.blendMode,
+      tileEnabled: config.tileEnabled,
+      tileSpacingX: config.tileSpacingX,
+      tileSpacingY: config.tileSpacingY,
     };
   } else {
-    // Image watermark - imageData is already base64 encoded
+    // Image watermark - imageData is already base64 encoded or SVG markup
     return {
       type: 'image',
       imageData: config.imageData,
       scale: config.scale,
       opacity: config.opacity,
+      blendMode: config.blendMode,
+      recolor: config.recolor,
+      color: config.color,
       tileEnabled: config.tileEnabled,
       tileSpacingX: config.tileSpacingX,
       tileSpacingY: config.tileSpacingY,
@@ -130,6 +346,8 @@ function serializeConfig(config: TextWatermarkConfig | ImageWatermarkConfig): Se
  * Deserialize JSON string to WatermarkSettings
  * Requirements: 9.2, 9.4
  * 
+ * Version 1 JSON (a single watermark) is migrated to a one-layer stack.
+ * 
  * @param json - JSON string to deserialize
  * @returns Deserialized WatermarkSettings
  * @throws SerializationValidationError if JSON is invalid
@@ -144,48 +362,251 @@ export function deserializeWatermarkSettings(json: string): WatermarkSettings {
     );
   }
 
-  const parsed = JSON.parse(json) as SerializedWatermarkSettings;
+  const parsed = JSON.parse(json) as SerializedWatermarkSettings | LegacySerializedWatermarkSettings;
+
+  if (!('layers' in parsed)) {
+    return {
+      layers: [
+        createMigratedLayer(
+          deserializeConfig(parsed.config),
+          deserializePosition(parsed.position)
+        ),
+      ],
+      enabled: parsed.enabled,
+    };
+  }
   
   return {
-    config: deserializeConfig(parsed.config),
-    position: {
-      presetPosition: parsed.position.presetPosition as WatermarkSettings['position']['presetPosition'],
-      offsetX: parsed.position.offsetX,
-      offsetY: parsed.position.offsetY,
-      rotation: parsed.position.rotation,
-      marginTop: parsed.position.marginTop,
-      marginRight: parsed.position.marginRight,
-      marginBottom: parsed.position.marginBottom,
-      marginLeft: parsed.position.marginLeft,
-    },
+    layers: parsed.layers.map(layer => ({
+      id: layer.id,
+      name: layer.name,
+      config: deserializeConfig(layer.config),
+      position: deserializePosition(layer.position),
+      enabled: layer.enabled,
+      opacity: layer.opacity,
+    })),
     enabled: parsed.enabled,
   };
 }
 
+/**
+ * Deserialize watermark position
+ */
+function deserializePosition(position: SerializedWatermarkPosition): WatermarkPosition {
+  const defaults = createDefaultWatermarkPosition();
+  return {
+    presetPosition: position.presetPosition as WatermarkPosition['presetPosition'],
+    offsetX: position.offsetX,
+    offsetY: position.offsetY,
+    rotation: position.rotation,
+    marginTop: position.marginTop,
+    marginRight: position.marginRight,
+    marginBottom: position.marginBottom,
+    marginLeft: position.marginLeft,
+    autoCandidates: position.autoCandidates
+      ? position.autoCandidates as PresetPosition[]
+      : defaults.autoCandidates,
+    autoGutters: position.autoGutters ?? defaults.autoGutters,
+    unit: (position.unit ?? defaults.unit) as PositionUnit,
+    sizeReference: (position.sizeReference ?? defaults.sizeReference) as SizeReference,
+  };
+}
+
+/**
+ * Wrap a single-watermark (version 1) config and position in a layer
+ */
+function createMigratedLayer(config: WatermarkConfig, position: WatermarkPosition): WatermarkLayer {
+  return {
+    id: generateLayerId(),
+    name: getDefaultLayerName(config),
+    config,
+    position,
+    enabled: true,
+    opacity: 100,
+  };
+}
+
+/**
+ * Check if a value is single-watermark settings from before layers existed
+ */
+export function isLegacyWatermarkSettings(
+  value: unknown
+): value is { config: WatermarkConfig; position: WatermarkPosition; enabled: boolean } {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+
+  return (
+    isWatermarkConfig(obj['config']) &&
+    isWatermarkPosition(obj['position']) &&
+    typeof obj['enabled'] === 'boolean'
+  );
+}
+
+/**
+ * Migrate stored watermark settings to the current layer format
+ * 
+ * @param value - Settings object (current or single-watermark format)
+ * @returns Settings with a layer list, or null if the value is not valid settings
+ */
+export function migrateWatermarkSettings(value: unknown): WatermarkSettings | null {
+  if (isWatermarkSettings(value)) {
+    return value;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+
+  const obj = value as Record<string, unknown>;
+  if (Array.isArray(obj['layers'])) {
+    const settings = {
+      ...obj,
+      layers: obj['layers'].map((layer: unknown) =>
+        typeof layer === 'object' && layer !== null
+          ? {
+            ...layer,
+            config: fillAddedConfigFields((layer as Record<string, unknown>)['config']),
+            position: fillAddedPositionFields((layer as Record<string, unknown>)['position']),
+          }
+          : layer
+      ),
+    };
+    return isWatermarkSettings(settings) ? settings : null;
+  }
+
+  const legacy = {
+    ...obj,
+    config: fillAddedConfigFields(obj['config']),
+    position: fillAddedPositionFields(obj['position']),
+  };
+  if (isLegacyWatermarkSettings(legacy)) {
+    return {
+      layers: [createMigratedLayer(legacy.config, legacy.position)],
+      enabled: legacy.enabled,
+    };
+  }
+  return null;
+}
+
+/**
+ * Fill in position fields that did not exist when the position was stored
+ * @param position - Stored position
+ * @returns Position with defaults for the missing fields
+ */
+function fillAddedPositionFields(position: unknown): unknown {
+  if (typeof position !== 'object' || position === null) return position;
+
+  const defaults = createDefaultWatermarkPosition();
+  const filled: Record<string, unknown> = { ...position };
+  for (const key of ADDED_POSITION_FIELDS) {
+    if (!(key in filled)) {
+      filled[key] = defaults[key];
+    }
+  }
+  return filled;
+}
+
+/**
+ * Fill in config fields that did not exist when the config was stored
+ * @param config - Stored config
+ * @returns Config with defaults for the missing fields
+ */
+function fillAddedConfigFields(config: unknown): unknown {
+  if (typeof config !== 'object' || config === null) return config;
+  const obj = config as Record<string, unknown>;
+
+  let defaults: Record<string, unknown>;
+  let keys: readonly string[];
+  if (obj['type'] === 'text') {
+    defaults = { ...createDefaultTextWatermarkConfig() };
+    keys = ADDED_TEXT_CONFIG_FIELDS;
+  } else if (obj['type'] === 'image') {
+    defaults = { ...createDefaultImageWatermarkConfig() };
+    keys = ADDED_IMAGE_CONFIG_FIELDS;
+  } else {
+    return config;
+  }
+
+  const filled: Record<string, unknown> = { ...obj };
+  for (const key of keys) {
+    if (!(key in filled)) {
+      filled[key] = defaults[key];
+    }
+  }
+  return filled;
+}
+
 
 /**
  * Deserialize config from serialized format
  */
-function deserializeConfig(config: SerializedWatermarkConfig): TextWatermarkConfig | ImageWatermarkConfig {
+function deserializeConfig(config: SerializedWatermarkConfig): WatermarkConfig {
   if (config.type === 'text') {
+    const defaults = createDefaultTextWatermarkConfig();
     return {
       type: 'text',
       text: config.text,
       fontFamily: config.fontFamily,
+      fontId: config.fontId ?? defaults.fontId,
       fontSize: config.fontSize,
       fontWeight: config.fontWeight,
+      lineHeight: config.lineHeight ?? defaults.lineHeight,
+      textAlign: config.textAlign ?? defaults.textAlign,
+      letterSpacing: config.letterSpacing ?? defaults.letterSpacing,
+      maxWidth: config.maxWidth ?? defaults.maxWidth,
       color: config.color,
+      colorMode: config.colorMode ?? defaults.colorMode,
+      lightColor: config.lightColor ?? defaults.lightColor,
+      darkColor: config.darkColor ?? defaults.darkColor,
       opacity: config.opacity,
+      blendMode: config.blendMode ?? defaults.blendMode,
       outlineEnabled: config.outlineEnabled,
       outlineColor: config.outlineColor,
       outlineWidth: config.outlineWidth,
+      shadowEnabled: config.shadowEnabled ?? defaults.shadowEnabled,
+      shadowColor: config.shadowColor ?? defaults.shadowColor,
+      shadowOffsetX: config.shadowOffsetX ?? defaults.shadowOffsetX,
+      shadowOffsetY: config.shadowOffsetY ?? defaults.shadowOffsetY,
+      shadowBlur: config.shadowBlur ?? defaults.shadowBlur,
+      fillType: config.fillType ?? defaults.fillType,
+      gradientColor: config.gradientColor ?? defaults.gradientColor,
+      gradientAngle: config.gradientAngle ?? defaults.gradientAngle,
+      backgroundEnabled: config.backgroundEnabled ?? defaults.backgroundEnabled,
+      backgroundColor: config.backgroundColor ?? defaults.backgroundColor,
+      backgroundOpacity: config.backgroundOpacity ?? defaults.backgroundOpacity,
+      backgroundPadding: config.backgroundPadding ?? defaults.backgroundPadding,
+      backgroundRadius: config.backgroundRadius ?? defaults.backgroundRadius,
+      tileEnabled: config.tileEnabled ?? defaults.tileEnabled,
+      tileSpacingX: config.tileSpacingX ?? defaults.tileSpacingX,
+      tileSpacingY: config.tileSpacingY ?? defaults.tileSpacingY,
+      tileStagger: config.tileStagger ?? defaults.tileStagger,
+      tileRotation: config.tileRotation ?? defaults.tileRotation,
+    };
+  } else if (config.type === 'qr') {
+    return {
+      type: 'qr',
+      content: config.content,
+      errorCorrection: config.errorCorrection,
+      size: config.size,
+      color: config.color,
+      backgroundColor: config.backgroundColor,
+      backgroundTransparent: config.backgroundTransparent,
+      quietZone: config.quietZone,
+      opacity: config.opacity,
+      blendMode: config.blendMode,
+      tileEnabled: config.tileEnabled,
+      tileSpacingX: config.tileSpacingX,
+      tileSpacingY: config.tileSpacingY,
     };
   } else {
+    const defaults = createDefaultImageWatermarkConfig();
     return {
       type: 'image',
       imageData: config.imageData,
       scale: config.scale,
       opacity: config.opacity,
+      blendMode: config.blendMode ?? defaults.blendMode,
+      recolor: config.recolor ?? defaults.recolor,
+      color: config.color ?? defaults.color,
       tileEnabled: config.tileEnabled,
       tileSpacingX: config.tileSpacingX,
       tileSpacingY: config.tileSpacingY,
@@ -209,7 +630,7 @@ const VALID_PRESET_POSITIONS = [
   'top-left', 'top-center', 'top-right',
   'middle-left', 'center', 'middle-right',
   'bottom-left', 'bottom-center', 'bottom-right',
-  'custom',
+  'custom', 'auto',
 ];
 
 /**
@@ -250,7 +671,61 @@ export function validateSettingsJson(json: string): ValidationResult {
     field = field || 'version';
   }
 
-  // Validate config
+  if ('layers' in obj) {
+    // Validate layers
+    if (!Array.isArray(obj['layers'])) {
+      errors.push('layers must be an array');
+      field = field || 'layers';
+    } else if (obj['layers'].length === 0) {
+      errors.push('layers must contain at least one layer');
+      field = field || 'layers';
+    } else {
+      obj['layers'].forEach((layer: unknown, index: number) => {
+        const layerErrors = validateLayer(layer);
+        if (layerErrors.length > 0) {
+          errors.push(...layerErrors.map(e => `layers[${index}].${e}`));
+          field = field || 'layers';
+        }
+      });
+    }
+  } else if ('config' in obj || 'position' in obj) {
+    // Version 1: a single watermark
+    const watermarkField = validateWatermark(obj, errors);
+    field = field || watermarkField;
+  } else {
+    errors.push('Missing required field: layers');
+    field = field || 'layers';
+  }
+
+  // Validate enabled
+  if (!('enabled' in obj)) {
+    errors.push('Missing required field: enabled');
+    field = field || 'enabled';
+  } else if (typeof obj['enabled'] !== 'boolean') {
+    errors.push('enabled must be a boolean');
+    field = field || 'enabled';
+  }
+
+  const result: ValidationResult = {
+    valid: errors.length === 0,
+    errors,
+  };
+  if (field !== undefined) {
+    result.field = field;
+  }
+  return result;
+}
+
+
+/**
+ * Validate the config and position of a single watermark
+ * @param obj - Object holding config and position
+ * @param errors - Error list to append to
+ * @returns The first invalid field, if any
+ */
+function validateWatermark(obj: Record<string, unknown>, errors: string[]): string | undefined {
+  let field: string | undefined;
+
   if (!('config' in obj)) {
     errors.push('Missing required field: config');
     field = field || 'config';
@@ -262,7 +737,6 @@ export function validateSettingsJson(json: string): ValidationResult {
     }
   }
 
-  // Validate position
   if (!('position' in obj)) {
     errors.push('Missing required field: position');
     field = field || 'position';
@@ -274,25 +748,36 @@ export function validateSettingsJson(json: string): ValidationResult {
     }
   }
 
-  // Validate enabled
-  if (!('enabled' in obj)) {
-    errors.push('Missing required field: enabled');
-    field = field || 'enabled';
-  } else if (typeof obj['enabled'] !== 'boolean') {
-    errors.push('enabled must be a boolean');
-    field = field || 'enabled';
+  return field;
+}
+
+/**
+ * Validate watermark layer object
+ */
+function validateLayer(layer: unknown): string[] {
+  if (typeof layer !== 'object' || layer === null) {
+    return ['must be an object'];
   }
 
-  const result: ValidationResult = {
-    valid: errors.length === 0,
-    errors,
-  };
-  if (field !== undefined) {
-    result.field = field;
+  const obj = layer as Record<string, unknown>;
+  const errors: string[] = [];
+  validateWatermark(obj, errors);
+
+  if (typeof obj['id'] !== 'string') {
+    errors.push('id must be a string');
+  }
+  if (typeof obj['name'] !== 'string') {
+    errors.push('name must be a string');
+  }
+  if (typeof obj['enabled'] !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+  if (typeof obj['opacity'] !== 'number') {
+    errors.push('opacity must be a number');
   }
-  return result;
-}
 
+  return errors;
+}
 
 /**
  * Validate watermark config object
@@ -310,6 +795,11 @@ function validateConfig(config: unknown): string[] {
     return ['Missing required field: type'];
   }
 
+  // Shared by every config type
+  if ('blendMode' in obj && !BLEND_MODES.includes(obj['blendMode'] as BlendMode)) {
+    errors.push(`blendMode must be one of: ${BLEND_MODES.join(', ')}`);
+  }
+
   if (obj['type'] === 'text') {
     // Validate text watermark config
     if (typeof obj['text'] !== 'string') {
@@ -339,10 +829,44 @@ function validateConfig(config: unknown): string[] {
     if (typeof obj['outlineWidth'] !== 'number') {
       errors.push('outlineWidth must be a number');
     }
+    if ('fontId' in obj && obj['fontId'] !== null && typeof obj['fontId'] !== 'string') {
+      errors.push('fontId must be a string or null');
+    }
+    if ('textAlign' in obj && !['left', 'center', 'right'].includes(obj['textAlign'] as string)) {
+      errors.push('textAlign must be "left", "center" or "right"');
+    }
+    if ('colorMode' in obj && !['fixed', 'auto', 'invert'].includes(obj['colorMode'] as string)) {
+      errors.push('colorMode must be "fixed", "auto" or "invert"');
+    }
+    if ('fillType' in obj && !['solid', 'linear', 'radial'].includes(obj['fillType'] as string)) {
+      errors.push('fillType must be "solid", "linear" or "radial"');
+    }
+    for (const key of ['shadowEnabled', 'backgroundEnabled', 'tileEnabled']) {
+      if (key in obj && typeof obj[key] !== 'boolean') {
+        errors.push(`${key} must be a boolean`);
+      }
+    }
+    for (const key of ['lightColor', 'darkColor', 'shadowColor', 'gradientColor', 'backgroundColor']) {
+      if (key in obj && typeof obj[key] !== 'string') {
+        errors.push(`${key} must be a string`);
+      }
+    }
+    for (const key of [
+      'lineHeight', 'letterSpacing', 'maxWidth',
+      'shadowOffsetX', 'shadowOffsetY', 'shadowBlur', 'gradientAngle',
+      'backgroundOpacity', 'backgroundPadding', 'backgroundRadius',
+      'tileSpacingX', 'tileSpacingY', 'tileStagger', 'tileRotation',
+    ]) {
+      if (key in obj && typeof obj[key] !== 'number') {
+        errors.push(`${key} must be a number`);
+      }
+    }
   } else if (obj['type'] === 'image') {
     // Validate image watermark config
     if (typeof obj['imageData'] !== 'string') {
       errors.push('imageData must be a string');
+    } else if (obj['imageData'] && !isValidBase64(obj['imageData'])) {
+      errors.push('imageData must be a base64 image or SVG markup');
     }
     if (typeof obj['scale'] !== 'number') {
       errors.push('scale must be a number');
@@ -359,8 +883,40 @@ function validateConfig(config: unknown): string[] {
     if (typeof obj['tileSpacingY'] !== 'number') {
       errors.push('tileSpacingY must be a number');
     }
+    if ('recolor' in obj && typeof obj['recolor'] !== 'boolean') {
+      errors.push('recolor must be a boolean');
+    }
+    if ('color' in obj && typeof obj['color'] !== 'string') {
+      errors.push('color must be a string');
+    }
+  } else if (obj['type'] === 'qr') {
+    // Validate QR code watermark config; every field is required
+    if (!('blendMode' in obj)) {
+      errors.push('Missing required field: blendMode');
+    }
+    if (typeof obj['content'] !== 'string') {
+      errors.push('content must be a string');
+    }
+    if (!QR_ERROR_CORRECTION_LEVELS.includes(obj['errorCorrection'] as QrErrorCorrection)) {
+      errors.push(`errorCorrection must be one of: ${QR_ERROR_CORRECTION_LEVELS.join(', ')}`);
+    }
+    for (const key of ['color', 'backgroundColor']) {
+      if (typeof obj[key] !== 'string') {
+        errors.push(`${key} must be a string`);
+      }
+    }
+    for (const key of ['backgroundTransparent', 'tileEnabled']) {
+      if (typeof obj[key] !== 'boolean') {
+        errors.push(`${key} must be a boolean`);
+      }
+    }
+    for (const key of ['size', 'quietZone', 'opacity', 'tileSpacingX', 'tileSpacingY']) {
+      if (typeof obj[key] !== 'number') {
+        errors.push(`${key} must be a number`);
+      }
+    }
   } else {
-    errors.push('type must be "text" or "image"');
+    errors.push('type must be "text", "image" or "qr"');
   }
 
   return errors;
@@ -405,17 +961,37 @@ function validatePosition(position: unknown): string[] {
   if (typeof obj['marginLeft'] !== 'number') {
     errors.push('marginLeft must be a number');
   }
+  if ('autoCandidates' in obj && !(
+    Array.isArray(obj['autoCandidates']) &&
+    obj['autoCandidates'].every(candidate => isPresetPosition(candidate))
+  )) {
+    errors.push('autoCandidates must be a list of preset positions');
+  }
+  if ('autoGutters' in obj && typeof obj['autoGutters'] !== 'boolean') {
+    errors.push('autoGutters must be a boolean');
+  }
+  if ('unit' in obj && !POSITION_UNITS.includes(obj['unit'] as PositionUnit)) {
+    errors.push(`unit must be one of: ${POSITION_UNITS.join(', ')}`);
+  }
+  if ('sizeReference' in obj && !SIZE_REFERENCES.includes(obj['sizeReference'] as SizeReference)) {
+    errors.push(`sizeReference must be one of: ${SIZE_REFERENCES.join(', ')}`);
+  }
 
   return errors;
 }
 
 /**
  * Check if a string is valid base64
+ * SVG watermarks are stored as markup and pass as well.
  */
 export function isValidBase64(str: string): boolean {
   if (!str || typeof str !== 'string') {
     return false;
   }
+
+  if (isSvgImageData(str)) {
+    return true;
+  }
   
   // Handle data URLs
   if (str.startsWith('data:')) {
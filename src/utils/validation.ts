@@ -3,7 +3,12 @@
  * Requirements: 1.3, 1.4
  */
 
-import { SUPPORTED_IMAGE_FORMATS, type SupportedImageFormat } from '@/types';
+import {
+  SUPPORTED_IMAGE_FORMATS,
+  SUPPORTED_ARCHIVE_FORMATS,
+  type SupportedImageFormat,
+  type SupportedArchiveFormat,
+} from '@/types';
 
 /**
  * Default maximum file size in bytes (50MB)
@@ -46,6 +51,17 @@ export function isValidImageFormat(filename: string | File): boolean {
   return SUPPORTED_IMAGE_FORMATS.includes(extension as SupportedImageFormat);
 }
 
+/**
+ * Check if a file is a chapter archive (zip, cbz) that can be imported
+ * 
+ * @param filename - The filename or File object to check
+ * @returns true if the file is a supported archive
+ */
+export function isArchiveFile(filename: string | File): boolean {
+  const name = typeof filename === 'string' ? filename : filename.name;
+  return SUPPORTED_ARCHIVE_FORMATS.includes(getFileExtension(name) as SupportedArchiveFormat);
+}
+
 /**
  * Validation result for file size check
  */
@@ -0,0 +1,92 @@
+/**
+ * Render Worker
+ * Decodes a page, renders it with PageRenderer on OffscreenCanvas and
+ * posts the encoded Blob back to RenderWorkerPool
+ */
+
+import { renderPage } from '@/services/PageRenderer';
+import { loadWatermarkImages, type WatermarkImages } from '@/services/WatermarkRenderer';
+import { registerFonts } from '@/services/FontLibrary';
+import type { WatermarkSettings } from '@/types';
+import type {
+  RenderWorkerMessage,
+  RenderWorkerResponse,
+} from '@/services/RenderWorkerPool';
+
+/**
+ * Decoded watermark images by data URL, reused across pages
+ */
+let cachedWatermarks = new Map<string, ImageBitmap>();
+
+/**
+ * Custom fonts sent by the pool; jobs wait for them before rendering
+ */
+let fontsReady: Promise<void> = Promise.resolve();
+
+/**
+ * Font set of the worker scope (WorkerGlobalScope.fonts)
+ */
+const workerFonts = (self as unknown as { fonts?: FontFaceSet }).fonts ?? null;
+
+/**
+ * Decode a data URL into an ImageBitmap
+ * @param dataUrl - Image data URL
+ * @returns Promise resolving to the decoded bitmap
+ */
+async function decodeDataUrl(dataUrl: string): Promise<ImageBitmap> {
+  const response = await fetch(dataUrl);
+  return createImageBitmap(await response.blob());
+}
+
+/**
+ * Decode the watermark images of a job, keeping only the bitmaps
+ * still in use by its layers
+ * @param settings - Watermark settings of the job
+ * @returns Promise resolving to the bitmaps keyed by layer ID
+ */
+async function getWatermarkBitmaps(
+  settings: WatermarkSettings
+): Promise<WatermarkImages<ImageBitmap>> {
+  const used = new Map<string, ImageBitmap>();
+  const images = await loadWatermarkImages(settings, async (dataUrl) => {
+    const bitmap = cachedWatermarks.get(dataUrl) ?? await decodeDataUrl(dataUrl);
+    used.set(dataUrl, bitmap);
+    return bitmap;
+  });
+
+  for (const [dataUrl, bitmap] of cachedWatermarks) {
+    if (!used.has(dataUrl)) bitmap.close();
+  }
+  cachedWatermarks = used;
+  return images;
+}
+
+self.onmessage = async (event: MessageEvent<RenderWorkerMessage>) => {
+  if ('fonts' in event.data) {
+    const { fonts } = event.data;
+    const previous = fontsReady;
+    fontsReady = previous.then(() =>
+      workerFonts ? registerFonts(fonts, workerFonts) : undefined
+    );
+    return;
+  }
+
+  const { id, job } = event.data;
+  let response: RenderWorkerResponse;
+
+  try {
+    await fontsReady;
+    const page = await decodeDataUrl(job.imageDataUrl);
+    try {
+      const watermarkImages = await getWatermarkBitmaps(job.settings);
+      const blob = await renderPage(page, job.settings, job.options, watermarkImages);
+      response = { id, blob };
+    } finally {
+      page.close();
+    }
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+
+  self.postMessage(response);
+};